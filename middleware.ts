@@ -1,69 +0,0 @@
-import { createServerClient } from '@supabase/ssr'
-import { NextResponse, type NextRequest } from 'next/server'
-
-export async function middleware(request: NextRequest) {
-  let supabaseResponse = NextResponse.next({
-    request,
-  })
-
-  const supabase = createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        getAll() {
-          return request.cookies.getAll()
-        },
-        setAll(cookiesToSet) {
-          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
-          supabaseResponse = NextResponse.next({
-            request,
-          })
-          cookiesToSet.forEach(({ name, value, options }) =>
-            supabaseResponse.cookies.set(name, value, options)
-          )
-        },
-      },
-    }
-  )
-
-  const { pathname } = request.nextUrl
-
-  // Define protected routes
-  const protectedRoutes = ['/feed', '/workout', '/profile', '/friends']
-  const publicRoutes = ['/login', '/register', '/profile-setup']
-  
-  // Check if current path is protected
-  const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route))
-  const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route))
-  const isRoot = pathname === '/'
-
-  // For now, we'll allow all routes since we're using direct authentication
-  // In production, you'd implement proper session management
-  // and check for authentication tokens/cookies
-
-  // Handle root redirect
-  if (isRoot) {
-    // Redirect to login for now (can be changed to feed when user is authenticated)
-    return NextResponse.redirect(new URL('/login', request.url))
-  }
-
-  // Allow all other routes for now
-  // TODO: Implement proper authentication checking
-
-  return supabaseResponse
-}
-
-export const config = {
-  matcher: [
-    /*
-     * Match all request paths except for the ones starting with:
-     * - _next/static (static files)
-     * - _next/image (image optimization files)
-     * - favicon.ico (favicon file)
-     * - api routes
-     * Feel free to modify this pattern to include more paths.
-     */
-    '/((?!_next/static|_next/image|favicon.ico|api/|icons/).*)',
-  ],
-}
@@ -0,0 +1,65 @@
+// Local stand-in for Vercel Cron: calls each scheduled job on the running
+// dev server on its own interval, the way vercel.json does in production.
+//
+//   npm run jobs             # keep running alongside `npm run dev`
+//   npm run jobs -- --once   # run every job once and exit
+
+const MINUTE_MS = 60 * 1000;
+const JOBS = [
+  { name: 'workout-changes', everyMs: MINUTE_MS },
+  { name: 'workout-reminders', everyMs: MINUTE_MS },
+  { name: 'cleanup', everyMs: 24 * 60 * MINUTE_MS },
+];
+const lastRuns = new Map();
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Fine when the variables come from the environment instead
+}
+
+const baseUrl = process.env.JOBS_BASE_URL || 'http://localhost:3000';
+const secret = process.env.CRON_SECRET;
+
+if (!secret) {
+  console.error('CRON_SECRET is not set (see SETUP.md, Step 8)');
+  process.exit(1);
+}
+
+// Runs the jobs that are due (all of them when force is set)
+async function runJobs(force = false) {
+  for (const { name: job, everyMs } of JOBS) {
+    if (!force && Date.now() - (lastRuns.get(job) ?? -Infinity) < everyMs) {
+      continue;
+    }
+    lastRuns.set(job, Date.now());
+
+    try {
+      const response = await fetch(`${baseUrl}/api/jobs/${job}`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        console.log(`[${new Date().toISOString()}] ${job}:`, result.summary);
+      } else {
+        console.error(`[${new Date().toISOString()}] ${job} failed (${response.status}):`, result.error || response.statusText);
+      }
+    } catch (err) {
+      console.error(`[${new Date().toISOString()}] ${job} failed:`, err.message);
+    }
+  }
+}
+
+// Runs never overlap: the next one is scheduled after the last finishes
+async function loop() {
+  await runJobs();
+  setTimeout(loop, MINUTE_MS);
+}
+
+if (process.argv.includes('--once')) {
+  await runJobs(true);
+} else {
+  await loop();
+}
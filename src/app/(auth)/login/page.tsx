@@ -4,39 +4,51 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/context/AuthContext';
 import { 
-  formatPhoneAsUserTypes
+  DEFAULT_PHONE_COUNTRY,
+  formatPhoneAsUserTypes,
+  getPhonePlaceholder,
+  toE164
 } from '@/lib/utils/phone';
-import { 
-  validatePhoneNumber, 
-  validatePassword
-} from '@/lib/utils/validation';
+import { CountrySelect } from '@/components/CountrySelect';
+import { loginSchema, phoneNumberSchema } from '@/lib/utils/validation';
 import { createErrorInfo, displayError } from '@/lib/utils/errors';
+import { getReturnPathFromLocation } from '@/lib/utils/redirect';
 
 interface FormData {
-  countryCode: string;
+  country: string; // ISO country for national numbers
   phone: string;
   password: string;
+  code: string;
 }
 
 interface FormErrors {
-  countryCode?: string;
+  country?: string;
   phone?: string;
   password?: string;
+  code?: string;
 }
 
+type LoginMethod = 'password' | 'code';
+
+const LOGIN_CODE_LENGTH = 6;
+
 export default function LoginPage() {
   const router = useRouter();
-  const { signIn } = useAuth();
+  const { signIn, requestLoginCode, signInWithCode } = useAuth();
   
   const [formData, setFormData] = useState<FormData>({
-    countryCode: '+1',
+    country: DEFAULT_PHONE_COUNTRY,
     phone: '',
     password: '',
+    code: '',
   });
   
   const [errors, setErrors] = useState<FormErrors>({});
   const [isLoading, setIsLoading] = useState(false);
   const [submitError, setSubmitError] = useState<string>('');
+  const [loginMethod, setLoginMethod] = useState<LoginMethod>('password');
+  const [codeSent, setCodeSent] = useState(false);
+  const [notice, setNotice] = useState<string>('');
 
   // Handle input changes
   const handleInputChange = (field: keyof FormData, value: string) => {
@@ -44,12 +56,19 @@ export default function LoginPage() {
     
     // Format phone number as user types
     if (field === 'phone') {
-      formattedValue = formatPhoneAsUserTypes(value);
+      formattedValue = formatPhoneAsUserTypes(value, formData.country);
+    }
+
+    // Login codes are digits only
+    if (field === 'code') {
+      formattedValue = value.replace(/\D/g, '').slice(0, LOGIN_CODE_LENGTH);
     }
     
     setFormData(prev => ({
       ...prev,
-      [field]: formattedValue
+      [field]: formattedValue,
+      // Reformat the number for the newly picked country
+      ...(field === 'country' ? { phone: formatPhoneAsUserTypes(prev.phone, value) } : {})
     }));
     
     // Clear field-specific error when user starts typing
@@ -73,14 +92,11 @@ export default function LoginPage() {
 
     switch (field) {
       case 'phone':
-        // Combine country code and phone number for validation
-        const fullPhone = formData.countryCode + value.replace(/\D/g, '');
-        const phoneValidation = validatePhoneNumber(fullPhone);
-        error = phoneValidation.valid ? undefined : phoneValidation.message;
+        // National numbers are read using the selected country
+        error = phoneNumberSchema(formData.country).errorFor(value);
         break;
       case 'password':
-        const passwordValidation = validatePassword(value);
-        error = passwordValidation.valid ? undefined : passwordValidation.message;
+        error = loginSchema.shape.password.errorFor(value);
         break;
     }
 
@@ -96,21 +112,21 @@ export default function LoginPage() {
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
-    // Validate phone (combine with country code)
-    const fullPhone = formData.countryCode + formData.phone.replace(/\D/g, '');
-    const phoneValidation = validatePhoneNumber(fullPhone);
-    if (!phoneValidation.valid) {
-      newErrors.phone = phoneValidation.message;
-    }
+    // Validate phone (national numbers use the selected country)
+    newErrors.phone = phoneNumberSchema(formData.country).errorFor(formData.phone);
 
     // Validate password
-    const passwordValidation = validatePassword(formData.password);
-    if (!passwordValidation.valid) {
-      newErrors.password = passwordValidation.message;
+    if (loginMethod === 'password') {
+      newErrors.password = loginSchema.shape.password.errorFor(formData.password);
+    }
+
+    // Validate login code once one has been sent
+    if (loginMethod === 'code' && codeSent && formData.code.length !== LOGIN_CODE_LENGTH) {
+      newErrors.code = `Enter the ${LOGIN_CODE_LENGTH}-digit code we texted you`;
     }
 
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.values(newErrors).every(error => !error);
   };
 
   // Handle form submission
@@ -125,13 +141,24 @@ export default function LoginPage() {
     setSubmitError('');
 
     try {
-      // Combine country code and phone number
-      const fullPhone = formData.countryCode + formData.phone.replace(/\D/g, '');
+      // Normalize to E.164 using the selected country
+      const fullPhone = toE164(formData.phone, formData.country) ?? formData.phone;
       
-      await signIn(fullPhone, formData.password);
+      if (loginMethod === 'code' && !codeSent) {
+        await requestLoginCode(fullPhone);
+        setCodeSent(true);
+        setNotice('If this number has an account, we just texted it a login code.');
+        return;
+      }
+
+      if (loginMethod === 'code') {
+        await signInWithCode(fullPhone, formData.code);
+      } else {
+        await signIn(fullPhone, formData.password);
+      }
       
-      // Redirect to feed on success
-      router.push('/feed');
+      // Return to the page that required login (defaults to the feed)
+      router.push(getReturnPathFromLocation());
     } catch (error) {
       console.error('Login error:', error);
       
@@ -146,6 +173,37 @@ export default function LoginPage() {
     }
   };
 
+  // Send another code to the same number
+  const handleResendCode = async () => {
+    setIsLoading(true);
+    setSubmitError('');
+
+    try {
+      await requestLoginCode(toE164(formData.phone, formData.country) ?? formData.phone);
+      setFormData(prev => ({ ...prev, code: '' }));
+      setNotice('A new code is on its way.');
+    } catch (error) {
+      const errorDetails = createErrorInfo(error, 'login');
+      setSubmitError(displayError(errorDetails));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Switch between password and text-message login
+  const switchLoginMethod = (method: LoginMethod) => {
+    setLoginMethod(method);
+    setCodeSent(false);
+    setNotice('');
+    setSubmitError('');
+    setErrors({});
+    setFormData(prev => ({ ...prev, password: '', code: '' }));
+  };
+
+  const submitLabel = loginMethod === 'password'
+    ? 'SIGN IN'
+    : codeSent ? 'VERIFY CODE' : 'TEXT ME A CODE';
+
   return (
     <div className="flex flex-col h-screen">
       <div className="flex-grow bg-background-light dark:bg-black p-4">
@@ -167,27 +225,16 @@ export default function LoginPage() {
                   Phone Number*
                 </label>
                 <div className="flex gap-2">
-                  <select
-                    value={formData.countryCode}
-                    onChange={(e) => handleInputChange('countryCode', e.target.value)}
+                  <CountrySelect
+                    value={formData.country}
+                    onChange={(country) => handleInputChange('country', country)}
                     className="h-12 px-3 bg-white dark:bg-[#0a0a0a] border border-gray-300 dark:border-[#2a2a2a] rounded-lg text-gray-900 dark:text-[#e0e0e0] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300"
-                    disabled={isLoading}
-                  >
-                    <option value="+1">🇺🇸 +1</option>
-                    <option value="+44">🇬🇧 +44</option>
-                    <option value="+49">🇩🇪 +49</option>
-                    <option value="+33">🇫🇷 +33</option>
-                    <option value="+81">🇯🇵 +81</option>
-                    <option value="+86">🇨🇳 +86</option>
-                    <option value="+91">🇮🇳 +91</option>
-                    <option value="+55">🇧🇷 +55</option>
-                    <option value="+61">🇦🇺 +61</option>
-                    <option value="+39">🇮🇹 +39</option>
-                  </select>
+                    disabled={isLoading || codeSent}
+                  />
                   <input
                     id="phone"
                     type="tel"
-                    placeholder="+1 (555) 555-5555"
+                    placeholder={getPhonePlaceholder(formData.country)}
                     value={formData.phone}
                     onChange={(e) => handleInputChange('phone', e.target.value)}
                     onBlur={() => handleFieldBlur('phone')}
@@ -196,7 +243,7 @@ export default function LoginPage() {
                         ? 'border-red-500 focus:ring-red-500 focus:border-red-500' 
                         : 'border-gray-300 dark:border-[#2a2a2a]'
                     }`}
-                    disabled={isLoading}
+                    disabled={isLoading || codeSent}
                   />
                 </div>
                 {errors.phone && (
@@ -210,33 +257,92 @@ export default function LoginPage() {
               </div>
 
               {/* Password Field */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="password">
-                  Password*
-                </label>
-                <input
-                  id="password"
-                  type="password"
-                  placeholder="Enter your password"
-                  value={formData.password}
-                  onChange={(e) => handleInputChange('password', e.target.value)}
-                  onBlur={() => handleFieldBlur('password')}
-                  className={`w-full h-12 px-4 bg-white dark:bg-[#0a0a0a] border rounded-lg text-gray-900 dark:text-[#e0e0e0] placeholder-gray-400 dark:placeholder-[#666666] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300 ${
-                    errors.password 
-                      ? 'border-red-500 focus:ring-red-500 focus:border-red-500' 
-                      : 'border-gray-300 dark:border-[#2a2a2a]'
-                  }`}
-                  disabled={isLoading}
-                />
-                {errors.password && (
-                  <div className="mt-1 flex items-center text-sm text-red-500">
-                    <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                    </svg>
-                    {errors.password}
+              {loginMethod === 'password' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="password">
+                    Password*
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={formData.password}
+                    onChange={(e) => handleInputChange('password', e.target.value)}
+                    onBlur={() => handleFieldBlur('password')}
+                    className={`w-full h-12 px-4 bg-white dark:bg-[#0a0a0a] border rounded-lg text-gray-900 dark:text-[#e0e0e0] placeholder-gray-400 dark:placeholder-[#666666] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300 ${
+                      errors.password 
+                        ? 'border-red-500 focus:ring-red-500 focus:border-red-500' 
+                        : 'border-gray-300 dark:border-[#2a2a2a]'
+                    }`}
+                    disabled={isLoading}
+                  />
+                  {errors.password && (
+                    <div className="mt-1 flex items-center text-sm text-red-500">
+                      <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                      </svg>
+                      {errors.password}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Login Code Field */}
+              {loginMethod === 'code' && codeSent && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="code">
+                    Login Code*
+                  </label>
+                  <input
+                    id="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder={'0'.repeat(LOGIN_CODE_LENGTH)}
+                    value={formData.code}
+                    onChange={(e) => handleInputChange('code', e.target.value)}
+                    className={`w-full h-12 px-4 bg-white dark:bg-[#0a0a0a] border rounded-lg text-gray-900 dark:text-[#e0e0e0] tracking-[0.5em] placeholder-gray-400 dark:placeholder-[#666666] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300 ${
+                      errors.code
+                        ? 'border-red-500 focus:ring-red-500 focus:border-red-500'
+                        : 'border-gray-300 dark:border-[#2a2a2a]'
+                    }`}
+                    disabled={isLoading}
+                  />
+                  {errors.code && (
+                    <div className="mt-1 flex items-center text-sm text-red-500">
+                      <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                      </svg>
+                      {errors.code}
+                    </div>
+                  )}
+                  <div className="mt-2 flex justify-between text-sm">
+                    <button
+                      type="button"
+                      onClick={handleResendCode}
+                      disabled={isLoading}
+                      className="text-gray-600 dark:text-[#a0a0a0] hover:text-[#ff8c42] transition-colors duration-300"
+                    >
+                      Resend code
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => switchLoginMethod('code')}
+                      disabled={isLoading}
+                      className="text-gray-600 dark:text-[#a0a0a0] hover:text-[#ff8c42] transition-colors duration-300"
+                    >
+                      Use a different number
+                    </button>
                   </div>
-                )}
-              </div>
+                </div>
+              )}
+
+              {/* Notice */}
+              {notice && !submitError && (
+                <div className="text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 p-3 rounded-lg border border-green-200 dark:border-green-800">
+                  {notice}
+                </div>
+              )}
 
               {/* Submit Error */}
               {submitError && (
@@ -264,16 +370,24 @@ export default function LoginPage() {
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                     </svg>
-                    SIGNING IN...
+                    {loginMethod === 'code' && !codeSent ? 'SENDING...' : 'SIGNING IN...'}
                   </div>
                 ) : (
-                  'SIGN IN'
+                  submitLabel
                 )}
               </button>
             </form>
 
             {/* Links */}
             <div className="mt-6 space-y-3 text-center">
+              <button
+                type="button"
+                onClick={() => switchLoginMethod(loginMethod === 'password' ? 'code' : 'password')}
+                disabled={isLoading}
+                className="block w-full text-sm text-gray-600 dark:text-[#a0a0a0] hover:text-[#ff8c42] dark:hover:text-[#ff8c42] transition-colors duration-300"
+              >
+                {loginMethod === 'password' ? 'Text me a login code instead' : 'Sign in with my password instead'}
+              </button>
               <a
                 href="/register"
                 className="block text-sm text-gray-600 dark:text-[#a0a0a0] hover:text-[#ff8c42] dark:hover:text-[#ff8c42] transition-colors duration-300"
@@ -281,9 +395,8 @@ export default function LoginPage() {
                 Don&apos;t have an account? Sign up
               </a>
               <a
-                href="#"
+                href="/reset-password"
                 className="block text-sm text-gray-500 dark:text-[#666666] hover:text-[#ff8c42] dark:hover:text-[#ff8c42] transition-colors duration-300"
-                onClick={(e) => e.preventDefault()}
               >
                 Forgot password?
               </a>
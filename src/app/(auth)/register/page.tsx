@@ -4,18 +4,17 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/context/AuthContext';
 import { 
-  formatPhoneAsUserTypes
+  DEFAULT_PHONE_COUNTRY,
+  formatPhoneAsUserTypes,
+  getPhonePlaceholder,
+  toE164
 } from '@/lib/utils/phone';
-import { 
-  validatePhoneNumber, 
-  validatePassword, 
-  validateEmail, 
-  validateName 
-} from '@/lib/utils/validation';
+import { CountrySelect } from '@/components/CountrySelect';
+import { phoneNumberSchema, registerSchema } from '@/lib/utils/validation';
 import { createErrorInfo, displayError } from '@/lib/utils/errors';
 
 interface FormData {
-  countryCode: string;
+  country: string; // ISO country for national numbers
   phone: string;
   password: string;
   name: string;
@@ -23,19 +22,31 @@ interface FormData {
 }
 
 interface FormErrors {
-  countryCode?: string;
+  country?: string;
   phone?: string;
   password?: string;
   name?: string;
   email?: string;
 }
 
+// Registration payload for the form; national numbers are read using the
+// selected country
+const formSchema = (country: string) =>
+  registerSchema.extend({ phone_number: phoneNumberSchema(country) });
+
+const toPayload = (formData: FormData) => ({
+  phone_number: formData.phone,
+  password: formData.password,
+  name: formData.name,
+  email: formData.email,
+});
+
 export default function RegisterPage() {
   const router = useRouter();
   const { signUp } = useAuth();
   
   const [formData, setFormData] = useState<FormData>({
-    countryCode: '+1',
+    country: DEFAULT_PHONE_COUNTRY,
     phone: '',
     password: '',
     name: '',
@@ -61,9 +72,9 @@ export default function RegisterPage() {
   const handleInputChange = (field: keyof FormData, value: string) => {
     let formattedValue = value;
     
-    // Format phone number as user types (only if it's not countryCode)
+    // Format phone number as user types
     if (field === 'phone') {
-      formattedValue = formatPhoneAsUserTypes(value);
+      formattedValue = formatPhoneAsUserTypes(value, formData.country);
     }
     
     // Calculate password strength
@@ -73,7 +84,9 @@ export default function RegisterPage() {
     
     setFormData(prev => ({
       ...prev,
-      [field]: formattedValue
+      [field]: formattedValue,
+      // Reformat the number for the newly picked country
+      ...(field === 'country' ? { phone: formatPhoneAsUserTypes(prev.phone, value) } : {})
     }));
     
     // Clear field-specific error when user starts typing
@@ -92,29 +105,8 @@ export default function RegisterPage() {
 
   // Validate field on blur
   const handleFieldBlur = (field: keyof FormData) => {
-    const value = formData[field];
-    let error: string | undefined;
-
-    switch (field) {
-      case 'phone':
-        // Combine country code and phone number for validation
-        const fullPhone = formData.countryCode + value.replace(/\D/g, '');
-        const phoneValidation = validatePhoneNumber(fullPhone);
-        error = phoneValidation.valid ? undefined : phoneValidation.message;
-        break;
-      case 'password':
-        const passwordValidation = validatePassword(value);
-        error = passwordValidation.valid ? undefined : passwordValidation.message;
-        break;
-      case 'name':
-        const nameValidation = validateName(value);
-        error = nameValidation.valid ? undefined : nameValidation.message;
-        break;
-      case 'email':
-        const emailValidation = validateEmail(value);
-        error = emailValidation?.valid ? undefined : emailValidation?.message;
-        break;
-    }
+    const { errors: fieldErrors } = formSchema(formData.country).parse(toPayload(formData));
+    const error = fieldErrors?.[field === 'phone' ? 'phone_number' : field];
 
     if (error) {
       setErrors(prev => ({
@@ -126,35 +118,15 @@ export default function RegisterPage() {
 
   // Validate all fields
   const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
-
-    // Validate phone (combine with country code)
-    const fullPhone = formData.countryCode + formData.phone.replace(/\D/g, '');
-    const phoneValidation = validatePhoneNumber(fullPhone);
-    if (!phoneValidation.valid) {
-      newErrors.phone = phoneValidation.message;
-    }
+    const { errors: fieldErrors = {} } = formSchema(formData.country).parse(toPayload(formData));
 
-    // Validate password
-    const passwordValidation = validatePassword(formData.password);
-    if (!passwordValidation.valid) {
-      newErrors.password = passwordValidation.message;
-    }
-
-    // Validate name
-    const nameValidation = validateName(formData.name);
-    if (!nameValidation.valid) {
-      newErrors.name = nameValidation.message;
-    }
-
-    // Validate email (optional)
-    const emailValidation = validateEmail(formData.email);
-    if (emailValidation && !emailValidation.valid) {
-      newErrors.email = emailValidation.message;
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    setErrors({
+      phone: fieldErrors.phone_number,
+      password: fieldErrors.password,
+      name: fieldErrors.name,
+      email: fieldErrors.email,
+    });
+    return Object.keys(fieldErrors).length === 0;
   };
 
   // Handle form submission
@@ -169,8 +141,8 @@ export default function RegisterPage() {
     setSubmitError('');
 
     try {
-      // Combine country code and phone number
-      const fullPhone = formData.countryCode + formData.phone.replace(/\D/g, '');
+      // Normalize to E.164 using the selected country
+      const fullPhone = toE164(formData.phone, formData.country) ?? formData.phone;
       
       await signUp(
         fullPhone,
@@ -254,27 +226,16 @@ export default function RegisterPage() {
                   Phone Number*
                 </label>
                 <div className="flex gap-2">
-                  <select
-                    value={formData.countryCode}
-                    onChange={(e) => handleInputChange('countryCode', e.target.value)}
+                  <CountrySelect
+                    value={formData.country}
+                    onChange={(country) => handleInputChange('country', country)}
                     className="h-12 px-3 bg-white dark:bg-[#0a0a0a] border border-gray-300 dark:border-[#2a2a2a] rounded-lg text-gray-900 dark:text-[#e0e0e0] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300"
                     disabled={isLoading}
-                  >
-                    <option value="+1">🇺🇸 +1</option>
-                    <option value="+44">🇬🇧 +44</option>
-                    <option value="+49">🇩🇪 +49</option>
-                    <option value="+33">🇫🇷 +33</option>
-                    <option value="+81">🇯🇵 +81</option>
-                    <option value="+86">🇨🇳 +86</option>
-                    <option value="+91">🇮🇳 +91</option>
-                    <option value="+55">🇧🇷 +55</option>
-                    <option value="+61">🇦🇺 +61</option>
-                    <option value="+39">🇮🇹 +39</option>
-                  </select>
+                  />
                   <input
                     id="phone"
                     type="tel"
-                    placeholder="(555) 123-4567"
+                    placeholder={getPhonePlaceholder(formData.country)}
                     value={formData.phone}
                     onChange={(e) => handleInputChange('phone', e.target.value)}
                     onBlur={() => handleFieldBlur('phone')}
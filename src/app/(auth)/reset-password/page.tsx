@@ -0,0 +1,269 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_PHONE_COUNTRY,
+  formatPhoneAsUserTypes,
+  getPhonePlaceholder,
+  toE164
+} from '@/lib/utils/phone';
+import { emailSchema, passwordSchema, phoneNumberSchema } from '@/lib/utils/validation';
+import { CountrySelect } from '@/components/CountrySelect';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+import { api, ApiError } from '@/lib/api/client';
+
+type ResetMethod = 'phone' | 'email';
+
+const inputClassName = 'w-full h-12 px-4 bg-white dark:bg-[#0a0a0a] border border-gray-300 dark:border-[#2a2a2a] rounded-lg text-gray-900 dark:text-[#e0e0e0] placeholder-gray-400 dark:placeholder-[#666666] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300';
+
+const buttonClassName = 'w-full h-12 bg-[#ff8c42] text-black font-bold rounded-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-[#ff8c42] dark:focus:ring-offset-[#1a1a1a] transition-all duration-300 hover:bg-[#ff8c42]/90 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function ResetPasswordPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [method, setMethod] = useState<ResetMethod>('phone');
+  const [country, setCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isReset, setIsReset] = useState(false);
+
+  // The reset link carries the token in the query string
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get('token'));
+  }, []);
+
+  const handleError = (err: unknown) => {
+    // Server messages for reset requests are already user-facing
+    const serverMessage = err instanceof ApiError ? err.message : undefined;
+    const errorDetails = createErrorInfo(err, 'password-reset', serverMessage);
+    setError(displayError(errorDetails));
+  };
+
+  // Ask for a reset link
+  const handleRequestLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+
+    const inputError = method === 'phone'
+      ? phoneNumberSchema(country).errorFor(phone)
+      : email.trim() ? emailSchema.errorFor(email) : 'Email address is required';
+
+    if (inputError) {
+      setError(inputError);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await api.forgotPassword(method === 'phone'
+        ? { phone_number: toE164(phone, country) ?? phone, channel: 'sms' }
+        : { email: email.trim(), channel: 'email' });
+      setNotice(result.message);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Choose the new password
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const passwordError = passwordSchema.errorFor(password);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await api.resetPassword({ token: token ?? '', password });
+      setIsReset(true);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-screen">
+      <div className="flex-grow bg-background-light dark:bg-black p-4">
+        <div className="max-w-md mx-auto">
+          <div className="bg-background-light dark:bg-[#1a1a1a] p-6 rounded-xl shadow-lg border-2 border-background-dark/50 dark:border-[#2a2a2a]/80">
+            <div className="text-center mb-6">
+              <h1 className="text-4xl font-bold bg-gradient-to-r from-[#ff8c42] to-[#f8d03a] bg-clip-text text-transparent">
+                {token ? 'New Password' : 'Reset Password'}
+              </h1>
+              <p className="text-gray-600 dark:text-[#a0a0a0] mt-2">
+                {token
+                  ? 'Choose a new password for your account.'
+                  : "We'll send you a link to choose a new password."}
+              </p>
+            </div>
+
+            {isReset ? (
+              <div className="space-y-6 text-center">
+                <p className="text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 p-3 rounded-lg border border-green-200 dark:border-green-800">
+                  Your password has been reset and you&apos;ve been signed out everywhere.
+                </p>
+                <a href="/login" className={`${buttonClassName} flex items-center justify-center`}>
+                  SIGN IN
+                </a>
+              </div>
+            ) : token ? (
+              <form onSubmit={handleResetPassword} className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="password">
+                    New Password*
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="At least 8 characters, with a letter and a number"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClassName}
+                    disabled={isLoading}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="confirm-password">
+                    Confirm Password*
+                  </label>
+                  <input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={inputClassName}
+                    disabled={isLoading}
+                  />
+                </div>
+
+                {error && (
+                  <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-200 dark:border-red-800">
+                    {error}
+                  </div>
+                )}
+
+                <button type="submit" disabled={isLoading} className={buttonClassName}>
+                  {isLoading ? 'SAVING...' : 'RESET PASSWORD'}
+                </button>
+              </form>
+            ) : (
+              <form onSubmit={handleRequestLink} className="space-y-6">
+                {/* Delivery method */}
+                <div className="grid grid-cols-2 gap-2">
+                  {(['phone', 'email'] as ResetMethod[]).map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => {
+                        setMethod(option);
+                        setError('');
+                        setNotice('');
+                      }}
+                      className={`h-10 rounded-lg text-sm font-medium transition-all duration-300 ${
+                        method === option
+                          ? 'bg-[#ff8c42] text-black'
+                          : 'bg-gray-100 dark:bg-[#0a0a0a] text-gray-600 dark:text-[#a0a0a0] border border-gray-300 dark:border-[#2a2a2a]'
+                      }`}
+                    >
+                      {option === 'phone' ? 'Text me a link' : 'Email me a link'}
+                    </button>
+                  ))}
+                </div>
+
+                {method === 'phone' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="phone">
+                      Phone Number*
+                    </label>
+                    <div className="flex gap-2">
+                      <CountrySelect
+                        value={country}
+                        onChange={(value) => {
+                          setCountry(value);
+                          setPhone(formatPhoneAsUserTypes(phone, value));
+                        }}
+                        className="h-12 px-3 bg-white dark:bg-[#0a0a0a] border border-gray-300 dark:border-[#2a2a2a] rounded-lg text-gray-900 dark:text-[#e0e0e0] focus:outline-none focus:ring-2 focus:ring-[#ff8c42] focus:border-[#ff8c42] transition-all duration-300"
+                        disabled={isLoading}
+                      />
+                      <input
+                        id="phone"
+                        type="tel"
+                        placeholder={getPhonePlaceholder(country)}
+                        value={phone}
+                        onChange={(e) => setPhone(formatPhoneAsUserTypes(e.target.value, country))}
+                        className={inputClassName}
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-[#e0e0e0] mb-1" htmlFor="email">
+                      Email*
+                    </label>
+                    <input
+                      id="email"
+                      type="email"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className={inputClassName}
+                      disabled={isLoading}
+                    />
+                  </div>
+                )}
+
+                {error && (
+                  <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 p-3 rounded-lg border border-red-200 dark:border-red-800">
+                    {error}
+                  </div>
+                )}
+
+                {notice && (
+                  <div className="text-sm text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20 p-3 rounded-lg border border-green-200 dark:border-green-800">
+                    {notice}
+                  </div>
+                )}
+
+                <button type="submit" disabled={isLoading} className={buttonClassName}>
+                  {isLoading ? 'SENDING...' : 'SEND RESET LINK'}
+                </button>
+              </form>
+            )}
+
+            {/* Links */}
+            <div className="mt-6 text-center">
+              <a
+                href="/login"
+                className="text-sm text-gray-600 dark:text-[#a0a0a0] hover:text-[#ff8c42] dark:hover:text-[#ff8c42] transition-colors duration-300"
+              >
+                Back to sign in
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { type Activity } from '@/types/database';
+import { formatWorkoutTime } from '@/lib/services/workouts';
+import {
+  isTrackFileExportFormat,
+  serializeTrackFile,
+  trackFileName,
+  TRACK_FILE_CONTENT_TYPES,
+} from '@/lib/services/trackFiles';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Download one of the current user's activities as GPX or TCX
+  GET: apiHandler({}, async ({ request, params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+    const format = request.nextUrl.searchParams.get('format') || 'gpx';
+
+    if (!isTrackFileExportFormat(format)) {
+      return errorResponse(400, {
+        error: 'Format must be "gpx" or "tcx"',
+        code: 'UNSUPPORTED_FORMAT'
+      });
+    }
+
+    const { data: activity, error: fetchError } = await supabase
+      .from('activities')
+      .select('*, workout:workouts(title)')
+      .eq('id', id)
+      .eq('user_id', authUser.id)
+      .maybeSingle<Activity & { workout: { title: string } | null }>();
+
+    if (fetchError) {
+      console.error('Activity fetch error:', fetchError);
+      return errorResponse(500, {
+        error: 'Failed to fetch activity',
+        details: 'Unable to retrieve activity',
+        code: 'ACTIVITY_FETCH_ERROR'
+      });
+    }
+
+    if (!activity) {
+      return errorResponse(404, {
+        error: 'Activity not found',
+        code: 'ACTIVITY_NOT_FOUND'
+      });
+    }
+
+    const activityLabel = activity.activity_type.charAt(0).toUpperCase() + activity.activity_type.slice(1);
+    const name = activity.workout?.title || `${activityLabel} ${formatWorkoutTime(activity.started_at)}`;
+    const body = serializeTrackFile(format, {
+      name,
+      activity_type: activity.activity_type,
+      track: activity.track,
+    });
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': TRACK_FILE_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${trackFileName(name, format)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  }),
+});
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import type { User as AuthUser } from '@supabase/supabase-js';
+import { type ReactionSummary } from '@/types/database';
+import {
+  addReaction,
+  loadReactions,
+  parseReactionPayload,
+  removeReaction,
+} from '@/lib/services/comments';
+import { apiHandler, defineRoute, jsonObject, type ApiContext, type ErrorResponder } from '@/lib/api/handler';
+
+// Response types
+interface ReactionsResponse {
+  reactions: ReactionSummary[];
+}
+
+// Map an insert/delete error to a response
+function reactionErrorResponse(error: { code: string }, errorResponse: ErrorResponder): NextResponse {
+  // RLS rejects activities from users who are not friends
+  if (error.code === '42501') {
+    return errorResponse(403, {
+      error: 'You can only react to your friends\' activities',
+      code: 'REACTION_NOT_ALLOWED'
+    });
+  }
+
+  // Foreign key violation: the activity does not exist
+  if (error.code === '23503') {
+    return errorResponse(404, {
+      error: 'Activity not found',
+      code: 'ACTIVITY_NOT_FOUND'
+    });
+  }
+
+  console.error('Activity reaction error:', error);
+  return errorResponse(500, {
+    error: 'Failed to update reaction',
+    details: 'Please try again later',
+    code: 'REACTION_ERROR'
+  });
+}
+
+// Run a reaction change for the current user and return the activity's new summary
+async function updateReaction(
+  { params, supabase, user: authUser, errorResponse }: ApiContext<unknown, AuthUser>,
+  body: Record<string, unknown>,
+  change: typeof addReaction
+): Promise<NextResponse> {
+  const activityId = params.id;
+  const payload = parseReactionPayload({ emoji: body.emoji });
+
+  if (payload.error) {
+    return errorResponse(400, payload.error);
+  }
+
+  const target = { activity_id: activityId };
+  const changeError = await change(supabase, authUser.id, target, payload.data.emoji);
+
+  if (changeError) {
+    return reactionErrorResponse(changeError, errorResponse);
+  }
+
+  const response: ReactionsResponse = {
+    reactions: await loadReactions(supabase, target, authUser.id),
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - React to an activity
+  POST: apiHandler({ body: jsonObject() }, context => updateReaction(context, context.body, addReaction)),
+
+  // DELETE method - Remove a reaction (`emoji` query parameter)
+  DELETE: apiHandler({}, context =>
+    updateReaction(context, { emoji: context.request.nextUrl.searchParams.get('emoji') }, removeReaction)
+  ),
+});
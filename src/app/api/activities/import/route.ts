@@ -0,0 +1,196 @@
+import { NextResponse } from 'next/server';
+import {
+  ActivitySource,
+  ActivityType,
+  VALIDATION_LIMITS,
+  type ActivityInsert,
+  type ActivitySummary,
+  type RoutePoint,
+} from '@/types/database';
+import { ACTIVITY_SUMMARY_SELECT, parseActivityPayload, summarizeTrack } from '@/lib/services/activities';
+import {
+  detectTrackFileFormat,
+  parseTrackFile,
+  simplifyRoute,
+  type TrackFileFormat,
+} from '@/lib/services/trackFiles';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface ImportActivityResponse {
+  activity: ActivitySummary;
+}
+
+interface ImportRouteResponse {
+  route: RoutePoint[];
+}
+
+// What an uploaded file is imported as
+type ImportTarget = 'activity' | 'route';
+
+const IMPORT_SOURCES: Record<TrackFileFormat, ActivitySource> = {
+  gpx: ActivitySource.GPX,
+  tcx: ActivitySource.TCX,
+  fit: ActivitySource.FIT,
+};
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Import a GPX/TCX/FIT file as an activity, or as a workout's planned route
+  // Expects multipart/form-data with `file`, optional `workout_id`, `activity_type`
+  // and `target` ("activity" by default, or "route" for hosts)
+  POST: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    // Parse form data
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return errorResponse(400, {
+        error: 'Expected a multipart/form-data upload',
+        code: 'INVALID_FORM_DATA'
+      });
+    }
+
+    const file = form.get('file');
+    const target = (form.get('target') || 'activity') as ImportTarget;
+    const workoutId = (form.get('workout_id') as string | null) || null;
+    const requestedType = (form.get('activity_type') as string | null) || null;
+
+    if (!(file instanceof File)) {
+      return errorResponse(400, {
+        error: 'Please choose a GPX, TCX or FIT file to import',
+        code: 'FILE_REQUIRED'
+      });
+    }
+
+    if (target !== 'activity' && target !== 'route') {
+      return errorResponse(400, {
+        error: 'Target must be "activity" or "route"',
+        code: 'INVALID_TARGET'
+      });
+    }
+
+    if (file.size > VALIDATION_LIMITS.ACTIVITY_FILE_MAX_BYTES) {
+      return errorResponse(413, {
+        error: `Files are limited to ${VALIDATION_LIMITS.ACTIVITY_FILE_MAX_BYTES / (1024 * 1024)} MB`,
+        code: 'FILE_TOO_LARGE'
+      });
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const format = detectTrackFileFormat(file.name, bytes);
+
+    if (!format) {
+      return errorResponse(415, {
+        error: 'Unsupported file type. Please upload a GPX, TCX or FIT file',
+        code: 'UNSUPPORTED_FORMAT'
+      });
+    }
+
+    const parsed = parseTrackFile(format, bytes);
+
+    if (parsed.error !== undefined) {
+      return errorResponse(400, {
+        error: parsed.error,
+        code: 'INVALID_TRACK_FILE'
+      });
+    }
+
+    if (target === 'route') {
+      if (!workoutId) {
+        return errorResponse(400, {
+          error: 'A workout is required to import a route',
+          code: 'INVALID_WORKOUT_ID'
+        });
+      }
+
+      if (parsed.data.route.length < 2) {
+        return errorResponse(400, {
+          error: 'This file does not contain a route',
+          code: 'INVALID_TRACK_FILE'
+        });
+      }
+
+      const route = simplifyRoute(parsed.data.route, VALIDATION_LIMITS.WORKOUT_ROUTE_MAX_POINTS);
+
+      const { data: updated, error: updateError } = await supabase
+        .from('workouts')
+        .update({ route })
+        .eq('id', workoutId)
+        .eq('host_id', authUser.id)
+        .select('id');
+
+      if (updateError) {
+        console.error('Workout route update error:', updateError);
+        return errorResponse(500, {
+          error: 'Failed to save route',
+          details: 'Please try again later',
+          code: 'ROUTE_UPDATE_FAILED'
+        });
+      }
+
+      if (!updated || updated.length === 0) {
+        return errorResponse(403, {
+          error: 'Only the host can set a workout route',
+          code: 'NOT_WORKOUT_HOST'
+        });
+      }
+
+      const response: ImportRouteResponse = { route };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    if (parsed.data.track.length === 0) {
+      return errorResponse(400, {
+        error: 'This file has no timestamps, so it can only be used as a planned route',
+        code: 'INVALID_TRACK_FILE'
+      });
+    }
+
+    // Same validation as recorded activities
+    const payload = parseActivityPayload({
+      workout_id: workoutId,
+      activity_type: requestedType || parsed.data.activity_type || ActivityType.OTHER,
+      track: parsed.data.track,
+    });
+
+    if (payload.error) {
+      return errorResponse(400, payload.error);
+    }
+
+    const activity: ActivityInsert = {
+      ...payload.data,
+      ...summarizeTrack(payload.data.track),
+      user_id: authUser.id,
+      source: IMPORT_SOURCES[format],
+    };
+
+    const { data: created, error: insertError } = await supabase
+      .from('activities')
+      .insert(activity)
+      .select(ACTIVITY_SUMMARY_SELECT)
+      .single();
+
+    if (insertError || !created) {
+      // RLS rejects workouts the user didn't host or attend
+      if (insertError?.code === '42501') {
+        return errorResponse(403, {
+          error: 'You can only attach activities to workouts you hosted or went to',
+          code: 'WORKOUT_NOT_ATTENDED'
+        });
+      }
+
+      console.error('Activity import error:', insertError);
+      return errorResponse(500, {
+        error: 'Failed to import activity',
+        details: 'Please try again later',
+        code: 'ACTIVITY_CREATION_FAILED'
+      });
+    }
+
+    const response: ImportActivityResponse = {
+      activity: created as ActivitySummary,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { ActivitySource, type ActivityInsert, type ActivitySummary } from '@/types/database';
+import { ACTIVITY_SUMMARY_SELECT, parseActivityPayload, summarizeTrack } from '@/lib/services/activities';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface ActivityListResponse {
+  activities: ActivitySummary[];
+}
+
+interface ActivitySuccessResponse {
+  activity: ActivitySummary;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - List the current user's activities, newest first
+  GET: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    // Parse query parameters
+    const { searchParams } = request.nextUrl;
+    const workoutFilter = searchParams.get('workout_id');
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    let query = supabase
+      .from('activities')
+      .select(ACTIVITY_SUMMARY_SELECT)
+      .eq('user_id', authUser.id)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (workoutFilter) {
+      query = query.eq('workout_id', workoutFilter);
+    }
+
+    const { data: activities, error: listError } = await query;
+
+    if (listError) {
+      console.error('Activity list error:', listError);
+      return errorResponse(500, {
+        error: 'Failed to fetch activities',
+        details: 'Unable to retrieve activities',
+        code: 'ACTIVITY_FETCH_ERROR'
+      });
+    }
+
+    const response: ActivityListResponse = {
+      activities: (activities || []) as ActivitySummary[],
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // POST method - Save a recorded activity, optionally attached to a workout
+  POST: apiHandler({ body: parseActivityPayload }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    // Totals are always recomputed from the track rather than trusted
+    const activity: ActivityInsert = {
+      ...body,
+      ...summarizeTrack(body.track),
+      user_id: authUser.id,
+      source: ActivitySource.RECORDED,
+    };
+
+    const { data: created, error: insertError } = await supabase
+      .from('activities')
+      .insert(activity)
+      .select(ACTIVITY_SUMMARY_SELECT)
+      .single();
+
+    if (insertError || !created) {
+      // RLS rejects workouts the user didn't host or attend
+      if (insertError?.code === '42501') {
+        return errorResponse(403, {
+          error: 'You can only attach activities to workouts you hosted or went to',
+          code: 'WORKOUT_NOT_ATTENDED'
+        });
+      }
+
+      console.error('Activity creation error:', insertError);
+      return errorResponse(500, {
+        error: 'Failed to save activity',
+        details: 'Please try again later',
+        code: 'ACTIVITY_CREATION_FAILED'
+      });
+    }
+
+    const response: ActivitySuccessResponse = {
+      activity: created as ActivitySummary,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+});
@@ -1,117 +1,24 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import { 
-  isValidPhoneNumber, 
-  parsePhoneNumber,
-  type User 
-} from '@/types/database';
-
-// Request body type
-interface LoginRequest {
-  phone_number: string;
-  password: string;
-}
+import { NextResponse } from 'next/server';
+import { toE164 } from '@/lib/utils/phone';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute, endpointBody, getClientIp, rateLimitedResponse } from '@/lib/api/handler';
+import { checkRateLimit, RATE_LIMITS, recordRateLimitFailure, resetRateLimitFailures } from '@/lib/services/rateLimit';
 
 // Response types
-interface LoginSuccessResponse {
-  user: User;
-  session: {
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
-    expires_at?: number;
-    token_type: string;
-    user: {
-      id: string;
-      phone?: string;
-      email?: string;
-    };
-  };
-}
-
-interface ErrorResponse {
-  error: string;
-  details?: string;
-  code?: string;
-}
-
-// Validation functions
-function validatePhoneNumber(phone: string): string | null {
-  if (!phone || typeof phone !== 'string') {
-    return 'Phone number is required';
-  }
-
-  // Parse to E.164 format if needed
-  const normalizedPhone = parsePhoneNumber(phone);
-  
-  if (!isValidPhoneNumber(normalizedPhone)) {
-    return 'Phone number must be in valid E.164 format (e.g., +19195551234)';
-  }
-
-  return null;
-}
+type LoginSuccessResponse = EndpointResponse<typeof ENDPOINTS.login>;
 
-function validatePassword(password: string): string | null {
-  if (!password || typeof password !== 'string') {
-    return 'Password is required';
-  }
-
-  if (password.length < 1) {
-    return 'Password cannot be empty';
-  }
-
-  return null;
-}
-
-// Main handler
-export async function POST(request: NextRequest): Promise<NextResponse> {
-  try {
-    // Parse request body
-    let body: LoginRequest;
-    try {
-      body = await request.json();
-    } catch {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Invalid JSON in request body',
-          code: 'INVALID_JSON'
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate required fields
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Sign in with phone number and password
+  POST: apiHandler({ auth: 'none', body: endpointBody(ENDPOINTS.login) }, async ({ body, request, supabase, errorResponse }) => {
     const { phone_number, password } = body;
 
-    // Validate phone number
-    const phoneError = validatePhoneNumber(phone_number);
-    if (phoneError) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: phoneError,
-          code: 'INVALID_PHONE'
-        },
-        { status: 400 }
-      );
-    }
-
-    // Validate password
-    const passwordError = validatePassword(password);
-    if (passwordError) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: passwordError,
-          code: 'INVALID_PASSWORD'
-        },
-        { status: 400 }
-      );
-    }
-
     // Normalize phone number to E.164 format
-    const normalizedPhone = parsePhoneNumber(phone_number);
+    const normalizedPhone = toE164(phone_number)!; // Validated by the schema
 
-    // Create Supabase client
-    const supabase = await createClient();
+    const limited = await checkRateLimit(RATE_LIMITS.login, { ip: getClientIp(request), phoneNumber: normalizedPhone });
+    if (limited) {
+      return rateLimitedResponse(errorResponse, limited);
+    }
 
     // Authenticate with Supabase Auth
     const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
@@ -126,69 +33,56 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       if (authError.message.includes('Invalid login credentials') || 
           authError.message.includes('invalid') ||
           authError.message.includes('incorrect')) {
-        return NextResponse.json<ErrorResponse>(
-          { 
-            error: 'Invalid credentials',
-            details: 'Phone number or password is incorrect',
-            code: 'INVALID_CREDENTIALS'
-          },
-          { status: 401 }
-        );
+        const lockout = await recordRateLimitFailure(RATE_LIMITS.login, normalizedPhone);
+        if (lockout) {
+          return rateLimitedResponse(errorResponse, lockout);
+        }
+
+        return errorResponse(401, {
+          error: 'Invalid credentials',
+          details: 'Phone number or password is incorrect',
+          code: 'INVALID_CREDENTIALS'
+        });
       }
 
       if (authError.message.includes('not found') || 
           authError.message.includes('does not exist')) {
-        return NextResponse.json<ErrorResponse>(
-          { 
-            error: 'User not found',
-            details: 'No account found with this phone number',
-            code: 'USER_NOT_FOUND'
-          },
-          { status: 404 }
-        );
+        return errorResponse(404, {
+          error: 'User not found',
+          details: 'No account found with this phone number',
+          code: 'USER_NOT_FOUND'
+        });
       }
 
       if (authError.message.includes('email not confirmed')) {
-        return NextResponse.json<ErrorResponse>(
-          { 
-            error: 'Account not verified',
-            details: 'Please verify your account before logging in',
-            code: 'EMAIL_NOT_CONFIRMED'
-          },
-          { status: 401 }
-        );
+        return errorResponse(401, {
+          error: 'Account not verified',
+          details: 'Please verify your account before logging in',
+          code: 'EMAIL_NOT_CONFIRMED'
+        });
       }
 
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Authentication failed',
-          details: 'Please try again later',
-          code: 'AUTH_ERROR'
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, {
+        error: 'Authentication failed',
+        details: 'Please try again later',
+        code: 'AUTH_ERROR'
+      });
     }
 
     if (!authData.user) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Authentication failed',
-          details: 'No user data returned',
-          code: 'NO_USER_DATA'
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, {
+        error: 'Authentication failed',
+        details: 'No user data returned',
+        code: 'NO_USER_DATA'
+      });
     }
 
     if (!authData.session) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Authentication failed',
-          details: 'No session created',
-          code: 'NO_SESSION'
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, {
+        error: 'Authentication failed',
+        details: 'No session created',
+        code: 'NO_SESSION'
+      });
     }
 
     // Fetch user profile from users table
@@ -204,35 +98,26 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       // Handle specific profile errors
       if (profileError.code === 'PGRST116') {
         // User exists in auth but not in users table
-        return NextResponse.json<ErrorResponse>(
-          { 
-            error: 'User profile not found',
-            details: 'Account exists but profile is incomplete. Please contact support.',
-            code: 'PROFILE_NOT_FOUND'
-          },
-          { status: 404 }
-        );
+        return errorResponse(404, {
+          error: 'User profile not found',
+          details: 'Account exists but profile is incomplete. Please contact support.',
+          code: 'PROFILE_NOT_FOUND'
+        });
       }
 
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Failed to fetch user profile',
-          details: 'Please try again later',
-          code: 'PROFILE_FETCH_ERROR'
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, {
+        error: 'Failed to fetch user profile',
+        details: 'Please try again later',
+        code: 'PROFILE_FETCH_ERROR'
+      });
     }
 
     if (!userProfile) {
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'User profile not found',
-          details: 'No profile found for this user',
-          code: 'PROFILE_NOT_FOUND'
-        },
-        { status: 404 }
-      );
+      return errorResponse(404, {
+        error: 'User profile not found',
+        details: 'No profile found for this user',
+        code: 'PROFILE_NOT_FOUND'
+      });
     }
 
     // Verify the phone number matches (security check)
@@ -243,16 +128,15 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         userId: authData.user.id
       });
       
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Account mismatch',
-          details: 'Phone number does not match user profile',
-          code: 'PHONE_MISMATCH'
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, {
+        error: 'Account mismatch',
+        details: 'Phone number does not match user profile',
+        code: 'PHONE_MISMATCH'
+      });
     }
 
+    await resetRateLimitFailures(RATE_LIMITS.login, normalizedPhone);
+
     // Prepare success response
     const response: LoginSuccessResponse = {
       user: {
@@ -265,6 +149,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         pace_range_max: userProfile.pace_range_max,
         home_location_coords: userProfile.home_location_coords,
         home_location_name: userProfile.home_location_name,
+        availability: userProfile.availability,
+        availability_timezone: userProfile.availability_timezone,
         created_at: userProfile.created_at,
         updated_at: userProfile.updated_at,
       },
@@ -283,51 +169,5 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     };
 
     return NextResponse.json(response, { status: 200 });
-
-    } catch (err) {
-      console.error('Unexpected error in login route:', err);
-    
-    return NextResponse.json<ErrorResponse>(
-      { 
-        error: 'Internal server error',
-        details: 'An unexpected error occurred',
-        code: 'INTERNAL_ERROR'
-      },
-      { status: 500 }
-    );
-  }
-}
-
-// Handle unsupported methods
-export async function GET(): Promise<NextResponse> {
-  return NextResponse.json<ErrorResponse>(
-    { 
-      error: 'Method not allowed',
-      details: 'This endpoint only supports POST requests',
-      code: 'METHOD_NOT_ALLOWED'
-    },
-    { status: 405 }
-  );
-}
-
-export async function PUT(): Promise<NextResponse> {
-  return NextResponse.json<ErrorResponse>(
-    { 
-      error: 'Method not allowed',
-      details: 'This endpoint only supports POST requests',
-      code: 'METHOD_NOT_ALLOWED'
-    },
-    { status: 405 }
-  );
-}
-
-export async function DELETE(): Promise<NextResponse> {
-  return NextResponse.json<ErrorResponse>(
-    { 
-      error: 'Method not allowed',
-      details: 'This endpoint only supports POST requests',
-      code: 'METHOD_NOT_ALLOWED'
-    },
-    { status: 405 }
-  );
-}
+  }),
+});
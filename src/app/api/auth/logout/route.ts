@@ -1,38 +1,24 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
 
 // Response types
-interface LogoutSuccessResponse {
-  message: string;
-  success: boolean;
-}
-
-interface ErrorResponse {
-  error: string;
-  details?: string;
-  code?: string;
-}
-
-// Main handler
-export async function POST(): Promise<NextResponse> {
-  try {
-    // Create Supabase client
-    const supabase = await createClient();
+type LogoutSuccessResponse = EndpointResponse<typeof ENDPOINTS.logout>;
 
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Sign out; succeeds without a session too
+  POST: apiHandler({ auth: 'none' }, async ({ supabase, errorResponse }) => {
     // Sign out the current user
     const { error } = await supabase.auth.signOut();
 
     if (error) {
       console.error('Logout error:', error);
       
-      return NextResponse.json<ErrorResponse>(
-        { 
-          error: 'Failed to logout',
-          details: 'Unable to sign out user',
-          code: 'LOGOUT_ERROR'
-        },
-        { status: 500 }
-      );
+      return errorResponse(500, {
+        error: 'Failed to logout',
+        details: 'Unable to sign out user',
+        code: 'LOGOUT_ERROR'
+      });
     }
 
     // Prepare success response
@@ -62,51 +48,5 @@ export async function POST(): Promise<NextResponse> {
     });
 
     return nextResponse;
-
-  } catch (error) {
-    console.error('Unexpected error in logout route:', error);
-    
-    return NextResponse.json<ErrorResponse>(
-      { 
-        error: 'Internal server error',
-        details: 'An unexpected error occurred',
-        code: 'INTERNAL_ERROR'
-      },
-      { status: 500 }
-    );
-  }
-}
-
-// Handle unsupported methods
-export async function GET(): Promise<NextResponse> {
-  return NextResponse.json<ErrorResponse>(
-    { 
-      error: 'Method not allowed',
-      details: 'This endpoint only supports POST requests',
-      code: 'METHOD_NOT_ALLOWED'
-    },
-    { status: 405 }
-  );
-}
-
-export async function PUT(): Promise<NextResponse> {
-  return NextResponse.json<ErrorResponse>(
-    { 
-      error: 'Method not allowed',
-      details: 'This endpoint only supports POST requests',
-      code: 'METHOD_NOT_ALLOWED'
-    },
-    { status: 405 }
-  );
-}
-
-export async function DELETE(): Promise<NextResponse> {
-  return NextResponse.json<ErrorResponse>(
-    { 
-      error: 'Method not allowed',
-      details: 'This endpoint only supports POST requests',
-      code: 'METHOD_NOT_ALLOWED'
-    },
-    { status: 405 }
-  );
-}
+  }),
+});
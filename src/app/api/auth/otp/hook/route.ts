@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { toE164 } from '@/lib/utils/phone';
+import { formatOtpMessage, isAuthorizedSmsHookRequest, type SendSmsHookPayload } from '@/lib/services/otp';
+import { getSmsProvider } from '@/lib/services/sms';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Supabase Auth's Send SMS hook: text a login code
+  POST: apiHandler({ auth: 'none' }, async ({ request, errorResponse }) => {
+    // The signature covers the raw body
+    const payload = await request.text();
+
+    if (!isAuthorizedSmsHookRequest(payload, request.headers)) {
+      return errorResponse(401, {
+        error: 'Not authorized',
+        details: 'Hook requests must be signed with SEND_SMS_HOOK_SECRET',
+        code: 'NOT_AUTHORIZED'
+      });
+    }
+
+    const { user, sms } = JSON.parse(payload) as SendSmsHookPayload;
+    const phoneNumber = toE164(`+${user.phone.replace(/^\+/, '')}`);
+
+    if (!phoneNumber) {
+      return errorResponse(400, {
+        error: 'Invalid phone number',
+        code: 'INVALID_PHONE'
+      });
+    }
+
+    try {
+      await getSmsProvider().send({ to: phoneNumber, body: formatOtpMessage(sms.otp) });
+    } catch (sendError) {
+      console.error('SMS send error:', sendError);
+      return errorResponse(502, {
+        error: 'Failed to send login code',
+        code: 'OTP_SEND_ERROR'
+      });
+    }
+
+    return NextResponse.json({}, { status: 200 });
+  }),
+});
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { toE164 } from '@/lib/utils/phone';
+import { OTP_TTL_SECONDS } from '@/lib/services/otp';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute, endpointBody, getClientIp, rateLimitedResponse } from '@/lib/api/handler';
+import { checkRateLimit, RATE_LIMITS } from '@/lib/services/rateLimit';
+
+// Response types
+type OtpRequestSuccessResponse = EndpointResponse<typeof ENDPOINTS.requestLoginCode>;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Text a login code to a phone number
+  POST: apiHandler({ auth: 'none', body: endpointBody(ENDPOINTS.requestLoginCode) }, async ({ body, request, supabase, errorResponse }) => {
+    const phoneNumber = toE164(body.phone_number)!; // Validated by the schema
+
+    // Limited before anything depends on the account, so limits apply the same either way
+    const limited = await checkRateLimit(RATE_LIMITS.otpRequest, { ip: getClientIp(request), phoneNumber });
+    if (limited) {
+      return rateLimitedResponse(errorResponse, limited);
+    }
+
+    // Supabase Auth creates the code and texts it through the Send SMS hook
+    // (/api/auth/otp/hook). Unknown numbers, its resend cooldown and failed
+    // sends all get the same response, so this endpoint can't be used to
+    // discover registered numbers.
+    const { error: otpError } = await supabase.auth.signInWithOtp({
+      phone: phoneNumber,
+      options: { shouldCreateUser: false },
+    });
+
+    if (otpError) {
+      console.error('Login code not sent:', otpError.message);
+    }
+
+    const response: OtpRequestSuccessResponse = {
+      message: 'If an account exists for this number, a login code has been sent',
+      expires_in: OTP_TTL_SECONDS,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
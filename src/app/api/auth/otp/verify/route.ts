@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { type User } from '@/types/database';
+import { toE164 } from '@/lib/utils/phone';
+import { OTP_LENGTH } from '@/lib/services/otp';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute, endpointBody, getClientIp, rateLimitedResponse } from '@/lib/api/handler';
+import { checkRateLimit, RATE_LIMITS, recordRateLimitFailure, resetRateLimitFailures } from '@/lib/services/rateLimit';
+
+// Response types
+type OtpVerifySuccessResponse = EndpointResponse<typeof ENDPOINTS.verifyLoginCode>;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Exchange a login code for a session
+  POST: apiHandler({ auth: 'none', body: endpointBody(ENDPOINTS.verifyLoginCode) }, async ({ body, request, supabase, errorResponse }) => {
+    const phoneNumber = toE164(body.phone_number)!; // Validated by the schema
+    const code = body.code.replace(/\s/g, '');
+
+    if (!new RegExp(`^\\d{${OTP_LENGTH}}$`).test(code)) {
+      return errorResponse(400, {
+        error: `Code must be ${OTP_LENGTH} digits`,
+        code: 'INVALID_CODE'
+      });
+    }
+
+    const limited = await checkRateLimit(RATE_LIMITS.otpVerify, { ip: getClientIp(request), phoneNumber });
+    if (limited) {
+      return rateLimitedResponse(errorResponse, limited);
+    }
+
+    // Signs in through Supabase Auth, which stores the session in the auth cookies
+    const { data: authData, error: verifyError } = await supabase.auth.verifyOtp({
+      phone: phoneNumber,
+      token: code,
+      type: 'sms',
+    });
+
+    if (verifyError && (verifyError.status ?? 0) >= 500) {
+      console.error('Login code verify error:', verifyError);
+      return errorResponse(500, {
+        error: 'Authentication failed',
+        details: 'Please try again later',
+        code: 'AUTH_ERROR'
+      });
+    }
+
+    if (verifyError || !authData.user) {
+      // Wrong guesses add up across codes, so requesting new ones doesn't
+      // reset the count
+      const lockout = await recordRateLimitFailure(RATE_LIMITS.otpVerify, phoneNumber);
+      if (lockout) {
+        return rateLimitedResponse(errorResponse, lockout);
+      }
+
+      // Supabase Auth doesn't say whether the code was wrong or expired
+      return errorResponse(401, {
+        error: 'Incorrect or expired code. Check it or request a new one',
+        code: 'OTP_INVALID'
+      });
+    }
+
+    const { data: userProfile, error: profileError } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', authData.user.id)
+      .maybeSingle<User>();
+
+    if (profileError) {
+      console.error('Profile fetch error:', profileError);
+      return errorResponse(500, {
+        error: 'Failed to fetch user profile',
+        details: 'Please try again later',
+        code: 'PROFILE_FETCH_ERROR'
+      });
+    }
+
+    if (!userProfile) {
+      return errorResponse(404, {
+        error: 'User profile not found',
+        details: 'Account exists but profile is incomplete. Please contact support.',
+        code: 'PROFILE_NOT_FOUND'
+      });
+    }
+
+    await resetRateLimitFailures(RATE_LIMITS.otpVerify, phoneNumber);
+
+    const response: OtpVerifySuccessResponse = { user: userProfile };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createIsolatedClient, revokeAllSessions, signInIsolated } from '@/lib/services/session';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute, endpointBody } from '@/lib/api/handler';
+
+// Response types
+type ChangePasswordSuccessResponse = EndpointResponse<typeof ENDPOINTS.changePassword>;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Change the current user's password and sign out other devices
+  POST: apiHandler({ body: endpointBody(ENDPOINTS.changePassword) }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    const { current_password: currentPassword, new_password: newPassword } = body;
+
+    if (newPassword === currentPassword) {
+      return errorResponse(400, {
+        error: 'New password must be different from your current password',
+        code: 'PASSWORD_UNCHANGED'
+      });
+    }
+
+    // Check the current password without touching this request's session cookies
+    const verifyError = await signInIsolated(createIsolatedClient(), {
+      phone: authUser.phone,
+      email: authUser.email,
+      password: currentPassword,
+    });
+
+    if (verifyError) {
+      return errorResponse(401, {
+        error: 'Current password is incorrect',
+        code: 'INVALID_CREDENTIALS'
+      });
+    }
+
+    const admin = createAdminClient();
+
+    const { error: updateError } = await admin.auth.admin.updateUserById(authUser.id, {
+      password: newPassword,
+    });
+
+    if (updateError) {
+      console.error('Password change error:', updateError);
+      return errorResponse(500, {
+        error: 'Failed to change password',
+        details: 'Please try again later',
+        code: 'PASSWORD_UPDATE_ERROR'
+      });
+    }
+
+    // Sign out every other session (including the one used to verify above)
+    const { error: signOutError } = await supabase.auth.signOut({ scope: 'others' });
+
+    if (!signOutError) {
+      const response: ChangePasswordSuccessResponse = {
+        message: 'Password changed. Other devices have been signed out',
+      };
+
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    // This session couldn't single out the others: end them all, this one included
+    console.error('Sign out others error:', signOutError);
+
+    try {
+      await revokeAllSessions({ phone: authUser.phone, email: authUser.email, password: newPassword });
+    } catch (revokeError) {
+      console.error('Session revoke error:', revokeError);
+      return errorResponse(500, {
+        error: 'Password changed, but other devices could not be signed out',
+        details: 'Please try again later',
+        code: 'SESSION_REVOKE_ERROR'
+      });
+    }
+
+    const response: ChangePasswordSuccessResponse = {
+      message: 'Password changed. All devices have been signed out; please sign in again',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isValidEmail } from '@/types/database';
+import { toE164 } from '@/lib/utils/phone';
+import {
+  buildPasswordResetLink,
+  choosePasswordResetChannel,
+  issuePasswordResetToken,
+  sendPasswordResetLink,
+  PASSWORD_RESET_TTL_SECONDS,
+  type PasswordResetRecipient,
+} from '@/lib/services/passwordReset';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute, endpointBody } from '@/lib/api/handler';
+
+// Response types
+type ForgotPasswordSuccessResponse = EndpointResponse<typeof ENDPOINTS.forgotPassword>;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Send a password reset link
+  POST: apiHandler({ auth: 'none', body: endpointBody(ENDPOINTS.forgotPassword) }, async ({ request, body, errorResponse }) => {
+    const email = body.email?.trim() ?? '';
+    const phoneNumber = body.phone_number ? toE164(body.phone_number) : null;
+
+    if (email && !isValidEmail(email)) {
+      return errorResponse(400, {
+        error: 'Please enter a valid email address',
+        code: 'INVALID_EMAIL'
+      });
+    }
+
+    if (!email && !phoneNumber) {
+      return errorResponse(400, {
+        error: 'A valid phone number or email address is required',
+        code: 'IDENTIFIER_REQUIRED'
+      });
+    }
+
+    // Same response whether or not the account exists, and whether or not a
+    // link goes out (cooldown, failed send), so this endpoint can't be used
+    // to discover registered users
+    const response: ForgotPasswordSuccessResponse = {
+      message: 'If an account matches, a password reset link has been sent',
+      expires_in: PASSWORD_RESET_TTL_SECONDS,
+    };
+
+    const admin = createAdminClient();
+
+    let lookup = admin.from('users').select('id, phone_number, email');
+    lookup = email ? lookup.eq('email', email) : lookup.eq('phone_number', phoneNumber!);
+
+    const { data: recipient, error: lookupError } = await lookup.maybeSingle<PasswordResetRecipient>();
+
+    if (lookupError) {
+      console.error('User lookup error:', lookupError);
+      return errorResponse(500, {
+        error: 'Failed to send reset link',
+        details: 'Please try again later',
+        code: 'RESET_SEND_ERROR'
+      });
+    }
+
+    if (!recipient) {
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    // Asking by email implies delivery by email
+    const channel = choosePasswordResetChannel(recipient, email ? 'email' : body.channel);
+    const issued = await issuePasswordResetToken(admin, recipient.id, channel);
+
+    if (issued.error) {
+      console.error('Reset link not sent:', issued.error.message);
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    try {
+      const link = buildPasswordResetLink(request.nextUrl.origin, issued.token);
+      await sendPasswordResetLink(recipient, channel, link);
+    } catch (sendError) {
+      console.error('Reset link send error:', sendError);
+    }
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { redeemPasswordResetToken } from '@/lib/services/passwordReset';
+import { revokeAllSessions } from '@/lib/services/session';
+import { ENDPOINTS, type EndpointResponse } from '@/lib/api/endpoints';
+import { apiHandler, defineRoute, endpointBody } from '@/lib/api/handler';
+
+// Response types
+type ResetPasswordSuccessResponse = EndpointResponse<typeof ENDPOINTS.resetPassword>;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Set a new password using a reset link token
+  POST: apiHandler({ auth: 'none', body: endpointBody(ENDPOINTS.resetPassword) }, async ({ body, errorResponse }) => {
+    const admin = createAdminClient();
+
+    // Burn the token first so it can't be replayed while we update
+    const redeemed = await redeemPasswordResetToken(admin, body.token);
+
+    if (redeemed.error) {
+      return errorResponse(400, {
+        error: redeemed.error.message,
+        code: redeemed.error.code
+      });
+    }
+
+    const { error: updateError } = await admin.auth.admin.updateUserById(redeemed.userId, {
+      password: body.password,
+    });
+
+    if (updateError) {
+      console.error('Password reset update error:', updateError);
+      return errorResponse(500, {
+        error: 'Failed to reset password',
+        details: 'Please request a new reset link and try again',
+        code: 'PASSWORD_UPDATE_ERROR'
+      });
+    }
+
+    // Anyone signed in with the old password is signed out
+    try {
+      const { data: { user: authUser } } = await admin.auth.admin.getUserById(redeemed.userId);
+
+      await revokeAllSessions({ phone: authUser?.phone, email: authUser?.email, password: body.password });
+    } catch (revokeError) {
+      console.error('Session revoke error:', revokeError);
+      return errorResponse(500, {
+        error: 'Password reset, but other devices could not be signed out',
+        details: 'Please sign in and change your password again',
+        code: 'SESSION_REVOKE_ERROR'
+      });
+    }
+
+    const response: ResetPasswordSuccessResponse = {
+      message: 'Your password has been reset. Please sign in with your new password',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -1,9 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { 
-  isValidPhoneNumber, 
-  parsePhoneNumber
-} from '@/types/database';
+import { toE164 } from '@/lib/utils/phone';
 
 // Temporary direct registration that bypasses Supabase Auth
 export async function POST(request: NextRequest): Promise<NextResponse> {
@@ -21,9 +18,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    const normalizedPhone = parsePhoneNumber(phone_number);
+    const normalizedPhone = toE164(phone_number);
     
-    if (!isValidPhoneNumber(normalizedPhone)) {
+    if (!normalizedPhone) {
       return NextResponse.json(
         { error: 'Invalid phone number' },
         { status: 400 }
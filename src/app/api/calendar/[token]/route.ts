@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  CALENDAR_CONTENT_TYPE,
+  buildWorkoutCalendar,
+  getCalendarSiteUrl,
+  isCalendarFeedToken,
+  loadCalendarFeedEntries,
+  redeemCalendarFeedToken,
+} from '@/lib/services/calendar';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Private iCalendar feed (/api/calendar/<token>.ics) of the
+  // workouts the token's owner hosts or has RSVP'd to. Calendar apps fetch it
+  // without a session, so the token is the only credential.
+  GET: apiHandler({ auth: 'none' }, async ({ request, params, errorResponse }) => {
+    const { token: segment } = params;
+    const token = segment.replace(/\.ics$/i, '');
+
+    const notFound = errorResponse(404, {
+      error: 'Calendar not found',
+      details: 'This calendar link is invalid or has been reset',
+      code: 'CALENDAR_NOT_FOUND'
+    });
+
+    if (!isCalendarFeedToken(token)) {
+      return notFound;
+    }
+
+    const admin = createAdminClient();
+
+    const userId = await redeemCalendarFeedToken(admin, token);
+    if (!userId) {
+      return notFound;
+    }
+
+    const entries = await loadCalendarFeedEntries(admin, userId);
+    const body = buildWorkoutCalendar(entries, {
+      siteUrl: getCalendarSiteUrl(request.nextUrl.origin),
+      name: 'WorkoutSync',
+    });
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': 'inline; filename="workoutsync.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  }),
+});
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  buildCalendarFeedUrl,
+  getCalendarFeed,
+  issueCalendarFeedToken,
+  revokeCalendarFeedToken,
+  type CalendarFeedInfo,
+} from '@/lib/services/calendar';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface CalendarFeedResponse {
+  feed: CalendarFeedInfo | null;
+}
+
+interface CalendarFeedIssuedResponse {
+  feed: CalendarFeedInfo;
+  url: string; // Only returned here; the token isn't stored
+}
+
+interface CalendarFeedRevokeResponse {
+  success: boolean;
+  message: string;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Whether the current user has a calendar feed, and when it was
+  // created and last fetched
+  GET: apiHandler({}, async ({ user: authUser }) => {
+    const response: CalendarFeedResponse = {
+      feed: await getCalendarFeed(createAdminClient(), authUser.id),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // POST method - Create the current user's feed URL, replacing any earlier one
+  POST: apiHandler({}, async ({ request, user: authUser }) => {
+    const { token, feed } = await issueCalendarFeedToken(createAdminClient(), authUser.id);
+
+    const response: CalendarFeedIssuedResponse = {
+      feed,
+      url: buildCalendarFeedUrl(request.nextUrl.origin, token),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+
+  // DELETE method - Turn off the current user's feed
+  DELETE: apiHandler({}, async ({ user: authUser, errorResponse }) => {
+    const revoked = await revokeCalendarFeedToken(createAdminClient(), authUser.id);
+
+    if (!revoked) {
+      return errorResponse(404, {
+        error: 'Calendar feed not found',
+        details: 'You have no calendar feed to turn off',
+        code: 'CALENDAR_NOT_FOUND'
+      });
+    }
+
+    const response: CalendarFeedRevokeResponse = {
+      success: true,
+      message: 'Calendar feed turned off',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,146 @@
+import { NextResponse } from 'next/server';
+import {
+  FeedItemType,
+  ParticipantStatus,
+  WorkoutStatus,
+  type FeedItem,
+  type Reaction,
+} from '@/types/database';
+import { getFriendIds } from '@/lib/services/friends';
+import { workoutsStartingSinceFilter } from '@/lib/services/workouts';
+import { summarizeReactions } from '@/lib/services/comments';
+import {
+  activityFeedItem,
+  buildFeedPage,
+  decodeFeedCursor,
+  feedQueryBound,
+  rsvpFeedItem,
+  workoutFeedItem,
+  FEED_ACTIVITY_SELECT,
+  FEED_RSVP_SELECT,
+  FEED_WORKOUT_SELECT,
+  type FeedActivityRow,
+  type FeedCursor,
+  type FeedPage,
+  type FeedRsvpRow,
+  type FeedWorkoutRow,
+} from '@/lib/services/feed';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Friends' upcoming workouts, RSVPs and completed activities, newest first
+  // Pass the previous page's `next_cursor` as `cursor` to load older items
+  GET: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    // Parse query parameters
+    const { searchParams } = request.nextUrl;
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    const cursorParam = searchParams.get('cursor');
+    let cursor: FeedCursor | null = null;
+
+    if (cursorParam) {
+      cursor = decodeFeedCursor(cursorParam);
+      if (!cursor) {
+        return errorResponse(400, {
+          error: 'Invalid cursor',
+          code: 'INVALID_CURSOR'
+        });
+      }
+    }
+
+    const friendIds = await getFriendIds(supabase, authUser.id);
+
+    if (friendIds.length === 0) {
+      const response: FeedPage = { items: [], next_cursor: null };
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    // Each source fetches one extra row so we can tell whether it has more;
+    // recurring workouts count as upcoming until their last occurrence
+    const bound = cursor ? feedQueryBound(cursor) : null;
+
+    let workoutsQuery = supabase
+      .from('workouts')
+      .select(FEED_WORKOUT_SELECT)
+      .in('host_id', friendIds)
+      .eq('status', WorkoutStatus.SCHEDULED)
+      .or(workoutsStartingSinceFilter(new Date()))
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    let rsvpsQuery = supabase
+      .from('workout_participants')
+      .select(FEED_RSVP_SELECT)
+      .in('user_id', friendIds)
+      .in('status', [ParticipantStatus.GOING, ParticipantStatus.MAYBE])
+      .order('responded_at', { ascending: false })
+      .limit(limit + 1);
+
+    let activitiesQuery = supabase
+      .from('activities')
+      .select(FEED_ACTIVITY_SELECT)
+      .in('user_id', friendIds)
+      .order('ended_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (bound) {
+      workoutsQuery = workoutsQuery.lt('created_at', bound);
+      rsvpsQuery = rsvpsQuery.lt('responded_at', bound);
+      activitiesQuery = activitiesQuery.lt('ended_at', bound);
+    }
+
+    const [workouts, rsvps, activities] = await Promise.all([workoutsQuery, rsvpsQuery, activitiesQuery]);
+    const fetchError = workouts.error || rsvps.error || activities.error;
+
+    if (fetchError) {
+      console.error('Feed fetch error:', fetchError);
+      return errorResponse(500, {
+        error: 'Failed to fetch feed',
+        details: 'Unable to retrieve your feed',
+        code: 'FEED_FETCH_ERROR'
+      });
+    }
+
+    const workoutRows = (workouts.data || []) as unknown as FeedWorkoutRow[];
+    const rsvpRows = (rsvps.data || []) as unknown as FeedRsvpRow[];
+    const activityRows = (activities.data || []) as unknown as FeedActivityRow[];
+
+    const items = [
+      ...workoutRows.map(workoutFeedItem),
+      ...rsvpRows.map(rsvpFeedItem),
+      ...activityRows.map(activityFeedItem),
+    ].filter((item): item is FeedItem => item !== null);
+
+    const sourcesFull = [workoutRows, rsvpRows, activityRows].some(rows => rows.length > limit);
+    const response: FeedPage = buildFeedPage(items, cursor, limit, sourcesFull);
+
+    // Attach reactions to the activities on this page
+    const activityIds = response.items.flatMap(item => (item.type === FeedItemType.ACTIVITY ? [item.activity.id] : []));
+
+    if (activityIds.length > 0) {
+      const { data: reactions, error: reactionsError } = await supabase
+        .from('reactions')
+        .select('emoji, user_id, activity_id')
+        .in('activity_id', activityIds);
+
+      if (reactionsError) {
+        console.error('Feed reactions fetch error:', reactionsError);
+      }
+
+      const rows = (reactions || []) as Pick<Reaction, 'emoji' | 'user_id' | 'activity_id'>[];
+      for (const item of response.items) {
+        if (item.type === FeedItemType.ACTIVITY) {
+          item.reactions = summarizeReactions(rows.filter(row => row.activity_id === item.activity.id), authUser.id);
+        }
+      }
+    }
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
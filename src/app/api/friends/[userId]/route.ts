@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { FriendshipStatus } from '@/types/database';
+import { findFriendship } from '@/lib/services/friends';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface UnfriendResponse {
+  success: boolean;
+  message: string;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // DELETE method - Remove a friend
+  DELETE: apiHandler({}, async ({ params, supabase, user: authUser, errorResponse }) => {
+    const { userId } = params;
+
+    const friendship = await findFriendship(supabase, authUser.id, userId);
+
+    if (!friendship || friendship.status !== FriendshipStatus.ACCEPTED) {
+      return errorResponse(404, {
+        error: 'Friend not found',
+        details: 'You are not friends with this user',
+        code: 'FRIEND_NOT_FOUND'
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('friendships')
+      .delete()
+      .eq('id', friendship.id);
+
+    if (deleteError) {
+      console.error('Unfriend error:', deleteError);
+      return errorResponse(500, {
+        error: 'Failed to remove friend',
+        details: 'Please try again later',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    const response: UnfriendResponse = {
+      success: true,
+      message: 'Friend removed',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
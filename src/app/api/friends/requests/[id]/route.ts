@@ -0,0 +1,164 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FriendshipStatus, NotificationCategory, type Friendship } from '@/types/database';
+import { getActorName, notifyUsers } from '@/lib/services/notifications';
+import { apiHandler, defineRoute, jsonObject, type ErrorResponder } from '@/lib/api/handler';
+
+// Request body type
+interface RespondRequest {
+  action: 'accept' | 'decline';
+}
+
+// Response types
+interface FriendRequestSuccessResponse {
+  friendship: Friendship | null; // null once declined
+  message: string;
+}
+
+// Load a pending request the current user is part of
+async function loadPendingRequest(supabase: SupabaseClient, id: string): Promise<Friendship | null> {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select('*')
+    .eq('id', id)
+    .eq('status', FriendshipStatus.PENDING)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+function requestNotFound(errorResponse: ErrorResponder): NextResponse {
+  return errorResponse(404, {
+    error: 'Friend request not found',
+    details: 'This request does not exist or has already been answered',
+    code: 'REQUEST_NOT_FOUND'
+  });
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // PATCH method - Accept or decline an incoming friend request
+  PATCH: apiHandler({ body: jsonObject<RespondRequest>() }, async ({ params, body, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    if (body.action !== 'accept' && body.action !== 'decline') {
+      return errorResponse(400, {
+        error: 'Invalid action',
+        details: 'Action must be one of: accept, decline',
+        code: 'INVALID_ACTION'
+      });
+    }
+
+    const pending = await loadPendingRequest(supabase, id);
+
+    if (!pending) {
+      return requestNotFound(errorResponse);
+    }
+
+    if (pending.addressee_id !== authUser.id) {
+      return errorResponse(403, {
+        error: 'Forbidden',
+        details: 'Only the recipient can respond to a friend request',
+        code: 'NOT_REQUEST_RECIPIENT'
+      });
+    }
+
+    // Declined requests are removed so the sender may ask again later
+    if (body.action === 'decline') {
+      const { error: deleteError } = await supabase
+        .from('friendships')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) {
+        console.error('Friend request decline error:', deleteError);
+        return errorResponse(500, {
+          error: 'Failed to decline friend request',
+          details: 'Please try again later',
+          code: 'FRIEND_REQUEST_ERROR'
+        });
+      }
+
+      const response: FriendRequestSuccessResponse = {
+        friendship: null,
+        message: 'Friend request declined',
+      };
+
+      return NextResponse.json(response, { status: 200 });
+    }
+
+    const { data: accepted, error: updateError } = await supabase
+      .from('friendships')
+      .update({ status: FriendshipStatus.ACCEPTED })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (updateError || !accepted) {
+      console.error('Friend request accept error:', updateError);
+      return errorResponse(500, {
+        error: 'Failed to accept friend request',
+        details: 'Please try again later',
+        code: 'FRIEND_REQUEST_ERROR'
+      });
+    }
+
+    await notifyUsers([accepted.requester_id], {
+      category: NotificationCategory.FRIEND_REQUEST,
+      title: 'Friend request accepted',
+      body: `${await getActorName(supabase, authUser.id)} accepted your friend request`,
+      url: '/friends',
+      actor_id: authUser.id,
+    });
+
+    const response: FriendRequestSuccessResponse = {
+      friendship: accepted,
+      message: 'Friend request accepted',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // DELETE method - Cancel an outgoing friend request
+  DELETE: apiHandler({}, async ({ params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const pending = await loadPendingRequest(supabase, id);
+
+    if (!pending) {
+      return requestNotFound(errorResponse);
+    }
+
+    if (pending.requester_id !== authUser.id) {
+      return errorResponse(403, {
+        error: 'Forbidden',
+        details: 'Only the sender can cancel a friend request',
+        code: 'NOT_REQUEST_SENDER'
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('friendships')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Friend request cancel error:', deleteError);
+      return errorResponse(500, {
+        error: 'Failed to cancel friend request',
+        details: 'Please try again later',
+        code: 'FRIEND_REQUEST_ERROR'
+      });
+    }
+
+    const response: FriendRequestSuccessResponse = {
+      friendship: null,
+      message: 'Friend request cancelled',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
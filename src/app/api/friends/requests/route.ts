@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server';
+import { FriendshipStatus, NotificationCategory, type Friendship } from '@/types/database';
+import { toE164, validatePhoneNumber } from '@/lib/utils/phone';
+import { findFriendship } from '@/lib/services/friends';
+import { getActorName, notifyUsers } from '@/lib/services/notifications';
+import { apiHandler, defineRoute, jsonObject } from '@/lib/api/handler';
+
+// Request body type - identify the other user by id or phone number
+interface FriendRequestBody {
+  user_id?: string;
+  phone_number?: string;
+}
+
+// Response types
+interface FriendRequestSuccessResponse {
+  friendship: Friendship;
+  message: string;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Send a friend request
+  POST: apiHandler({ body: jsonObject<FriendRequestBody>() }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    if (!body.user_id && !body.phone_number) {
+      return errorResponse(400, {
+        error: 'Missing required fields',
+        details: 'Provide either user_id or phone_number',
+        code: 'MISSING_FIELDS'
+      });
+    }
+
+    // Resolve the other user
+    let addresseeId = body.user_id;
+
+    if (!addresseeId && body.phone_number) {
+      const phoneValidation = validatePhoneNumber(body.phone_number);
+      const phoneNumber = toE164(body.phone_number);
+
+      if (!phoneValidation.valid || !phoneNumber) {
+        return errorResponse(400, {
+          error: phoneValidation.message!,
+          code: 'INVALID_PHONE'
+        });
+      }
+
+      const { data: matches, error: lookupError } = await supabase.rpc('get_user_by_phone', {
+        phone: phoneNumber,
+      });
+
+      if (lookupError) {
+        console.error('Friend lookup error:', lookupError);
+        return errorResponse(500, {
+          error: 'Failed to look up user',
+          details: 'Please try again later',
+          code: 'USER_LOOKUP_ERROR'
+        });
+      }
+
+      addresseeId = matches?.[0]?.id;
+    }
+
+    if (!addresseeId) {
+      return errorResponse(404, {
+        error: 'User not found',
+        details: 'No WorkoutSync member has that phone number',
+        code: 'USER_NOT_FOUND'
+      });
+    }
+
+    if (addresseeId === authUser.id) {
+      return errorResponse(400, {
+        error: 'You cannot add yourself as a friend',
+        code: 'CANNOT_FRIEND_SELF'
+      });
+    }
+
+    const existing = await findFriendship(supabase, authUser.id, addresseeId);
+
+    if (existing) {
+      // They already asked us - treat this as accepting their request
+      if (existing.status === FriendshipStatus.PENDING && existing.addressee_id === authUser.id) {
+        const { data: accepted, error: acceptError } = await supabase
+          .from('friendships')
+          .update({ status: FriendshipStatus.ACCEPTED })
+          .eq('id', existing.id)
+          .select()
+          .single();
+
+        if (acceptError || !accepted) {
+          console.error('Friend request accept error:', acceptError);
+          return errorResponse(500, {
+            error: 'Failed to accept friend request',
+            details: 'Please try again later',
+            code: 'FRIEND_REQUEST_ERROR'
+          });
+        }
+
+        await notifyUsers([existing.requester_id], {
+          category: NotificationCategory.FRIEND_REQUEST,
+          title: 'Friend request accepted',
+          body: `${await getActorName(supabase, authUser.id)} accepted your friend request`,
+          url: '/friends',
+          actor_id: authUser.id,
+        });
+
+        const response: FriendRequestSuccessResponse = {
+          friendship: accepted,
+          message: 'Friend request accepted',
+        };
+
+        return NextResponse.json(response, { status: 200 });
+      }
+
+      return errorResponse(409, {
+        error: existing.status === FriendshipStatus.ACCEPTED
+        ? 'You are already friends'
+        : 'Friend request already sent',
+        code: existing.status === FriendshipStatus.ACCEPTED ? 'ALREADY_FRIENDS' : 'REQUEST_EXISTS'
+      });
+    }
+
+    const { data: friendship, error: insertError } = await supabase
+      .from('friendships')
+      .insert({
+        requester_id: authUser.id,
+        addressee_id: addresseeId,
+        status: FriendshipStatus.PENDING,
+      })
+      .select()
+      .single();
+
+    if (insertError || !friendship) {
+      // Foreign key violation - the user id does not exist
+      if (insertError?.code === '23503') {
+        return errorResponse(404, {
+          error: 'User not found',
+          code: 'USER_NOT_FOUND'
+        });
+      }
+
+      // Unique violation - a request was created concurrently
+      if (insertError?.code === '23505') {
+        return errorResponse(409, {
+          error: 'Friend request already sent',
+          code: 'REQUEST_EXISTS'
+        });
+      }
+
+      console.error('Friend request insert error:', insertError);
+      return errorResponse(500, {
+        error: 'Failed to send friend request',
+        details: 'Please try again later',
+        code: 'FRIEND_REQUEST_ERROR'
+      });
+    }
+
+    await notifyUsers([addresseeId], {
+      category: NotificationCategory.FRIEND_REQUEST,
+      title: 'New friend request',
+      body: `${await getActorName(supabase, authUser.id)} wants to be your friend`,
+      url: '/friends',
+      actor_id: authUser.id,
+    });
+
+    const response: FriendRequestSuccessResponse = {
+      friendship,
+      message: 'Friend request sent',
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+});
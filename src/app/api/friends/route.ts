@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import {
+  FRIENDSHIP_SELECT,
+  getFriendRequestProfiles,
+  splitFriendships,
+  type FriendsOverview,
+  type FriendshipWithUsers,
+} from '@/lib/services/friends';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - List friends and pending friend requests
+  GET: apiHandler({}, async ({ supabase, user: authUser, errorResponse }) => {
+    const { data: friendships, error: listError } = await supabase
+      .from('friendships')
+      .select(FRIENDSHIP_SELECT)
+      .or(`requester_id.eq.${authUser.id},addressee_id.eq.${authUser.id}`)
+      .order('created_at', { ascending: false });
+
+    if (listError) {
+      console.error('Friends list error:', listError);
+      return errorResponse(500, {
+        error: 'Failed to fetch friends',
+        details: 'Unable to retrieve friends',
+        code: 'FRIENDS_FETCH_ERROR'
+      });
+    }
+
+    const requestProfiles = await getFriendRequestProfiles(supabase);
+
+    const response: FriendsOverview = splitFriendships(
+      (friendships || []) as unknown as FriendshipWithUsers[],
+      authUser.id,
+      requestProfiles
+    );
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isAuthorizedJobRequest, type JobRunSummary } from '@/lib/services/jobs';
+import { runWorkoutChangeAlerts, runWorkoutReminders } from '@/lib/services/workoutAlerts';
+import { runCleanup, type CleanupSummary } from '@/lib/services/cleanup';
+import { apiHandler, defineRoute, type ApiContext } from '@/lib/api/handler';
+
+// Jobs that can be run through /api/jobs/<name>
+const JOBS: Record<string, (supabase: SupabaseClient, now: Date) => Promise<JobRunSummary | CleanupSummary>> = {
+  'workout-reminders': runWorkoutReminders,
+  'workout-changes': runWorkoutChangeAlerts,
+  'cleanup': runCleanup,
+};
+
+// Response types
+interface JobSuccessResponse {
+  job: string;
+  summary: JobRunSummary | CleanupSummary;
+}
+
+async function runJob({ request, params, errorResponse }: ApiContext<undefined, null>): Promise<NextResponse> {
+  const { job } = params;
+
+  // Only the scheduler may run jobs
+  if (!isAuthorizedJobRequest(request.headers.get('authorization'))) {
+    return errorResponse(401, {
+      error: 'Not authorized',
+      details: 'Jobs require the CRON_SECRET bearer token',
+      code: 'NOT_AUTHORIZED'
+    });
+  }
+
+  const run = Object.hasOwn(JOBS, job) ? JOBS[job] : undefined;
+
+  if (!run) {
+    return errorResponse(404, {
+      error: 'Job not found',
+      details: `Available jobs: ${Object.keys(JOBS).join(', ')}`,
+      code: 'JOB_NOT_FOUND'
+    });
+  }
+
+  const summary = await run(createAdminClient(), new Date());
+  const response: JobSuccessResponse = { job, summary };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Run a job (Vercel Cron sends GET requests)
+  GET: apiHandler({ auth: 'none' }, runJob),
+
+  // POST method - Run a job (used by the local runner and for manual runs)
+  POST: apiHandler({ auth: 'none' }, runJob),
+});
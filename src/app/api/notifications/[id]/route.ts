@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { type Notification } from '@/types/database';
+import { getUnreadCount } from '@/lib/services/notifications';
+import { apiHandler, defineRoute, jsonObject } from '@/lib/api/handler';
+
+// Request body type
+interface UpdateNotificationRequest {
+  read: boolean;
+}
+
+// Response types
+interface NotificationSuccessResponse {
+  notification: Notification;
+  unread_count: number;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // PATCH method - Mark one notification read or unread
+  PATCH: apiHandler({ body: jsonObject<UpdateNotificationRequest>() }, async ({ params, body, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    if (typeof body?.read !== 'boolean') {
+      return errorResponse(400, {
+        error: 'Missing required fields',
+        details: 'read must be true or false',
+        code: 'MISSING_FIELDS'
+      });
+    }
+
+    const { data: notification, error: updateError } = await supabase
+      .from('notifications')
+      .update({ read_at: body.read ? new Date().toISOString() : null })
+      .eq('id', id)
+      .eq('user_id', authUser.id)
+      .select('*')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Notification update error:', updateError);
+      return errorResponse(500, {
+        error: 'Failed to update notification',
+        details: 'Please try again later',
+        code: 'NOTIFICATION_UPDATE_ERROR'
+      });
+    }
+
+    if (!notification) {
+      return errorResponse(404, {
+        error: 'Notification not found',
+        details: 'This notification does not exist or has been cleared',
+        code: 'NOTIFICATION_NOT_FOUND'
+      });
+    }
+
+    const response: NotificationSuccessResponse = {
+      notification,
+      unread_count: await getUnreadCount(supabase, authUser.id),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
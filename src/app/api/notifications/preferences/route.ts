@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { type NotificationPreferences } from '@/types/database';
+import {
+  loadNotificationPreferences,
+  parseNotificationPreferencesPayload,
+  saveNotificationPreferences,
+} from '@/lib/services/notificationPreferences';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface PreferencesSuccessResponse {
+  preferences: NotificationPreferences;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - The current user's notification preferences, with defaults filled in
+  GET: apiHandler({}, async ({ supabase, user: authUser }) => {
+    const preferences = await loadNotificationPreferences(supabase, [authUser.id]);
+    const response: PreferencesSuccessResponse = { preferences: preferences.get(authUser.id)! };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // PUT method - Replace the current user's notification preferences
+  PUT: apiHandler({ body: parseNotificationPreferencesPayload }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    try {
+      await saveNotificationPreferences(supabase, authUser.id, body);
+    } catch (saveError) {
+      console.error('Notification preferences save error:', saveError);
+      return errorResponse(500, {
+        error: 'Failed to save notification settings',
+        details: 'Please try again later',
+        code: 'PREFERENCES_UPDATE_ERROR'
+      });
+    }
+
+    const response: PreferencesSuccessResponse = { preferences: body };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import {
+  decodeNotificationCursor,
+  getUnreadCount,
+  listNotifications,
+  type NotificationCursor,
+} from '@/lib/services/notifications';
+import { apiHandler, defineRoute, jsonObject } from '@/lib/api/handler';
+
+// Request body type - omit `ids` to mark every notification read
+interface MarkReadRequest {
+  ids?: string[];
+}
+
+// Response types
+interface MarkReadSuccessResponse {
+  updated: number;
+  unread_count: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_MARK_READ_IDS = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - The current user's notifications, newest first, with the unread count
+  // Pass the previous page's `next_cursor` as `cursor` to load older notifications
+  GET: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    // Parse query parameters
+    const { searchParams } = request.nextUrl;
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    const cursorParam = searchParams.get('cursor');
+    let cursor: NotificationCursor | null = null;
+
+    if (cursorParam) {
+      cursor = decodeNotificationCursor(cursorParam);
+      if (!cursor) {
+        return errorResponse(400, {
+          error: 'Invalid cursor',
+          code: 'INVALID_CURSOR'
+        });
+      }
+    }
+
+    const page = await listNotifications(supabase, authUser.id, cursor, limit);
+
+    return NextResponse.json(page, { status: 200 });
+  }),
+
+  // PATCH method - Mark the given notifications (`ids`), or all of them, read
+  PATCH: apiHandler({ body: jsonObject<MarkReadRequest>() }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    const ids = body?.ids;
+
+    if (
+      ids !== undefined &&
+      (!Array.isArray(ids) ||
+        ids.length === 0 ||
+        ids.length > MAX_MARK_READ_IDS ||
+        ids.some(id => typeof id !== 'string' || !UUID_PATTERN.test(id)))
+    ) {
+      return errorResponse(400, {
+        error: 'Invalid notification ids',
+        details: `ids must be a list of 1 to ${MAX_MARK_READ_IDS} notification ids`,
+        code: 'INVALID_IDS'
+      });
+    }
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', authUser.id)
+      .is('read_at', null);
+
+    if (ids) {
+      query = query.in('id', ids);
+    }
+
+    const { data: updated, error: updateError } = await query.select('id');
+
+    if (updateError) {
+      console.error('Notification update error:', updateError);
+      return errorResponse(500, {
+        error: 'Failed to update notifications',
+        details: 'Please try again later',
+        code: 'NOTIFICATION_UPDATE_ERROR'
+      });
+    }
+
+    const response: MarkReadSuccessResponse = {
+      updated: updated?.length ?? 0,
+      unread_count: await getUnreadCount(supabase, authUser.id),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
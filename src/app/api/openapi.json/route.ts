@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/openapi';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Built once; the endpoint definitions don't change at runtime
+const openApiDocument = buildOpenApiDocument();
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - OpenAPI description of the integration endpoints
+  GET: apiHandler({ auth: 'none' }, async () => {
+    return NextResponse.json(openApiDocument, { status: 200 });
+  }),
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { type StoredPushSubscription } from '@/types/database';
+import { isKnownPushEndpoint, isValidPushKeys } from '@/lib/services/push';
+import { apiHandler, defineRoute, jsonObject } from '@/lib/api/handler';
+
+// Request body type (PushSubscription.toJSON())
+interface SubscribeRequest {
+  endpoint?: string;
+  keys?: {
+    p256dh?: string;
+    auth?: string;
+  };
+}
+
+// Response types
+interface SubscribeSuccessResponse {
+  subscription: Pick<StoredPushSubscription, 'id' | 'endpoint' | 'created_at'>;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Store the current browser's push subscription
+  POST: apiHandler({ body: jsonObject<SubscribeRequest>() }, async ({ request, body, supabase, errorResponse }) => {
+    if (!isKnownPushEndpoint(body.endpoint)) {
+      return errorResponse(400, {
+        error: 'Invalid subscription endpoint',
+        details: "Endpoint must be an https URL on a browser's push service",
+        code: 'INVALID_ENDPOINT'
+      });
+    }
+
+    if (!isValidPushKeys(body.keys?.p256dh, body.keys?.auth)) {
+      return errorResponse(400, {
+        error: 'Invalid subscription keys',
+        details: 'keys.p256dh and keys.auth are required',
+        code: 'INVALID_KEYS'
+      });
+    }
+
+    // Upserts by endpoint so re-subscribing (or a new user on the same device) is safe
+    const { data: saved, error: saveError } = await supabase
+      .rpc('save_push_subscription', {
+        p_endpoint: body.endpoint,
+        p_p256dh: body.keys!.p256dh,
+        p_auth: body.keys!.auth,
+        p_user_agent: request.headers.get('user-agent'),
+      })
+      .single<StoredPushSubscription>();
+
+    if (saveError || !saved) {
+      console.error('Push subscription save error:', saveError);
+      return errorResponse(500, {
+        error: 'Failed to save push subscription',
+        details: 'Please try again later',
+        code: 'SUBSCRIPTION_SAVE_ERROR'
+      });
+    }
+
+    const response: SubscribeSuccessResponse = {
+      subscription: {
+        id: saved.id,
+        endpoint: saved.endpoint,
+        created_at: saved.created_at,
+      },
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+});
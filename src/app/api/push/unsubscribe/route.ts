@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { apiHandler, defineRoute, jsonObject } from '@/lib/api/handler';
+
+// Request body type
+interface UnsubscribeRequest {
+  endpoint?: string;
+}
+
+// Response types
+interface UnsubscribeResponse {
+  success: boolean;
+  message: string;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - Remove the current browser's push subscription
+  POST: apiHandler({ body: jsonObject<UnsubscribeRequest>() }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    if (!body.endpoint || typeof body.endpoint !== 'string') {
+      return errorResponse(400, {
+        error: 'Missing required fields',
+        details: 'endpoint is required',
+        code: 'MISSING_FIELDS'
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('user_id', authUser.id)
+      .eq('endpoint', body.endpoint);
+
+    if (deleteError) {
+      console.error('Push subscription delete error:', deleteError);
+      return errorResponse(500, {
+        error: 'Failed to remove push subscription',
+        details: 'Please try again later',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    // Removing an unknown endpoint is not an error - the goal state is reached
+    const response: UnsubscribeResponse = {
+      success: true,
+      message: 'Push subscription removed',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
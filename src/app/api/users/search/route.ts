@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import {
+  VALIDATION_LIMITS,
+  geoPointToEWKT,
+  isActivityType,
+  type ActivityType,
+  type GeoPoint,
+  type PartnerCandidate,
+  type PartnerMatch,
+  type UserSearchFilters,
+} from '@/types/database';
+import {
+  DEFAULT_PARTNER_RADIUS_METERS,
+  MAX_PARTNER_RADIUS_METERS,
+  coarsenDistance,
+  matchesSearchFilters,
+  rankPartners,
+} from '@/lib/services/matching';
+import { apiHandler, defineRoute, type ErrorResponse } from '@/lib/api/handler';
+
+// Response types
+interface UserSearchResponse {
+  matches: PartnerMatch[];
+  radius_meters: number;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// Parse search filters from the query string
+function parseSearchParams(
+  searchParams: URLSearchParams
+): { filters: Omit<UserSearchFilters, 'location'>; radius: number } | { error: ErrorResponse } {
+  const filters: Omit<UserSearchFilters, 'location'> = {};
+
+  const activities = searchParams.get('activities');
+  if (activities) {
+    const values = activities.split(',').map(value => value.trim()).filter(Boolean);
+    const invalid = values.filter(value => !isActivityType(value));
+    if (invalid.length > 0) {
+      return {
+        error: {
+          error: 'Invalid activity type',
+          details: `Unknown activities: ${invalid.join(', ')}`,
+          code: 'INVALID_ACTIVITY'
+        }
+      };
+    }
+    filters.activity_preferences = values as ActivityType[];
+  }
+
+  for (const key of ['pace_min', 'pace_max'] as const) {
+    const raw = searchParams.get(key);
+    if (raw === null || raw === '') {
+      continue;
+    }
+
+    const pace = Number(raw);
+    if (!Number.isFinite(pace) || pace < VALIDATION_LIMITS.PACE_MIN || pace > VALIDATION_LIMITS.PACE_MAX) {
+      return {
+        error: {
+          error: 'Invalid pace',
+          details: `Pace must be between ${VALIDATION_LIMITS.PACE_MIN} and ${VALIDATION_LIMITS.PACE_MAX} minutes per mile`,
+          code: 'INVALID_PACE'
+        }
+      };
+    }
+
+    filters[key === 'pace_min' ? 'pace_range_min' : 'pace_range_max'] = pace;
+  }
+
+  const requestedRadius = parseInt(searchParams.get('radius') || '', 10);
+  const radius = Number.isNaN(requestedRadius)
+    ? DEFAULT_PARTNER_RADIUS_METERS
+    : Math.min(Math.max(requestedRadius, 1), MAX_PARTNER_RADIUS_METERS);
+
+  return { filters, radius };
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Find and rank nearby workout partners
+  GET: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    const parsed = parseSearchParams(request.nextUrl.searchParams);
+    if ('error' in parsed) {
+      return errorResponse(400, parsed.error);
+    }
+
+    const requestedLimit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    // The current user's preferences drive the ranking
+    const { data: profile, error: profileError } = await supabase
+      .from('users')
+      .select('activity_preferences, pace_range_min, pace_range_max, home_location_coords')
+      .eq('id', authUser.id)
+      .single();
+
+    if (profileError || !profile) {
+      return errorResponse(404, {
+        error: 'Profile not found',
+        details: 'Please complete your profile first',
+        code: 'PROFILE_NOT_FOUND'
+      });
+    }
+
+    // Searches always start from the user's own home location: letting them
+    // pick the center would let a few searches triangulate someone's home
+    const center: GeoPoint | null = profile.home_location_coords;
+
+    if (!center) {
+      return errorResponse(400, {
+        error: 'Location required',
+        details: 'Set your home location in your profile to find nearby partners',
+        code: 'LOCATION_REQUIRED'
+      });
+    }
+
+    const { data: nearby, error: searchError } = await supabase.rpc('find_users_near_location', {
+      user_location: geoPointToEWKT(center),
+      radius_meters: parsed.radius,
+    });
+
+    if (searchError) {
+      console.error('User search error:', searchError);
+      return errorResponse(500, {
+        error: 'Failed to search users',
+        details: 'Unable to find nearby users',
+        code: 'USER_SEARCH_ERROR'
+      });
+    }
+
+    // Drop the current user and withhold phone numbers from the results
+    const candidates: PartnerCandidate[] = ((nearby || []) as (PartnerCandidate & { phone_number?: string })[])
+      .filter(candidate => candidate.id !== authUser.id)
+      .map(candidate => ({
+        id: candidate.id,
+        name: candidate.name,
+        activity_preferences: candidate.activity_preferences || [],
+        pace_range_min: candidate.pace_range_min,
+        pace_range_max: candidate.pace_range_max,
+        home_location_name: candidate.home_location_name,
+        distance_meters: coarsenDistance(candidate.distance_meters),
+      }))
+      .filter(candidate => matchesSearchFilters(candidate, parsed.filters));
+
+    const response: UserSearchResponse = {
+      matches: rankPartners(profile, candidates, parsed.radius).slice(0, limit),
+      radius_meters: parsed.radius,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { ParticipantStatus, type WorkoutOccurrenceException } from '@/types/database';
+import {
+  CALENDAR_CONTENT_TYPE,
+  CALENDAR_WORKOUT_SELECT,
+  buildWorkoutCalendar,
+  calendarFileName,
+  getCalendarSiteUrl,
+  type CalendarWorkout,
+} from '@/lib/services/calendar';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Download a workout as an .ics file, including the cancelled
+  // and changed occurrences of a recurring workout
+  GET: apiHandler({}, async ({ request, params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const [workoutResult, exceptionsResult, participantResult] = await Promise.all([
+      supabase
+        .from('workouts')
+        .select(`host_id, ${CALENDAR_WORKOUT_SELECT}`)
+        .eq('id', id)
+        .maybeSingle<CalendarWorkout & { host_id: string }>(),
+      supabase.from('workout_occurrence_exceptions').select('*').eq('workout_id', id),
+      supabase
+        .from('workout_participants')
+        .select('status')
+        .eq('workout_id', id)
+        .eq('user_id', authUser.id)
+        .maybeSingle<{ status: ParticipantStatus }>(),
+    ]);
+
+    if (workoutResult.error || exceptionsResult.error) {
+      console.error('Workout fetch error:', workoutResult.error || exceptionsResult.error);
+      return errorResponse(500, {
+        error: 'Failed to fetch workout',
+        details: 'Unable to retrieve workout',
+        code: 'WORKOUT_FETCH_ERROR'
+      });
+    }
+
+    const workout = workoutResult.data;
+
+    if (!workout) {
+      return errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      });
+    }
+
+    const body = buildWorkoutCalendar(
+      [{
+        workout,
+        exceptions: (exceptionsResult.data || []) as WorkoutOccurrenceException[],
+        attendance: workout.host_id === authUser.id ? 'host' : participantResult.data?.status,
+      }],
+      { siteUrl: getCalendarSiteUrl(request.nextUrl.origin) }
+    );
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': CALENDAR_CONTENT_TYPE,
+        'Content-Disposition': `attachment; filename="${calendarFileName(workout.title)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  }),
+});
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface DeleteCommentResponse {
+  success: boolean;
+  message: string;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // DELETE method - Delete a comment (and its replies); authors and the workout host only
+  DELETE: apiHandler({}, async ({ params, supabase, errorResponse }) => {
+    const { id, commentId } = params;
+
+    // RLS only deletes rows the user wrote or whose workout they host
+    const { data: deleted, error: deleteError } = await supabase
+      .from('workout_comments')
+      .delete()
+      .eq('id', commentId)
+      .eq('workout_id', id)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Comment delete error:', deleteError);
+      return errorResponse(500, {
+        error: 'Failed to delete comment',
+        details: 'Please try again later',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return errorResponse(404, {
+        error: 'Comment not found',
+        details: 'It may have been deleted, or you are not allowed to delete it',
+        code: 'COMMENT_NOT_FOUND'
+      });
+    }
+
+    const response: DeleteCommentResponse = {
+      success: true,
+      message: 'Comment deleted',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import { NotificationCategory, type WorkoutCommentWithUser } from '@/types/database';
+import {
+  COMMENT_SELECT,
+  loadWorkoutDiscussion,
+  parseCommentPayload,
+  type WorkoutDiscussion,
+} from '@/lib/services/comments';
+import { notifyUsers } from '@/lib/services/notifications';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface CommentSuccessResponse {
+  comment: WorkoutCommentWithUser;
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - List a workout's comment threads and reactions
+  GET: apiHandler({}, async ({ params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const { data: canView, error: accessError } = await supabase.rpc('can_view_workout_discussion', {
+      p_workout_id: id,
+      p_user_id: authUser.id,
+    });
+
+    if (accessError) {
+      console.error('Comment access check error:', accessError);
+      return errorResponse(500, {
+        error: 'Failed to fetch comments',
+        details: 'Unable to retrieve comments',
+        code: 'COMMENTS_FETCH_ERROR'
+      });
+    }
+
+    if (!canView) {
+      return errorResponse(403, {
+        error: 'Comments are only visible to participants and friends of the host',
+        code: 'COMMENTS_NOT_VISIBLE'
+      });
+    }
+
+    const response: WorkoutDiscussion = await loadWorkoutDiscussion(supabase, id, authUser.id);
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // POST method - Comment on a workout, or reply to a comment with `parent_id`
+  POST: apiHandler({ body: parseCommentPayload }, async ({ params, body, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    // Threads are one level deep, so a reply to a reply joins the parent's thread
+    let parentId = body.parent_id;
+    let parentAuthorId: string | null = null;
+
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from('workout_comments')
+        .select('id, parent_id, user_id')
+        .eq('id', parentId)
+        .eq('workout_id', id)
+        .maybeSingle();
+
+      if (!parent) {
+        return errorResponse(404, {
+          error: 'The comment you are replying to no longer exists',
+          code: 'PARENT_NOT_FOUND'
+        });
+      }
+
+      parentId = parent.parent_id || parent.id;
+      parentAuthorId = parent.user_id;
+    }
+
+    const { data: created, error: insertError } = await supabase
+      .from('workout_comments')
+      .insert({
+        workout_id: id,
+        user_id: authUser.id,
+        parent_id: parentId,
+        body: body.body,
+      })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (insertError || !created) {
+      // RLS rejects users who are neither participants nor friends of the host
+      if (insertError?.code === '42501') {
+        return errorResponse(403, {
+          error: 'Only participants and friends of the host can comment',
+          code: 'COMMENT_NOT_ALLOWED'
+        });
+      }
+
+      // Foreign key violation: the workout does not exist
+      if (insertError?.code === '23503') {
+        return errorResponse(404, {
+          error: 'Workout not found',
+          code: 'WORKOUT_NOT_FOUND'
+        });
+      }
+
+      console.error('Comment creation error:', insertError);
+      return errorResponse(500, {
+        error: 'Failed to post comment',
+        details: 'Please try again later',
+        code: 'COMMENT_CREATION_FAILED'
+      });
+    }
+
+    const comment = created as WorkoutCommentWithUser;
+    const response: CommentSuccessResponse = { comment };
+
+    // Tell the host about new comments and authors about replies to theirs
+    const { data: workout } = await supabase
+      .from('workouts')
+      .select('host_id, title')
+      .eq('id', id)
+      .single();
+
+    if (workout) {
+      const authorName = comment.user?.name || 'Someone';
+      const notification = {
+        category: NotificationCategory.COMMENT,
+        title: workout.title,
+        url: `/workout/${id}`,
+        actor_id: authUser.id,
+      };
+
+      if (parentAuthorId && parentAuthorId !== workout.host_id) {
+        await notifyUsers([parentAuthorId], {
+          ...notification,
+          body: `${authorName} replied to your comment: ${comment.body}`,
+        });
+      }
+
+      await notifyUsers([workout.host_id], {
+        ...notification,
+        body: `${authorName} commented: ${comment.body}`,
+      });
+    }
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getLatLngFromGeoPoint, type Workout } from '@/types/database';
+import { serializeGpxRoute, type GpxWaypoint } from '@/lib/services/gpx';
+import { trackFileName, TRACK_FILE_CONTENT_TYPES } from '@/lib/services/trackFiles';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Download a workout's planned route (and meeting point) as GPX
+  GET: apiHandler({}, async ({ request, params, supabase, errorResponse }) => {
+    const { id } = params;
+    const format = request.nextUrl.searchParams.get('format') || 'gpx';
+
+    // Routes have no timestamps, which TCX requires
+    if (format !== 'gpx') {
+      return errorResponse(400, {
+        error: 'Planned routes can only be exported as GPX',
+        code: 'UNSUPPORTED_FORMAT'
+      });
+    }
+
+    const { data: workout, error: fetchError } = await supabase
+      .from('workouts')
+      .select('id, title, route, meeting_point_coords, meeting_point_name')
+      .eq('id', id)
+      .maybeSingle<Pick<Workout, 'id' | 'title' | 'route' | 'meeting_point_coords' | 'meeting_point_name'>>();
+
+    if (fetchError) {
+      console.error('Workout fetch error:', fetchError);
+      return errorResponse(500, {
+        error: 'Failed to fetch workout',
+        details: 'Unable to retrieve workout',
+        code: 'WORKOUT_FETCH_ERROR'
+      });
+    }
+
+    if (!workout) {
+      return errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      });
+    }
+
+    if (!workout.route || workout.route.length === 0) {
+      return errorResponse(404, {
+        error: 'This workout has no planned route',
+        code: 'ROUTE_NOT_FOUND'
+      });
+    }
+
+    const waypoints: GpxWaypoint[] = [];
+    if (workout.meeting_point_coords) {
+      const { lat, lng } = getLatLngFromGeoPoint(workout.meeting_point_coords);
+      waypoints.push({ lat, lng, name: workout.meeting_point_name || 'Meeting point' });
+    }
+
+    const body = serializeGpxRoute(workout.title, workout.route, waypoints);
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': TRACK_FILE_CONTENT_TYPES.gpx,
+        'Content-Disposition': `attachment; filename="${trackFileName(workout.title, 'gpx')}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  }),
+});
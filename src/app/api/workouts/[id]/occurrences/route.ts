@@ -0,0 +1,238 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  VALIDATION_LIMITS,
+  type WorkoutOccurrence,
+  type WorkoutOccurrenceException,
+} from '@/types/database';
+import {
+  expandWorkoutOccurrences,
+  getRecurrenceRule,
+  isWorkoutOccurrence,
+  parseOccurrenceExceptionPayload,
+  toWorkoutOccurrence,
+  type SchedulableWorkout,
+} from '@/lib/services/recurrence';
+import { apiHandler, defineRoute, type ErrorResponder } from '@/lib/api/handler';
+
+// Response types
+interface OccurrenceListResponse {
+  occurrences: WorkoutOccurrence[];
+}
+
+interface OccurrenceSuccessResponse {
+  occurrence: WorkoutOccurrence;
+}
+
+interface OccurrenceRestoreResponse {
+  success: boolean;
+  message: string;
+}
+
+const SCHEDULE_SELECT = 'id, host_id, start_time, duration_minutes, meeting_point_name, notes, recurrence_rule, timezone';
+
+const DEFAULT_WINDOW_DAYS = 60;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type ScheduleRow = SchedulableWorkout & { host_id: string };
+
+// Look up a recurring workout the current user hosts, or build the error response
+async function getHostedSeries(
+  supabase: SupabaseClient,
+  workoutId: string,
+  userId: string,
+  errorResponse: ErrorResponder
+): Promise<{ workout: ScheduleRow; response?: undefined } | { workout?: undefined; response: NextResponse }> {
+  const { data: workout, error: fetchError } = await supabase
+    .from('workouts')
+    .select(SCHEDULE_SELECT)
+    .eq('id', workoutId)
+    .single();
+
+  if (fetchError || !workout) {
+    return {
+      response: errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      }),
+    };
+  }
+
+  if (workout.host_id !== userId) {
+    return {
+      response: errorResponse(403, {
+        error: 'Forbidden',
+        details: 'Only the host can change occurrences of this workout',
+        code: 'NOT_WORKOUT_HOST'
+      }),
+    };
+  }
+
+  if (!getRecurrenceRule(workout)) {
+    return {
+      response: errorResponse(409, {
+        error: 'This workout does not repeat',
+        details: 'Edit the workout itself instead',
+        code: 'NOT_RECURRING'
+      }),
+    };
+  }
+
+  return { workout: workout as ScheduleRow };
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - List a workout's occurrences between `from` and `to` (ISO
+  // timestamps, default the next 60 days), including cancelled ones
+  GET: apiHandler({}, async ({ request, params, supabase, errorResponse }) => {
+    const { id } = params;
+
+    // Parse query parameters
+    const { searchParams } = request.nextUrl;
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : new Date();
+    const to = searchParams.get('to')
+      ? new Date(searchParams.get('to')!)
+      : new Date(from.getTime() + DEFAULT_WINDOW_DAYS * MS_PER_DAY);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      return errorResponse(400, {
+        error: 'from and to must be ISO timestamps with from before to',
+        code: 'INVALID_RANGE'
+      });
+    }
+
+    if (to.getTime() - from.getTime() > VALIDATION_LIMITS.OCCURRENCE_WINDOW_MAX_DAYS * MS_PER_DAY) {
+      return errorResponse(400, {
+        error: `Occurrences can be listed for at most ${VALIDATION_LIMITS.OCCURRENCE_WINDOW_MAX_DAYS} days at a time`,
+        code: 'INVALID_RANGE'
+      });
+    }
+
+    const [workoutResult, exceptionsResult] = await Promise.all([
+      supabase.from('workouts').select(SCHEDULE_SELECT).eq('id', id).single(),
+      supabase.from('workout_occurrence_exceptions').select('*').eq('workout_id', id),
+    ]);
+
+    if (workoutResult.error || !workoutResult.data) {
+      return errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      });
+    }
+
+    if (exceptionsResult.error) {
+      console.error('Occurrence exceptions fetch error:', exceptionsResult.error);
+      return errorResponse(500, {
+        error: 'Failed to fetch occurrences',
+        details: 'Unable to retrieve this workout\'s schedule',
+        code: 'OCCURRENCE_FETCH_ERROR'
+      });
+    }
+
+    const response: OccurrenceListResponse = {
+      occurrences: expandWorkoutOccurrences(
+        workoutResult.data,
+        (exceptionsResult.data || []) as WorkoutOccurrenceException[],
+        from,
+        to
+      ),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // PUT method - Cancel or change one occurrence (host only). The body
+  // replaces any earlier change to the same occurrence.
+  PUT: apiHandler({ body: parseOccurrenceExceptionPayload }, async ({ params, body, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const series = await getHostedSeries(supabase, id, authUser.id, errorResponse);
+    if (series.response) {
+      return series.response;
+    }
+
+    if (!isWorkoutOccurrence(series.workout, body.occurrence_start)) {
+      return errorResponse(404, {
+        error: 'Occurrence not found',
+        details: 'The workout is not scheduled at that time',
+        code: 'OCCURRENCE_NOT_FOUND'
+      });
+    }
+
+    const { data: exception, error: upsertError } = await supabase
+      .from('workout_occurrence_exceptions')
+      .upsert({ ...body, workout_id: id }, { onConflict: 'workout_id,occurrence_start' })
+      .select('*')
+      .single();
+
+    if (upsertError || !exception) {
+      console.error('Occurrence exception save error:', upsertError);
+      return errorResponse(500, {
+        error: 'Failed to update occurrence',
+        details: 'Please try again later',
+        code: 'OCCURRENCE_UPDATE_ERROR'
+      });
+    }
+
+    const response: OccurrenceSuccessResponse = {
+      occurrence: toWorkoutOccurrence(
+        series.workout,
+        Date.parse(body.occurrence_start),
+        exception as WorkoutOccurrenceException
+      ),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // DELETE method - Undo changes to an occurrence (`occurrence_start` query
+  // parameter), restoring it as scheduled (host only)
+  DELETE: apiHandler({}, async ({ request, params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const occurrenceStart = request.nextUrl.searchParams.get('occurrence_start');
+    if (!occurrenceStart || isNaN(Date.parse(occurrenceStart))) {
+      return errorResponse(400, {
+        error: 'occurrence_start must be the scheduled start of an occurrence',
+        code: 'INVALID_OCCURRENCE'
+      });
+    }
+
+    const series = await getHostedSeries(supabase, id, authUser.id, errorResponse);
+    if (series.response) {
+      return series.response;
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('workout_occurrence_exceptions')
+      .delete()
+      .eq('workout_id', id)
+      .eq('occurrence_start', new Date(occurrenceStart).toISOString())
+      .select('id');
+
+    if (deleteError) {
+      console.error('Occurrence exception delete error:', deleteError);
+      return errorResponse(500, {
+        error: 'Failed to restore occurrence',
+        details: 'Please try again later',
+        code: 'OCCURRENCE_UPDATE_ERROR'
+      });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return errorResponse(404, {
+        error: 'Occurrence has no changes to undo',
+        code: 'OCCURRENCE_NOT_FOUND'
+      });
+    }
+
+    const response: OccurrenceRestoreResponse = {
+      success: true,
+      message: 'Occurrence restored',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
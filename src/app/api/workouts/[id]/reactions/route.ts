@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import type { User as AuthUser } from '@supabase/supabase-js';
+import { type ReactionSummary } from '@/types/database';
+import {
+  addReaction,
+  loadReactions,
+  parseReactionPayload,
+  removeReaction,
+  type ReactionTarget,
+} from '@/lib/services/comments';
+import { apiHandler, defineRoute, jsonObject, type ApiContext, type ErrorResponder } from '@/lib/api/handler';
+
+// Response types
+interface ReactionsResponse {
+  reactions: ReactionSummary[];
+}
+
+// Map an insert/delete error to a response
+function reactionErrorResponse(error: { code: string }, errorResponse: ErrorResponder): NextResponse {
+  // RLS rejects users who cannot see the workout's discussion
+  if (error.code === '42501') {
+    return errorResponse(403, {
+      error: 'Only participants and friends of the host can react',
+      code: 'REACTION_NOT_ALLOWED'
+    });
+  }
+
+  // Foreign key violation: the workout or comment does not exist
+  if (error.code === '23503') {
+    return errorResponse(404, {
+      error: 'Workout or comment not found',
+      code: 'REACTION_TARGET_NOT_FOUND'
+    });
+  }
+
+  console.error('Reaction error:', error);
+  return errorResponse(500, {
+    error: 'Failed to update reaction',
+    details: 'Please try again later',
+    code: 'REACTION_ERROR'
+  });
+}
+
+// Run a reaction change for the current user and return the target's new summary
+async function updateReaction(
+  { params, supabase, user: authUser, errorResponse }: ApiContext<unknown, AuthUser>,
+  body: Record<string, unknown>,
+  change: typeof addReaction
+): Promise<NextResponse> {
+  const workoutId = params.id;
+  const payload = parseReactionPayload(body);
+
+  if (payload.error) {
+    return errorResponse(400, payload.error);
+  }
+
+  const target: ReactionTarget = { workout_id: workoutId, comment_id: payload.data.comment_id };
+  const changeError = await change(supabase, authUser.id, target, payload.data.emoji);
+
+  if (changeError) {
+    return reactionErrorResponse(changeError, errorResponse);
+  }
+
+  const response: ReactionsResponse = {
+    reactions: await loadReactions(supabase, target, authUser.id),
+  };
+
+  return NextResponse.json(response, { status: 200 });
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // POST method - React to a workout, or to one of its comments with `comment_id`
+  POST: apiHandler({ body: jsonObject() }, context => updateReaction(context, context.body, addReaction)),
+
+  // DELETE method - Remove a reaction (`emoji` and optional `comment_id` query parameters)
+  DELETE: apiHandler({}, context => {
+    const { searchParams } = context.request.nextUrl;
+
+    return updateReaction(
+      context,
+      { emoji: searchParams.get('emoji'), comment_id: searchParams.get('comment_id') },
+      removeReaction
+    );
+  }),
+});
@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import { type WorkoutWithHost } from '@/types/database';
+import { parseWorkoutPayload, resolveWorkoutSchedule, toWorkoutRow, WORKOUT_SELECT } from '@/lib/services/workouts';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface WorkoutSuccessResponse {
+  workout: WorkoutWithHost;
+}
+
+interface WorkoutDeleteResponse {
+  success: boolean;
+  message: string;
+}
+
+// Validates the fields being changed
+const parseWorkoutChanges = (body: Record<string, unknown>) => parseWorkoutPayload(body, { partial: true });
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Fetch a single workout
+  GET: apiHandler({}, async ({ params, supabase, errorResponse }) => {
+    const { id } = params;
+
+    const { data: workout, error: fetchError } = await supabase
+      .from('workouts')
+      .select(WORKOUT_SELECT)
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !workout) {
+      if (!workout || fetchError?.code === 'PGRST116') {
+        return errorResponse(404, {
+          error: 'Workout not found',
+          details: 'This workout does not exist or has been deleted',
+          code: 'WORKOUT_NOT_FOUND'
+        });
+      }
+
+      console.error('Workout fetch error:', fetchError);
+      return errorResponse(500, {
+        error: 'Failed to fetch workout',
+        details: 'Unable to retrieve workout',
+        code: 'WORKOUT_FETCH_ERROR'
+      });
+    }
+
+    const response: WorkoutSuccessResponse = {
+      workout: workout as WorkoutWithHost,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // PATCH method - Update a workout (host only)
+  PATCH: apiHandler({ body: parseWorkoutChanges }, async ({ params, body: changes, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    // Verify the workout exists and belongs to the current user
+    const { data: existing, error: fetchError } = await supabase
+      .from('workouts')
+      .select('id, host_id, start_time, recurrence_rule, timezone')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      });
+    }
+
+    if (existing.host_id !== authUser.id) {
+      return errorResponse(403, {
+        error: 'Forbidden',
+        details: 'Only the host can edit this workout',
+        code: 'NOT_WORKOUT_HOST'
+      });
+    }
+
+    // Repeat settings are checked against the stored time zone and rule
+    const schedule = resolveWorkoutSchedule(changes, existing);
+
+    if (schedule.error) {
+      return errorResponse(400, schedule.error);
+    }
+
+    const body = schedule.data;
+
+    // Raising the capacity promotes waitlisted participants in the same
+    // transaction (see migration 025), so a failed promotion fails the update
+    const { data: updated, error: updateError } = await supabase
+      .from('workouts')
+      .update(toWorkoutRow(body))
+      .eq('id', id)
+      .select(WORKOUT_SELECT)
+      .single();
+
+    if (updateError || !updated) {
+      console.error('Workout update error:', updateError);
+      return errorResponse(500, {
+        error: 'Failed to update workout',
+        details: 'Unable to update workout',
+        code: 'UPDATE_ERROR'
+      });
+    }
+
+    // Per-occurrence changes are keyed by the old schedule's start times
+    const { start_time, recurrence_rule, timezone } = body;
+    const scheduleChanged =
+      (start_time !== undefined && Date.parse(start_time) !== Date.parse(existing.start_time)) ||
+      (recurrence_rule !== undefined && recurrence_rule !== existing.recurrence_rule) ||
+      (timezone !== undefined && timezone !== existing.timezone);
+
+    if (scheduleChanged) {
+      const { error: exceptionsError } = await supabase
+        .from('workout_occurrence_exceptions')
+        .delete()
+        .eq('workout_id', id);
+
+      if (exceptionsError) {
+        console.error('Occurrence exceptions reset error:', exceptionsError);
+      }
+    }
+
+    const response: WorkoutSuccessResponse = {
+      workout: updated as WorkoutWithHost,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // DELETE method - Delete a workout (host only)
+  DELETE: apiHandler({}, async ({ params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    // Verify the workout exists and belongs to the current user
+    const { data: existing, error: fetchError } = await supabase
+      .from('workouts')
+      .select('id, host_id')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !existing) {
+      return errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      });
+    }
+
+    if (existing.host_id !== authUser.id) {
+      return errorResponse(403, {
+        error: 'Forbidden',
+        details: 'Only the host can delete this workout',
+        code: 'NOT_WORKOUT_HOST'
+      });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('workouts')
+      .delete()
+      .eq('id', id);
+
+    if (deleteError) {
+      console.error('Workout delete error:', deleteError);
+      return errorResponse(500, {
+        error: 'Failed to delete workout',
+        details: 'Unable to delete workout',
+        code: 'DELETE_ERROR'
+      });
+    }
+
+    const response: WorkoutDeleteResponse = {
+      success: true,
+      message: 'Workout deleted successfully',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
@@ -0,0 +1,171 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  NotificationCategory,
+  ParticipantStatus,
+  type WorkoutParticipantWithUser,
+  type WorkoutRsvpSummary,
+} from '@/types/database';
+import { PARTICIPANT_SELECT, RSVP_ERROR_STATUS, summarizeRsvps } from '@/lib/services/workouts';
+import { getActorName, notifyUsers } from '@/lib/services/notifications';
+import { apiHandler, defineRoute, jsonObject, type ErrorResponder } from '@/lib/api/handler';
+
+// Request body type
+interface RsvpRequest {
+  status: ParticipantStatus;
+}
+
+// Response types
+interface RsvpSuccessResponse {
+  rsvp: WorkoutRsvpSummary;
+}
+
+// Statuses a user may request directly (waitlisting is decided by capacity)
+const REQUESTABLE_STATUSES: ParticipantStatus[] = [
+  ParticipantStatus.GOING,
+  ParticipantStatus.MAYBE,
+  ParticipantStatus.DECLINED,
+];
+
+// How an RSVP reads in the host's notification
+const RSVP_NOTIFICATION_TEXT: Record<ParticipantStatus, string> = {
+  [ParticipantStatus.GOING]: 'is going to',
+  [ParticipantStatus.MAYBE]: 'might join',
+  [ParticipantStatus.WAITLISTED]: 'joined the waitlist for',
+  [ParticipantStatus.DECLINED]: "can't make",
+};
+
+// Load the workout and its participants and summarize them for the user
+async function loadRsvpSummary(
+  supabase: SupabaseClient,
+  workoutId: string,
+  userId: string
+): Promise<WorkoutRsvpSummary | null> {
+  const { data: workout, error: workoutError } = await supabase
+    .from('workouts')
+    .select('id, host_id, capacity')
+    .eq('id', workoutId)
+    .single();
+
+  if (workoutError || !workout) {
+    return null;
+  }
+
+  const { data: participants, error: participantsError } = await supabase
+    .from('workout_participants')
+    .select(PARTICIPANT_SELECT)
+    .eq('workout_id', workoutId)
+    .order('responded_at', { ascending: true });
+
+  if (participantsError) {
+    throw participantsError;
+  }
+
+  return summarizeRsvps(workout, (participants || []) as WorkoutParticipantWithUser[], userId);
+}
+
+// Map an error raised by the RSVP database functions to a response
+function rsvpErrorResponse(
+  error: { message: string; hint?: string | null },
+  errorResponse: ErrorResponder
+): NextResponse {
+  const code = error.hint && RSVP_ERROR_STATUS[error.hint] ? error.hint : null;
+
+  if (!code) {
+    console.error('RSVP error:', error);
+    return errorResponse(500, {
+      error: 'Failed to update RSVP',
+      details: 'Please try again later',
+      code: 'RSVP_ERROR'
+    });
+  }
+
+  return errorResponse(RSVP_ERROR_STATUS[code], {
+    error: error.message,
+    code
+  });
+}
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - RSVP summary for a workout
+  GET: apiHandler({}, async ({ params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const summary = await loadRsvpSummary(supabase, id, authUser.id);
+
+    if (!summary) {
+      return errorResponse(404, {
+        error: 'Workout not found',
+        details: 'This workout does not exist or has been deleted',
+        code: 'WORKOUT_NOT_FOUND'
+      });
+    }
+
+    const response: RsvpSuccessResponse = { rsvp: summary };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // POST method - Set the current user's RSVP
+  POST: apiHandler({ body: jsonObject<RsvpRequest>() }, async ({ params, body, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    if (!REQUESTABLE_STATUSES.includes(body.status)) {
+      return errorResponse(400, {
+        error: 'Invalid RSVP status',
+        details: `Status must be one of: ${REQUESTABLE_STATUSES.join(', ')}`,
+        code: 'INVALID_STATUS'
+      });
+    }
+
+    // Capacity and waitlist are enforced inside the database function
+    const { error: rsvpError } = await supabase.rpc('set_workout_rsvp', {
+      p_workout_id: id,
+      p_status: body.status,
+    });
+
+    if (rsvpError) {
+      return rsvpErrorResponse(rsvpError, errorResponse);
+    }
+
+    const summary = await loadRsvpSummary(supabase, id, authUser.id);
+    const response: RsvpSuccessResponse = { rsvp: summary! };
+
+    // Let the host know; a full workout turns "going" into "waitlisted"
+    const { data: workout } = await supabase
+      .from('workouts')
+      .select('host_id, title')
+      .eq('id', id)
+      .single();
+
+    if (workout && summary?.my_status) {
+      await notifyUsers([workout.host_id], {
+        category: NotificationCategory.RSVP,
+        title: workout.title,
+        body: `${await getActorName(supabase, authUser.id)} ${RSVP_NOTIFICATION_TEXT[summary.my_status]} ${workout.title}`,
+        url: `/workout/${id}`,
+        actor_id: authUser.id,
+      });
+    }
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // DELETE method - Leave a workout (removes the RSVP entirely)
+  DELETE: apiHandler({}, async ({ params, supabase, user: authUser, errorResponse }) => {
+    const { id } = params;
+
+    const { error: leaveError } = await supabase.rpc('leave_workout', {
+      p_workout_id: id,
+    });
+
+    if (leaveError) {
+      return rsvpErrorResponse(leaveError, errorResponse);
+    }
+
+    const summary = await loadRsvpSummary(supabase, id, authUser.id);
+    const response: RsvpSuccessResponse = { rsvp: summary! };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
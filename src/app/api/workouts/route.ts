@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import {
+  WorkoutStatus,
+  type WorkoutInsert,
+  type WorkoutListItem,
+  type WorkoutOccurrenceException,
+  type WorkoutWithHost,
+} from '@/types/database';
+import { parseWorkoutPayload, toWorkoutRow, workoutsStartingSinceFilter, WORKOUT_SELECT } from '@/lib/services/workouts';
+import { nextWorkoutOccurrence } from '@/lib/services/recurrence';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface WorkoutListResponse {
+  workouts: WorkoutListItem[];
+}
+
+interface WorkoutSuccessResponse {
+  workout: WorkoutWithHost;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Validates the fields of a new workout
+const parseNewWorkout = (body: Record<string, unknown>) => parseWorkoutPayload(body, { partial: false });
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - List upcoming workouts
+  GET: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    // Parse query parameters
+    const { searchParams } = request.nextUrl;
+    const hostFilter = searchParams.get('host');
+    const includePast = searchParams.get('include_past') === 'true';
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    let query = supabase
+      .from('workouts')
+      .select(WORKOUT_SELECT)
+      .eq('status', WorkoutStatus.SCHEDULED)
+      .order('start_time', { ascending: true })
+      .limit(limit);
+
+    if (hostFilter) {
+      query = query.eq('host_id', hostFilter === 'me' ? authUser.id : hostFilter);
+    }
+
+    const now = new Date();
+
+    // Recurring workouts stay listed until their last occurrence
+    if (!includePast) {
+      query = query.or(workoutsStartingSinceFilter(now));
+    }
+
+    const { data: workouts, error: listError } = await query;
+
+    if (listError) {
+      console.error('Workout list error:', listError);
+      return errorResponse(500, {
+        error: 'Failed to fetch workouts',
+        details: 'Unable to retrieve workouts',
+        code: 'WORKOUT_FETCH_ERROR'
+      });
+    }
+
+    const rows = (workouts || []) as WorkoutWithHost[];
+    const recurringIds = rows.filter(workout => workout.recurrence_rule).map(workout => workout.id);
+    let exceptions: WorkoutOccurrenceException[] = [];
+
+    if (recurringIds.length > 0) {
+      const { data: exceptionRows, error: exceptionsError } = await supabase
+        .from('workout_occurrence_exceptions')
+        .select('*')
+        .in('workout_id', recurringIds);
+
+      if (exceptionsError) {
+        console.error('Occurrence exceptions fetch error:', exceptionsError);
+      }
+      exceptions = (exceptionRows || []) as WorkoutOccurrenceException[];
+    }
+
+    const items: WorkoutListItem[] = rows.map(workout => ({
+      ...workout,
+      next_occurrence: nextWorkoutOccurrence(
+        workout,
+        exceptions.filter(exception => exception.workout_id === workout.id),
+        now
+      ),
+    }));
+
+    // Order by when each workout next happens; ended series drop out of upcoming lists
+    const response: WorkoutListResponse = {
+      workouts: includePast
+        ? items
+        : items
+          .filter(item => item.next_occurrence)
+          .sort((a, b) => a.next_occurrence!.start_time.localeCompare(b.next_occurrence!.start_time)),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+
+  // POST method - Create a workout hosted by the current user
+  POST: apiHandler({ body: parseNewWorkout }, async ({ body, supabase, user: authUser, errorResponse }) => {
+    const workout = {
+      ...body,
+      host_id: authUser.id,
+      status: WorkoutStatus.SCHEDULED,
+    } as WorkoutInsert;
+
+    const { data: created, error: insertError } = await supabase
+      .from('workouts')
+      .insert(toWorkoutRow(workout))
+      .select(WORKOUT_SELECT)
+      .single();
+
+    if (insertError || !created) {
+      console.error('Workout creation error:', insertError);
+      return errorResponse(500, {
+        error: 'Failed to create workout',
+        details: 'Please try again later',
+        code: 'WORKOUT_CREATION_FAILED'
+      });
+    }
+
+    const response: WorkoutSuccessResponse = {
+      workout: created as WorkoutWithHost,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  }),
+});
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { VALIDATION_LIMITS, type TimeSuggestion, type User } from '@/types/database';
+import { getFriendIds } from '@/lib/services/friends';
+import { suggestTimes, type AvailabilityProfile } from '@/lib/services/availability';
+import { apiHandler, defineRoute } from '@/lib/api/handler';
+
+// Response types
+interface SuggestTimesResponse {
+  suggestions: TimeSuggestion[];
+  without_availability: Pick<User, 'id' | 'name'>[]; // Invited friends who haven't shared their availability
+}
+
+const DEFAULT_DAYS = 14;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+  // GET method - Suggest start times for a workout with the given friends
+  // (`friend_id`, repeated), ranked by how many of them are free for the whole
+  // `duration` (minutes, default 60) over the next `days` (default 14)
+  GET: apiHandler({}, async ({ request, supabase, user: authUser, errorResponse }) => {
+    // Parse query parameters
+    const { searchParams } = request.nextUrl;
+    const friendIds = [...new Set(searchParams.getAll('friend_id'))];
+    const duration = Number(searchParams.get('duration') ?? 60);
+    const days = Number(searchParams.get('days') ?? DEFAULT_DAYS);
+
+    if (friendIds.length === 0 || friendIds.length > VALIDATION_LIMITS.SUGGESTION_FRIENDS_MAX) {
+      return errorResponse(400, {
+        error: `Choose between 1 and ${VALIDATION_LIMITS.SUGGESTION_FRIENDS_MAX} friends`,
+        code: 'INVALID_FRIENDS'
+      });
+    }
+
+    if (
+      !Number.isInteger(duration) ||
+      duration < VALIDATION_LIMITS.WORKOUT_DURATION_MIN ||
+      duration > VALIDATION_LIMITS.WORKOUT_DURATION_MAX
+    ) {
+      return errorResponse(400, {
+        error: `Duration must be between ${VALIDATION_LIMITS.WORKOUT_DURATION_MIN} and ${VALIDATION_LIMITS.WORKOUT_DURATION_MAX} minutes`,
+        code: 'INVALID_DURATION'
+      });
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > VALIDATION_LIMITS.SUGGESTION_DAYS_MAX) {
+      return errorResponse(400, {
+        error: `days must be between 1 and ${VALIDATION_LIMITS.SUGGESTION_DAYS_MAX}`,
+        code: 'INVALID_RANGE'
+      });
+    }
+
+    // Only friends' availability can be looked up
+    const myFriendIds = new Set(await getFriendIds(supabase, authUser.id));
+    if (friendIds.some(id => !myFriendIds.has(id))) {
+      return errorResponse(403, {
+        error: 'Not friends',
+        details: 'You can only find times with your friends',
+        code: 'NOT_FRIENDS'
+      });
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('users')
+      .select('id, name, availability, availability_timezone')
+      .in('id', [authUser.id, ...friendIds]);
+
+    if (profilesError) {
+      console.error('Availability fetch error:', profilesError);
+      return errorResponse(500, {
+        error: 'Failed to fetch availability',
+        details: 'Unable to retrieve availability',
+        code: 'AVAILABILITY_FETCH_ERROR'
+      });
+    }
+
+    const byId = new Map((profiles as AvailabilityProfile[]).map(profile => [profile.id, profile]));
+    const host = byId.get(authUser.id);
+    const friends = friendIds
+      .map(id => byId.get(id))
+      .filter((friend): friend is AvailabilityProfile => !!friend);
+
+    if (!host) {
+      return errorResponse(404, {
+        error: 'Profile not found',
+        details: 'User profile does not exist',
+        code: 'PROFILE_NOT_FOUND'
+      });
+    }
+
+    const hasAvailability = (friend: AvailabilityProfile) =>
+      friend.availability.length > 0 && !!friend.availability_timezone;
+
+    const from = new Date();
+    const response: SuggestTimesResponse = {
+      suggestions: suggestTimes({
+        host,
+        friends: friends.filter(hasAvailability),
+        durationMinutes: duration,
+        from,
+        to: new Date(from.getTime() + days * MS_PER_DAY),
+      }),
+      without_availability: friends
+        .filter(friend => !hasAvailability(friend))
+        .map(({ id, name }) => ({ id, name })),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  }),
+});
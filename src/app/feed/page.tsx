@@ -1,110 +1,313 @@
 'use client';
 
-import { useAuth } from '@/lib/context/AuthContext';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { useAuth } from '@/lib/context/AuthContext';
+import { ActivityType, FeedItemType, ParticipantStatus, type FeedItem } from '@/types/database';
+import { formatTimeAgo, formatWorkoutSchedule } from '@/lib/services/workouts';
+import { formatDistance, formatDuration, formatPace, paceSecondsPerUnit } from '@/lib/services/activities';
+import { usePullToRefresh } from '@/hooks/usePullToRefresh';
+import { ReactionBar } from '@/components/ReactionBar';
+import { NotificationBell } from '@/components/NotificationBell';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+const PAGE_SIZE = 20;
+
+function activityLabel(activityType: string): string {
+  return activityType.charAt(0).toUpperCase() + activityType.slice(1);
+}
+
+interface FeedItemCardProps {
+  item: FeedItem;
+  onOpen: (workoutId: string) => void;
+  onReact: (item: FeedItem, emoji: string, reacted: boolean) => void;
+  isReacting: boolean;
+}
+
+function FeedItemCard({ item, onOpen, onReact, isReacting }: FeedItemCardProps) {
+  const name = item.actor.name || 'A friend';
+
+  let headline: string;
+  switch (item.type) {
+    case FeedItemType.WORKOUT:
+      headline = `${name} is hosting a workout`;
+      break;
+    case FeedItemType.RSVP:
+      headline = item.status === ParticipantStatus.GOING
+        ? `${name} is going to a workout`
+        : `${name} might join a workout`;
+      break;
+    case FeedItemType.ACTIVITY:
+      headline = item.activity.activity_type === ActivityType.OTHER
+        ? `${name} completed an activity`
+        : `${name} completed a ${item.activity.activity_type}`;
+      break;
+  }
+
+  const workout = item.workout;
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 hover:bg-gray-700 transition-colors duration-200">
+      <button
+        onClick={() => workout && onOpen(workout.id)}
+        disabled={!workout}
+        className="w-full text-left disabled:cursor-default"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-gray-300 text-sm">{headline}</p>
+          <span className="text-gray-500 text-xs whitespace-nowrap ml-3">{formatTimeAgo(item.occurred_at)}</span>
+        </div>
+
+        {item.type === FeedItemType.ACTIVITY && (
+          <div className="grid grid-cols-3 gap-4 text-center my-3">
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Distance</label>
+              <div className="text-white font-medium">{formatDistance(item.activity.distance_meters, 'mi')}</div>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Time</label>
+              <div className="text-white font-medium">{formatDuration(item.activity.moving_seconds)}</div>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Pace</label>
+              <div className="text-white font-medium">
+                {formatPace(paceSecondsPerUnit(item.activity.distance_meters, item.activity.moving_seconds, 'mi'), 'mi')}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {workout && (
+          <>
+            <div className="flex items-center gap-2">
+              <span className="px-3 py-1 bg-orange-500/20 text-orange-300 text-xs rounded-full">
+                {activityLabel(workout.activity_type)}
+              </span>
+              <h3 className="text-lg font-semibold text-white truncate">{workout.title}</h3>
+            </div>
+            {item.type !== FeedItemType.ACTIVITY && (
+              <>
+                <p className="text-gray-300 text-sm mt-1">{formatWorkoutSchedule(workout)}</p>
+                {workout.meeting_point_name && (
+                  <p className="text-gray-400 text-sm mt-1">{workout.meeting_point_name}</p>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </button>
+
+      {item.type === FeedItemType.ACTIVITY && (
+        <div className="mt-3">
+          <ReactionBar
+            reactions={item.reactions}
+            onToggle={(emoji, reacted) => onReact(item, emoji, reacted)}
+            disabled={isReacting}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function FeedPage() {
-  const { user, loading, signOut } = useAuth();
+  const { user, loading } = useAuth();
   const router = useRouter();
 
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingFeed, setIsLoadingFeed] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [reactingId, setReactingId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Redirect if not authenticated
   useEffect(() => {
     if (!loading && !user) {
       router.push('/login');
     }
-  }, [user, loading, router]);
+  }, [loading, user, router]);
+
+  // Load a page of the feed; without a cursor this replaces the list
+  const loadPage = useCallback(async (cursor: string | null) => {
+    setError('');
 
-  const handleSignOut = async () => {
     try {
-      await signOut();
-      router.push('/login');
-    } catch (error) {
-      console.error('Sign out error:', error);
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = await fetch(`/api/feed?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load feed');
+      }
+
+      setItems(prev => (cursor ? [...prev, ...result.items] : result.items));
+      setNextCursor(result.next_cursor);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'feed');
+      setError(displayError(errorDetails));
+    }
+  }, []);
+
+  const refresh = useCallback(() => loadPage(null), [loadPage]);
+
+  // Toggle a reaction on a friend's activity and update its summary in place
+  const toggleReaction = async (item: FeedItem, emoji: string, reacted: boolean) => {
+    if (item.type !== FeedItemType.ACTIVITY) {
+      return;
+    }
+
+    setReactingId(item.id);
+    setError('');
+
+    try {
+      const url = `/api/activities/${item.activity.id}/reactions`;
+      const response = reacted
+        ? await fetch(`${url}?${new URLSearchParams({ emoji })}`, { method: 'DELETE' })
+        : await fetch(url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ emoji }),
+          });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update reaction');
+      }
+
+      setItems(prev => prev.map(existing => (
+        existing.id === item.id && existing.type === FeedItemType.ACTIVITY
+          ? { ...existing, reactions: result.reactions }
+          : existing
+      )));
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'feed-reaction');
+      setError(displayError(errorDetails));
+    } finally {
+      setReactingId(null);
     }
   };
 
+  const { pullDistance, isRefreshing, isReady } = usePullToRefresh(refresh, !!user && !isLoadingFeed);
+
+  // Load the first page
+  useEffect(() => {
+    if (user) {
+      loadPage(null).finally(() => setIsLoadingFeed(false));
+    }
+  }, [user, loadPage]);
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoadingMore || error) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          setIsLoadingMore(true);
+          loadPage(nextCursor).finally(() => setIsLoadingMore(false));
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoadingMore, error, loadPage]);
+
   if (loading) {
     return (
-      <div className="min-h-screen bg-background-light dark:bg-black flex items-center justify-center">
-        <div className="text-2xl font-semibold text-gray-900 dark:text-white">Loading...</div>
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
       </div>
     );
   }
 
   if (!user) {
-    return null; // Will redirect via useEffect
+    return null; // Will redirect
   }
 
   return (
-    <div className="min-h-screen bg-background-light dark:bg-black">
-      <div className="container mx-auto px-4 py-8">
-        <div className="max-w-4xl mx-auto">
-          {/* Header */}
-          <div className="flex justify-between items-center mb-8">
-            <div>
-              <h1 className="text-3xl font-bold bg-gradient-to-r from-[#ff8c42] to-[#f8d03a] bg-clip-text text-transparent">
-                WorkoutSync Feed
-              </h1>
-              <p className="text-gray-600 dark:text-[#a0a0a0] mt-2">
-                Welcome back, {user.name}!
-              </p>
-            </div>
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-white">Feed</h1>
+          <div className="flex items-center gap-4">
+            <NotificationBell />
             <button
-              onClick={handleSignOut}
-              className="px-4 py-2 bg-[#ff8c42] text-black font-semibold rounded-lg hover:bg-[#ff8c42]/90 transition-colors duration-200"
+              onClick={() => router.push('/workout/new')}
+              className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
             >
-              Sign Out
+              + New
             </button>
           </div>
+        </div>
+      </div>
 
-          {/* User Info Card */}
-          <div className="bg-white dark:bg-[#1a1a1a] rounded-xl p-6 shadow-lg border border-gray-200 dark:border-[#2a2a2a] mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 dark:text-[#e0e0e0] mb-4">
-              Your Profile
-            </h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <p className="text-sm text-gray-500 dark:text-[#a0a0a0]">Name</p>
-                <p className="text-gray-900 dark:text-[#e0e0e0] font-medium">{user.name}</p>
-              </div>
-              <div>
-                <p className="text-sm text-gray-500 dark:text-[#a0a0a0]">Phone</p>
-                <p className="text-gray-900 dark:text-[#e0e0e0] font-medium">{user.phone_number}</p>
-              </div>
-              {user.email && (
-                <div>
-                  <p className="text-sm text-gray-500 dark:text-[#a0a0a0]">Email</p>
-                  <p className="text-gray-900 dark:text-[#e0e0e0] font-medium">{user.email}</p>
-                </div>
-              )}
-              <div>
-                <p className="text-sm text-gray-500 dark:text-[#a0a0a0]">Activities</p>
-                <p className="text-gray-900 dark:text-[#e0e0e0] font-medium">
-                  {user.activity_preferences?.length > 0 
-                    ? user.activity_preferences.join(', ') 
-                    : 'None selected'}
-                </p>
-              </div>
-            </div>
+      {/* Pull-to-refresh indicator */}
+      {(pullDistance > 0 || isRefreshing) && (
+        <div
+          className="flex items-end justify-center text-gray-400 text-sm overflow-hidden"
+          style={{ height: isRefreshing ? 40 : pullDistance }}
+        >
+          <span className="pb-2">
+            {isRefreshing ? 'Refreshing...' : isReady ? 'Release to refresh' : 'Pull to refresh'}
+          </span>
+        </div>
+      )}
+
+      {/* Feed */}
+      <div className="px-6 py-6 space-y-4">
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
           </div>
+        )}
 
-          {/* Coming Soon Card */}
-          <div className="bg-gradient-to-r from-[#ff8c42] to-[#f8d03a] rounded-xl p-8 text-center">
-            <h2 className="text-2xl font-bold text-black mb-4">
-              🚀 Coming Soon!
-            </h2>
-            <p className="text-black/80 mb-6">
-              WorkoutSync is still under development. Soon you&apos;ll be able to:
+        {isLoadingFeed ? (
+          <div className="text-gray-400 text-center py-8">Loading feed...</div>
+        ) : items.length === 0 && !error ? (
+          <div className="bg-gray-800 rounded-2xl p-6 text-center">
+            <p className="text-white font-semibold mb-2">Nothing here yet</p>
+            <p className="text-gray-400 text-sm mb-4">
+              Add friends to see their workouts, RSVPs and activities.
             </p>
-            <ul className="text-black/80 space-y-2 max-w-md mx-auto">
-              <li>• Find workout partners near you</li>
-              <li>• Create and join workout groups</li>
-              <li>• Track your fitness progress</li>
-              <li>• Share workout achievements</li>
-              <li>• Get personalized recommendations</li>
-            </ul>
+            <button
+              onClick={() => router.push('/friends')}
+              className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 transition-all duration-300"
+            >
+              Find Friends
+            </button>
           </div>
-        </div>
+        ) : (
+          items.map(item => (
+            <FeedItemCard
+              key={item.id}
+              item={item}
+              onOpen={(workoutId) => router.push(`/workout/${workoutId}`)}
+              onReact={toggleReaction}
+              isReacting={reactingId === item.id}
+            />
+          ))
+        )}
+
+        {nextCursor && (
+          <div ref={sentinelRef} className="text-gray-400 text-center py-4 text-sm">
+            {isLoadingMore ? 'Loading more...' : ''}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { ActivityType, type PartnerMatch } from '@/types/database';
+import { formatDistance, METERS_PER_MILE } from '@/lib/services/matching';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+// Search radius options in miles
+const RADIUS_OPTIONS = [1, 5, 10, 25, 50];
+
+function formatActivity(activity: ActivityType): string {
+  return activity.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+}
+
+function formatPaceRange(min: number | null, max: number | null): string | null {
+  if (min && max) return `${min} - ${max} min/mile`;
+  if (min) return `${min}+ min/mile`;
+  if (max) return `Up to ${max} min/mile`;
+  return null;
+}
+
+export default function FindPartnersPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  const [matches, setMatches] = useState<PartnerMatch[]>([]);
+  const [activities, setActivities] = useState<ActivityType[]>([]);
+  const [radiusMiles, setRadiusMiles] = useState(10);
+  const [isSearching, setIsSearching] = useState(true);
+  const [requestedIds, setRequestedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string>('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  const search = useCallback(async () => {
+    setIsSearching(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({
+        radius: String(Math.round(radiusMiles * METERS_PER_MILE)),
+      });
+      if (activities.length > 0) {
+        params.set('activities', activities.join(','));
+      }
+
+      const response = await fetch(`/api/users/search?${params.toString()}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to find partners');
+      }
+
+      setMatches(result.matches);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'partner-search');
+      setError(displayError(errorDetails));
+      setMatches([]);
+    } finally {
+      setIsSearching(false);
+    }
+  }, [activities, radiusMiles]);
+
+  // Search whenever the filters change
+  useEffect(() => {
+    if (user) {
+      search();
+    }
+  }, [user, search]);
+
+  const toggleActivity = (activity: ActivityType) => {
+    setActivities(prev =>
+      prev.includes(activity) ? prev.filter(a => a !== activity) : [...prev, activity]
+    );
+  };
+
+  const handleAddFriend = async (match: PartnerMatch) => {
+    setError('');
+
+    try {
+      const response = await fetch('/api/friends/requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ user_id: match.id }),
+      });
+      const result = await response.json();
+
+      // An existing request or friendship still counts as "requested"
+      if (!response.ok && response.status !== 409) {
+        throw new Error(result.error || 'Failed to send friend request');
+      }
+
+      setRequestedIds(prev => new Set(prev).add(match.id));
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'partner-add-friend');
+      setError(displayError(errorDetails));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-white">Find Partners</h1>
+          <button
+            onClick={() => router.push('/friends')}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            Friends
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        {/* Filters */}
+        <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">Activities</label>
+            <div className="flex flex-wrap gap-2">
+              {Object.values(ActivityType).map(activity => (
+                <button
+                  key={activity}
+                  onClick={() => toggleActivity(activity)}
+                  className={`px-3 py-1 text-sm rounded-full transition-colors duration-200 ${
+                    activities.includes(activity)
+                      ? 'bg-orange-500 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {formatActivity(activity)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-2">Within</label>
+              <select
+                value={radiusMiles}
+                onChange={(e) => setRadiusMiles(Number(e.target.value))}
+                className="w-full h-12 px-4 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-orange-500"
+              >
+                {RADIUS_OPTIONS.map(miles => (
+                  <option key={miles} value={miles}>{miles} mi</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Matches */}
+        {isSearching ? (
+          <div className="text-gray-400 text-center py-8">Finding partners...</div>
+        ) : matches.length === 0 && !error ? (
+          <div className="bg-gray-800 rounded-2xl p-6 text-center">
+            <p className="text-white font-semibold mb-2">No partners found nearby</p>
+            <p className="text-gray-400 text-sm">Try a larger radius or fewer activities.</p>
+          </div>
+        ) : (
+          matches.map(match => {
+            const pace = formatPaceRange(match.pace_range_min, match.pace_range_max);
+
+            return (
+              <div key={match.id} className="bg-gray-800 rounded-2xl p-6">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold text-white truncate">{match.name || 'WorkoutSync member'}</h3>
+                    <p className="text-gray-400 text-sm">
+                      {formatDistance(match.distance_meters)} away
+                      {match.home_location_name && ` · ${match.home_location_name}`}
+                    </p>
+                  </div>
+                  <span className="px-3 py-1 bg-orange-500/20 text-orange-300 text-sm font-semibold rounded-full whitespace-nowrap">
+                    {match.score}% match
+                  </span>
+                </div>
+
+                {match.activity_preferences.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {match.activity_preferences.map(activity => (
+                      <span
+                        key={activity}
+                        className={`px-3 py-1 text-xs rounded-full ${
+                          match.shared_activities.includes(activity)
+                            ? 'bg-orange-500/20 text-orange-300'
+                            : 'bg-gray-700 text-gray-400'
+                        }`}
+                      >
+                        {formatActivity(activity)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {pace && (
+                  <p className="text-gray-300 text-sm mt-3">
+                    Pace: {pace}
+                    {match.pace_overlap !== null && match.pace_overlap >= 0 && (
+                      <span className="text-green-400"> · overlaps yours</span>
+                    )}
+                  </p>
+                )}
+
+                <button
+                  onClick={() => handleAddFriend(match)}
+                  disabled={requestedIds.has(match.id)}
+                  className="mt-4 w-full h-10 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-semibold rounded-lg hover:from-orange-600 hover:to-orange-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {requestedIds.has(match.id) ? 'Request Sent' : 'Add Friend'}
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { type Friend, type FriendProfile, type FriendRequest } from '@/types/database';
+import { DEFAULT_PHONE_COUNTRY, formatPhoneAsUserTypes, getPhonePlaceholder, toE164 } from '@/lib/utils/phone';
+import { CountrySelect } from '@/components/CountrySelect';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+function ProfileSummary({ profile }: { profile: FriendProfile }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <h3 className="text-white font-semibold truncate">{profile.name || 'WorkoutSync member'}</h3>
+      {profile.home_location_name && (
+        <p className="text-gray-400 text-sm truncate">{profile.home_location_name}</p>
+      )}
+      {profile.activity_preferences && profile.activity_preferences.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {profile.activity_preferences.map((activity, index) => (
+            <span
+              key={index}
+              className="px-3 py-1 bg-orange-500/20 text-orange-300 text-xs rounded-full"
+            >
+              {activity.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function FriendsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [incoming, setIncoming] = useState<FriendRequest[]>([]);
+  const [outgoing, setOutgoing] = useState<FriendRequest[]>([]);
+  const [isLoadingFriends, setIsLoadingFriends] = useState(true);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneCountry, setPhoneCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [isSending, setIsSending] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  const loadFriends = useCallback(async () => {
+    try {
+      const response = await fetch('/api/friends');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load friends');
+      }
+
+      setFriends(result.friends);
+      setIncoming(result.incoming);
+      setOutgoing(result.outgoing);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'friends-list');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsLoadingFriends(false);
+    }
+  }, []);
+
+  // Load friends and pending requests
+  useEffect(() => {
+    if (user) {
+      loadFriends();
+    }
+  }, [user, loadFriends]);
+
+  // Run a friendship action, then refresh the lists
+  const runAction = async (id: string, request: () => Promise<Response>) => {
+    setPendingId(id);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await request();
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Something went wrong');
+      }
+
+      await loadFriends();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'friends-action');
+      setError(displayError(errorDetails));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const respondToRequest = (id: string, action: 'accept' | 'decline') =>
+    runAction(id, () =>
+      fetch(`/api/friends/requests/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action }),
+      })
+    );
+
+  const cancelRequest = (id: string) =>
+    runAction(id, () => fetch(`/api/friends/requests/${id}`, { method: 'DELETE' }));
+
+  const unfriend = (friend: Friend) => {
+    if (!confirm(`Remove ${friend.name || 'this friend'} from your friends?`)) {
+      return;
+    }
+
+    runAction(friend.friendship_id, () => fetch(`/api/friends/${friend.id}`, { method: 'DELETE' }));
+  };
+
+  const handleAddFriend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError('');
+    setNotice('');
+
+    try {
+      const response = await fetch('/api/friends/requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ phone_number: toE164(phoneNumber, phoneCountry) ?? phoneNumber }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send friend request');
+      }
+
+      setNotice(result.message);
+      setPhoneNumber('');
+      await loadFriends();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'friends-add');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-white">Friends</h1>
+          <button
+            onClick={() => router.push('/friends/find')}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            Find Partners
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        {/* Add Friend */}
+        <form onSubmit={handleAddFriend} className="bg-gray-800 rounded-2xl p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-white">Add a Friend</h3>
+          <p className="text-gray-400 text-sm">Send a request using their phone number.</p>
+          <div className="flex gap-2">
+            <CountrySelect
+              value={phoneCountry}
+              onChange={(country) => {
+                setPhoneCountry(country);
+                setPhoneNumber(formatPhoneAsUserTypes(phoneNumber, country));
+              }}
+              className="h-12 px-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-orange-500"
+            />
+            <input
+              type="tel"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(formatPhoneAsUserTypes(e.target.value, phoneCountry))}
+              placeholder={getPhonePlaceholder(phoneCountry)}
+              className="flex-1 min-w-0 h-12 px-4 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-orange-500"
+            />
+            <button
+              type="submit"
+              disabled={isSending || !phoneNumber}
+              className="px-4 h-12 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSending ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+          {notice && (
+            <p className="text-green-400 text-sm">{notice}</p>
+          )}
+        </form>
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoadingFriends ? (
+          <div className="text-gray-400 text-center py-8">Loading friends...</div>
+        ) : (
+          <>
+            {/* Incoming Requests */}
+            {incoming.length > 0 && (
+              <div className="bg-gray-800 rounded-2xl p-6">
+                <h3 className="text-lg font-semibold text-white mb-4">Friend Requests</h3>
+                <div className="space-y-4">
+                  {incoming.map(request => (
+                    <div key={request.id} className="flex items-start gap-3">
+                      <ProfileSummary profile={request.user} />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => respondToRequest(request.id, 'accept')}
+                          disabled={pendingId === request.id}
+                          className="px-3 py-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white text-sm font-semibold rounded-lg disabled:opacity-50"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => respondToRequest(request.id, 'decline')}
+                          disabled={pendingId === request.id}
+                          className="px-3 py-2 bg-gray-700 border border-gray-600 text-white text-sm rounded-lg hover:bg-gray-600 disabled:opacity-50"
+                        >
+                          Decline
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Friends */}
+            <div className="bg-gray-800 rounded-2xl p-6">
+              <h3 className="text-lg font-semibold text-white mb-4">
+                Your Friends{friends.length > 0 && ` (${friends.length})`}
+              </h3>
+              {friends.length === 0 ? (
+                <p className="text-gray-400 text-sm">
+                  No friends yet. Add your workout partners to see them here.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {friends.map(friend => (
+                    <div key={friend.id} className="flex items-start gap-3">
+                      <ProfileSummary profile={friend} />
+                      <button
+                        onClick={() => unfriend(friend)}
+                        disabled={pendingId === friend.friendship_id}
+                        className="text-gray-400 text-sm hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        Unfriend
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Outgoing Requests */}
+            {outgoing.length > 0 && (
+              <div className="bg-gray-800 rounded-2xl p-6">
+                <h3 className="text-lg font-semibold text-white mb-4">Sent Requests</h3>
+                <div className="space-y-4">
+                  {outgoing.map(request => (
+                    <div key={request.id} className="flex items-start gap-3">
+                      <ProfileSummary profile={request.user} />
+                      <button
+                        onClick={() => cancelRequest(request.id)}
+                        disabled={pendingId === request.id}
+                        className="text-gray-400 text-sm hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
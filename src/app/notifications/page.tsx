@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { type Notification } from '@/types/database';
+import { formatTimeAgo } from '@/lib/services/workouts';
+import { NOTIFICATIONS_CHANGED_EVENT } from '@/components/NotificationBell';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+const PAGE_SIZE = 20;
+
+export default function NotificationsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingNotifications, setIsLoadingNotifications] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isMarkingAll, setIsMarkingAll] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  // Load a page of notifications; without a cursor this replaces the list
+  const loadPage = useCallback(async (cursor: string | null) => {
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (cursor) {
+        params.set('cursor', cursor);
+      }
+
+      const response = await fetch(`/api/notifications?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load notifications');
+      }
+
+      setNotifications(prev => (cursor ? [...prev, ...result.notifications] : result.notifications));
+      setUnreadCount(result.unread_count);
+      setNextCursor(result.next_cursor);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'notifications');
+      setError(displayError(errorDetails));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      loadPage(null).finally(() => setIsLoadingNotifications(false));
+    }
+  }, [user, loadPage]);
+
+  const setRead = async (notification: Notification, read: boolean) => {
+    const response = await fetch(`/api/notifications/${notification.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ read }),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to update notification');
+    }
+
+    setNotifications(prev => prev.map(existing => (
+      existing.id === notification.id ? result.notification : existing
+    )));
+    setUnreadCount(result.unread_count);
+    window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read_at) {
+      try {
+        await setRead(notification, true);
+      } catch (err) {
+        // Still open it; it stays unread
+        console.error('Failed to mark notification read:', err);
+      }
+    }
+
+    if (notification.url) {
+      router.push(notification.url);
+    }
+  };
+
+  const handleToggleRead = async (notification: Notification) => {
+    setError('');
+
+    try {
+      await setRead(notification, !notification.read_at);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'notification-read');
+      setError(displayError(errorDetails));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    setIsMarkingAll(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to mark notifications read');
+      }
+
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(existing => (existing.read_at ? existing : { ...existing, read_at: readAt })));
+      setUnreadCount(result.unread_count);
+      window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'notifications-read-all');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsMarkingAll(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-white">Notifications</h1>
+          <button
+            onClick={handleMarkAllRead}
+            disabled={isMarkingAll || unreadCount === 0}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isMarkingAll ? 'Marking...' : 'Mark all read'}
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-6 space-y-3">
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoadingNotifications ? (
+          <div className="text-gray-400 text-center py-8">Loading notifications...</div>
+        ) : notifications.length === 0 && !error ? (
+          <div className="bg-gray-800 rounded-2xl p-6 text-center">
+            <p className="text-white font-semibold mb-2">You&apos;re all caught up</p>
+            <p className="text-gray-400 text-sm">
+              Friend requests, RSVPs, comments and workout reminders will show up here.
+            </p>
+          </div>
+        ) : (
+          notifications.map(notification => (
+            <div
+              key={notification.id}
+              className={`rounded-2xl p-4 flex items-start gap-3 transition-colors duration-200 ${
+                notification.read_at ? 'bg-gray-900' : 'bg-gray-800'
+              }`}
+            >
+              <span
+                className={`mt-2 w-2 h-2 rounded-full flex-shrink-0 ${notification.read_at ? 'bg-transparent' : 'bg-orange-500'}`}
+                aria-hidden="true"
+              />
+              <button onClick={() => handleOpen(notification)} className="flex-1 min-w-0 text-left">
+                <div className="flex items-center justify-between gap-3">
+                  <h3 className={`truncate ${notification.read_at ? 'text-gray-300' : 'text-white font-semibold'}`}>
+                    {notification.title}
+                  </h3>
+                  <span className="text-gray-500 text-xs whitespace-nowrap">{formatTimeAgo(notification.created_at)}</span>
+                </div>
+                <p className="text-gray-400 text-sm mt-1">{notification.body}</p>
+              </button>
+              <button
+                onClick={() => handleToggleRead(notification)}
+                className="text-gray-500 text-xs hover:text-orange-400 transition-colors duration-200 whitespace-nowrap mt-1"
+              >
+                {notification.read_at ? 'Mark unread' : 'Mark read'}
+              </button>
+            </div>
+          ))
+        )}
+
+        {nextCursor && (
+          <button
+            onClick={() => {
+              setIsLoadingMore(true);
+              loadPage(nextCursor).finally(() => setIsLoadingMore(false));
+            }}
+            disabled={isLoadingMore}
+            className="w-full py-3 text-orange-500 text-sm font-semibold hover:text-orange-400 transition-colors duration-200 disabled:opacity-50"
+          >
+            {isLoadingMore ? 'Loading more...' : 'Load more'}
+          </button>
+        )}
+
+        <button
+          onClick={() => router.push('/profile')}
+          className="w-full py-3 text-gray-400 text-sm hover:text-white transition-colors duration-200"
+        >
+          Notification settings
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,10 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/context/AuthContext';
 import { LocationService } from '@/lib/services/location';
 import { createErrorInfo, displayError, handleLocationError } from '@/lib/utils/errors';
+import { getReturnPathFromLocation } from '@/lib/utils/redirect';
+import { api } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { locationSchema, profileUpdateSchema } from '@/lib/utils/validation';
 
 // Location detection states
 enum LocationState {
@@ -142,13 +146,11 @@ export default function ProfileSetupPage() {
   };
 
   const validateForm = (): boolean => {
-    if (!formData.displayName.trim()) {
-      setSubmitError('Display name is required');
-      return false;
-    }
+    const { errors } = profileUpdateSchema.parse({ name: formData.displayName, email: formData.email });
+    const error = errors?.name || errors?.email;
 
-    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      setSubmitError('Please enter a valid email address');
+    if (error) {
+      setSubmitError(error);
       return false;
     }
 
@@ -166,22 +168,12 @@ export default function ProfileSetupPage() {
     setSubmitError('');
 
     try {
-      // Update user profile
-      const response = await fetch('/api/profile', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.displayName.trim(),
-          email: formData.email.trim() || null,
-        }),
+      // Update user profile (queued for later if offline)
+      const profileResult = await api.submit(ENDPOINTS.updateProfile, {
+        name: formData.displayName.trim(),
+        email: formData.email.trim() || null,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to update profile');
-      }
-
       // Update location if detected (either auto or manual)
       const finalLocation = locationData.coordinates ? locationData : 
                            (manualLocationData.address ? {
@@ -194,27 +186,34 @@ export default function ProfileSetupPage() {
       if (finalLocation?.name) {
         // Only update location if we have coordinates (auto-detection)
         if (finalLocation.coordinates) {
-          await fetch('/api/profile/location', {
-            method: 'PATCH',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              latitude: finalLocation.coordinates.latitude,
-              longitude: finalLocation.coordinates.longitude,
-              locationName: finalLocation.name,
-            }),
+          const location = locationSchema.parse({
+            latitude: finalLocation.coordinates.latitude,
+            longitude: finalLocation.coordinates.longitude,
+            locationName: finalLocation.name,
           });
+
+          // A bad detected location shouldn't block setup; it can be set later
+          if (location.data) {
+            await api.submit(ENDPOINTS.updateLocation, location.data).catch(error => {
+              console.error('Location update error:', error);
+            });
+          }
         }
         // For manual addresses without coordinates, we'll just store the address name
         // You can add a separate API endpoint later to store just the address string
       }
 
+      // Offline: the outbox will finish setup once the connection returns
+      if (profileResult.queued) {
+        setSubmitError("You're offline. Your profile is saved and will sync when you reconnect.");
+        return;
+      }
+
       // Refresh user data
       await refreshUser();
 
-      // Redirect to feed
-      router.push('/feed');
+      // Continue to the page that required setup (defaults to the feed)
+      router.push(getReturnPathFromLocation());
     } catch (error) {
       console.error('Profile setup error:', error);
       
@@ -5,8 +5,15 @@ import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/context/AuthContext';
 import { LocationService } from '@/lib/services/location';
 import { formatPhoneForDisplay } from '@/lib/utils/phone';
-import { validateName, validateEmail } from '@/lib/utils/validation';
+import { locationSchema, profileUpdateSchema } from '@/lib/utils/validation';
 import { createErrorInfo, displayError, handleLocationError } from '@/lib/utils/errors';
+import { api } from '@/lib/api/client';
+import { ENDPOINTS } from '@/lib/api/endpoints';
+import { ChangePasswordForm } from '@/components/ChangePasswordForm';
+import { AvailabilityEditor } from '@/components/AvailabilityEditor';
+import { normalizeAvailability } from '@/lib/services/availability';
+import { getLocalTimeZone } from '@/lib/utils/timezone';
+import type { AvailabilityWindow } from '@/types/database';
 
 // Location detection states
 enum LocationState {
@@ -24,6 +31,8 @@ interface FormData {
 interface FormErrors {
   name?: string;
   email?: string;
+  location?: string;
+  availability?: string;
 }
 
 interface LocationData {
@@ -46,6 +55,7 @@ export default function ProfileEditPage() {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string>('');
+  const [savedOffline, setSavedOffline] = useState(false);
 
   const [locationData, setLocationData] = useState<LocationData>({
     state: LocationState.IDLE,
@@ -56,6 +66,10 @@ export default function ProfileEditPage() {
 
   const [locationUpdated, setLocationUpdated] = useState(false);
 
+  // Edited availability windows: undefined until changed, null while the
+  // editor has an invalid row
+  const [availability, setAvailability] = useState<AvailabilityWindow[] | null | undefined>(undefined);
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!loading && !user) {
@@ -89,17 +103,30 @@ export default function ProfileEditPage() {
     }
   }, [user]);
 
+  const availabilityChanged = !!user && availability !== undefined && (
+    availability === null ||
+    JSON.stringify(normalizeAvailability(availability)) !== JSON.stringify(normalizeAvailability(user.availability || []))
+  );
+
   // Check for unsaved changes
   useEffect(() => {
     if (user) {
       const hasChanges = 
         formData.name !== (user.name || '') ||
         formData.email !== (user.email || '') ||
-        locationUpdated;
+        locationUpdated ||
+        availabilityChanged;
       
       setHasUnsavedChanges(hasChanges);
     }
-  }, [formData, locationUpdated, user]);
+  }, [formData, locationUpdated, availabilityChanged, user]);
+
+  // New location to save, once one has been detected
+  const locationPayload = locationUpdated && locationData.coordinates ? {
+    latitude: locationData.coordinates.latitude,
+    longitude: locationData.coordinates.longitude,
+    locationName: locationData.name || 'Unknown Location',
+  } : null;
 
   const handleInputChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({
@@ -124,25 +151,29 @@ export default function ProfileEditPage() {
   const validateForm = (): boolean => {
     const errors: FormErrors = {};
 
-    // Validate name
-    const nameValidation = validateName(formData.name);
-    if (!nameValidation.valid) {
-      errors.name = nameValidation.message;
+    // Validate name and email (blank means no email)
+    const { errors: fieldErrors } = profileUpdateSchema.parse(formData);
+    if (fieldErrors?.name) {
+      errors.name = fieldErrors.name;
+    }
+    if (fieldErrors?.email) {
+      errors.email = fieldErrors.email;
     }
 
-    // Validate email if provided
-    if (formData.email.trim()) {
-      const emailValidation = validateEmail(formData.email.trim());
-      if (emailValidation && !emailValidation.valid) {
-        errors.email = emailValidation.message;
-      }
+    if (locationPayload) {
+      errors.location = locationSchema.errorFor(locationPayload);
+    }
+
+    if (availabilityChanged && availability === null) {
+      errors.availability = 'Fix the highlighted availability times';
     }
 
     setFormErrors(errors);
-    return Object.keys(errors).length === 0;
+    return Object.values(errors).every(error => !error);
   };
 
   const handleLocationUpdate = async () => {
+    setFormErrors(prev => ({ ...prev, location: undefined }));
     setLocationData({
       state: LocationState.LOADING,
       name: null,
@@ -190,35 +221,28 @@ export default function ProfileEditPage() {
     setSubmitError('');
 
     try {
-      // Update profile data
-      const response = await fetch('/api/profile', {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          email: formData.email.trim() || null,
+      // Update profile data (queued for later if offline)
+      const profileResult = await api.submit(ENDPOINTS.updateProfile, {
+        name: formData.name.trim(),
+        email: formData.email.trim() || null,
+        ...(availabilityChanged && availability && {
+          availability,
+          availability_timezone: user?.availability_timezone || getLocalTimeZone(),
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to update profile');
+      // Update location if it was changed
+      let locationQueued = false;
+      if (locationPayload) {
+        const locationResult = await api.submit(ENDPOINTS.updateLocation, locationPayload);
+        locationQueued = locationResult.queued;
       }
 
-      // Update location if it was changed
-      if (locationUpdated && locationData.coordinates) {
-        await fetch('/api/profile/location', {
-          method: 'PATCH',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            latitude: locationData.coordinates.latitude,
-            longitude: locationData.coordinates.longitude,
-            locationName: locationData.name || 'Unknown Location',
-          }),
-        });
+      // Offline: keep the user here with a note; the outbox syncs later
+      if (profileResult.queued || locationQueued) {
+        setSavedOffline(true);
+        setHasUnsavedChanges(false);
+        return;
       }
 
       // Refresh user data
@@ -279,6 +303,12 @@ export default function ProfileEditPage() {
             <p className="text-orange-300 text-sm">You have unsaved changes</p>
           </div>
         )}
+
+        {savedOffline && !hasUnsavedChanges && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3 mb-4">
+            <p className="text-yellow-300 text-sm">You&apos;re offline. Your changes are saved and will sync when you reconnect.</p>
+          </div>
+        )}
       </div>
 
       {/* Form */}
@@ -395,6 +425,26 @@ export default function ProfileEditPage() {
               {locationData.error}
             </p>
           )}
+          {formErrors.location && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.location}</p>
+          )}
+        </div>
+
+        {/* Availability */}
+        <div className="bg-gray-800 rounded-2xl p-6">
+          <h3 className="text-lg font-semibold text-white mb-1">Availability</h3>
+          <p className="text-gray-400 text-sm mb-4">When are you usually free to work out?</p>
+          <AvailabilityEditor
+            initialValue={user.availability || []}
+            timeZone={user.availability_timezone || getLocalTimeZone()}
+            onChange={(windows) => {
+              setAvailability(windows);
+              setFormErrors(prev => ({ ...prev, availability: undefined }));
+            }}
+          />
+          {formErrors.availability && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.availability}</p>
+          )}
         </div>
 
         {/* Submit Error */}
@@ -423,6 +473,11 @@ export default function ProfileEditPage() {
           Cancel
         </button>
       </div>
+
+      {/* Security */}
+      <div className="px-6 pb-8">
+        <ChangePasswordForm />
+      </div>
     </div>
   );
 }
@@ -4,6 +4,9 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/context/AuthContext';
 import { formatPhoneForDisplay } from '@/lib/utils/phone';
+import { CalendarFeedSettings } from '@/components/CalendarFeedSettings';
+import { NotificationSettings } from '@/components/NotificationSettings';
+import { describeAvailability } from '@/lib/services/availability';
 
 export default function ProfilePage() {
   const { user, loading, signOut } = useAuth();
@@ -154,6 +157,27 @@ export default function ProfilePage() {
           </div>
         )}
 
+        {/* Availability */}
+        {user.availability && user.availability.length > 0 && (
+          <div className="bg-gray-800 rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Availability</h3>
+            <div className="space-y-1">
+              {describeAvailability(user.availability).map(line => (
+                <div key={line} className="text-white font-medium">{line}</div>
+              ))}
+            </div>
+            {user.availability_timezone && (
+              <p className="text-gray-400 text-sm mt-2">{user.availability_timezone}</p>
+            )}
+          </div>
+        )}
+
+        {/* Calendar Feed */}
+        <CalendarFeedSettings />
+
+        {/* Notifications */}
+        <NotificationSettings />
+
         {/* Account Information */}
         <div className="bg-gray-800 rounded-2xl p-6">
           <h3 className="text-lg font-semibold text-white mb-4">Account Information</h3>
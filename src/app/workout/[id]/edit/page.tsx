@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { WorkoutForm } from '@/components/WorkoutForm';
+import { type WorkoutFormData, type WorkoutWithHost } from '@/types/database';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+export default function EditWorkoutPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+
+  const [workout, setWorkout] = useState<WorkoutWithHost | null>(null);
+  const [isLoadingWorkout, setIsLoadingWorkout] = useState(true);
+  const [loadError, setLoadError] = useState<string>('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  // Load the workout being edited
+  useEffect(() => {
+    const loadWorkout = async () => {
+      try {
+        const response = await fetch(`/api/workouts/${id}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load workout');
+        }
+
+        setWorkout(result.workout);
+      } catch (error) {
+        const errorDetails = createErrorInfo(error, 'workout-edit');
+        setLoadError(displayError(errorDetails));
+      } finally {
+        setIsLoadingWorkout(false);
+      }
+    };
+
+    if (user) {
+      loadWorkout();
+    }
+  }, [id, user]);
+
+  const handleUpdate = async (data: WorkoutFormData) => {
+    // Leave an unchanged start time out so a series that already began can still be edited
+    const { start_time, ...rest } = data;
+    const changes = workout && Date.parse(start_time) === Date.parse(workout.start_time) ? rest : data;
+
+    const response = await fetch(`/api/workouts/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to update workout');
+    }
+
+    router.push(`/workout/${id}`);
+  };
+
+  if (loading || (user && isLoadingWorkout)) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  if (!workout || workout.host_id !== user.id) {
+    return (
+      <div className="min-h-screen bg-black flex flex-col items-center justify-center px-6 text-center">
+        <p className="text-red-400 mb-4">{loadError || 'Only the host can edit this workout.'}</p>
+        <button
+          onClick={() => router.push(workout ? `/workout/${id}` : '/workout')}
+          className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+        >
+          Go back
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <h1 className="text-2xl font-bold text-white">Edit Workout</h1>
+        <p className="text-gray-400 text-sm mt-1">{workout.title}</p>
+      </div>
+
+      <WorkoutForm
+        initialData={workout}
+        submitLabel="Save Changes"
+        onSubmit={handleUpdate}
+        onCancel={() => router.push(`/workout/${id}`)}
+      />
+    </div>
+  );
+}
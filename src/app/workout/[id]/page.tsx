@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { getLatLngFromGeoPoint, type WorkoutWithHost } from '@/types/database';
+import { formatWorkoutDuration, formatWorkoutSchedule, isWorkoutOpen } from '@/lib/services/workouts';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+import { WorkoutRsvp } from '@/components/WorkoutRsvp';
+import { WorkoutActivities } from '@/components/WorkoutActivities';
+import { WorkoutRoute } from '@/components/WorkoutRoute';
+import { WorkoutComments } from '@/components/WorkoutComments';
+import { WorkoutOccurrences } from '@/components/WorkoutOccurrences';
+
+export default function WorkoutDetailPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+
+  const [workout, setWorkout] = useState<WorkoutWithHost | null>(null);
+  const [isLoadingWorkout, setIsLoadingWorkout] = useState(true);
+  const [error, setError] = useState<string>('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  // Load workout details
+  useEffect(() => {
+    const loadWorkout = async () => {
+      try {
+        const response = await fetch(`/api/workouts/${id}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load workout');
+        }
+
+        setWorkout(result.workout);
+      } catch (err) {
+        const errorDetails = createErrorInfo(err, 'workout-detail');
+        setError(displayError(errorDetails));
+      } finally {
+        setIsLoadingWorkout(false);
+      }
+    };
+
+    if (user) {
+      loadWorkout();
+    }
+  }, [id, user]);
+
+  const handleDelete = async () => {
+    if (!window.confirm('Delete this workout? This cannot be undone.')) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/workouts/${id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete workout');
+      }
+
+      router.push('/workout');
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-delete');
+      setError(displayError(errorDetails));
+      setIsDeleting(false);
+    }
+  };
+
+  if (loading || (user && isLoadingWorkout)) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  if (!workout) {
+    return (
+      <div className="min-h-screen bg-black flex flex-col items-center justify-center px-6 text-center">
+        <p className="text-red-400 mb-4">{error || 'Workout not found'}</p>
+        <button
+          onClick={() => router.push('/workout')}
+          className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+        >
+          Back to workouts
+        </button>
+      </div>
+    );
+  }
+
+  const isHost = workout.host_id === user.id;
+  const meetingPoint = workout.meeting_point_coords
+    ? getLatLngFromGeoPoint(workout.meeting_point_coords)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <button
+            onClick={() => router.push('/workout')}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            Back
+          </button>
+          {isHost && isWorkoutOpen(workout) && (
+            <button
+              onClick={() => router.push(`/workout/${id}/edit`)}
+              className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+            >
+              Edit
+            </button>
+          )}
+        </div>
+
+        <span className="px-3 py-1 bg-orange-500/20 text-orange-300 text-sm rounded-full">
+          {workout.activity_type.charAt(0).toUpperCase() + workout.activity_type.slice(1)}
+        </span>
+        <h1 className="text-2xl font-bold text-white mt-3">{workout.title}</h1>
+        <p className="text-gray-400 text-sm mt-1">
+          Hosted by {isHost ? 'you' : workout.host?.name || 'a WorkoutSync member'}
+        </p>
+      </div>
+
+      {/* Workout Details */}
+      <div className="px-6 py-6 space-y-6">
+        <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+          <div>
+            <label className="block text-gray-400 text-sm mb-1">When</label>
+            <div className="text-white font-medium">
+              {formatWorkoutSchedule(workout)} · {formatWorkoutDuration(workout.duration_minutes)}
+            </div>
+            <a
+              href={`/api/workouts/${workout.id}/calendar`}
+              download
+              className="text-orange-500 text-sm hover:underline"
+            >
+              Add to calendar
+            </a>
+          </div>
+
+          {(workout.meeting_point_name || meetingPoint) && (
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Meeting Point</label>
+              <div className="text-white font-medium">
+                {workout.meeting_point_name || 'Pinned location'}
+              </div>
+              {meetingPoint && (
+                <a
+                  href={`https://www.openstreetmap.org/?mlat=${meetingPoint.lat}&mlon=${meetingPoint.lng}#map=16/${meetingPoint.lat}/${meetingPoint.lng}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-orange-500 text-sm hover:underline"
+                >
+                  Open map
+                </a>
+              )}
+            </div>
+          )}
+
+          {(workout.pace_range_min || workout.pace_range_max) && (
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Pace</label>
+              <div className="text-white font-medium">
+                {workout.pace_range_min && workout.pace_range_max
+                  ? `${workout.pace_range_min} - ${workout.pace_range_max} min/mile`
+                  : workout.pace_range_min
+                  ? `${workout.pace_range_min}+ min/mile`
+                  : `Up to ${workout.pace_range_max} min/mile`
+                }
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-gray-400 text-sm mb-1">Capacity</label>
+            <div className="text-white font-medium">
+              {workout.capacity ? `${workout.capacity} people` : 'Unlimited'}
+            </div>
+          </div>
+        </div>
+
+        {workout.recurrence_rule && <WorkoutOccurrences workout={workout} isHost={isHost} />}
+
+        <WorkoutRoute workout={workout} isHost={isHost} />
+
+        <WorkoutRsvp workout={workout} currentUser={user} />
+
+        <WorkoutActivities workout={workout} />
+
+        {workout.notes && (
+          <div className="bg-gray-800 rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-2">Notes</h3>
+            <p className="text-gray-300 whitespace-pre-line">{workout.notes}</p>
+          </div>
+        )}
+
+        <WorkoutComments workout={workout} currentUser={user} />
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Host Actions */}
+      {isHost && (
+        <div className="px-6 pb-8">
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="w-full h-12 bg-gray-700 border border-gray-600 text-red-400 font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-black transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isDeleting ? 'Deleting...' : 'Delete Workout'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { type WorkoutWithHost } from '@/types/database';
+import { ActivityRecorder, type RecordingSnapshot } from '@/lib/services/recorder';
+import {
+  formatDistance,
+  formatDuration,
+  formatPace,
+  METERS_PER_UNIT,
+  type DistanceUnit,
+} from '@/lib/services/activities';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+const STATUS_LABELS: Record<RecordingSnapshot['status'], string> = {
+  idle: 'Ready',
+  recording: 'Recording',
+  paused: 'Paused',
+  'auto-paused': 'Auto-paused',
+  stopped: 'Finished',
+};
+
+const GPS_ERROR_MESSAGES: Record<string, string> = {
+  PERMISSION_DENIED: 'Location access has been denied. Please enable location services to record.',
+  POSITION_UNAVAILABLE: 'Waiting for a GPS signal...',
+  TIMEOUT: 'Waiting for a GPS signal...',
+  UNKNOWN: 'Unable to read your location.',
+};
+
+const secondaryButtonClassName = 'h-14 bg-gray-700 border border-gray-600 text-white font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed';
+const primaryButtonClassName = 'h-14 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 focus:ring-offset-black transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed';
+
+export default function RecordWorkoutPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+
+  const [workout, setWorkout] = useState<WorkoutWithHost | null>(null);
+  const [isLoadingWorkout, setIsLoadingWorkout] = useState(true);
+  const [snapshot, setSnapshot] = useState<RecordingSnapshot | null>(null);
+  const [unit, setUnit] = useState<DistanceUnit>('mi');
+  const [autoPause, setAutoPause] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const recorderRef = useRef<ActivityRecorder | null>(null);
+
+  const status = snapshot?.status ?? 'idle';
+  const isActive = status === 'recording' || status === 'paused' || status === 'auto-paused';
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  // Load the workout being recorded
+  useEffect(() => {
+    const loadWorkout = async () => {
+      try {
+        const response = await fetch(`/api/workouts/${id}`);
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load workout');
+        }
+
+        setWorkout(result.workout);
+      } catch (err) {
+        const errorDetails = createErrorInfo(err, 'workout-record');
+        setError(displayError(errorDetails));
+      } finally {
+        setIsLoadingWorkout(false);
+      }
+    };
+
+    if (user) {
+      loadWorkout();
+    }
+  }, [id, user]);
+
+  // Stop the GPS if the user navigates away
+  useEffect(() => {
+    return () => {
+      recorderRef.current?.stop();
+    };
+  }, []);
+
+  // Warn before closing the tab mid-recording
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isActive]);
+
+  const handleStart = () => {
+    if (!workout) {
+      return;
+    }
+
+    if (!ActivityRecorder.isSupported()) {
+      setError('Location services are not available on this device');
+      return;
+    }
+
+    setError('');
+    const recorder = new ActivityRecorder(
+      { unit, autoPause, activityType: workout.activity_type },
+      setSnapshot
+    );
+    recorderRef.current = recorder;
+    recorder.start();
+  };
+
+  const handleUnitChange = (value: DistanceUnit) => {
+    setUnit(value);
+    recorderRef.current?.setUnit(value);
+  };
+
+  const handleAutoPauseChange = (value: boolean) => {
+    setAutoPause(value);
+    recorderRef.current?.setAutoPause(value);
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this recording?')) {
+      return;
+    }
+
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    router.push(`/workout/${id}`);
+  };
+
+  const handleSave = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder || !workout) {
+      return;
+    }
+
+    const finished = recorder.stop();
+
+    if (finished.track.flat().length < 2) {
+      setError('Not enough GPS data was recorded to save this activity');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const response = await fetch('/api/activities', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          workout_id: workout.id,
+          activity_type: workout.activity_type,
+          track: finished.track,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to save activity');
+      }
+
+      router.push(`/workout/${id}`);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'activity-save', serverMessage);
+      setError(displayError(errorDetails));
+      setIsSaving(false);
+    }
+  };
+
+  if (loading || (user && isLoadingWorkout)) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  if (!workout) {
+    return (
+      <div className="min-h-screen bg-black flex flex-col items-center justify-center px-6 text-center">
+        <p className="text-red-400 mb-4">{error || 'Workout not found'}</p>
+        <button
+          onClick={() => router.push('/workout')}
+          className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+        >
+          Back to workouts
+        </button>
+      </div>
+    );
+  }
+
+  const gpsMessage = snapshot?.error ? GPS_ERROR_MESSAGES[snapshot.error.type] : null;
+  const latestSplits = snapshot ? [...snapshot.splits].reverse() : [];
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <button
+            onClick={() => (status === 'idle' ? router.push(`/workout/${id}`) : handleDiscard())}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            {status === 'idle' ? 'Back' : 'Discard'}
+          </button>
+          <span className={`px-3 py-1 text-sm rounded-full ${
+            status === 'recording' ? 'bg-green-500/20 text-green-300' : 'bg-orange-500/20 text-orange-300'
+          }`}>
+            {STATUS_LABELS[status]}
+          </span>
+        </div>
+
+        <h1 className="text-2xl font-bold text-white">{workout.title}</h1>
+        <p className="text-gray-400 text-sm mt-1">
+          {snapshot?.accuracy_meters != null
+            ? `GPS accuracy ±${Math.round(snapshot.accuracy_meters)} m`
+            : 'Recording uses your location while this screen is open'}
+          {snapshot?.wake_lock_active && ' · Screen stays on'}
+        </p>
+      </div>
+
+      <div className="px-6 py-6 space-y-6">
+        {/* Live Stats */}
+        <div className="bg-gray-800 rounded-2xl p-6">
+          <div className="text-center mb-6">
+            <label className="block text-gray-400 text-sm mb-1">Distance</label>
+            <div className="text-5xl font-bold text-white">
+              {formatDistance(snapshot?.distance_meters ?? 0, unit)}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Time</label>
+              <div className="text-white font-semibold text-lg">
+                {formatDuration(snapshot?.moving_seconds ?? 0)}
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Pace</label>
+              <div className="text-white font-semibold text-lg">
+                {formatPace(snapshot?.current_pace_seconds ?? null, unit)}
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Avg Pace</label>
+              <div className="text-white font-semibold text-lg">
+                {formatPace(snapshot?.average_pace_seconds ?? null, unit)}
+              </div>
+            </div>
+          </div>
+
+          {snapshot && snapshot.elapsed_seconds > 0 && (
+            <p className="text-gray-500 text-xs text-center mt-4">
+              Elapsed {formatDuration(snapshot.elapsed_seconds)}
+            </p>
+          )}
+        </div>
+
+        {gpsMessage && (
+          <div className="bg-yellow-900/20 border border-yellow-500/50 rounded-lg p-3">
+            <p className="text-yellow-300 text-sm">{gpsMessage}</p>
+          </div>
+        )}
+
+        {/* Settings */}
+        <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-white">Units</span>
+            <div className="grid grid-cols-2 gap-2">
+              {(['mi', 'km'] as DistanceUnit[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => handleUnitChange(option)}
+                  className={`h-10 px-4 rounded-lg font-semibold transition-all duration-300 ${
+                    unit === option
+                      ? 'bg-gradient-to-r from-orange-500 to-orange-600 text-white'
+                      : 'bg-gray-700 border border-gray-600 text-white hover:bg-gray-600'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center justify-between">
+            <span className="text-white">Auto-pause when stopped</span>
+            <input
+              type="checkbox"
+              checked={autoPause}
+              onChange={(e) => handleAutoPauseChange(e.target.checked)}
+              className="w-5 h-5 accent-orange-500"
+            />
+          </label>
+        </div>
+
+        {/* Splits */}
+        {latestSplits.length > 0 && (
+          <div className="bg-gray-800 rounded-2xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-3">Splits</h3>
+            <div className="space-y-2">
+              {latestSplits.map(split => (
+                <div key={split.index} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-400">
+                    {split.distance_meters < METERS_PER_UNIT[unit] - 1
+                      ? formatDistance(split.distance_meters, unit)
+                      : `${unit === 'mi' ? 'Mile' : 'Km'} ${split.index}`}
+                  </span>
+                  <span className="text-white font-medium">{formatPace(split.pace_seconds, unit)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="px-6 pb-8">
+        {status === 'idle' && (
+          <button onClick={handleStart} className={`w-full ${primaryButtonClassName}`}>
+            Start
+          </button>
+        )}
+
+        {isActive && (
+          <div className="grid grid-cols-2 gap-3">
+            {status === 'paused' ? (
+              <button onClick={() => recorderRef.current?.resume()} className={primaryButtonClassName}>
+                Resume
+              </button>
+            ) : (
+              <button onClick={() => recorderRef.current?.pause()} className={secondaryButtonClassName}>
+                Pause
+              </button>
+            )}
+            <button onClick={handleSave} disabled={isSaving} className={primaryButtonClassName}>
+              Finish &amp; Save
+            </button>
+          </div>
+        )}
+
+        {status === 'stopped' && (
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={handleDiscard} disabled={isSaving} className={secondaryButtonClassName}>
+              Discard
+            </button>
+            <button onClick={handleSave} disabled={isSaving} className={primaryButtonClassName}>
+              {isSaving ? 'Saving...' : 'Save Activity'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
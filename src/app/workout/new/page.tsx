@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { WorkoutForm } from '@/components/WorkoutForm';
+import { type WorkoutFormData } from '@/types/database';
+
+export default function NewWorkoutPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  const handleCreate = async (data: WorkoutFormData) => {
+    const response = await fetch('/api/workouts', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to create workout');
+    }
+
+    router.push(`/workout/${result.workout.id}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <h1 className="text-2xl font-bold text-white">New Workout</h1>
+        <p className="text-gray-400 text-sm mt-1">Pick a time and place and invite your crew</p>
+      </div>
+
+      <WorkoutForm
+        submitLabel="Create Workout"
+        onSubmit={handleCreate}
+        onCancel={() => router.push('/workout')}
+      />
+    </div>
+  );
+}
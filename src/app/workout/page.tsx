@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/context/AuthContext';
+import { type WorkoutListItem } from '@/types/database';
+import { formatWorkoutDuration, formatWorkoutSchedule, formatWorkoutTime } from '@/lib/services/workouts';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+export default function WorkoutsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+
+  const [workouts, setWorkouts] = useState<WorkoutListItem[]>([]);
+  const [isLoadingWorkouts, setIsLoadingWorkouts] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/login');
+    }
+  }, [loading, user, router]);
+
+  // Load upcoming workouts
+  useEffect(() => {
+    const loadWorkouts = async () => {
+      try {
+        const response = await fetch('/api/workouts');
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load workouts');
+        }
+
+        setWorkouts(result.workouts);
+      } catch (err) {
+        const errorDetails = createErrorInfo(err, 'workout-list');
+        setError(displayError(errorDetails));
+      } finally {
+        setIsLoadingWorkouts(false);
+      }
+    };
+
+    if (user) {
+      loadWorkouts();
+    }
+  }, [user]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null; // Will redirect
+  }
+
+  return (
+    <div className="min-h-screen bg-black">
+      {/* Header */}
+      <div className="bg-gray-900 px-6 py-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-white">Workouts</h1>
+          <button
+            onClick={() => router.push('/workout/new')}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            + New
+          </button>
+        </div>
+      </div>
+
+      {/* Workout List */}
+      <div className="px-6 py-6 space-y-4">
+        {error && (
+          <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoadingWorkouts ? (
+          <div className="text-gray-400 text-center py-8">Loading workouts...</div>
+        ) : workouts.length === 0 && !error ? (
+          <div className="bg-gray-800 rounded-2xl p-6 text-center">
+            <p className="text-white font-semibold mb-2">No upcoming workouts</p>
+            <p className="text-gray-400 text-sm mb-4">Be the first to get the group moving.</p>
+            <button
+              onClick={() => router.push('/workout/new')}
+              className="px-4 py-2 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 transition-all duration-300"
+            >
+              Create a Workout
+            </button>
+          </div>
+        ) : (
+          workouts.map(workout => (
+            <button
+              key={workout.id}
+              onClick={() => router.push(`/workout/${workout.id}`)}
+              className="w-full text-left bg-gray-800 rounded-2xl p-6 hover:bg-gray-700 transition-colors duration-200"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="px-3 py-1 bg-orange-500/20 text-orange-300 text-xs rounded-full">
+                  {workout.activity_type.charAt(0).toUpperCase() + workout.activity_type.slice(1)}
+                </span>
+                <span className="text-gray-400 text-sm">{formatWorkoutDuration(workout.duration_minutes)}</span>
+              </div>
+              <h3 className="text-lg font-semibold text-white">{workout.title}</h3>
+              <p className="text-gray-300 text-sm mt-1">
+                {formatWorkoutTime(workout.next_occurrence?.start_time || workout.start_time)}
+              </p>
+              {workout.recurrence_rule && (
+                <p className="text-orange-300 text-xs mt-1">{formatWorkoutSchedule(workout)}</p>
+              )}
+              {workout.meeting_point_name && (
+                <p className="text-gray-400 text-sm mt-1">{workout.meeting_point_name}</p>
+              )}
+              <p className="text-gray-500 text-xs mt-2">
+                Hosted by {workout.host_id === user.id ? 'you' : workout.host?.name || 'a WorkoutSync member'}
+              </p>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
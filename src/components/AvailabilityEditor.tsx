@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { VALIDATION_LIMITS, type AvailabilityWindow } from '@/types/database';
+import { MINUTES_PER_DAY } from '@/lib/services/availability';
+
+interface AvailabilityEditorProps {
+  initialValue: AvailabilityWindow[];
+  timeZone: string;
+  onChange: (windows: AvailabilityWindow[] | null) => void; // null while a row is invalid
+}
+
+// One editable row: the same hours on several days
+interface AvailabilityRow {
+  days: number[];
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", "00:00" means midnight at the end of the day
+}
+
+// Monday first
+const DAY_OPTIONS = [
+  { value: 1, label: 'M' },
+  { value: 2, label: 'T' },
+  { value: 3, label: 'W' },
+  { value: 4, label: 'T' },
+  { value: 5, label: 'F' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'S' },
+];
+
+const NEW_ROW: AvailabilityRow = { days: [1, 2, 3, 4, 5], start: '06:00', end: '08:00' };
+
+const toTimeValue = (minute: number) =>
+  `${String(Math.floor(minute / 60) % 24).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+const fromTimeValue = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Group windows with the same hours into rows
+function toRows(windows: AvailabilityWindow[]): AvailabilityRow[] {
+  const rows = new Map<string, AvailabilityRow>();
+
+  for (const window of windows) {
+    const key = `${window.start_minute}-${window.end_minute}`;
+    const row = rows.get(key) ?? { days: [], start: toTimeValue(window.start_minute), end: toTimeValue(window.end_minute) };
+    row.days.push(window.day);
+    rows.set(key, row);
+  }
+
+  return [...rows.values()];
+}
+
+function rowError(row: AvailabilityRow): string | null {
+  if (row.days.length === 0) return 'Pick at least one day';
+  if (!row.start || !row.end) return 'Enter a start and end time';
+  const end = fromTimeValue(row.end) || MINUTES_PER_DAY;
+  if (end <= fromTimeValue(row.start)) return 'End must be after start';
+  return null;
+}
+
+function toWindows(rows: AvailabilityRow[]): AvailabilityWindow[] | null {
+  if (rows.some(row => rowError(row))) return null;
+
+  const windows = rows.flatMap(row => row.days.map(day => ({
+    day,
+    start_minute: fromTimeValue(row.start),
+    end_minute: fromTimeValue(row.end) || MINUTES_PER_DAY,
+  })));
+
+  return windows.length <= VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX ? windows : null;
+}
+
+export function AvailabilityEditor({ initialValue, timeZone, onChange }: AvailabilityEditorProps) {
+  const [rows, setRows] = useState<AvailabilityRow[]>(() => toRows(initialValue));
+
+  const updateRows = (next: AvailabilityRow[]) => {
+    setRows(next);
+    onChange(toWindows(next));
+  };
+
+  const updateRow = (index: number, changes: Partial<AvailabilityRow>) => {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const { days } = rows[index];
+    updateRow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  const windowCount = rows.reduce((count, row) => count + row.days.length, 0);
+
+  return (
+    <div className="space-y-4">
+      {rows.length === 0 && (
+        <p className="text-gray-400 text-sm">
+          Add the times you&apos;re usually free so friends can find a time that works.
+        </p>
+      )}
+
+      {rows.map((row, index) => {
+        const error = rowError(row);
+
+        return (
+          <div key={index} className="space-y-2 border-b border-gray-700 last:border-0 pb-4 last:pb-0">
+            <div className="flex gap-1">
+              {DAY_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => toggleDay(index, option.value)}
+                  aria-pressed={row.days.includes(option.value)}
+                  className={`w-9 h-9 rounded-full text-sm font-semibold transition-colors duration-200 ${
+                    row.days.includes(option.value)
+                      ? 'bg-orange-500 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                step={900}
+                value={row.start}
+                onChange={(e) => updateRow(index, { start: e.target.value })}
+                aria-label="From"
+                className="flex-1 h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-orange-500"
+              />
+              <span className="text-gray-400 text-sm">to</span>
+              <input
+                type="time"
+                step={900}
+                value={row.end}
+                onChange={(e) => updateRow(index, { end: e.target.value })}
+                aria-label="Until"
+                className="flex-1 h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-orange-500"
+              />
+              <button
+                type="button"
+                onClick={() => updateRows(rows.filter((_, i) => i !== index))}
+                className="text-gray-400 text-sm hover:text-red-400 transition-colors duration-200"
+              >
+                Remove
+              </button>
+            </div>
+
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+          </div>
+        );
+      })}
+
+      {windowCount > VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX && (
+        <p className="text-red-400 text-sm">
+          Up to {VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX} day-and-time windows in total
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => updateRows([...rows, { ...NEW_ROW, days: [...NEW_ROW.days] }])}
+          className="text-orange-500 text-sm font-semibold hover:text-orange-400 transition-colors duration-200"
+        >
+          + Add times
+        </button>
+        <span className="text-gray-500 text-xs">Times in {timeZone}</span>
+      </div>
+    </div>
+  );
+}
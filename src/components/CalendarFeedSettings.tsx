@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CalendarFeedInfo } from '@/lib/services/calendar';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+export function CalendarFeedSettings() {
+  const [feed, setFeed] = useState<CalendarFeedInfo | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPending, setIsPending] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        const response = await fetch('/api/calendar');
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load calendar feed');
+        }
+
+        setFeed(result.feed);
+      } catch (err) {
+        const errorDetails = createErrorInfo(err, 'calendar-feed-load');
+        setError(displayError(errorDetails));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFeed();
+  }, []);
+
+  const handleCreate = async () => {
+    if (feed && !window.confirm('Reset your calendar link? Calendars subscribed with the old link will stop updating.')) {
+      return;
+    }
+
+    setIsPending(true);
+    setError('');
+    setCopied(false);
+
+    try {
+      const response = await fetch('/api/calendar', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to create calendar link');
+      }
+
+      setFeed(result.feed);
+      setFeedUrl(result.url);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'calendar-feed-create');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    if (!window.confirm('Turn off your calendar feed? Subscribed calendars will stop updating.')) {
+      return;
+    }
+
+    setIsPending(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/calendar', { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to turn off calendar feed');
+      }
+
+      setFeed(null);
+      setFeedUrl(null);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'calendar-feed-revoke');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      setError('Copy failed. Select the link and copy it instead.');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Calendar Feed</h3>
+        <p className="text-gray-400 text-sm mt-1">
+          Subscribe from your calendar app to see every workout you host or RSVP to, kept up to date.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <>
+          {feedUrl && (
+            <div className="space-y-2">
+              <input
+                type="text"
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className="w-full h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-orange-500"
+              />
+              <p className="text-gray-400 text-xs">
+                Keep this link private: anyone with it can see your workouts. It won&apos;t be shown again.
+              </p>
+              <div className="flex gap-4 text-sm">
+                <button
+                  onClick={handleCopy}
+                  className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+                >
+                  {copied ? 'Copied' : 'Copy link'}
+                </button>
+                <a
+                  href={feedUrl.replace(/^https?:/, 'webcal:')}
+                  className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+                >
+                  Open in calendar app
+                </a>
+              </div>
+            </div>
+          )}
+
+          {feed && !feedUrl && (
+            <p className="text-gray-300 text-sm">
+              Created {formatDate(feed.created_at)}
+              {feed.last_used_at ? ` · Last synced ${formatDate(feed.last_used_at)}` : ' · Not synced yet'}
+            </p>
+          )}
+
+          <div className="flex gap-4 text-sm">
+            <button
+              onClick={handleCreate}
+              disabled={isPending}
+              className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200 disabled:opacity-50"
+            >
+              {feed ? 'Reset link' : 'Create calendar link'}
+            </button>
+            {feed && (
+              <button
+                onClick={handleTurnOff}
+                disabled={isPending}
+                className="text-gray-400 font-semibold hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { passwordSchema } from '@/lib/utils/validation';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+import { api, ApiError } from '@/lib/api/client';
+
+const inputClassName = 'w-full h-12 px-4 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300';
+
+export function ChangePasswordForm() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [notice, setNotice] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+
+    const passwordError = passwordSchema.errorFor(newPassword);
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const result = await api.changePassword({
+        current_password: currentPassword,
+        new_password: newPassword,
+      });
+
+      setNotice(result.message);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      // Server messages (wrong current password) are user-facing
+      const serverMessage = err instanceof ApiError ? err.message : undefined;
+      const errorDetails = createErrorInfo(err, 'change-password', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800 rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white">Change Password</h3>
+      <p className="text-gray-400 text-sm">Other devices will be signed out.</p>
+
+      <input
+        type="password"
+        autoComplete="current-password"
+        placeholder="Current password"
+        value={currentPassword}
+        onChange={(e) => setCurrentPassword(e.target.value)}
+        className={inputClassName}
+        disabled={isSubmitting}
+      />
+      <input
+        type="password"
+        autoComplete="new-password"
+        placeholder="New password"
+        value={newPassword}
+        onChange={(e) => setNewPassword(e.target.value)}
+        className={inputClassName}
+        disabled={isSubmitting}
+      />
+      <input
+        type="password"
+        autoComplete="new-password"
+        placeholder="Confirm new password"
+        value={confirmPassword}
+        onChange={(e) => setConfirmPassword(e.target.value)}
+        className={inputClassName}
+        disabled={isSubmitting}
+      />
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+      {notice && (
+        <p className="text-green-400 text-sm">✓ {notice}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !currentPassword || !newPassword}
+        className="w-full h-12 bg-gray-700 border border-gray-600 text-white font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-orange-500 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? 'Changing Password...' : 'Change Password'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { PHONE_COUNTRIES } from '@/lib/utils/phone';
+
+interface CountrySelectProps {
+  value: string; // ISO country code
+  onChange: (country: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const SORTED_COUNTRIES = [...PHONE_COUNTRIES].sort((a, b) => a.name.localeCompare(b.name));
+
+// Compact country calling code picker shown next to phone inputs
+export function CountrySelect({ value, onChange, disabled, className }: CountrySelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      aria-label="Country"
+      className={className}
+    >
+      {SORTED_COUNTRIES.map(country => (
+        <option key={country.iso} value={country.iso} title={country.name}>
+          {country.flag} +{country.callingCode} {country.iso}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/lib/context/AuthContext';
+import { createClient } from '@/lib/supabase/client';
+
+// Fired on window by the notifications page after marking notifications read
+export const NOTIFICATIONS_CHANGED_EVENT = 'workoutsync:notifications-changed';
+
+interface NotificationBellProps {
+  className?: string;
+}
+
+// Mirror the unread count on the installed app's icon, where supported
+function setAppBadge(count: number) {
+  if (!('setAppBadge' in navigator)) {
+    return;
+  }
+
+  const update = count > 0 ? navigator.setAppBadge(count) : navigator.clearAppBadge();
+  update.catch(() => {
+    // Not allowed outside an installed app on some platforms
+  });
+}
+
+export function NotificationBell({ className = 'text-gray-300 hover:text-white' }: NotificationBellProps) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadUnreadCount = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=1');
+      if (!response.ok) {
+        return;
+      }
+
+      const result = await response.json();
+      setUnreadCount(result.unread_count);
+      setAppBadge(result.unread_count);
+    } catch {
+      // Keep the last known count while offline
+    }
+  }, []);
+
+  // Refresh when notifications arrive or are read, and when the app regains focus
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+
+    loadUnreadCount();
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => {
+          loadUnreadCount();
+        }
+      )
+      .subscribe();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        loadUnreadCount();
+      }
+    };
+
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, loadUnreadCount);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      supabase.removeChannel(channel);
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, loadUnreadCount);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [user, loadUnreadCount]);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Link
+      href="/notifications"
+      aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      className={`relative p-2 transition-colors duration-200 ${className}`}
+    >
+      <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+        />
+      </svg>
+      {unreadCount > 0 && (
+        <span className="absolute top-0 right-0 min-w-5 h-5 px-1 rounded-full bg-orange-500 text-white text-xs font-bold flex items-center justify-center">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+}
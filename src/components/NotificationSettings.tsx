@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  NotificationCategory,
+  NotificationChannel,
+  type NotificationPreferences,
+} from '@/types/database';
+import { PushNotificationManager } from '@/lib/notifications';
+import { getLocalTimeZone } from '@/lib/utils/timezone';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+const CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  [NotificationCategory.FRIEND_REQUEST]: 'Friend requests',
+  [NotificationCategory.RSVP]: 'RSVPs to your workouts',
+  [NotificationCategory.REMINDER]: 'Workout reminders',
+  [NotificationCategory.COMMENT]: 'Comments',
+  [NotificationCategory.CANCELLATION]: 'Cancellations and changes',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  [NotificationChannel.PUSH]: 'Push',
+  [NotificationChannel.IN_APP]: 'In-app',
+  [NotificationChannel.SMS]: 'Text',
+};
+
+// Suggested when quiet hours are first turned on
+const DEFAULT_QUIET_START = 22 * 60;
+const DEFAULT_QUIET_END = 7 * 60;
+
+const toTimeValue = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+const fromTimeValue = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [notice, setNotice] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  // null until checked on the client, or when this browser has no push support
+  const [pushPermission, setPushPermission] = useState<NotificationPermission | null>(null);
+
+  useEffect(() => {
+    const manager = PushNotificationManager.getInstance();
+    if (manager.isSupported()) {
+      setPushPermission(manager.getPermission());
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await fetch('/api/notifications/preferences');
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load notification settings');
+        }
+
+        setPreferences(result.preferences);
+      } catch (err) {
+        const errorDetails = createErrorInfo(err, 'notification-settings-load');
+        setError(displayError(errorDetails));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, []);
+
+  const update = (next: NotificationPreferences) => {
+    setPreferences(next);
+    setHasChanges(true);
+    setNotice('');
+  };
+
+  const toggleChannel = (category: NotificationCategory, channel: NotificationChannel) => {
+    if (!preferences) return;
+
+    const settings = preferences.categories[category];
+    update({
+      ...preferences,
+      categories: { ...preferences.categories, [category]: { ...settings, [channel]: !settings[channel] } },
+    });
+  };
+
+  const toggleQuietHours = () => {
+    if (!preferences) return;
+
+    update({
+      ...preferences,
+      quiet_hours: preferences.quiet_hours
+        ? null
+        : { start_minute: DEFAULT_QUIET_START, end_minute: DEFAULT_QUIET_END, timezone: getLocalTimeZone() },
+    });
+  };
+
+  const updateQuietHours = (changes: { start_minute?: number; end_minute?: number }) => {
+    if (!preferences?.quiet_hours) return;
+
+    update({ ...preferences, quiet_hours: { ...preferences.quiet_hours, ...changes } });
+  };
+
+  const handleEnablePush = async () => {
+    setError('');
+
+    try {
+      const manager = PushNotificationManager.getInstance();
+      const result = await manager.requestPermission();
+      setPushPermission(result);
+
+      if (result === 'granted') {
+        await manager.subscribeToPush();
+      }
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'notification-settings-push');
+      setError(displayError(errorDetails));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!preferences) return;
+
+    setIsSaving(true);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(preferences),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to save notification settings');
+      }
+
+      setPreferences(result.preferences);
+      setHasChanges(false);
+      setNotice('Notification settings saved');
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'notification-settings-save', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const quietHoursInvalid =
+    !!preferences?.quiet_hours && preferences.quiet_hours.start_minute === preferences.quiet_hours.end_minute;
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6">
+      <h3 className="text-lg font-semibold text-white mb-2">Notifications</h3>
+      <p className="text-gray-400 text-sm mb-4">Choose what you hear about, and how.</p>
+
+      {isLoading && <p className="text-gray-400 text-sm">Loading...</p>}
+
+      {preferences && (
+        <div className="space-y-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left font-normal pb-2"></th>
+                {Object.values(NotificationChannel).map(channel => (
+                  <th key={channel} className="font-normal pb-2 w-16">{CHANNEL_LABELS[channel]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Object.values(NotificationCategory).map(category => (
+                <tr key={category} className="border-t border-gray-700">
+                  <td className="text-white py-3 pr-2">{CATEGORY_LABELS[category]}</td>
+                  {Object.values(NotificationChannel).map(channel => (
+                    <td key={channel} className="text-center py-3">
+                      <input
+                        type="checkbox"
+                        checked={preferences.categories[category][channel]}
+                        onChange={() => toggleChannel(category, channel)}
+                        aria-label={`${CATEGORY_LABELS[category]}: ${CHANNEL_LABELS[channel]}`}
+                        className="w-4 h-4 accent-orange-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {pushPermission && pushPermission !== 'granted' && (
+            <div className="flex items-center justify-between gap-3 bg-gray-700/50 rounded-lg p-3">
+              <p className="text-gray-300 text-sm">
+                {pushPermission === 'denied'
+                  ? 'Push notifications are blocked in this browser’s settings.'
+                  : 'Push notifications are off on this device.'}
+              </p>
+              {pushPermission !== 'denied' && (
+                <button
+                  type="button"
+                  onClick={handleEnablePush}
+                  className="text-orange-500 text-sm font-semibold hover:text-orange-400 transition-colors duration-200 whitespace-nowrap"
+                >
+                  Turn on
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <label className="flex items-center justify-between">
+              <span>
+                <span className="block text-white text-sm font-semibold">Quiet hours</span>
+                <span className="block text-gray-400 text-xs">
+                  No push or text notifications; they still appear in your notification list
+                </span>
+              </span>
+              <input
+                type="checkbox"
+                checked={!!preferences.quiet_hours}
+                onChange={toggleQuietHours}
+                className="w-4 h-4 accent-orange-500"
+              />
+            </label>
+
+            {preferences.quiet_hours && (
+              <>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    step={900}
+                    value={toTimeValue(preferences.quiet_hours.start_minute)}
+                    onChange={(e) => e.target.value && updateQuietHours({ start_minute: fromTimeValue(e.target.value) })}
+                    aria-label="Quiet from"
+                    className="flex-1 h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-orange-500"
+                  />
+                  <span className="text-gray-400 text-sm">to</span>
+                  <input
+                    type="time"
+                    step={900}
+                    value={toTimeValue(preferences.quiet_hours.end_minute)}
+                    onChange={(e) => e.target.value && updateQuietHours({ end_minute: fromTimeValue(e.target.value) })}
+                    aria-label="Quiet until"
+                    className="flex-1 h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:border-orange-500"
+                  />
+                </div>
+                {quietHoursInvalid && <p className="text-red-400 text-sm">Start and end must be different</p>}
+                <p className="text-gray-500 text-xs">Times in {preferences.quiet_hours.timezone}</p>
+              </>
+            )}
+          </div>
+
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || !hasChanges || quietHoursInvalid}
+            className="w-full h-12 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save Notification Settings'}
+          </button>
+        </div>
+      )}
+
+      {notice && <p className="text-green-400 text-sm mt-3">{notice}</p>}
+      {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useOutbox } from '@/lib/outbox';
 
 interface PWACapabilities {
   isStandalone: boolean;
@@ -19,6 +20,8 @@ export function PWAStatus() {
     supportsNotifications: false,
   });
 
+  const outbox = useOutbox();
+
   useEffect(() => {
     const checkCapabilities = () => {
       setCapabilities({
@@ -99,6 +102,50 @@ export function PWAStatus() {
         />
       </div>
 
+      {/* Offline changes waiting to sync */}
+      {(outbox.pending > 0 || outbox.failed.length > 0) && (
+        <div className="mt-4 space-y-2">
+          {outbox.pending > 0 && (
+            <div className="flex items-center justify-between p-3 bg-yellow-50 dark:bg-yellow-900 rounded-lg">
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                {outbox.isReplaying
+                  ? '🔄 Syncing offline changes...'
+                  : `⏳ ${outbox.pending} change${outbox.pending === 1 ? '' : 's'} waiting to sync`}
+              </p>
+              {capabilities.isOnline && !outbox.isReplaying && (
+                <button
+                  onClick={() => outbox.replay()}
+                  className="text-sm font-semibold text-yellow-800 dark:text-yellow-200 hover:underline"
+                >
+                  Sync now
+                </button>
+              )}
+            </div>
+          )}
+          {outbox.failed.map(entry => (
+            <div key={entry.id} className="p-3 bg-red-50 dark:bg-red-900 rounded-lg">
+              <p className="text-sm text-red-700 dark:text-red-300">
+                ⚠️ Couldn&apos;t save an offline change: {entry.lastError}
+              </p>
+              <div className="flex space-x-4 mt-2">
+                <button
+                  onClick={() => outbox.retry(entry.id!)}
+                  className="text-sm font-semibold text-red-800 dark:text-red-200 hover:underline"
+                >
+                  Retry
+                </button>
+                <button
+                  onClick={() => outbox.discard(entry.id!)}
+                  className="text-sm text-red-700 dark:text-red-300 hover:underline"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900 rounded-lg">
         <p className="text-sm text-blue-700 dark:text-blue-300">
           {capabilities.isStandalone 
@@ -51,11 +51,9 @@ export function PushNotifications() {
       const subscription = await subscribe();
       
       if (subscription) {
+        // The subscription has been stored server-side by subscribe()
         setIsSubscribed(true);
         
-        // Here you would typically send the subscription to your backend
-        console.log('Push subscription:', subscription.toJSON());
-        
         // Show a welcome notification
         await showNotification({
           title: 'Notifications Enabled!',
@@ -180,6 +178,7 @@ export function PushNotifications() {
 
         <div className="text-xs text-gray-500 dark:text-gray-400">
           <p>💡 Tip: Notifications work best when the app is installed on your device.</p>
+          <p className="mt-1">Choose which notifications you get, and quiet hours, on your profile.</p>
           {!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && (
             <p className="text-yellow-600 dark:text-yellow-400 mt-1">
               ⚠️ VAPID key not configured. Add NEXT_PUBLIC_VAPID_PUBLIC_KEY to enable push notifications.
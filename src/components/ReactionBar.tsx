@@ -0,0 +1,60 @@
+'use client';
+
+import { useState } from 'react';
+import { type ReactionSummary } from '@/types/database';
+import { REACTION_EMOJIS } from '@/lib/services/comments';
+
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  onToggle: (emoji: string, reacted: boolean) => void;
+  disabled?: boolean;
+}
+
+export function ReactionBar({ reactions, onToggle, disabled = false }: ReactionBarProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {reactions.map(reaction => (
+        <button
+          key={reaction.emoji}
+          onClick={() => onToggle(reaction.emoji, reaction.reacted)}
+          disabled={disabled}
+          className={`px-2 py-1 text-sm rounded-full border transition-colors duration-200 disabled:opacity-50 ${
+            reaction.reacted
+              ? 'bg-orange-500/20 border-orange-500 text-orange-300'
+              : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'
+          }`}
+        >
+          {reaction.emoji} {reaction.count}
+        </button>
+      ))}
+
+      {isPickerOpen ? (
+        REACTION_EMOJIS.map(emoji => (
+          <button
+            key={emoji}
+            onClick={() => {
+              setIsPickerOpen(false);
+              onToggle(emoji, reactions.some(reaction => reaction.emoji === emoji && reaction.reacted));
+            }}
+            disabled={disabled}
+            className="px-1 text-lg hover:scale-110 transition-transform duration-200 disabled:opacity-50"
+            aria-label={`React with ${emoji}`}
+          >
+            {emoji}
+          </button>
+        ))
+      ) : (
+        <button
+          onClick={() => setIsPickerOpen(true)}
+          disabled={disabled}
+          className="px-2 py-1 text-sm rounded-full border border-gray-600 text-gray-400 hover:text-gray-300 hover:bg-gray-700 transition-colors duration-200 disabled:opacity-50"
+          aria-label="Add reaction"
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+}
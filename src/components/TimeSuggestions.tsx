@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { VALIDATION_LIMITS, type Friend, type TimeSuggestion, type User } from '@/types/database';
+import { formatWorkoutTime } from '@/lib/services/workouts';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+interface TimeSuggestionsProps {
+  durationMinutes: number;
+  onSelect: (startTime: string) => void; // ISO timestamp of the chosen suggestion
+}
+
+export function TimeSuggestions({ durationMinutes, onSelect }: TimeSuggestionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [friends, setFriends] = useState<Friend[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<TimeSuggestion[] | null>(null);
+  const [withoutAvailability, setWithoutAvailability] = useState<Pick<User, 'id' | 'name'>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const handleOpen = async () => {
+    setIsOpen(true);
+    if (friends) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/friends');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load friends');
+      }
+
+      setFriends(result.friends);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'time-suggestions-friends');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleFriend = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(friendId => friendId !== id) : [...prev, id]));
+    setSuggestions(null);
+  };
+
+  const handleFindTimes = async () => {
+    setIsLoading(true);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const params = new URLSearchParams({ duration: String(durationMinutes) });
+      selected.forEach(id => params.append('friend_id', id));
+
+      const response = await fetch(`/api/workouts/suggest-times?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to find times');
+      }
+
+      setSuggestions(result.suggestions);
+      setWithoutAvailability(result.without_availability);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'time-suggestions', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={handleOpen}
+        className="text-orange-500 text-sm font-semibold hover:text-orange-400 transition-colors duration-200"
+      >
+        Suggest times with friends
+      </button>
+    );
+  }
+
+  const durationValid =
+    Number.isInteger(durationMinutes) &&
+    durationMinutes >= VALIDATION_LIMITS.WORKOUT_DURATION_MIN &&
+    durationMinutes <= VALIDATION_LIMITS.WORKOUT_DURATION_MAX;
+
+  return (
+    <div className="bg-gray-700/50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-white text-sm font-semibold">Who are you inviting?</span>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          className="text-gray-400 text-sm hover:text-white transition-colors duration-200"
+        >
+          Close
+        </button>
+      </div>
+
+      {friends && friends.length === 0 && (
+        <p className="text-gray-400 text-sm">Add friends to find a time that suits everyone.</p>
+      )}
+
+      {friends && friends.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {friends.map(friend => (
+            <button
+              key={friend.id}
+              type="button"
+              onClick={() => toggleFriend(friend.id)}
+              aria-pressed={selected.includes(friend.id)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 ${
+                selected.includes(friend.id)
+                  ? 'bg-orange-500 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {friend.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {friends && friends.length > 0 && (
+        <button
+          type="button"
+          onClick={handleFindTimes}
+          disabled={
+            isLoading ||
+            !durationValid ||
+            selected.length === 0 ||
+            selected.length > VALIDATION_LIMITS.SUGGESTION_FRIENDS_MAX
+          }
+          className="w-full h-10 bg-gradient-to-r from-orange-500 to-orange-600 text-white text-sm font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Finding times...' : 'Find times'}
+        </button>
+      )}
+
+      {isLoading && !friends && <p className="text-gray-400 text-sm">Loading friends...</p>}
+
+      {suggestions && suggestions.length === 0 && (
+        <p className="text-gray-400 text-sm">No times in the next two weeks suit anyone yet.</p>
+      )}
+
+      {suggestions && suggestions.map(suggestion => (
+        <div key={suggestion.start_time} className="flex items-start justify-between gap-3 border-t border-gray-600 pt-3">
+          <div>
+            <div className="text-white text-sm font-medium">{formatWorkoutTime(suggestion.start_time)}</div>
+            <p className="text-green-400 text-xs mt-1">
+              {suggestion.available.length} of {suggestion.available.length + suggestion.unavailable.length} free:{' '}
+              {suggestion.available.map(friend => friend.name).join(', ')}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => onSelect(suggestion.start_time)}
+            className="text-orange-500 text-sm font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            Use
+          </button>
+        </div>
+      ))}
+
+      {suggestions && withoutAvailability.length > 0 && (
+        <p className="text-gray-400 text-xs">
+          No availability shared by {withoutAvailability.map(friend => friend.name).join(', ')}
+        </p>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+}
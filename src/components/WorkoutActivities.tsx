@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { ActivitySource, type ActivitySummary, type Workout } from '@/types/database';
+import {
+  formatDistance,
+  formatDuration,
+  formatPace,
+  paceSecondsPerUnit,
+} from '@/lib/services/activities';
+import { TRACK_FILE_EXPORT_FORMATS } from '@/lib/services/trackFiles';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+interface WorkoutActivitiesProps {
+  workout: Pick<Workout, 'id'>;
+}
+
+const SOURCE_LABELS: Record<ActivitySource, string> = {
+  [ActivitySource.RECORDED]: 'Recorded in app',
+  [ActivitySource.GPX]: 'Imported from GPX',
+  [ActivitySource.TCX]: 'Imported from TCX',
+  [ActivitySource.FIT]: 'Imported from FIT',
+};
+
+export function WorkoutActivities({ workout }: WorkoutActivitiesProps) {
+  const router = useRouter();
+  const [activities, setActivities] = useState<ActivitySummary[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the current user's activities for this workout
+  const loadActivities = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/activities?workout_id=${workout.id}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load activities');
+      }
+
+      setActivities(result.activities);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-activities');
+      setError(displayError(errorDetails));
+    }
+  }, [workout.id]);
+
+  useEffect(() => {
+    loadActivities();
+  }, [loadActivities]);
+
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('workout_id', workout.id);
+
+      const response = await fetch('/api/activities/import', {
+        method: 'POST',
+        body: form,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to import activity');
+      }
+
+      await loadActivities();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'activity-import', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setIsImporting(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Your Activity</h3>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200 disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+          <button
+            onClick={() => router.push(`/workout/${workout.id}/record`)}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200"
+          >
+            Record
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,.tcx,.fit"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      {activities.length === 0 && !error && (
+        <p className="text-gray-400 text-sm">
+          Record your route with GPS, or import a GPX, TCX or FIT file from your watch, to keep track of distance, pace and splits.
+        </p>
+      )}
+
+      {activities.map(activity => (
+        <div key={activity.id} className="space-y-2">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Distance</label>
+              <div className="text-white font-medium">{formatDistance(activity.distance_meters, 'mi')}</div>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Time</label>
+              <div className="text-white font-medium">{formatDuration(activity.moving_seconds)}</div>
+            </div>
+            <div>
+              <label className="block text-gray-400 text-sm mb-1">Pace</label>
+              <div className="text-white font-medium">
+                {formatPace(paceSecondsPerUnit(activity.distance_meters, activity.moving_seconds, 'mi'), 'mi')}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-500">{SOURCE_LABELS[activity.source]}</span>
+            <div className="flex gap-3">
+              {TRACK_FILE_EXPORT_FORMATS.map(format => (
+                <a
+                  key={format}
+                  href={`/api/activities/${activity.id}/export?format=${format}`}
+                  download
+                  className="text-orange-500 hover:underline"
+                >
+                  {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import {
+  VALIDATION_LIMITS,
+  type ReactionSummary,
+  type UserAuth,
+  type Workout,
+  type WorkoutCommentWithUser,
+} from '@/types/database';
+import { type WorkoutDiscussion } from '@/lib/services/comments';
+import { formatTimeAgo } from '@/lib/services/workouts';
+import { createClient } from '@/lib/supabase/client';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+import { ReactionBar } from '@/components/ReactionBar';
+
+interface WorkoutCommentsProps {
+  workout: Pick<Workout, 'id' | 'host_id'>;
+  currentUser: UserAuth;
+}
+
+// Broadcast event telling other viewers to reload (deletes can't be filtered
+// by workout in postgres_changes, so they are announced by whoever made them)
+const DISCUSSION_CHANGED_EVENT = 'changed';
+
+export function WorkoutComments({ workout, currentUser }: WorkoutCommentsProps) {
+  const [discussion, setDiscussion] = useState<WorkoutDiscussion | null>(null);
+  const [isHidden, setIsHidden] = useState(false);
+  const [body, setBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+
+  const isHost = workout.host_id === currentUser.id;
+
+  const loadDiscussion = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}/comments`);
+      const result = await response.json();
+
+      // Only participants and friends of the host can see the discussion
+      if (response.status === 403) {
+        setIsHidden(true);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load comments');
+      }
+
+      setDiscussion(result);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-comments');
+      setError(displayError(errorDetails));
+    }
+  }, [workout.id]);
+
+  useEffect(() => {
+    loadDiscussion();
+  }, [loadDiscussion]);
+
+  // Reload when anyone comments or reacts
+  useEffect(() => {
+    if (isHidden) {
+      return;
+    }
+
+    const supabase = createClient();
+    const reload = () => {
+      loadDiscussion();
+    };
+
+    const channel = supabase
+      .channel(`workout-discussion:${workout.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'workout_comments', filter: `workout_id=eq.${workout.id}` },
+        reload
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'reactions', filter: `workout_id=eq.${workout.id}` },
+        reload
+      )
+      .on('broadcast', { event: DISCUSSION_CHANGED_EVENT }, reload)
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [workout.id, isHidden, loadDiscussion]);
+
+  const announceChange = () => {
+    channelRef.current?.send({ type: 'broadcast', event: DISCUSSION_CHANGED_EVENT, payload: {} });
+  };
+
+  const postComment = async (text: string, parentId: string | null) => {
+    setIsPosting(true);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body: text, parent_id: parentId }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to post comment');
+      }
+
+      if (parentId) {
+        setReplyTo(null);
+        setReplyBody('');
+      } else {
+        setBody('');
+      }
+
+      await loadDiscussion();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-comment-post', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const deleteComment = async (comment: WorkoutCommentWithUser) => {
+    if (!confirm('Delete this comment?')) {
+      return;
+    }
+
+    setPendingId(comment.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}/comments/${comment.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete comment');
+      }
+
+      announceChange();
+      await loadDiscussion();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-comment-delete');
+      setError(displayError(errorDetails));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const toggleReaction = async (emoji: string, reacted: boolean, commentId: string | null) => {
+    const key = commentId || workout.id;
+    setPendingId(key);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ emoji });
+      if (commentId) {
+        params.set('comment_id', commentId);
+      }
+
+      const response = reacted
+        ? await fetch(`/api/workouts/${workout.id}/reactions?${params}`, { method: 'DELETE' })
+        : await fetch(`/api/workouts/${workout.id}/reactions`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ emoji, comment_id: commentId }),
+          });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update reaction');
+      }
+
+      if (reacted) {
+        announceChange();
+      }
+      await loadDiscussion();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-reaction');
+      setError(displayError(errorDetails));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (isHidden) {
+    return null;
+  }
+
+  const renderComment = (comment: WorkoutCommentWithUser & { reactions: ReactionSummary[] }, isReply: boolean) => (
+    <div className={isReply ? 'pl-4 border-l border-gray-700 space-y-2' : 'space-y-2'}>
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium text-sm">
+          {comment.user_id === currentUser.id ? 'You' : comment.user?.name || 'A WorkoutSync member'}
+          {comment.user_id === workout.host_id && <span className="text-orange-300 font-normal"> · Host</span>}
+        </span>
+        <span className="text-gray-500 text-xs">{formatTimeAgo(comment.created_at)}</span>
+      </div>
+      <p className="text-gray-300 text-sm whitespace-pre-line">{comment.body}</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <ReactionBar
+          reactions={comment.reactions}
+          onToggle={(emoji, reacted) => toggleReaction(emoji, reacted, comment.id)}
+          disabled={pendingId === comment.id}
+        />
+        {!isReply && (
+          <button
+            onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+            className="text-orange-500 text-sm hover:text-orange-400 transition-colors duration-200"
+          >
+            Reply
+          </button>
+        )}
+        {(comment.user_id === currentUser.id || isHost) && (
+          <button
+            onClick={() => deleteComment(comment)}
+            disabled={pendingId === comment.id}
+            className="text-gray-400 text-sm hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white">Discussion</h3>
+
+      {discussion && (
+        <ReactionBar
+          reactions={discussion.reactions}
+          onToggle={(emoji, reacted) => toggleReaction(emoji, reacted, null)}
+          disabled={pendingId === workout.id}
+        />
+      )}
+
+      {discussion && discussion.comments.length === 0 && (
+        <p className="text-gray-400 text-sm">No comments yet. Ask a question or cheer the group on.</p>
+      )}
+
+      {discussion?.comments.map(thread => (
+        <div key={thread.id} className="space-y-3">
+          {renderComment(thread, false)}
+
+          {thread.replies.map(reply => (
+            <div key={reply.id}>{renderComment(reply, true)}</div>
+          ))}
+
+          {replyTo === thread.id && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                postComment(replyBody, thread.id);
+              }}
+              className="pl-4 flex gap-2"
+            >
+              <input
+                type="text"
+                value={replyBody}
+                onChange={(e) => setReplyBody(e.target.value)}
+                maxLength={VALIDATION_LIMITS.COMMENT_MAX_LENGTH}
+                placeholder="Write a reply"
+                autoFocus
+                className="flex-1 min-w-0 h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-orange-500"
+              />
+              <button
+                type="submit"
+                disabled={isPosting || !replyBody.trim()}
+                className="px-3 h-10 bg-gradient-to-r from-orange-500 to-orange-600 text-white text-sm font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Reply
+              </button>
+            </form>
+          )}
+        </div>
+      ))}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          postComment(body, null);
+        }}
+        className="space-y-2"
+      >
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          maxLength={VALIDATION_LIMITS.COMMENT_MAX_LENGTH}
+          rows={2}
+          placeholder="Where exactly do we meet?"
+          className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-orange-500 resize-none"
+        />
+        <button
+          type="submit"
+          disabled={isPosting || !body.trim()}
+          className="w-full h-10 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPosting && !replyTo ? 'Posting...' : 'Post Comment'}
+        </button>
+      </form>
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+    </div>
+  );
+}
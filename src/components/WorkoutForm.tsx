@@ -0,0 +1,650 @@
+'use client';
+
+import { useState } from 'react';
+import { LocationService } from '@/lib/services/location';
+import {
+  ActivityType,
+  VALIDATION_LIMITS,
+  createGeoPoint,
+  type GeoPoint,
+  type WorkoutFormData,
+} from '@/types/database';
+import {
+  validatePaceRange,
+  validateWorkoutCapacity,
+  validateWorkoutDuration,
+  validateWorkoutNotes,
+  validateWorkoutStartTime,
+  validateWorkoutTitle,
+} from '@/lib/utils/validation';
+import { createErrorInfo, displayError, handleLocationError } from '@/lib/utils/errors';
+import { getLocalTimeZone, toDateTimeLocalValue } from '@/lib/utils/timezone';
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+  WEEKDAYS,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/services/recurrence';
+import { TimeSuggestions } from '@/components/TimeSuggestions';
+
+interface WorkoutFormProps {
+  initialData?: Partial<WorkoutFormData>;
+  submitLabel: string;
+  onSubmit: (data: WorkoutFormData) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Form state keeps raw input strings; they are converted on submit
+interface FormState {
+  title: string;
+  activity_type: ActivityType;
+  start_time: string; // datetime-local value
+  duration_minutes: string;
+  meeting_point_name: string;
+  meeting_point_coords: GeoPoint | null;
+  pace_range_min: string;
+  pace_range_max: string;
+  capacity: string;
+  notes: string;
+  repeat: RecurrenceFrequency | ''; // '' = does not repeat
+  repeat_interval: string;
+  repeat_monthly: 'day' | 'weekday'; // Same day of the month, or e.g. the 3rd Tuesday
+  repeat_end: 'never' | 'count' | 'until';
+  repeat_count: string;
+  repeat_until: string; // date input value
+}
+
+type FormErrors = Partial<Record<keyof FormState, string>>;
+
+// Weekday toggles, Monday first
+const WEEKDAY_OPTIONS: { value: Weekday; label: string }[] = [
+  { value: 'MO', label: 'M' },
+  { value: 'TU', label: 'T' },
+  { value: 'WE', label: 'W' },
+  { value: 'TH', label: 'T' },
+  { value: 'FR', label: 'F' },
+  { value: 'SA', label: 'S' },
+  { value: 'SU', label: 'S' },
+];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+};
+
+// Which occurrence of its weekday a date is within the month (5th = last)
+function weekdayOrdinal(date: Date): number {
+  const nth = Math.ceil(date.getDate() / 7);
+  return nth === 5 ? -1 : nth;
+}
+
+function describeMonthlyWeekday(date: Date): string {
+  const ordinal = weekdayOrdinal(date);
+  const label = ordinal === -1 ? 'last' : ['1st', '2nd', '3rd', '4th'][ordinal - 1];
+  return `the ${label} ${date.toLocaleDateString('en-US', { weekday: 'long' })}`;
+}
+
+const parseOptionalNumber = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value);
+
+const inputClassName = (hasError: boolean) =>
+  `w-full h-12 px-4 bg-gray-700 border rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300 ${
+    hasError ? 'border-red-500' : 'border-gray-600'
+  }`;
+
+export function WorkoutForm({ initialData, submitLabel, onSubmit, onCancel }: WorkoutFormProps) {
+  const initialRule = initialData?.recurrence_rule && initialData.timezone
+    ? parseRecurrenceRule(initialData.recurrence_rule, initialData.timezone).data
+    : undefined;
+
+  const [formState, setFormState] = useState<FormState>({
+    title: initialData?.title || '',
+    activity_type: initialData?.activity_type || ActivityType.RUN,
+    start_time: toDateTimeLocalValue(initialData?.start_time),
+    duration_minutes: initialData?.duration_minutes?.toString() || '60',
+    meeting_point_name: initialData?.meeting_point_name || '',
+    meeting_point_coords: initialData?.meeting_point_coords || null,
+    pace_range_min: initialData?.pace_range_min?.toString() || '',
+    pace_range_max: initialData?.pace_range_max?.toString() || '',
+    capacity: initialData?.capacity?.toString() || '',
+    notes: initialData?.notes || '',
+    repeat: initialRule?.freq || '',
+    repeat_interval: initialRule?.interval.toString() || '1',
+    repeat_monthly: initialRule?.freq === 'MONTHLY' && initialRule.by_day.length > 0 ? 'weekday' : 'day',
+    repeat_end: initialRule?.count ? 'count' : initialRule?.until ? 'until' : 'never',
+    repeat_count: initialRule?.count?.toString() || '10',
+    repeat_until: toDateTimeLocalValue(initialRule?.until || undefined).slice(0, 10),
+  });
+
+  const [repeatDays, setRepeatDays] = useState<Weekday[]>(
+    initialRule?.freq === 'WEEKLY' ? initialRule.by_day.map(day => day.weekday) : []
+  );
+
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [submitError, setSubmitError] = useState<string>('');
+
+  const handleInputChange = (field: keyof FormState, value: string) => {
+    setFormState(prev => ({
+      ...prev,
+      [field]: value
+    }));
+
+    // Clear field error when user starts typing
+    if (formErrors[field]) {
+      setFormErrors(prev => ({
+        ...prev,
+        [field]: undefined
+      }));
+    }
+
+    if (submitError) {
+      setSubmitError('');
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    setIsLocating(true);
+
+    try {
+      const result = await LocationService.getLocationWithFallback();
+
+      if (result.success && result.data) {
+        const { latitude, longitude } = result.data.coordinates;
+        setFormState(prev => ({
+          ...prev,
+          meeting_point_coords: createGeoPoint(latitude, longitude),
+          meeting_point_name: prev.meeting_point_name || result.data!.name,
+        }));
+      } else {
+        setFormErrors(prev => ({
+          ...prev,
+          meeting_point_name: result.error || 'Failed to detect location',
+        }));
+      }
+    } catch (error) {
+      const locationErrorInfo = handleLocationError(error);
+      setFormErrors(prev => ({
+        ...prev,
+        meeting_point_name: displayError(locationErrorInfo),
+      }));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const toggleRepeatDay = (weekday: Weekday) => {
+    setRepeatDays(prev => (prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday]));
+  };
+
+  const handleRepeatChange = (value: string) => {
+    handleInputChange('repeat', value);
+
+    // Start weekly schedules on the start date's weekday
+    if (value === 'WEEKLY' && repeatDays.length === 0 && formState.start_time) {
+      setRepeatDays([WEEKDAYS[new Date(formState.start_time).getDay()]]);
+    }
+  };
+
+  // Build the recurrence rule from the form; dates are read in device time
+  const buildRecurrenceRule = (): RecurrenceRule | null => {
+    if (!formState.repeat || !formState.start_time) {
+      return null;
+    }
+
+    const start = new Date(formState.start_time);
+    let byDay: RecurrenceRule['by_day'] = [];
+
+    if (formState.repeat === 'WEEKLY') {
+      byDay = WEEKDAY_OPTIONS
+        .filter(option => repeatDays.includes(option.value))
+        .map(option => ({ weekday: option.value, ordinal: null }));
+    } else if (formState.repeat === 'MONTHLY' && formState.repeat_monthly === 'weekday') {
+      byDay = [{ weekday: WEEKDAYS[start.getDay()], ordinal: weekdayOrdinal(start) }];
+    }
+
+    return {
+      freq: formState.repeat,
+      interval: Number(formState.repeat_interval),
+      by_day: byDay,
+      count: formState.repeat_end === 'count' ? Number(formState.repeat_count) : null,
+      until: formState.repeat_end === 'until' && formState.repeat_until
+        ? new Date(`${formState.repeat_until}T23:59:59`).toISOString()
+        : null,
+    };
+  };
+
+  const validateForm = (): boolean => {
+    const errors: FormErrors = {};
+
+    const titleValidation = validateWorkoutTitle(formState.title);
+    if (!titleValidation.valid) errors.title = titleValidation.message;
+
+    // An unchanged start time may already have passed (a running series)
+    const startTime = formState.start_time ? new Date(formState.start_time).toISOString() : '';
+    const isStartUnchanged = !!initialData?.start_time && formState.start_time === toDateTimeLocalValue(initialData.start_time);
+    const startValidation = validateWorkoutStartTime(startTime);
+    if (!startValidation.valid && !(isStartUnchanged && startTime)) errors.start_time = startValidation.message;
+
+    const rule = buildRecurrenceRule();
+    if (rule) {
+      const interval = Number(formState.repeat_interval);
+      const ruleValidation = parseRecurrenceRule(formatRecurrenceRule(rule), getLocalTimeZone());
+
+      if (!Number.isInteger(interval) || interval < 1 || interval > VALIDATION_LIMITS.RECURRENCE_INTERVAL_MAX) {
+        errors.repeat_interval = `Repeat every 1 to ${VALIDATION_LIMITS.RECURRENCE_INTERVAL_MAX} ${FREQUENCY_UNITS[rule.freq]}s`;
+      } else if (ruleValidation.error) {
+        errors.repeat = ruleValidation.error.error;
+      } else if (formState.repeat_end === 'until' && (!rule.until || rule.until < startTime)) {
+        errors.repeat_until = 'Pick an end date on or after the first workout';
+      }
+    }
+
+    const durationValidation = validateWorkoutDuration(Number(formState.duration_minutes));
+    if (!durationValidation.valid) errors.duration_minutes = durationValidation.message;
+
+    const paceValidation = validatePaceRange(
+      parseOptionalNumber(formState.pace_range_min) ?? undefined,
+      parseOptionalNumber(formState.pace_range_max) ?? undefined
+    );
+    if (!paceValidation.valid) errors.pace_range_min = paceValidation.message;
+
+    const capacityValidation = validateWorkoutCapacity(parseOptionalNumber(formState.capacity));
+    if (!capacityValidation.valid) errors.capacity = capacityValidation.message;
+
+    const notesValidation = validateWorkoutNotes(formState.notes);
+    if (!notesValidation.valid) errors.notes = notesValidation.message;
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError('');
+    const rule = buildRecurrenceRule();
+
+    try {
+      await onSubmit({
+        title: formState.title.trim(),
+        activity_type: formState.activity_type,
+        start_time: new Date(formState.start_time).toISOString(),
+        duration_minutes: Number(formState.duration_minutes),
+        meeting_point_name: formState.meeting_point_name.trim() || null,
+        meeting_point_coords: formState.meeting_point_coords,
+        pace_range_min: parseOptionalNumber(formState.pace_range_min),
+        pace_range_max: parseOptionalNumber(formState.pace_range_max),
+        capacity: parseOptionalNumber(formState.capacity),
+        notes: formState.notes.trim() || null,
+        recurrence_rule: rule ? formatRecurrenceRule(rule) : null,
+        timezone: getLocalTimeZone(),
+      });
+    } catch (error) {
+      console.error('Workout save error:', error);
+
+      const errorDetails = createErrorInfo(error, 'workout-form');
+      setSubmitError(displayError(errorDetails));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const previewRule = buildRecurrenceRule();
+  const previewResult = previewRule ? parseRecurrenceRule(formatRecurrenceRule(previewRule), getLocalTimeZone()) : null;
+  const repeatSummary = previewResult?.data
+    ? describeRecurrence(previewResult.data, getLocalTimeZone(), new Date(formState.start_time).toISOString())
+    : null;
+
+  return (
+    <form onSubmit={handleSubmit} className="px-6 py-6 space-y-6">
+      {/* Details */}
+      <div className="bg-gray-800 rounded-2xl p-6 space-y-6">
+        <h3 className="text-lg font-semibold text-white">Details</h3>
+
+        {/* Title */}
+        <div>
+          <label className="block text-white font-semibold mb-2" htmlFor="title">
+            Title *
+          </label>
+          <input
+            id="title"
+            type="text"
+            value={formState.title}
+            onChange={(e) => handleInputChange('title', e.target.value)}
+            placeholder="Tuesday morning tempo run"
+            className={inputClassName(!!formErrors.title)}
+          />
+          {formErrors.title && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.title}</p>
+          )}
+        </div>
+
+        {/* Activity */}
+        <div>
+          <label className="block text-white font-semibold mb-2" htmlFor="activity_type">
+            Activity *
+          </label>
+          <select
+            id="activity_type"
+            value={formState.activity_type}
+            onChange={(e) => handleInputChange('activity_type', e.target.value)}
+            className={inputClassName(false)}
+          >
+            {Object.values(ActivityType).map(activity => (
+              <option key={activity} value={activity}>
+                {activity.charAt(0).toUpperCase() + activity.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Start Time */}
+        <div>
+          <label className="block text-white font-semibold mb-2" htmlFor="start_time">
+            Start Time *
+          </label>
+          <input
+            id="start_time"
+            type="datetime-local"
+            value={formState.start_time}
+            onChange={(e) => handleInputChange('start_time', e.target.value)}
+            className={inputClassName(!!formErrors.start_time)}
+          />
+          {formErrors.start_time && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.start_time}</p>
+          )}
+          {!initialData && (
+            <div className="mt-3">
+              <TimeSuggestions
+                durationMinutes={Number(formState.duration_minutes)}
+                onSelect={(startTime) => handleInputChange('start_time', toDateTimeLocalValue(startTime))}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Duration */}
+        <div>
+          <label className="block text-white font-semibold mb-2" htmlFor="duration_minutes">
+            Duration (minutes) *
+          </label>
+          <input
+            id="duration_minutes"
+            type="number"
+            inputMode="numeric"
+            min={5}
+            value={formState.duration_minutes}
+            onChange={(e) => handleInputChange('duration_minutes', e.target.value)}
+            className={inputClassName(!!formErrors.duration_minutes)}
+          />
+          {formErrors.duration_minutes && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.duration_minutes}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Repeat */}
+      <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white">Repeat</h3>
+
+        <select
+          id="repeat"
+          value={formState.repeat}
+          onChange={(e) => handleRepeatChange(e.target.value)}
+          className={inputClassName(!!formErrors.repeat)}
+        >
+          <option value="">Does not repeat</option>
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="MONTHLY">Monthly</option>
+        </select>
+
+        {formState.repeat && (
+          <>
+            {/* Interval */}
+            <div className="flex items-center gap-3">
+              <span className="text-white">Every</span>
+              <input
+                type="number"
+                inputMode="numeric"
+                min={1}
+                max={VALIDATION_LIMITS.RECURRENCE_INTERVAL_MAX}
+                value={formState.repeat_interval}
+                onChange={(e) => handleInputChange('repeat_interval', e.target.value)}
+                className={`${inputClassName(!!formErrors.repeat_interval)} w-24`}
+              />
+              <span className="text-white">
+                {FREQUENCY_UNITS[formState.repeat]}{formState.repeat_interval === '1' ? '' : 's'}
+              </span>
+            </div>
+            {formErrors.repeat_interval && (
+              <p className="text-red-400 text-sm">{formErrors.repeat_interval}</p>
+            )}
+
+            {/* Weekdays */}
+            {formState.repeat === 'WEEKLY' && (
+              <div className="flex gap-2">
+                {WEEKDAY_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleRepeatDay(option.value)}
+                    aria-pressed={repeatDays.includes(option.value)}
+                    className={`w-10 h-10 rounded-full text-sm font-semibold transition-colors duration-200 ${
+                      repeatDays.includes(option.value)
+                        ? 'bg-orange-500 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Day of the month */}
+            {formState.repeat === 'MONTHLY' && formState.start_time && (
+              <select
+                value={formState.repeat_monthly}
+                onChange={(e) => handleInputChange('repeat_monthly', e.target.value)}
+                className={inputClassName(false)}
+              >
+                <option value="day">On day {new Date(formState.start_time).getDate()}</option>
+                <option value="weekday">On {describeMonthlyWeekday(new Date(formState.start_time))}</option>
+              </select>
+            )}
+
+            {/* End */}
+            <div className="flex gap-3">
+              <select
+                value={formState.repeat_end}
+                onChange={(e) => handleInputChange('repeat_end', e.target.value)}
+                className={inputClassName(false)}
+              >
+                <option value="never">Never ends</option>
+                <option value="count">Ends after</option>
+                <option value="until">Ends on</option>
+              </select>
+              {formState.repeat_end === 'count' && (
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={VALIDATION_LIMITS.RECURRENCE_COUNT_MAX}
+                  value={formState.repeat_count}
+                  onChange={(e) => handleInputChange('repeat_count', e.target.value)}
+                  aria-label="Number of workouts"
+                  className={inputClassName(!!formErrors.repeat)}
+                />
+              )}
+              {formState.repeat_end === 'until' && (
+                <input
+                  type="date"
+                  value={formState.repeat_until}
+                  onChange={(e) => handleInputChange('repeat_until', e.target.value)}
+                  aria-label="Last day"
+                  className={inputClassName(!!formErrors.repeat_until)}
+                />
+              )}
+            </div>
+            {formErrors.repeat_until && (
+              <p className="text-red-400 text-sm">{formErrors.repeat_until}</p>
+            )}
+
+            {formErrors.repeat ? (
+              <p className="text-red-400 text-sm">{formErrors.repeat}</p>
+            ) : (
+              repeatSummary && <p className="text-gray-400 text-sm">{repeatSummary}</p>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Meeting Point */}
+      <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white">Meeting Point</h3>
+
+        <input
+          id="meeting_point_name"
+          type="text"
+          value={formState.meeting_point_name}
+          onChange={(e) => handleInputChange('meeting_point_name', e.target.value)}
+          placeholder="Duke Gardens main gate"
+          className={inputClassName(!!formErrors.meeting_point_name)}
+        />
+
+        <button
+          type="button"
+          onClick={handleUseMyLocation}
+          disabled={isLocating}
+          className="w-full h-12 px-4 bg-gray-700 border border-gray-600 rounded-lg text-white font-semibold flex items-center justify-center gap-3 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-transparent transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLocating ? (
+            <>
+              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              <span>Detecting...</span>
+            </>
+          ) : (
+            <span>{formState.meeting_point_coords ? 'Update Pin to My Location' : 'Pin My Current Location'}</span>
+          )}
+        </button>
+
+        {formState.meeting_point_coords && (
+          <p className="text-green-400 text-sm">✓ Meeting point pinned</p>
+        )}
+        {formErrors.meeting_point_name && (
+          <p className="text-red-400 text-sm">{formErrors.meeting_point_name}</p>
+        )}
+      </div>
+
+      {/* Group Settings */}
+      <div className="bg-gray-800 rounded-2xl p-6 space-y-6">
+        <h3 className="text-lg font-semibold text-white">Group</h3>
+
+        {/* Pace Range */}
+        <div>
+          <label className="block text-white font-semibold mb-2">
+            Pace Range <span className="text-gray-400 font-normal">(min/mile, optional)</span>
+          </label>
+          <div className="flex gap-3">
+            <input
+              type="number"
+              inputMode="decimal"
+              placeholder="Min"
+              value={formState.pace_range_min}
+              onChange={(e) => handleInputChange('pace_range_min', e.target.value)}
+              className={inputClassName(!!formErrors.pace_range_min)}
+            />
+            <input
+              type="number"
+              inputMode="decimal"
+              placeholder="Max"
+              value={formState.pace_range_max}
+              onChange={(e) => handleInputChange('pace_range_max', e.target.value)}
+              className={inputClassName(!!formErrors.pace_range_min)}
+            />
+          </div>
+          {formErrors.pace_range_min && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.pace_range_min}</p>
+          )}
+        </div>
+
+        {/* Capacity */}
+        <div>
+          <label className="block text-white font-semibold mb-2" htmlFor="capacity">
+            Capacity <span className="text-gray-400 font-normal">(including you, optional)</span>
+          </label>
+          <input
+            id="capacity"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            placeholder="Unlimited"
+            value={formState.capacity}
+            onChange={(e) => handleInputChange('capacity', e.target.value)}
+            className={inputClassName(!!formErrors.capacity)}
+          />
+          {formErrors.capacity && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.capacity}</p>
+          )}
+        </div>
+
+        {/* Notes */}
+        <div>
+          <label className="block text-white font-semibold mb-2" htmlFor="notes">
+            Notes <span className="text-gray-400 font-normal">(optional)</span>
+          </label>
+          <textarea
+            id="notes"
+            rows={4}
+            value={formState.notes}
+            onChange={(e) => handleInputChange('notes', e.target.value)}
+            placeholder="Route, what to bring, coffee afterwards..."
+            className={`${inputClassName(!!formErrors.notes)} h-auto py-3`}
+          />
+          {formErrors.notes && (
+            <p className="text-red-400 text-sm mt-2">{formErrors.notes}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Submit Error */}
+      {submitError && (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-3">
+          <p className="text-red-400 text-sm">{submitError}</p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="space-y-4 pb-2">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full h-12 bg-gradient-to-r from-orange-500 to-orange-600 text-white font-bold rounded-lg hover:from-orange-600 hover:to-orange-700 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 focus:ring-offset-black transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </button>
+
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="w-full h-12 bg-gray-700 border border-gray-600 text-white font-semibold rounded-lg hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 focus:ring-offset-black transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { type Workout, type WorkoutOccurrence } from '@/types/database';
+import { formatWorkoutDuration, formatWorkoutTime } from '@/lib/services/workouts';
+import { toDateTimeLocalValue } from '@/lib/utils/timezone';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+interface WorkoutOccurrencesProps {
+  workout: Pick<Workout, 'id' | 'duration_minutes' | 'meeting_point_name' | 'notes'>;
+  isHost: boolean;
+}
+
+// Editable fields of one occurrence, as raw input strings
+interface OccurrenceDraft {
+  start_time: string; // datetime-local value
+  duration_minutes: string;
+  meeting_point_name: string;
+  notes: string;
+}
+
+// Occurrences shown before "Show all"
+const COLLAPSED_COUNT = 6;
+
+const inputClassName =
+  'w-full h-10 px-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-orange-500';
+
+export function WorkoutOccurrences({ workout, isHost }: WorkoutOccurrencesProps) {
+  const [occurrences, setOccurrences] = useState<WorkoutOccurrence[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<OccurrenceDraft | null>(null);
+  const [pendingStart, setPendingStart] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const loadOccurrences = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}/occurrences`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load upcoming dates');
+      }
+
+      setOccurrences(result.occurrences);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-occurrences');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workout.id]);
+
+  useEffect(() => {
+    loadOccurrences();
+  }, [loadOccurrences]);
+
+  // Save the full set of changes for an occurrence (replaces earlier ones)
+  const saveException = async (occurrence: WorkoutOccurrence, changes: Record<string, unknown>) => {
+    setPendingStart(occurrence.occurrence_start);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}/occurrences`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ occurrence_start: occurrence.occurrence_start, ...changes }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to update this date');
+      }
+
+      setEditing(null);
+      setDraft(null);
+      await loadOccurrences();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-occurrence-update', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setPendingStart(null);
+    }
+  };
+
+  // Current changes of an occurrence, relative to the series
+  const currentChanges = (occurrence: WorkoutOccurrence) => ({
+    start_time: occurrence.start_time !== occurrence.occurrence_start ? occurrence.start_time : null,
+    duration_minutes: occurrence.duration_minutes !== workout.duration_minutes ? occurrence.duration_minutes : null,
+    meeting_point_name: occurrence.meeting_point_name !== workout.meeting_point_name ? occurrence.meeting_point_name : null,
+    notes: occurrence.notes !== workout.notes ? occurrence.notes : null,
+  });
+
+  const handleCancel = (occurrence: WorkoutOccurrence) => {
+    if (!window.confirm(`Cancel the workout on ${formatWorkoutTime(occurrence.start_time)}?`)) {
+      return;
+    }
+    saveException(occurrence, { ...currentChanges(occurrence), cancelled: true });
+  };
+
+  const handleRestore = async (occurrence: WorkoutOccurrence) => {
+    setPendingStart(occurrence.occurrence_start);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ occurrence_start: occurrence.occurrence_start });
+      const response = await fetch(`/api/workouts/${workout.id}/occurrences?${params}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to restore this date');
+      }
+
+      await loadOccurrences();
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-occurrence-restore');
+      setError(displayError(errorDetails));
+    } finally {
+      setPendingStart(null);
+    }
+  };
+
+  const startEditing = (occurrence: WorkoutOccurrence) => {
+    setEditing(occurrence.occurrence_start);
+    setDraft({
+      start_time: toDateTimeLocalValue(occurrence.start_time),
+      duration_minutes: occurrence.duration_minutes.toString(),
+      meeting_point_name: occurrence.meeting_point_name || '',
+      notes: occurrence.notes || '',
+    });
+  };
+
+  const handleSaveEdit = (occurrence: WorkoutOccurrence) => {
+    if (!draft) return;
+
+    const startTime = draft.start_time ? new Date(draft.start_time).toISOString() : occurrence.occurrence_start;
+    const duration = Number(draft.duration_minutes);
+    const meetingPoint = draft.meeting_point_name.trim();
+    const notes = draft.notes.trim();
+
+    saveException(occurrence, {
+      cancelled: occurrence.cancelled,
+      start_time: startTime !== occurrence.occurrence_start ? startTime : null,
+      duration_minutes: duration !== workout.duration_minutes ? duration : null,
+      meeting_point_name: meetingPoint && meetingPoint !== workout.meeting_point_name ? meetingPoint : null,
+      notes: notes && notes !== workout.notes ? notes : null,
+    });
+  };
+
+  const visible = showAll ? occurrences : occurrences.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white">Upcoming Dates</h3>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading dates...</p>
+      ) : occurrences.length === 0 ? (
+        <p className="text-gray-400 text-sm">No more dates in the next two months.</p>
+      ) : (
+        visible.map(occurrence => (
+          <div key={occurrence.occurrence_start} className="border-b border-gray-700 last:border-0 pb-3 last:pb-0 space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className={`font-medium ${occurrence.cancelled ? 'text-gray-500 line-through' : 'text-white'}`}>
+                  {formatWorkoutTime(occurrence.start_time)} · {formatWorkoutDuration(occurrence.duration_minutes)}
+                </div>
+                {occurrence.cancelled && <p className="text-red-400 text-xs mt-1">Cancelled</p>}
+                {!occurrence.cancelled && occurrence.start_time !== occurrence.occurrence_start && (
+                  <p className="text-orange-300 text-xs mt-1">
+                    Moved from {formatWorkoutTime(occurrence.occurrence_start)}
+                  </p>
+                )}
+                {occurrence.meeting_point_name !== workout.meeting_point_name && occurrence.meeting_point_name && (
+                  <p className="text-gray-300 text-sm mt-1">Meeting at {occurrence.meeting_point_name}</p>
+                )}
+                {occurrence.notes !== workout.notes && occurrence.notes && (
+                  <p className="text-gray-400 text-sm mt-1 whitespace-pre-line">{occurrence.notes}</p>
+                )}
+              </div>
+
+              {isHost && editing !== occurrence.occurrence_start && (
+                <div className="flex gap-3 text-sm whitespace-nowrap">
+                  {occurrence.modified && (
+                    <button
+                      onClick={() => handleRestore(occurrence)}
+                      disabled={pendingStart === occurrence.occurrence_start}
+                      className="text-orange-500 hover:text-orange-400 transition-colors duration-200 disabled:opacity-50"
+                    >
+                      Restore
+                    </button>
+                  )}
+                  {!occurrence.cancelled && (
+                    <>
+                      <button
+                        onClick={() => startEditing(occurrence)}
+                        disabled={pendingStart === occurrence.occurrence_start}
+                        className="text-orange-500 hover:text-orange-400 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        Change
+                      </button>
+                      <button
+                        onClick={() => handleCancel(occurrence)}
+                        disabled={pendingStart === occurrence.occurrence_start}
+                        className="text-gray-400 hover:text-red-400 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {editing === occurrence.occurrence_start && draft && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSaveEdit(occurrence);
+                }}
+                className="space-y-2"
+              >
+                <input
+                  type="datetime-local"
+                  value={draft.start_time}
+                  onChange={(e) => setDraft({ ...draft, start_time: e.target.value })}
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={5}
+                  value={draft.duration_minutes}
+                  onChange={(e) => setDraft({ ...draft, duration_minutes: e.target.value })}
+                  placeholder="Duration (minutes)"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={draft.meeting_point_name}
+                  onChange={(e) => setDraft({ ...draft, meeting_point_name: e.target.value })}
+                  placeholder="Meeting point"
+                  className={inputClassName}
+                />
+                <textarea
+                  rows={2}
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  placeholder="Notes for this date"
+                  className={`${inputClassName} h-auto py-2 resize-none`}
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={pendingStart === occurrence.occurrence_start}
+                    className="flex-1 h-10 bg-gradient-to-r from-orange-500 to-orange-600 text-white text-sm font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Save This Date
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditing(null);
+                      setDraft(null);
+                    }}
+                    className="flex-1 h-10 bg-gray-700 border border-gray-600 text-white text-sm font-semibold rounded-lg hover:bg-gray-600"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        ))
+      )}
+
+      {occurrences.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-orange-500 text-sm font-semibold hover:text-orange-400 transition-colors duration-200"
+        >
+          {showAll ? 'Show fewer' : `Show all ${occurrences.length} dates`}
+        </button>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { type RoutePoint, type Workout } from '@/types/database';
+import { formatDistance, pointDistanceMeters } from '@/lib/services/activities';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+interface WorkoutRouteProps {
+  workout: Pick<Workout, 'id' | 'route'>;
+  isHost: boolean;
+}
+
+// Total length of a planned route in meters
+function routeLength(route: RoutePoint[]): number {
+  let meters = 0;
+  for (let i = 1; i < route.length; i++) {
+    meters += pointDistanceMeters(route[i - 1], route[i]);
+  }
+  return meters;
+}
+
+export function WorkoutRoute({ workout, isHost }: WorkoutRouteProps) {
+  const [route, setRoute] = useState<RoutePoint[] | null>(workout.route);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (file: File) => {
+    setIsUploading(true);
+    setError('');
+    let serverMessage: string | undefined;
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('workout_id', workout.id);
+      form.append('target', 'route');
+
+      const response = await fetch('/api/activities/import', {
+        method: 'POST',
+        body: form,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        serverMessage = result.error;
+        throw new Error(result.error || 'Failed to upload route');
+      }
+
+      setRoute(result.route);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'route-import', serverMessage);
+      setError(displayError(errorDetails));
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  if (!route && !isHost) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Route</h3>
+        {isHost && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="text-orange-500 font-semibold hover:text-orange-400 transition-colors duration-200 disabled:opacity-50"
+          >
+            {isUploading ? 'Uploading...' : route ? 'Replace' : 'Upload'}
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,.tcx,.fit"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleUpload(file);
+          }}
+        />
+      </div>
+
+      {route ? (
+        <div className="flex items-center justify-between">
+          <span className="text-white font-medium">{formatDistance(routeLength(route), 'mi')}</span>
+          <a
+            href={`/api/workouts/${workout.id}/export?format=gpx`}
+            download
+            className="text-orange-500 text-sm hover:underline"
+          >
+            Download GPX
+          </a>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          Share the planned route by uploading a GPX, TCX or FIT file.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ParticipantStatus,
+  WorkoutStatus,
+  type UserAuth,
+  type WorkoutWithHost,
+  type WorkoutRsvpSummary,
+} from '@/types/database';
+import { isWorkoutOpen } from '@/lib/services/workouts';
+import { createErrorInfo, displayError } from '@/lib/utils/errors';
+
+interface WorkoutRsvpProps {
+  workout: Pick<WorkoutWithHost, 'id' | 'host_id' | 'host' | 'capacity' | 'start_time' | 'status' | 'recurrence_rule' | 'recurrence_ends_at'>;
+  currentUser: UserAuth;
+}
+
+const RSVP_OPTIONS: { status: ParticipantStatus; label: string }[] = [
+  { status: ParticipantStatus.GOING, label: 'Going' },
+  { status: ParticipantStatus.MAYBE, label: 'Maybe' },
+  { status: ParticipantStatus.DECLINED, label: "Can't go" },
+];
+
+const STATUS_LABELS: Record<ParticipantStatus, string> = {
+  [ParticipantStatus.GOING]: "You're going",
+  [ParticipantStatus.MAYBE]: "You're a maybe",
+  [ParticipantStatus.WAITLISTED]: "You're on the waitlist",
+  [ParticipantStatus.DECLINED]: "You can't make it",
+};
+
+export function WorkoutRsvp({ workout, currentUser }: WorkoutRsvpProps) {
+  const [summary, setSummary] = useState<WorkoutRsvpSummary | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const isHost = workout.host_id === currentUser.id;
+  const isClosed = workout.status !== WorkoutStatus.SCHEDULED || !isWorkoutOpen(workout);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/workouts/${workout.id}/rsvp`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load RSVPs');
+      }
+
+      setSummary(result.rsvp);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-rsvp');
+      setError(displayError(errorDetails));
+    }
+  }, [workout.id]);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  const updateRsvp = async (request: () => Promise<Response>) => {
+    setIsUpdating(true);
+    setError('');
+
+    try {
+      const response = await request();
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update RSVP');
+      }
+
+      setSummary(result.rsvp);
+    } catch (err) {
+      const errorDetails = createErrorInfo(err, 'workout-rsvp');
+      setError(displayError(errorDetails));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleRsvp = (status: ParticipantStatus) =>
+    updateRsvp(() =>
+      fetch(`/api/workouts/${workout.id}/rsvp`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      })
+    );
+
+  const handleLeave = () =>
+    updateRsvp(() => fetch(`/api/workouts/${workout.id}/rsvp`, { method: 'DELETE' }));
+
+  const going = summary?.participants.filter(p => p.status === ParticipantStatus.GOING) || [];
+  const maybe = summary?.participants.filter(p => p.status === ParticipantStatus.MAYBE) || [];
+  const waitlist = summary?.participants.filter(p => p.status === ParticipantStatus.WAITLISTED) || [];
+
+  // A "going" request on a full workout lands on the waitlist
+  const isFull = summary?.spots_left === 0;
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Who&apos;s Coming</h3>
+        {summary && (
+          <span className="text-gray-400 text-sm">
+            {summary.spots_left === null
+              ? `${summary.going_count} going`
+              : `${summary.going_count}/${workout.capacity} going`}
+          </span>
+        )}
+      </div>
+
+      {/* Current user's status */}
+      {!isHost && summary?.my_status && (
+        <p className="text-orange-300 text-sm">
+          {STATUS_LABELS[summary.my_status]}
+          {summary.my_status === ParticipantStatus.WAITLISTED && summary.my_waitlist_position &&
+            ` (#${summary.my_waitlist_position})`}
+        </p>
+      )}
+
+      {/* RSVP Controls */}
+      {!isHost && !isClosed && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {RSVP_OPTIONS.map(option => {
+              const isSelected = summary?.my_status === option.status ||
+                (option.status === ParticipantStatus.GOING && summary?.my_status === ParticipantStatus.WAITLISTED);
+
+              return (
+                <button
+                  key={option.status}
+                  onClick={() => handleRsvp(option.status)}
+                  disabled={isUpdating || isSelected}
+                  className={`h-12 rounded-lg font-semibold transition-all duration-300 disabled:cursor-not-allowed ${
+                    isSelected
+                      ? 'bg-gradient-to-r from-orange-500 to-orange-600 text-white'
+                      : 'bg-gray-700 border border-gray-600 text-white hover:bg-gray-600 disabled:opacity-50'
+                  }`}
+                >
+                  {option.status === ParticipantStatus.GOING && isFull && !isSelected ? 'Join Waitlist' : option.label}
+                </button>
+              );
+            })}
+          </div>
+
+          {summary?.my_status && (
+            <button
+              onClick={handleLeave}
+              disabled={isUpdating}
+              className="w-full text-gray-400 text-sm hover:text-gray-300 transition-colors duration-200 disabled:opacity-50"
+            >
+              Remove my RSVP
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-400 text-sm">{error}</p>
+      )}
+
+      {/* Participant Lists */}
+      {summary && (
+        <div className="space-y-3 text-sm">
+          <div>
+            <p className="text-gray-400 mb-1">Going</p>
+            <p className="text-white">
+              {[isHost ? 'You (host)' : `${workout.host?.name || 'Host'} (host)`, ...going.map(p => p.user_id === currentUser.id ? 'You' : p.user?.name || 'Member')].join(', ')}
+            </p>
+          </div>
+          {maybe.length > 0 && (
+            <div>
+              <p className="text-gray-400 mb-1">Maybe</p>
+              <p className="text-white">
+                {maybe.map(p => p.user_id === currentUser.id ? 'You' : p.user?.name || 'Member').join(', ')}
+              </p>
+            </div>
+          )}
+          {waitlist.length > 0 && (
+            <div>
+              <p className="text-gray-400 mb-1">Waitlist</p>
+              <ol className="text-white list-decimal list-inside">
+                {waitlist.map(p => (
+                  <li key={p.id}>{p.user_id === currentUser.id ? 'You' : p.user?.name || 'Member'}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
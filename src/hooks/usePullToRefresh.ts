@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+// How far (in px, after damping) the page must be pulled to trigger a refresh
+const PULL_THRESHOLD = 64;
+const MAX_PULL = 96;
+
+/**
+ * Calls onRefresh when the user pulls down from the top of the page on a
+ * touch screen. Returns the current pull distance for an indicator.
+ */
+export function usePullToRefresh(onRefresh: () => Promise<void>, enabled = true) {
+  const [pullDistance, setPullDistance] = useState(0);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const startY = useRef<number | null>(null);
+  const distance = useRef(0);
+  const refreshRef = useRef(onRefresh);
+
+  useEffect(() => {
+    refreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  useEffect(() => {
+    if (!enabled || isRefreshing) {
+      return;
+    }
+
+    const handleTouchStart = (e: TouchEvent) => {
+      startY.current = window.scrollY <= 0 ? e.touches[0].clientY : null;
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (startY.current === null) return;
+
+      // Damp the pull so it feels elastic
+      const pulled = Math.min(Math.max((e.touches[0].clientY - startY.current) / 2, 0), MAX_PULL);
+      distance.current = pulled;
+      setPullDistance(pulled);
+    };
+
+    const handleTouchEnd = async () => {
+      if (startY.current === null) return;
+
+      const pulled = distance.current;
+      startY.current = null;
+      distance.current = 0;
+      setPullDistance(0);
+
+      if (pulled >= PULL_THRESHOLD) {
+        setIsRefreshing(true);
+        try {
+          await refreshRef.current();
+        } finally {
+          setIsRefreshing(false);
+        }
+      }
+    };
+
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchmove', handleTouchMove, { passive: true });
+    window.addEventListener('touchend', handleTouchEnd);
+    window.addEventListener('touchcancel', handleTouchEnd);
+
+    return () => {
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+      window.removeEventListener('touchcancel', handleTouchEnd);
+    };
+  }, [enabled, isRefreshing]);
+
+  return {
+    pullDistance,
+    isRefreshing,
+    isReady: pullDistance >= PULL_THRESHOLD,
+  };
+}
@@ -0,0 +1,147 @@
+import { OfflineOutbox, type OutboxMethod } from '@/lib/outbox';
+import type { ErrorResponse } from '@/lib/api/handler';
+import { ENDPOINTS, type Endpoint, type EndpointBody } from '@/lib/api/endpoints';
+
+// Typed client for the endpoints in ENDPOINTS. Pages use the shared `api`
+// instance; scripts and other apps create their own with a base URL and the
+// session cookie.
+//
+//   const { user } = await api.login({ phone_number: '+19195551234', password });
+//   const client = new ApiClient({ baseUrl: 'https://example.com', headers: { Cookie: cookie } });
+
+// Error response from the API; message is the server's user-facing error
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly details?: string;
+  readonly fields?: Record<string, string>;
+  readonly requestId?: string;
+  readonly retryAfterSeconds?: number; // From the Retry-After header of 429s
+
+  constructor(status: number, body: ErrorResponse, retryAfterSeconds?: number) {
+    super(body.error);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body.code;
+    this.details = body.details;
+    this.fields = body.fields;
+    this.requestId = body.request_id;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string; // Origin of the app; pages leave it out and use relative URLs
+  headers?: Record<string, string>;
+}
+
+export type SubmitResult<T> =
+  | { queued: false; data: T }
+  | { queued: true }; // Saved in the offline outbox, sent once back online
+
+// Parse a response, throwing ApiError for error statuses
+async function readResponse<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+
+    throw new ApiError(response.status, typeof data?.error === 'string'
+      ? data
+      : { error: `Request failed with status ${response.status}` }, retryAfter > 0 ? retryAfter : undefined);
+  }
+
+  return data as T;
+}
+
+export class ApiClient {
+  constructor(private readonly options: ApiClientOptions = {}) {}
+
+  login(body: EndpointBody<typeof ENDPOINTS.login>) {
+    return this.request(ENDPOINTS.login, body);
+  }
+
+  register(body: EndpointBody<typeof ENDPOINTS.register>) {
+    return this.request(ENDPOINTS.register, body);
+  }
+
+  logout() {
+    return this.request(ENDPOINTS.logout);
+  }
+
+  requestLoginCode(body: EndpointBody<typeof ENDPOINTS.requestLoginCode>) {
+    return this.request(ENDPOINTS.requestLoginCode, body);
+  }
+
+  verifyLoginCode(body: EndpointBody<typeof ENDPOINTS.verifyLoginCode>) {
+    return this.request(ENDPOINTS.verifyLoginCode, body);
+  }
+
+  forgotPassword(body: EndpointBody<typeof ENDPOINTS.forgotPassword>) {
+    return this.request(ENDPOINTS.forgotPassword, body);
+  }
+
+  resetPassword(body: EndpointBody<typeof ENDPOINTS.resetPassword>) {
+    return this.request(ENDPOINTS.resetPassword, body);
+  }
+
+  changePassword(body: EndpointBody<typeof ENDPOINTS.changePassword>) {
+    return this.request(ENDPOINTS.changePassword, body);
+  }
+
+  getProfile() {
+    return this.request(ENDPOINTS.getProfile);
+  }
+
+  updateProfile(body: EndpointBody<typeof ENDPOINTS.updateProfile>) {
+    return this.request(ENDPOINTS.updateProfile, body);
+  }
+
+  updateLocation(body: EndpointBody<typeof ENDPOINTS.updateLocation>) {
+    return this.request(ENDPOINTS.updateLocation, body);
+  }
+
+  /**
+   * Calls an endpoint and returns its response body; error responses throw
+   * ApiError
+   */
+  async request<TBody, TResponse>(endpoint: Endpoint<TBody, TResponse>, body?: TBody): Promise<TResponse> {
+    const response = await fetch(this.url(endpoint), {
+      method: endpoint.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.options.headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    return readResponse<TResponse>(response);
+  }
+
+  /**
+   * Like request, but saved in the offline outbox when there's no
+   * connection. Browser only.
+   */
+  async submit<TBody extends Record<string, unknown>, TResponse>(
+    endpoint: Endpoint<TBody, TResponse>,
+    body: TBody
+  ): Promise<SubmitResult<TResponse>> {
+    if (endpoint.method === 'GET') {
+      throw new Error(`${endpoint.method} ${endpoint.path} can't be queued`);
+    }
+
+    const result = await OfflineOutbox.getInstance().submit(this.url(endpoint), endpoint.method as OutboxMethod, body);
+
+    if (result.queued) {
+      return { queued: true };
+    }
+
+    return { queued: false, data: await readResponse<TResponse>(result.response) };
+  }
+
+  private url(endpoint: Endpoint<unknown, unknown>): string {
+    return `${this.options.baseUrl ?? ''}${endpoint.path}`;
+  }
+}
+
+export const api = new ApiClient();
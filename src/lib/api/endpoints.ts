@@ -0,0 +1,260 @@
+import { ActivityType, type User } from '@/types/database';
+import { s, type Schema } from '@/lib/utils/schema';
+import {
+  availabilityWindowSchema,
+  locationSchema,
+  loginSchema,
+  passwordSchema,
+  phoneNumberSchema,
+  profileUpdateSchema,
+  registerSchema,
+} from '@/lib/utils/validation';
+import type { HttpMethod } from '@/lib/api/handler';
+
+// Endpoints that scripts and other apps integrate with. Their routes validate
+// bodies with these schemas, /api/openapi.json is generated from them and
+// ApiClient takes its types from them. Safe to import on the client.
+
+export interface Endpoint<TBody = undefined, TResponse = unknown> {
+  method: HttpMethod;
+  path: string;
+  tag: string; // Groups endpoints in the docs
+  summary: string;
+  auth: 'required' | 'none';
+  body?: Schema<TBody>;
+  fieldCodes?: Record<string, string>; // Error code for each invalid body field
+  status?: number; // Success status, 200 by default
+  response: Schema<TResponse>;
+  errors?: Record<number, string>; // Endpoint-specific error statuses
+}
+
+export type EndpointBody<E> = E extends { body?: Schema<infer TBody> } ? TBody : never;
+export type EndpointResponse<E> = E extends { response: Schema<infer TResponse> } ? TResponse : never;
+
+// Keeps the body and response types of a definition
+const endpoint = <TBody = undefined, TResponse = unknown>(definition: Endpoint<TBody, TResponse>) => definition;
+
+const geoPointSchema = s.object({
+  type: s.enum(['Point'] as const),
+  coordinates: s.tuple([s.number(), s.number()]).describe('[longitude, latitude]'),
+});
+
+export const userSchema: Schema<User> = s.object({
+  id: s.string().describe('UUID'),
+  phone_number: s.string().describe('E.164 format'),
+  email: s.string().nullable(),
+  name: s.string(),
+  activity_preferences: s.array(s.enum(Object.values(ActivityType))),
+  pace_range_min: s.number().nullable().describe('Minutes per mile'),
+  pace_range_max: s.number().nullable().describe('Minutes per mile'),
+  home_location_coords: geoPointSchema.nullable(),
+  home_location_name: s.string().nullable(),
+  availability: s.array(availabilityWindowSchema),
+  availability_timezone: s.string().nullable().describe('IANA time zone the availability windows are in'),
+  created_at: s.string().describe('ISO timestamp'),
+  updated_at: s.string().describe('ISO timestamp'),
+});
+
+const sessionSchema = s.object({
+  access_token: s.string(),
+  refresh_token: s.string(),
+  expires_in: s.number().describe('Seconds'),
+  expires_at: s.number().optional().describe('Unix time in seconds'),
+  token_type: s.string(),
+  user: s.object({
+    id: s.string(),
+    phone: s.string().optional(),
+    email: s.string().optional(),
+  }),
+});
+
+const messageSchema = s.object({
+  message: s.string(),
+});
+
+// Codes and reset links are sent without saying whether the account exists
+const sentSchema = s.object({
+  message: s.string(),
+  expires_in: s.number().describe('Seconds until the code or link expires'),
+});
+
+const PHONE_FIELD_CODES = { phone_number: 'INVALID_PHONE' };
+
+export const ENDPOINTS = {
+  login: endpoint({
+    method: 'POST',
+    path: '/api/auth/login',
+    tag: 'Auth',
+    summary: 'Sign in with phone number and password',
+    auth: 'none',
+    body: loginSchema,
+    fieldCodes: { ...PHONE_FIELD_CODES, password: 'INVALID_PASSWORD' },
+    response: s.object({ user: userSchema, session: sessionSchema }),
+    errors: {
+      401: 'Wrong phone number or password (INVALID_CREDENTIALS)',
+      404: 'No account or profile for this phone number',
+      429: 'Too many attempts, or locked out after failed ones (RATE_LIMITED); see Retry-After',
+    },
+  }),
+
+  register: endpoint({
+    method: 'POST',
+    path: '/api/auth/register',
+    tag: 'Auth',
+    summary: 'Create an account and its profile',
+    auth: 'none',
+    body: registerSchema,
+    fieldCodes: { ...PHONE_FIELD_CODES, password: 'INVALID_PASSWORD', name: 'INVALID_NAME', email: 'INVALID_EMAIL' },
+    status: 201,
+    response: s.object({
+      user: s.object({
+        id: s.string(),
+        phone_number: s.string(),
+        email: s.string().nullable(),
+        name: s.string(),
+      }),
+      session: sessionSchema,
+    }),
+    errors: {
+      409: 'Phone number or email already registered (PHONE_EXISTS, EMAIL_EXISTS)',
+      429: 'Too many sign-ups from this address or for this number (RATE_LIMITED); see Retry-After',
+    },
+  }),
+
+  logout: endpoint({
+    method: 'POST',
+    path: '/api/auth/logout',
+    tag: 'Auth',
+    summary: 'Sign out; succeeds without a session too',
+    auth: 'none',
+    response: s.object({ message: s.string(), success: s.boolean() }),
+  }),
+
+  requestLoginCode: endpoint({
+    method: 'POST',
+    path: '/api/auth/otp/request',
+    tag: 'Auth',
+    summary: 'Text a one-time login code to a phone number; answers the same whether or not it has an account',
+    auth: 'none',
+    body: s.object({ phone_number: phoneNumberSchema() }),
+    fieldCodes: PHONE_FIELD_CODES,
+    response: sentSchema,
+    errors: {
+      429: 'Too many requests (RATE_LIMITED); see Retry-After',
+    },
+  }),
+
+  verifyLoginCode: endpoint({
+    method: 'POST',
+    path: '/api/auth/otp/verify',
+    tag: 'Auth',
+    summary: 'Exchange a login code for a session',
+    auth: 'none',
+    body: s.object({
+      phone_number: phoneNumberSchema(),
+      code: s.string('Code is required').describe('Digits from the text message; spaces are ignored'),
+    }),
+    fieldCodes: { ...PHONE_FIELD_CODES, code: 'INVALID_CODE' },
+    response: s.object({ user: userSchema }),
+    errors: {
+      401: 'Wrong or expired code (OTP_INVALID)',
+      404: 'The account has no profile yet (PROFILE_NOT_FOUND)',
+      429: 'Too many attempts, or locked out after wrong codes (RATE_LIMITED); see Retry-After',
+    },
+  }),
+
+  forgotPassword: endpoint({
+    method: 'POST',
+    path: '/api/auth/password/forgot',
+    tag: 'Auth',
+    summary: 'Send a password reset link by text or email; answers the same whether or not one was sent',
+    auth: 'none',
+    body: s.object({
+      phone_number: s.string('Phone number must be text').optional(),
+      email: s.string('Email must be text').optional(),
+      channel: s.enum(['sms', 'email'], 'Channel must be "sms" or "email"').optional(),
+    }).describe('Identify the account by phone number or email'),
+    fieldCodes: { ...PHONE_FIELD_CODES, email: 'INVALID_EMAIL', channel: 'INVALID_CHANNEL' },
+    response: sentSchema,
+  }),
+
+  resetPassword: endpoint({
+    method: 'POST',
+    path: '/api/auth/password/reset',
+    tag: 'Auth',
+    summary: 'Set a new password using a reset link token',
+    auth: 'none',
+    body: s.object({
+      token: s.string('Reset token is required').nonempty('Reset token is required'),
+      password: passwordSchema,
+    }),
+    fieldCodes: { token: 'RESET_TOKEN_INVALID', password: 'INVALID_PASSWORD' },
+    response: messageSchema,
+  }),
+
+  changePassword: endpoint({
+    method: 'POST',
+    path: '/api/auth/password/change',
+    tag: 'Auth',
+    summary: "Change the current user's password and sign out other devices",
+    auth: 'required',
+    body: s.object({
+      current_password: s.string('Current password is required').nonempty('Current password is required'),
+      new_password: passwordSchema,
+    }),
+    fieldCodes: { current_password: 'INVALID_PASSWORD', new_password: 'INVALID_PASSWORD' },
+    response: messageSchema,
+  }),
+
+  getProfile: endpoint({
+    method: 'GET',
+    path: '/api/profile',
+    tag: 'Profile',
+    summary: "Fetch the current user's profile",
+    auth: 'required',
+    response: s.object({ user: userSchema }),
+    errors: {
+      404: 'The account has no profile yet (PROFILE_NOT_FOUND)',
+    },
+  }),
+
+  updateProfile: endpoint({
+    method: 'PATCH',
+    path: '/api/profile',
+    tag: 'Profile',
+    summary: "Update the current user's profile; only the fields sent are changed",
+    auth: 'required',
+    body: profileUpdateSchema,
+    fieldCodes: {
+      name: 'INVALID_NAME',
+      email: 'INVALID_EMAIL',
+      activity_preferences: 'INVALID_ACTIVITIES',
+      pace_range_min: 'INVALID_PACE',
+      pace_range_max: 'INVALID_PACE',
+      availability: 'INVALID_AVAILABILITY',
+      availability_timezone: 'INVALID_TIMEZONE',
+    },
+    response: s.object({ user: userSchema }),
+    errors: {
+      404: 'The account has no profile yet (PROFILE_NOT_FOUND)',
+    },
+  }),
+
+  updateLocation: endpoint({
+    method: 'PATCH',
+    path: '/api/profile/location',
+    tag: 'Profile',
+    summary: "Set the current user's home location",
+    auth: 'required',
+    body: locationSchema,
+    fieldCodes: {
+      latitude: 'INVALID_LATITUDE',
+      longitude: 'INVALID_LONGITUDE',
+      locationName: 'INVALID_LOCATION_NAME',
+    },
+    response: s.object({ success: s.boolean(), message: s.string() }),
+    errors: {
+      404: 'The account has no profile yet (PROFILE_NOT_FOUND)',
+    },
+  }),
+};
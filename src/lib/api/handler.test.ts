@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getClientIp } from '@/lib/api/handler';
+
+const request = (headers: Record<string, string>) => new NextRequest('https://example.com/api/auth/login', { headers });
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses Vercel's header over anything the client forwarded", () => {
+    expect(getClientIp(request({ 'x-vercel-forwarded-for': '203.0.113.7', 'x-forwarded-for': '198.51.100.1' }))).toBe('203.0.113.7');
+  });
+
+  it('ignores forwarding headers when no proxies are trusted', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '198.51.100.1', 'x-real-ip': '198.51.100.2' }))).toBeNull();
+  });
+
+  it('reads the entry added by the outermost trusted proxy', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+
+    // The client made up the first entry; our two proxies added the last two
+    expect(getClientIp(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP when the proxies left no usable entry', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '1');
+
+    expect(getClientIp(request({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+});
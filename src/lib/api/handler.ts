@@ -0,0 +1,342 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient, User as AuthUser } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import type { FieldErrors, Schema } from '@/lib/utils/schema';
+import type { Endpoint } from '@/lib/api/endpoints';
+import type { RateLimited } from '@/lib/services/rateLimit';
+
+// Shared plumbing for API routes. Each handler gets a request ID (sent back
+// in the X-Request-Id header and in error bodies), a Supabase client and,
+// unless it opts out, the signed-in user. JSON bodies are parsed and
+// validated before the handler runs, unexpected errors become INTERNAL_ERROR
+// responses and methods a route doesn't define are answered with a 405.
+// Server only.
+//
+//   export const { GET, POST, PUT, PATCH, DELETE } = defineRoute({
+//     GET: apiHandler({}, async ({ supabase, user }) => ...),
+//     PATCH: apiHandler({ body: schemaBody(updateSchema) }, async ({ body, user, errorResponse }) => ...),
+//     PUT: apiHandler({ body: endpointBody(ENDPOINTS.replaceThing) }, async ({ body }) => ...),
+//   });
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+export type HttpMethod = typeof HTTP_METHODS[number];
+
+// Error codes every route may answer with; route-specific codes live with their routes
+export enum ApiErrorCode {
+  INVALID_JSON = 'INVALID_JSON',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  NOT_AUTHENTICATED = 'NOT_AUTHENTICATED',
+  CONFIG_ERROR = 'CONFIG_ERROR',
+  METHOD_NOT_ALLOWED = 'METHOD_NOT_ALLOWED',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  RATE_LIMITED = 'RATE_LIMITED',
+}
+
+// Body of every error response
+export interface ErrorResponse {
+  error: string;
+  details?: string;
+  code?: string;
+  fields?: FieldErrors; // Message for each invalid field
+  request_id?: string; // Matches the X-Request-Id header and the server logs
+}
+
+// What a payload parser reports when a body is invalid
+export interface PayloadError {
+  error: string;
+  code: string;
+  details?: string;
+  fields?: FieldErrors;
+}
+
+export type PayloadResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: PayloadError };
+
+// Validates a JSON object body, like the parse*Payload functions in the services
+export type PayloadParser<T> = (body: Record<string, unknown>) => PayloadResult<T>;
+
+// What a handler receives as its body: the parser's data, or undefined without one
+export type ParsedBody<TParser> = TParser extends (body: Record<string, unknown>) => infer TResult
+  ? Exclude<TResult, { error: PayloadError }> extends { data: infer T } ? T : never
+  : undefined;
+
+// Builds an error response carrying the request ID
+export type ErrorResponder = (
+  status: number,
+  error: ErrorResponse,
+  headers?: Record<string, string> // e.g. Retry-After
+) => NextResponse<ErrorResponse>;
+
+export interface ApiContext<TBody, TUser> {
+  request: NextRequest;
+  params: Record<string, string>; // Dynamic route segments
+  body: TBody; // Parsed and validated; undefined when the handler takes no body
+  supabase: SupabaseClient; // Acts as the signed-in user
+  user: TUser;
+  requestId: string;
+  errorResponse: ErrorResponder;
+}
+
+export interface ApiHandlerOptions<TParser extends PayloadParser<unknown> | undefined> {
+  auth?: 'required' | 'none'; // 'required' (the default) answers 401 without a session
+  body?: TParser;
+}
+
+// Second argument Next.js passes to route handlers
+export interface ApiRouteContext {
+  params: Promise<Record<string, string>>;
+}
+
+export type ApiHandler = (request: NextRequest, context: ApiRouteContext) => Promise<NextResponse>;
+
+// Client-supplied request IDs are kept (e.g. from a proxy) when they look sane
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/;
+
+/**
+ * The request's ID: the caller's X-Request-Id, or a new one
+ */
+export function getRequestId(request: NextRequest): string {
+  const incoming = request.headers.get('x-request-id');
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+/**
+ * The caller's IP address as seen by infrastructure we trust, or null when
+ * it can't be told. Clients can send any forwarding headers they like, so
+ * only Vercel's own header or the X-Forwarded-For entries appended by our
+ * TRUSTED_PROXY_COUNT proxies are believed.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  // Vercel's edge network overwrites this header, whatever the client sent
+  const vercel = request.headers.get('x-vercel-forwarded-for')?.split(',')[0].trim();
+  if (vercel) {
+    return vercel;
+  }
+
+  const proxies = Number(process.env.TRUSTED_PROXY_COUNT) || 0;
+  if (proxies < 1) {
+    return null;
+  }
+
+  // Each proxy appends the address it got the request from, so the client
+  // is the entry our outermost proxy added, counting from the right
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+
+  return hops[hops.length - proxies] || request.headers.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Error response carrying the request ID
+ */
+export function apiError(
+  requestId: string,
+  status: number,
+  error: ErrorResponse,
+  headers?: Record<string, string>
+): NextResponse<ErrorResponse> {
+  return NextResponse.json<ErrorResponse>(
+    { ...error, request_id: requestId },
+    { status, headers: { ...headers, 'X-Request-Id': requestId } }
+  );
+}
+
+// "45 seconds", "1 minute", "15 minutes"
+const describeWait = (seconds: number) => {
+  const [amount, unit] = seconds < 60 ? [seconds, 'second'] : [Math.ceil(seconds / 60), 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+/**
+ * 429 RATE_LIMITED response with a Retry-After header
+ */
+export function rateLimitedResponse(errorResponse: ErrorResponder, limited: RateLimited): NextResponse<ErrorResponse> {
+  return errorResponse(429, {
+    error: limited.locked ? 'Too many failed attempts' : 'Too many attempts',
+    details: `Please try again in ${describeWait(limited.retryAfterSeconds)}`,
+    code: ApiErrorCode.RATE_LIMITED
+  }, { 'Retry-After': String(limited.retryAfterSeconds) });
+}
+
+/**
+ * Accepts any JSON object, for handlers that check their own fields
+ */
+export function jsonObject<T extends object = Record<string, unknown>>(): PayloadParser<T> {
+  return body => ({ data: body as T });
+}
+
+/**
+ * Validates a JSON body against a schema. The error names the first invalid
+ * field, with the code given for that field (VALIDATION_ERROR otherwise), and
+ * lists every invalid field.
+ */
+export function schemaBody<T>(schema: Schema<T>, codes: Record<string, string> = {}): PayloadParser<T> {
+  return body => {
+    const result = schema.parse(body);
+    if (!result.errors) {
+      return { data: result.data };
+    }
+
+    const [path, message] = Object.entries(result.errors)[0];
+    return {
+      error: {
+        error: message,
+        code: codes[path.split('.')[0]] ?? ApiErrorCode.VALIDATION_ERROR,
+        fields: result.errors,
+      }
+    };
+  };
+}
+
+/**
+ * Validates a JSON body against an endpoint's schema, with the endpoint's
+ * error code for each field
+ */
+export function endpointBody<TBody>(endpoint: Endpoint<TBody, unknown>): PayloadParser<TBody> {
+  if (!endpoint.body) {
+    throw new Error(`${endpoint.method} ${endpoint.path} takes no body`);
+  }
+
+  return schemaBody(endpoint.body, endpoint.fieldCodes);
+}
+
+/**
+ * Wraps a route handler with request IDs, authentication, body parsing and
+ * error handling
+ */
+export function apiHandler<TParser extends PayloadParser<unknown> | undefined = undefined>(
+  options: ApiHandlerOptions<TParser> & { auth?: 'required' },
+  handler: (context: ApiContext<ParsedBody<TParser>, AuthUser>) => Promise<NextResponse>
+): ApiHandler;
+export function apiHandler<TParser extends PayloadParser<unknown> | undefined = undefined>(
+  options: ApiHandlerOptions<TParser> & { auth: 'none' },
+  handler: (context: ApiContext<ParsedBody<TParser>, null>) => Promise<NextResponse>
+): ApiHandler;
+export function apiHandler(
+  options: ApiHandlerOptions<PayloadParser<unknown> | undefined>,
+  handler:
+    | ((context: ApiContext<never, AuthUser>) => Promise<NextResponse>)
+    | ((context: ApiContext<never, null>) => Promise<NextResponse>)
+): ApiHandler {
+  // The overloads pair the auth option with the user the handler receives,
+  // and the body parser with the body
+  const run = handler as (context: ApiContext<unknown, AuthUser | null>) => Promise<NextResponse>;
+
+  return async (request, { params }) => {
+    const requestId = getRequestId(request);
+    const errorResponse: ErrorResponder = (status, error, headers) => apiError(requestId, status, error, headers);
+
+    try {
+      // Check environment variables
+      if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+        console.error(`Missing Supabase environment variables [${requestId}]`);
+        return errorResponse(500, {
+          error: 'Server configuration error',
+          details: 'Supabase configuration is missing',
+          code: ApiErrorCode.CONFIG_ERROR
+        });
+      }
+
+      // Create Supabase client
+      const supabase = await createClient();
+
+      // Get the current user from session
+      let user: AuthUser | null = null;
+      if (options.auth !== 'none') {
+        const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !authUser) {
+          return errorResponse(401, {
+            error: 'Not authenticated',
+            details: 'Please log in to continue',
+            code: ApiErrorCode.NOT_AUTHENTICATED
+          });
+        }
+        user = authUser;
+      }
+
+      // Parse request body (after the auth check, so signed-out callers get a 401)
+      let json: unknown;
+      if (options.body) {
+        try {
+          json = await request.json();
+        } catch {
+          return errorResponse(400, {
+            error: 'Invalid JSON in request body',
+            code: ApiErrorCode.INVALID_JSON
+          });
+        }
+
+        if (!json || typeof json !== 'object' || Array.isArray(json)) {
+          return errorResponse(400, {
+            error: 'Invalid JSON in request body',
+            details: 'The request body must be a JSON object',
+            code: ApiErrorCode.INVALID_JSON
+          });
+        }
+      }
+
+      // Validate request body
+      let body: unknown;
+      if (options.body) {
+        const payload = options.body(json as Record<string, unknown>);
+        if (payload.error) {
+          return errorResponse(400, payload.error);
+        }
+        body = payload.data;
+      }
+
+      const response = await run({
+        request,
+        params: await params,
+        body,
+        supabase,
+        user,
+        requestId,
+        errorResponse,
+      });
+
+      response.headers.set('X-Request-Id', requestId);
+      return response;
+
+    } catch (err) {
+      console.error(`Unexpected error in ${request.method} ${request.nextUrl.pathname} [${requestId}]:`, err);
+
+      return errorResponse(500, {
+        error: 'Internal server error',
+        details: 'An unexpected error occurred',
+        code: ApiErrorCode.INTERNAL_ERROR
+      });
+    }
+  };
+}
+
+// "POST", "GET and PATCH", "GET, PUT and DELETE"
+const describeMethods = (methods: HttpMethod[]) =>
+  methods.length === 1
+    ? `only supports ${methods[0]}`
+    : `supports ${methods.slice(0, -1).join(', ')} and ${methods[methods.length - 1]}`;
+
+/**
+ * Builds a route's exports from its handlers; methods without one answer
+ * 405 with an Allow header
+ */
+export function defineRoute(handlers: Partial<Record<HttpMethod, ApiHandler>>): Record<HttpMethod, ApiHandler> {
+  const allowed = HTTP_METHODS.filter(method => handlers[method]);
+
+  const methodNotAllowed: ApiHandler = async request => {
+    return apiError(getRequestId(request), 405, {
+      error: 'Method not allowed',
+      details: `This endpoint ${describeMethods(allowed)} requests`,
+      code: ApiErrorCode.METHOD_NOT_ALLOWED
+    }, { Allow: allowed.join(', ') });
+  };
+
+  return Object.fromEntries(
+    HTTP_METHODS.map(method => [method, handlers[method] ?? methodNotAllowed])
+  ) as Record<HttpMethod, ApiHandler>;
+}
@@ -0,0 +1,105 @@
+import { s, type JSONSchema } from '@/lib/utils/schema';
+import { ENDPOINTS, type Endpoint } from '@/lib/api/endpoints';
+
+// OpenAPI 3.1 description of the endpoints in ENDPOINTS, served at
+// /api/openapi.json
+
+const errorSchema = s.object({
+  error: s.string().describe('User-facing message'),
+  details: s.string().optional(),
+  code: s.string().optional().describe('Stable code to branch on, e.g. INVALID_PHONE'),
+  fields: s.record(s.string()).optional().describe('Message for each invalid body field'),
+  request_id: s.string().optional().describe('Matches the X-Request-Id header and the server logs'),
+});
+
+const jsonContent = (schema: JSONSchema) => ({ 'application/json': { schema } });
+
+const REQUEST_ID_HEADER = { 'X-Request-Id': { $ref: '#/components/headers/RequestId' } };
+
+// Error statuses every endpoint may answer with, by what it accepts
+function commonErrors(endpoint: Endpoint<unknown, unknown>): Record<number, string> {
+  const errors: Record<number, string> = {};
+
+  if (endpoint.body) {
+    errors[400] = 'Invalid JSON (INVALID_JSON) or body; the code names the first invalid field';
+  }
+  if (endpoint.auth === 'required') {
+    errors[401] = 'Not signed in (NOT_AUTHENTICATED)';
+  }
+  errors[500] = 'Server error (INTERNAL_ERROR, CONFIG_ERROR)';
+
+  return errors;
+}
+
+function operation(operationId: string, endpoint: Endpoint<unknown, unknown>) {
+  const errors = { ...commonErrors(endpoint), ...endpoint.errors };
+
+  return {
+    operationId,
+    tags: [endpoint.tag],
+    summary: endpoint.summary,
+    security: endpoint.auth === 'required' ? [{ session: [] }] : [],
+    ...(endpoint.body && {
+      requestBody: { required: true, content: jsonContent(endpoint.body.toJSONSchema()) },
+    }),
+    responses: {
+      [endpoint.status ?? 200]: {
+        description: 'Success',
+        headers: REQUEST_ID_HEADER,
+        content: jsonContent(endpoint.response.toJSONSchema()),
+      },
+      ...Object.fromEntries(Object.entries(errors).map(([status, description]) => [status, {
+        description,
+        headers: REQUEST_ID_HEADER,
+        content: jsonContent({ $ref: '#/components/schemas/Error' }),
+      }])),
+    },
+  };
+}
+
+/**
+ * Builds the OpenAPI document for the integration endpoints
+ */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, ReturnType<typeof operation>>> = {};
+
+  for (const [operationId, endpoint] of Object.entries(ENDPOINTS) as [string, Endpoint<unknown, unknown>][]) {
+    paths[endpoint.path] = {
+      ...paths[endpoint.path],
+      [endpoint.method.toLowerCase()]: operation(operationId, endpoint),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'WorkoutSync API',
+      version: '1.0.0',
+      description: 'Accounts, sign-in and profiles. Signing in sets the session cookie that authenticated endpoints read.',
+    },
+    tags: [
+      { name: 'Auth', description: 'Accounts, sign-in and passwords' },
+      { name: 'Profile', description: "The signed-in user's profile" },
+    ],
+    paths,
+    components: {
+      schemas: {
+        Error: errorSchema.toJSONSchema(),
+      },
+      headers: {
+        RequestId: {
+          description: 'Request ID, also in error bodies; quote it when reporting a problem',
+          schema: { type: 'string' },
+        },
+      },
+      securitySchemes: {
+        session: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'sb-<project-ref>-auth-token',
+          description: 'Supabase session cookie set by the sign-in endpoints',
+        },
+      },
+    },
+  };
+}
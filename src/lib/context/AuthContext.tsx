@@ -4,18 +4,25 @@ import React, { createContext, useContext, useEffect, useState, ReactNode, useCa
 import { createClient } from '@/lib/supabase/client';
 import { User } from '@/types/database';
 import { createErrorInfo, displayError } from '@/lib/utils/errors';
-import { formatPhoneNumber } from '@/lib/utils/validation';
+import { toE164 } from '@/lib/utils/phone';
+import { api, ApiError } from '@/lib/api/client';
+import { OfflineOutbox } from '@/lib/outbox';
 
 // Auth context type
 interface AuthContextType {
   user: User | null;
   loading: boolean;
   signIn: (phoneNumber: string, password: string) => Promise<void>;
+  requestLoginCode: (phoneNumber: string) => Promise<void>;
+  signInWithCode: (phoneNumber: string, code: string) => Promise<void>;
   signUp: (phoneNumber: string, password: string, name: string, email?: string) => Promise<void>;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
 
+// Error messages from the API (wrong password, code expired) are user-facing
+const serverMessage = (error: unknown) => (error instanceof ApiError ? error.message : undefined);
+
 // Auth context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -83,25 +90,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       setLoading(true);
       
-      const formattedPhone = formatPhoneNumber(phoneNumber);
-      
-      const response = await fetch('/api/auth/login-direct', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          phone_number: formattedPhone,
-          password,
-        }),
+      const data = await api.login({
+        phone_number: toE164(phoneNumber) ?? phoneNumber,
+        password,
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Login failed');
-      }
-
       // Update user state
       setUser(data.user);
       
@@ -111,53 +104,71 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.error('Sign in error:', error);
       
       // Use comprehensive error handling
-      const errorDetails = createErrorInfo(error, 'auth-signin');
+      const errorDetails = createErrorInfo(error, 'auth-signin', serverMessage(error));
       throw new Error(displayError(errorDetails));
     } finally {
       setLoading(false);
     }
   };
 
-  // Sign up function
-  const signUp = async (phoneNumber: string, password: string, name: string, email?: string) => {
+  // Text a one-time login code
+  const requestLoginCode = async (phoneNumber: string) => {
     try {
-      setLoading(true);
-      
-      const formattedPhone = formatPhoneNumber(phoneNumber);
-      
-      console.log('AuthContext: Making registration request to /api/auth/register');
-      console.log('AuthContext: Request data:', { phone_number: formattedPhone, name, email });
-      
-      const response = await fetch('/api/auth/register-direct', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          phone_number: formattedPhone,
-          password,
-          name,
-          email,
-        }),
+      await api.requestLoginCode({
+        phone_number: toE164(phoneNumber) ?? phoneNumber,
       });
+    } catch (error) {
+      console.error('Login code request error:', error);
 
-      const data = await response.json();
-      
-      console.log('Registration response:', { status: response.status, data });
+      const errorDetails = createErrorInfo(error, 'auth-otp-request', serverMessage(error));
+      throw new Error(displayError(errorDetails));
+    }
+  };
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Registration failed');
-      }
+  // Sign in with a one-time login code
+  const signInWithCode = async (phoneNumber: string, code: string) => {
+    try {
+      setLoading(true);
+
+      const data = await api.verifyLoginCode({
+        phone_number: toE164(phoneNumber) ?? phoneNumber,
+        code,
+      });
 
       // Update user state
       setUser(data.user);
+
+      // Pick up the session the server stored in the auth cookies
+      await supabase.auth.refreshSession();
+    } catch (error) {
+      console.error('Code sign in error:', error);
+
+      const errorDetails = createErrorInfo(error, 'auth-otp-verify', serverMessage(error));
+      throw new Error(displayError(errorDetails));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sign up function
+  const signUp = async (phoneNumber: string, password: string, name: string, email?: string) => {
+    try {
+      setLoading(true);
       
-      // Note: We're bypassing Supabase Auth, so no session refresh needed
+      const data = await api.register({
+        phone_number: toE164(phoneNumber) ?? phoneNumber,
+        password,
+        name,
+        email: email || null,
+      });
+
+      // The response only carries the basics; load the full profile
+      await fetchUserProfile(data.user.id);
     } catch (error) {
       console.error('Sign up error:', error);
       
       // Use comprehensive error handling
-      const errorDetails = createErrorInfo(error, 'auth-signup');
+      const errorDetails = createErrorInfo(error, 'auth-signup', serverMessage(error));
       throw new Error(displayError(errorDetails));
     } finally {
       setLoading(false);
@@ -168,15 +179,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const signOut = async () => {
     try {
       setLoading(true);
-      
-      const response = await fetch('/api/auth/logout', {
-        method: 'POST',
-      });
 
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Logout failed');
-      }
+      // Queued changes belong to this user; don't replay them for the next one
+      await OfflineOutbox.getInstance().clear();
+      
+      await api.logout();
 
       // Clear user state
       setUser(null);
@@ -217,6 +224,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
           await fetchUserProfile(session.user.id);
         } else if (event === 'SIGNED_OUT') {
           setUser(null);
+          // Also covers sessions that end without signOut (expired, revoked)
+          await OfflineOutbox.getInstance().clear();
         }
       }
     );
@@ -228,6 +237,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     user,
     loading,
     signIn,
+    requestLoginCode,
+    signInWithCode,
     signUp,
     signOut,
     refreshUser,
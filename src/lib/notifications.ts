@@ -54,9 +54,10 @@ export class PushNotificationManager {
 
     const registration = await navigator.serviceWorker.ready;
     
-    // Check if already subscribed
+    // Check if already subscribed (re-sync with the server in case it was pruned)
     const existingSubscription = await registration.pushManager.getSubscription();
     if (existingSubscription) {
+      await this.saveSubscription(existingSubscription);
       return existingSubscription;
     }
 
@@ -74,6 +75,8 @@ export class PushNotificationManager {
       applicationServerKey: this.urlBase64ToUint8Array(vapidPublicKey) as BufferSource,
     });
 
+    await this.saveSubscription(subscription);
+
     return subscription;
   }
 
@@ -87,12 +90,41 @@ export class PushNotificationManager {
     const subscription = await registration.pushManager.getSubscription();
     
     if (subscription) {
+      // Stop server-side delivery first; the browser unsubscribe happens regardless
+      try {
+        await fetch('/api/push/unsubscribe', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+      } catch (error) {
+        console.error('Failed to remove push subscription from server:', error);
+      }
+
       return await subscription.unsubscribe();
     }
     
     return true;
   }
 
+  // Send a subscription to the server so notifications arrive while the app is closed
+  private async saveSubscription(subscription: PushSubscription): Promise<void> {
+    const response = await fetch('/api/push/subscribe', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(subscription.toJSON()),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to save push subscription');
+    }
+  }
+
   // Show a local notification
   public async showNotification(payload: NotificationPayload): Promise<void> {
     if (this.getPermission() !== 'granted') {
@@ -0,0 +1,349 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+// IndexedDB layout shared with the service worker (worker/index.js) - keep in sync
+export const OUTBOX_DB_NAME = 'workoutsync-outbox';
+export const OUTBOX_STORE = 'requests';
+export const OUTBOX_SYNC_TAG = 'outbox-sync';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_CHANNEL = 'workoutsync-outbox';
+const OUTBOX_LOCK = 'workoutsync-outbox-replay';
+
+export type OutboxMethod = 'PATCH' | 'PUT' | 'POST' | 'DELETE';
+
+export type OutboxEntryStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id?: number; // Auto-incremented key, also the replay order
+  url: string;
+  method: OutboxMethod;
+  body: Record<string, unknown>;
+  status: OutboxEntryStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string; // ISO timestamp string
+}
+
+export interface OutboxState {
+  pending: number;
+  failed: OutboxEntry[];
+  isReplaying: boolean;
+}
+
+export type OutboxSubmitResult =
+  | { queued: false; response: Response }
+  | { queued: true };
+
+type OutboxListener = (state: OutboxState) => void;
+
+// Promisify an IndexedDB request
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class OfflineOutbox {
+  private static instance: OfflineOutbox;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<OutboxListener>();
+  private channel: BroadcastChannel | null = null;
+  private isReplaying = false;
+
+  public static getInstance(): OfflineOutbox {
+    if (!OfflineOutbox.instance) {
+      OfflineOutbox.instance = new OfflineOutbox();
+    }
+    return OfflineOutbox.instance;
+  }
+
+  private constructor() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    // The service worker posts here after a background replay
+    if ('BroadcastChannel' in window) {
+      this.channel = new BroadcastChannel(OUTBOX_CHANNEL);
+      this.channel.onmessage = () => this.notify();
+    }
+
+    // Foreground fallback: replay as soon as the connection returns
+    window.addEventListener('online', () => {
+      this.replay();
+    });
+  }
+
+  // Check if the outbox can be used in this browser
+  public isSupported(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+  }
+
+  /**
+   * Sends a mutation now, or queues it if the device is offline or the
+   * network request fails. Server responses (including errors) are returned
+   * as-is; only requests that never reached the server are queued.
+   */
+  public async submit(url: string, method: OutboxMethod, body: Record<string, unknown>): Promise<OutboxSubmitResult> {
+    if (this.isSupported() && !navigator.onLine) {
+      await this.enqueue(url, method, body);
+      return { queued: true };
+    }
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      return { queued: false, response };
+    } catch (error) {
+      // fetch only rejects on network failure
+      if (!this.isSupported()) {
+        throw error;
+      }
+      await this.enqueue(url, method, body);
+      return { queued: true };
+    }
+  }
+
+  /**
+   * Replays queued requests in order. Stops at the first network failure;
+   * requests the server rejects with a 4xx are marked failed for the user.
+   */
+  public async replay(): Promise<void> {
+    if (!this.isSupported() || this.isReplaying) {
+      return;
+    }
+
+    this.isReplaying = true;
+    this.notify();
+
+    try {
+      // Avoid racing the service worker's background replay
+      if (navigator.locks) {
+        await navigator.locks.request(OUTBOX_LOCK, () => this.replayEntries());
+      } else {
+        await this.replayEntries();
+      }
+    } finally {
+      this.isReplaying = false;
+      await this.notify();
+    }
+  }
+
+  // Retry a failed request
+  public async retry(id: number): Promise<void> {
+    const db = await this.getDB();
+    const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+    const entry = await requestToPromise<OutboxEntry | undefined>(store.get(id));
+
+    if (entry) {
+      await requestToPromise(store.put({ ...entry, status: 'pending', lastError: null }));
+    }
+
+    await this.replay();
+  }
+
+  // Drop a failed request
+  public async discard(id: number): Promise<void> {
+    const db = await this.getDB();
+    await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(id));
+    await this.notify();
+  }
+
+  /**
+   * Drops every queued request. Called on sign-out: replays carry whichever
+   * session is current, so one user's queued changes must never be sent
+   * after another signs in on the same device.
+   */
+  public async clear(): Promise<void> {
+    if (!this.isSupported()) {
+      return;
+    }
+
+    const clearStore = async () => {
+      const db = await this.getDB();
+      await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).clear());
+    };
+
+    // Let a replay already under way finish with the current session
+    if (navigator.locks) {
+      await navigator.locks.request(OUTBOX_LOCK, clearStore);
+    } else {
+      await clearStore();
+    }
+
+    await this.notify();
+  }
+
+  public async getState(): Promise<OutboxState> {
+    if (!this.isSupported()) {
+      return { pending: 0, failed: [], isReplaying: false };
+    }
+
+    const entries = await this.getEntries();
+
+    return {
+      pending: entries.filter(entry => entry.status === 'pending').length,
+      failed: entries.filter(entry => entry.status === 'failed'),
+      isReplaying: this.isReplaying,
+    };
+  }
+
+  public subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.getState().then(listener).catch(() => undefined);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async enqueue(url: string, method: OutboxMethod, body: Record<string, unknown>): Promise<void> {
+    const db = await this.getDB();
+    const store = db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+    const entries = await requestToPromise<OutboxEntry[]>(store.getAll());
+
+    // Partial updates to the same resource collapse into one request
+    const existing = method === 'PATCH'
+      ? entries.find(entry => entry.status === 'pending' && entry.url === url && entry.method === method)
+      : undefined;
+
+    if (existing) {
+      await requestToPromise(store.put({ ...existing, body: { ...existing.body, ...body } }));
+    } else {
+      const entry: OutboxEntry = {
+        url,
+        method,
+        body,
+        status: 'pending',
+        attempts: 0,
+        lastError: null,
+        createdAt: new Date().toISOString(),
+      };
+      await requestToPromise(store.add(entry));
+    }
+
+    await this.notify();
+    await this.registerSync();
+  }
+
+  // Ask the service worker to replay once connectivity returns
+  private async registerSync(): Promise<void> {
+    if (!('serviceWorker' in navigator)) {
+      return;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.ready;
+      const sync = (registration as ServiceWorkerRegistration & {
+        sync?: { register: (tag: string) => Promise<void> };
+      }).sync;
+
+      await sync?.register(OUTBOX_SYNC_TAG);
+    } catch (error) {
+      // Background Sync unavailable - the 'online' listener replays instead
+      console.warn('Background sync registration failed:', error);
+    }
+  }
+
+  private async replayEntries(): Promise<void> {
+    const entries = (await this.getEntries()).filter(entry => entry.status === 'pending');
+
+    for (const entry of entries) {
+      let response: Response;
+
+      try {
+        response = await fetch(entry.url, {
+          method: entry.method,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(entry.body),
+        });
+      } catch {
+        await this.updateEntry({ ...entry, attempts: entry.attempts + 1 });
+        return; // Still offline - keep the rest queued in order
+      }
+
+      if (response.ok) {
+        const db = await this.getDB();
+        await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(entry.id!));
+      } else if (response.status >= 400 && response.status < 500) {
+        const data = await response.json().catch(() => ({}));
+        await this.updateEntry({
+          ...entry,
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          lastError: data.error || `Request failed with status ${response.status}`,
+        });
+      } else {
+        await this.updateEntry({ ...entry, attempts: entry.attempts + 1 });
+        return; // Server trouble - retry later
+      }
+    }
+  }
+
+  private async updateEntry(entry: OutboxEntry): Promise<void> {
+    const db = await this.getDB();
+    await requestToPromise(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).put(entry));
+  }
+
+  private async getEntries(): Promise<OutboxEntry[]> {
+    const db = await this.getDB();
+    return requestToPromise<OutboxEntry[]>(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+  }
+
+  private getDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const state = await this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Hook for observing the outbox in React components
+export function useOutbox() {
+  const [state, setState] = useState<OutboxState>({ pending: 0, failed: [], isReplaying: false });
+
+  useEffect(() => {
+    const outbox = OfflineOutbox.getInstance();
+    const unsubscribe = outbox.subscribe(setState);
+
+    // Flush anything left over from a previous session
+    if (navigator.onLine) {
+      outbox.replay();
+    }
+
+    return unsubscribe;
+  }, []);
+
+  const outbox = OfflineOutbox.getInstance();
+
+  return {
+    ...state,
+    replay: () => outbox.replay(),
+    retry: (id: number) => outbox.retry(id),
+    discard: (id: number) => outbox.discard(id),
+  };
+}
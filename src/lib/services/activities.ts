@@ -0,0 +1,326 @@
+import { LocationService } from '@/lib/services/location';
+import {
+  ActivityType,
+  VALIDATION_LIMITS,
+  type TrackPoint,
+  type TrackSegment,
+} from '@/types/database';
+import { validateActivityType } from '@/lib/utils/validation';
+
+// Unit used for splits and pace
+export type DistanceUnit = 'mi' | 'km';
+
+export const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  mi: 1609.344,
+  km: 1000,
+};
+
+// Columns returned when listing activities (tracks are only sent on request)
+export const ACTIVITY_SUMMARY_SELECT =
+  'id, user_id, workout_id, activity_type, source, started_at, ended_at, distance_meters, moving_seconds, elapsed_seconds, created_at, updated_at';
+
+// Totals derived from a track
+export interface TrackStats {
+  started_at: string;
+  ended_at: string;
+  distance_meters: number;
+  moving_seconds: number;
+  elapsed_seconds: number;
+}
+
+// One mile or kilometer of an activity (the last split may be partial)
+export interface ActivitySplit {
+  index: number; // 1-based
+  distance_meters: number;
+  moving_seconds: number;
+  pace_seconds: number | null; // Seconds per unit
+}
+
+// Fields accepted when saving an activity
+export interface ActivityPayload {
+  workout_id: string | null;
+  activity_type: ActivityType;
+  track: TrackSegment[];
+}
+
+export type ActivityPayloadResult =
+  | { data: ActivityPayload; error?: undefined }
+  | { data?: undefined; error: { error: string; code: string } };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Distance between two track points in meters
+ */
+export function pointDistanceMeters(a: Pick<TrackPoint, 'lat' | 'lng'>, b: Pick<TrackPoint, 'lat' | 'lng'>): number {
+  return LocationService.getDistance(a.lat, a.lng, b.lat, b.lng) * 1000;
+}
+
+/**
+ * Milliseconds between two track points
+ */
+export function pointIntervalMs(a: TrackPoint, b: TrackPoint): number {
+  return new Date(b.time).getTime() - new Date(a.time).getTime();
+}
+
+/**
+ * Computes distance, moving time and elapsed time for a track.
+ * Gaps between segments count towards elapsed time only.
+ */
+export function summarizeTrack(track: TrackSegment[]): TrackStats {
+  const points = track.flat();
+  let distance = 0;
+  let movingMs = 0;
+
+  for (const segment of track) {
+    for (let i = 1; i < segment.length; i++) {
+      distance += pointDistanceMeters(segment[i - 1], segment[i]);
+    }
+    if (segment.length > 1) {
+      movingMs += pointIntervalMs(segment[0], segment[segment.length - 1]);
+    }
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const elapsedMs = first && last ? pointIntervalMs(first, last) : 0;
+
+  return {
+    started_at: first ? new Date(first.time).toISOString() : new Date(0).toISOString(),
+    ended_at: last ? new Date(last.time).toISOString() : new Date(0).toISOString(),
+    distance_meters: Math.round(distance * 10) / 10,
+    moving_seconds: Math.round(movingMs / 1000),
+    elapsed_seconds: Math.round(elapsedMs / 1000),
+  };
+}
+
+/**
+ * Pace in seconds per unit, or null when there is too little movement
+ */
+export function paceSecondsPerUnit(distanceMeters: number, seconds: number, unit: DistanceUnit): number | null {
+  if (distanceMeters < 1 || seconds <= 0) {
+    return null;
+  }
+
+  return seconds / (distanceMeters / METERS_PER_UNIT[unit]);
+}
+
+/**
+ * Splits a track into whole miles or kilometers, interpolating the moment
+ * each boundary was crossed. The final split holds any remaining distance.
+ */
+export function computeSplits(track: TrackSegment[], unit: DistanceUnit): ActivitySplit[] {
+  const splitLength = METERS_PER_UNIT[unit];
+  const splits: ActivitySplit[] = [];
+  let splitDistance = 0;
+  let splitMs = 0;
+
+  const closeSplit = (distance: number, ms: number) => {
+    const seconds = ms / 1000;
+    splits.push({
+      index: splits.length + 1,
+      distance_meters: Math.round(distance * 10) / 10,
+      moving_seconds: Math.round(seconds),
+      pace_seconds: paceSecondsPerUnit(distance, seconds, unit),
+    });
+  };
+
+  for (const segment of track) {
+    for (let i = 1; i < segment.length; i++) {
+      let stepDistance = pointDistanceMeters(segment[i - 1], segment[i]);
+      let stepMs = pointIntervalMs(segment[i - 1], segment[i]);
+
+      while (splitDistance + stepDistance >= splitLength && stepDistance > 0) {
+        const needed = splitLength - splitDistance;
+        const neededMs = stepMs * (needed / stepDistance);
+        closeSplit(splitLength, splitMs + neededMs);
+        stepDistance -= needed;
+        stepMs -= neededMs;
+        splitDistance = 0;
+        splitMs = 0;
+      }
+
+      splitDistance += stepDistance;
+      splitMs += stepMs;
+    }
+  }
+
+  if (splitDistance >= 1) {
+    closeSplit(splitDistance, splitMs);
+  }
+
+  return splits;
+}
+
+/**
+ * Formats a distance in the given unit, e.g. "3.12 mi"
+ */
+export function formatDistance(meters: number, unit: DistanceUnit): string {
+  return `${(meters / METERS_PER_UNIT[unit]).toFixed(2)} ${unit}`;
+}
+
+/**
+ * Formats seconds as h:mm:ss (or m:ss under an hour)
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * Formats a pace in seconds per unit, e.g. "8:05 /mi"
+ */
+export function formatPace(paceSeconds: number | null, unit: DistanceUnit): string {
+  if (paceSeconds === null || !Number.isFinite(paceSeconds)) {
+    return `--:-- /${unit}`;
+  }
+
+  return `${formatDuration(paceSeconds)} /${unit}`;
+}
+
+/**
+ * Maps a free-text sport label ("Running", "cycling", "Ride") to an activity type
+ */
+export function activityTypeFromLabel(label: string | null | undefined): ActivityType | null {
+  const value = label?.trim().toLowerCase();
+  if (!value) return null;
+
+  if (value.includes('run')) return ActivityType.RUN;
+  if (value.includes('bik') || value.includes('cycl') || value.includes('ride')) return ActivityType.BIKE;
+  if (value.includes('walk')) return ActivityType.WALK;
+  if (value.includes('hik')) return ActivityType.HIKE;
+  if (value.includes('swim')) return ActivityType.SWIM;
+  return null;
+}
+
+/**
+ * Drops impossible heart rate readings (sensor dropouts read as 0 or 255)
+ */
+export function sanitizeHeartRate(value: number | null): number | null {
+  return value !== null && value > 0 && value < 255 ? Math.round(value) : null;
+}
+
+/**
+ * Checks a single track point; returns a message when it is invalid
+ */
+function checkTrackPoint(value: unknown): string | null {
+  if (!value || typeof value !== 'object') {
+    return 'Track points must be objects';
+  }
+
+  const point = value as Record<string, unknown>;
+
+  if (
+    typeof point.lat !== 'number' || typeof point.lng !== 'number' ||
+    point.lat < -90 || point.lat > 90 || point.lng < -180 || point.lng > 180
+  ) {
+    return 'Track points need valid lat and lng';
+  }
+
+  if (typeof point.time !== 'string' || Number.isNaN(new Date(point.time).getTime())) {
+    return 'Track points need a valid time';
+  }
+
+  if (point.elevation != null && (typeof point.elevation !== 'number' || !Number.isFinite(point.elevation))) {
+    return 'Track point elevation must be a number';
+  }
+
+  if (point.heart_rate != null && (typeof point.heart_rate !== 'number' || point.heart_rate <= 0 || point.heart_rate > 300)) {
+    return 'Track point heart rate must be between 1 and 300';
+  }
+
+  return null;
+}
+
+/**
+ * Validates a track (an array of segments of points in time order) and
+ * returns it normalized to the TrackPoint shape
+ */
+export function parseTrack(value: unknown): { track: TrackSegment[]; error?: undefined } | { track?: undefined; error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'Track must be a non-empty array of segments' };
+  }
+
+  const track: TrackSegment[] = [];
+  let pointCount = 0;
+  let previousTime = -Infinity;
+
+  for (const segment of value) {
+    if (!Array.isArray(segment)) {
+      return { error: 'Each track segment must be an array of points' };
+    }
+
+    pointCount += segment.length;
+    if (pointCount > VALIDATION_LIMITS.ACTIVITY_MAX_TRACK_POINTS) {
+      return { error: `Tracks are limited to ${VALIDATION_LIMITS.ACTIVITY_MAX_TRACK_POINTS} points` };
+    }
+
+    const points: TrackPoint[] = [];
+    for (const raw of segment) {
+      const message = checkTrackPoint(raw);
+      if (message) {
+        return { error: message };
+      }
+
+      const point = raw as TrackPoint;
+      const time = new Date(point.time).getTime();
+      if (time < previousTime) {
+        return { error: 'Track points must be in time order' };
+      }
+      previousTime = time;
+
+      points.push({
+        lat: point.lat,
+        lng: point.lng,
+        time: new Date(time).toISOString(),
+        elevation: point.elevation ?? null,
+        heart_rate: point.heart_rate ?? null,
+      });
+    }
+
+    if (points.length > 0) {
+      track.push(points);
+    }
+  }
+
+  if (pointCount < 2) {
+    return { error: 'Track must contain at least two points' };
+  }
+
+  return { track };
+}
+
+/**
+ * Validates the body of a request to save an activity
+ */
+export function parseActivityPayload(body: Record<string, unknown>): ActivityPayloadResult {
+  const fail = (error: string, code: string): ActivityPayloadResult => ({ error: { error, code } });
+
+  const activityResult = validateActivityType(body.activity_type as string);
+  if (!activityResult.valid) {
+    return fail(activityResult.message!, 'INVALID_ACTIVITY');
+  }
+
+  if (body.workout_id != null && (typeof body.workout_id !== 'string' || !UUID_PATTERN.test(body.workout_id))) {
+    return fail('Workout ID must be a valid UUID', 'INVALID_WORKOUT_ID');
+  }
+
+  const parsed = parseTrack(body.track);
+  if (parsed.error !== undefined) {
+    return fail(parsed.error, 'INVALID_TRACK');
+  }
+
+  return {
+    data: {
+      workout_id: (body.workout_id as string | null | undefined) ?? null,
+      activity_type: body.activity_type as ActivityType,
+      track: parsed.track,
+    },
+  };
+}
@@ -0,0 +1,279 @@
+import {
+  VALIDATION_LIMITS,
+  type AvailabilityWindow,
+  type TimeSuggestion,
+  type User,
+} from '@/types/database';
+import {
+  dayNumberWeekday,
+  fromDayNumber,
+  fromZonedDateTime,
+  isValidTimeZone,
+  toDayNumber,
+  toZonedDateTime,
+} from '@/lib/utils/timezone';
+
+// Candidate start times are this far apart
+export const SUGGESTION_STEP_MINUTES = 30;
+
+// Suggestions returned by default
+export const SUGGESTION_LIMIT = 10;
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// A person whose availability is being intersected
+export type AvailabilityProfile = Pick<User, 'id' | 'name' | 'availability' | 'availability_timezone'>;
+
+export interface AvailabilityPayloadError {
+  error: string;
+  code: string;
+}
+
+export type AvailabilityPayloadResult =
+  | { data: Pick<User, 'availability' | 'availability_timezone'>; error?: undefined }
+  | { data?: undefined; error: AvailabilityPayloadError };
+
+interface SuggestTimesOptions {
+  host: AvailabilityProfile; // Suggestions must fit the host's windows, when they have any
+  friends: AvailabilityProfile[]; // Friends with availability to rank slots by
+  durationMinutes: number;
+  from: Date;
+  to: Date;
+  limit?: number;
+}
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Sorts windows and merges the ones that overlap or touch on the same day
+ */
+export function normalizeAvailability(windows: AvailabilityWindow[]): AvailabilityWindow[] {
+  const sorted = [...windows].sort((a, b) => a.day - b.day || a.start_minute - b.start_minute);
+  const merged: AvailabilityWindow[] = [];
+
+  for (const window of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.day === window.day && window.start_minute <= last.end_minute) {
+      last.end_minute = Math.max(last.end_minute, window.end_minute);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Validates the availability fields of a profile update. Windows need a
+ * time zone; clearing the windows also clears it.
+ */
+export function parseAvailabilityPayload(body: Record<string, unknown>): AvailabilityPayloadResult {
+  const { availability, availability_timezone: timeZone } = body;
+
+  if (!Array.isArray(availability) || availability.length > VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX) {
+    return {
+      error: {
+        error: `Availability must be a list of at most ${VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX} weekly windows`,
+        code: 'INVALID_AVAILABILITY',
+      },
+    };
+  }
+
+  const windows: AvailabilityWindow[] = [];
+  for (const item of availability) {
+    const window = item as Partial<AvailabilityWindow> | null;
+    if (
+      !window ||
+      !isWholeNumber(window.day, 0, 6) ||
+      !isWholeNumber(window.start_minute, 0, MINUTES_PER_DAY - 1) ||
+      !isWholeNumber(window.end_minute, 1, MINUTES_PER_DAY) ||
+      window.end_minute <= window.start_minute
+    ) {
+      return {
+        error: {
+          error: 'Each availability window needs a day (0-6) and a start before its end (minutes after midnight)',
+          code: 'INVALID_AVAILABILITY',
+        },
+      };
+    }
+    windows.push({ day: window.day, start_minute: window.start_minute, end_minute: window.end_minute });
+  }
+
+  if (windows.length === 0) {
+    return { data: { availability: [], availability_timezone: null } };
+  }
+
+  if (!isValidTimeZone(timeZone)) {
+    return {
+      error: {
+        error: 'availability_timezone must be an IANA time zone such as America/New_York',
+        code: 'INVALID_TIMEZONE',
+      },
+    };
+  }
+
+  return { data: { availability: normalizeAvailability(windows), availability_timezone: timeZone } };
+}
+
+/**
+ * Formats minutes after midnight as a time of day, e.g. 390 -> "6:30 AM"
+ */
+export function formatMinuteOfDay(minute: number): string {
+  const hours = Math.floor(minute / 60) % 24;
+  const minutes = minute % 60;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
+
+function describeDays(days: number[]): string {
+  const key = [...days].sort().join('');
+  if (key === '0123456') return 'Every day';
+  if (key === '12345') return 'Weekdays';
+  if (key === '06') return 'Weekends';
+  // List Monday first, as on the profile editor
+  return [...days]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map(day => DAY_NAMES[day].slice(0, 3))
+    .join(', ');
+}
+
+/**
+ * Describes windows for display, grouping days with the same hours:
+ * ["Weekdays 6:00 AM - 8:00 AM", "Sat 9:00 AM - 11:00 AM"]
+ */
+export function describeAvailability(windows: AvailabilityWindow[]): string[] {
+  const groups = new Map<string, { start: number; end: number; days: number[] }>();
+
+  for (const window of windows) {
+    const key = `${window.start_minute}-${window.end_minute}`;
+    const group = groups.get(key) ?? { start: window.start_minute, end: window.end_minute, days: [] };
+    group.days.push(window.day);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => a.start - b.start)
+    .map(group => `${describeDays(group.days)} ${formatMinuteOfDay(group.start)} - ${formatMinuteOfDay(group.end)}`);
+}
+
+/**
+ * Expands weekly windows into UTC intervals ([start, end) in milliseconds)
+ * overlapping [from, to), merged and in order
+ */
+export function availabilityIntervals(
+  windows: AvailabilityWindow[],
+  timeZone: string,
+  from: Date,
+  to: Date
+): [number, number][] {
+  const intervals: [number, number][] = [];
+
+  // Local days that can overlap the range, with a day of margin for the offset
+  const first = toZonedDateTime(from.getTime(), timeZone);
+  const last = toZonedDateTime(to.getTime(), timeZone);
+  const firstDay = toDayNumber(first.year, first.month, first.day) - 1;
+  const lastDay = toDayNumber(last.year, last.month, last.day) + 1;
+
+  for (let dayNumber = firstDay; dayNumber <= lastDay; dayNumber++) {
+    const weekday = dayNumberWeekday(dayNumber);
+    const date = fromDayNumber(dayNumber);
+
+    for (const window of windows) {
+      if (window.day !== weekday) continue;
+
+      const at = (minute: number) => fromZonedDateTime(
+        { ...date, hour: Math.floor(minute / 60), minute: minute % 60, second: 0 },
+        timeZone
+      );
+      const start = Math.max(at(window.start_minute), from.getTime());
+      const end = Math.min(at(window.end_minute), to.getTime());
+
+      if (start < end) {
+        intervals.push([start, end]);
+      }
+    }
+  }
+
+  intervals.sort((a, b) => a[0] - b[0]);
+
+  // A window ending at midnight runs into one starting at midnight the next day
+  const merged: [number, number][] = [];
+  for (const interval of intervals) {
+    const previous = merged[merged.length - 1];
+    if (previous && interval[0] <= previous[1]) {
+      previous[1] = Math.max(previous[1], interval[1]);
+    } else {
+      merged.push([...interval]);
+    }
+  }
+
+  return merged;
+}
+
+const coversSlot = (intervals: [number, number][], start: number, end: number) =>
+  intervals.some(([from, to]) => from <= start && to >= end);
+
+/**
+ * Ranks start times in [from, to) by how many friends are free for the
+ * whole workout. Times outside the host's availability (when set) and times
+ * no friend can make are skipped; of consecutive times with the same friends
+ * free, only the earliest is suggested.
+ */
+export function suggestTimes({
+  host,
+  friends,
+  durationMinutes,
+  from,
+  to,
+  limit = SUGGESTION_LIMIT,
+}: SuggestTimesOptions): TimeSuggestion[] {
+  const stepMs = SUGGESTION_STEP_MINUTES * MS_PER_MINUTE;
+  const durationMs = durationMinutes * MS_PER_MINUTE;
+
+  const intervalsOf = (profile: AvailabilityProfile) =>
+    profile.availability.length > 0 && profile.availability_timezone
+      ? availabilityIntervals(profile.availability, profile.availability_timezone, from, to)
+      : null;
+
+  const hostIntervals = intervalsOf(host);
+  const friendIntervals = friends.map(friend => ({ friend, intervals: intervalsOf(friend) ?? [] }));
+
+  const candidates: { start: number; available: AvailabilityProfile[] }[] = [];
+  let previousKey: string | null = null;
+
+  for (let start = Math.ceil(from.getTime() / stepMs) * stepMs; start + durationMs <= to.getTime(); start += stepMs) {
+    const end = start + durationMs;
+
+    if (hostIntervals && !coversSlot(hostIntervals, start, end)) {
+      previousKey = null;
+      continue;
+    }
+
+    const available = friendIntervals
+      .filter(({ intervals }) => coversSlot(intervals, start, end))
+      .map(({ friend }) => friend);
+    const key = available.map(friend => friend.id).join(',');
+
+    if (available.length > 0 && key !== previousKey) {
+      candidates.push({ start, available });
+    }
+    previousKey = available.length > 0 ? key : null;
+  }
+
+  const toUser = ({ id, name }: AvailabilityProfile) => ({ id, name });
+
+  return candidates
+    .sort((a, b) => b.available.length - a.available.length || a.start - b.start)
+    .slice(0, limit)
+    .map(({ start, available }) => ({
+      start_time: new Date(start).toISOString(),
+      end_time: new Date(start + durationMs).toISOString(),
+      available: available.map(toUser),
+      unavailable: friends.filter(friend => !available.includes(friend)).map(toUser),
+    }));
+}
@@ -0,0 +1,447 @@
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ParticipantStatus,
+  WorkoutStatus,
+  getLatLngFromGeoPoint,
+  type User,
+  type Workout,
+  type WorkoutOccurrenceException,
+} from '@/types/database';
+import { isWorkoutOccurrence, toWorkoutOccurrence } from '@/lib/services/recurrence';
+import { workoutsStartingSinceFilter } from '@/lib/services/workouts';
+import {
+  buildVTimeZone,
+  escapeIcsText,
+  formatIcsDateTime,
+  formatIcsUtcDateTime,
+  serializeIcs,
+  type IcsComponent,
+  type IcsProperty,
+} from '@/lib/utils/icalendar';
+
+// iCalendar export of workouts: single-workout downloads and the private
+// per-user feed that calendar apps subscribe to. Feed tokens are server
+// only - pass a service-role client, since calendar_feed_tokens has no RLS
+// policies and calendar apps fetch the feed without a session.
+
+export const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+export const CALENDAR_FEED_PATH = '/api/calendar';
+
+// One-off workouts further in the past than this are left out of the feed
+export const CALENDAR_FEED_LOOKBACK_DAYS = 90;
+
+// How often calendar apps should refresh the feed
+const CALENDAR_REFRESH_INTERVAL = 'PT1H';
+
+const CALENDAR_PRODID = '-//WorkoutSync//Workouts//EN';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+export const CALENDAR_WORKOUT_SELECT =
+  'id, title, activity_type, status, start_time, duration_minutes, meeting_point_coords, meeting_point_name, ' +
+  'notes, recurrence_rule, timezone, sequence, created_at, updated_at, host:users!workouts_host_id_fkey(id, name)';
+
+// Workout fields that make up its calendar events
+export type CalendarWorkout = Pick<
+  Workout,
+  | 'id'
+  | 'title'
+  | 'activity_type'
+  | 'status'
+  | 'start_time'
+  | 'duration_minutes'
+  | 'meeting_point_coords'
+  | 'meeting_point_name'
+  | 'notes'
+  | 'recurrence_rule'
+  | 'timezone'
+  | 'sequence'
+  | 'created_at'
+  | 'updated_at'
+> & {
+  host: Pick<User, 'id' | 'name'> | null;
+};
+
+// A workout to put in a calendar, with how the calendar's owner takes part
+export interface CalendarEntry {
+  workout: CalendarWorkout;
+  exceptions: WorkoutOccurrenceException[];
+  attendance?: 'host' | ParticipantStatus;
+}
+
+// Private feed details shown to its owner (the token itself is never stored)
+export interface CalendarFeedInfo {
+  created_at: string;
+  last_used_at: string | null;
+}
+
+interface BuildCalendarOptions {
+  siteUrl: string; // Base URL for links back to the app
+  name?: string; // Calendar name shown by subscribing apps
+  now?: Date;
+}
+
+/**
+ * Base URL for links in calendars. NEXT_PUBLIC_SITE_URL takes precedence
+ * over the request origin, as for password reset links.
+ */
+export function getCalendarSiteUrl(requestOrigin: string): string {
+  return process.env.NEXT_PUBLIC_SITE_URL || requestOrigin;
+}
+
+/**
+ * File name for a workout's .ics download
+ */
+export function calendarFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `${slug || 'workout'}.ics`;
+}
+
+function addMinutes(startMs: number, minutes: number): number {
+  return startMs + minutes * 60 * 1000;
+}
+
+function dateTimeProperty(name: string, utcMs: number, timeZone: string | null): IcsProperty {
+  const { params, value } = formatIcsDateTime(utcMs, timeZone);
+  return { name, params, value };
+}
+
+function textProperty(name: string, value: string): IcsProperty {
+  return { name, value: escapeIcsText(value) };
+}
+
+function describeEvent(workout: CalendarWorkout, notes: string | null, url: string): string {
+  const lines: string[] = [];
+  if (notes) lines.push(notes, '');
+  if (workout.host?.name) lines.push(`Hosted by ${workout.host.name}`);
+  lines.push(url);
+  return lines.join('\n');
+}
+
+function eventStatus(workout: CalendarWorkout, cancelled: boolean, attendance?: CalendarEntry['attendance']): string {
+  if (cancelled || workout.status === WorkoutStatus.CANCELLED) {
+    return 'CANCELLED';
+  }
+  if (attendance === ParticipantStatus.MAYBE || attendance === ParticipantStatus.WAITLISTED) {
+    return 'TENTATIVE';
+  }
+  return 'CONFIRMED';
+}
+
+// Properties shared by a workout's event and the overrides of its occurrences
+function eventProperties(
+  workout: CalendarWorkout,
+  occurrence: { startMs: number; duration_minutes: number; meeting_point_name: string | null; notes: string | null },
+  status: string,
+  siteUrl: string,
+  now: Date
+): IcsProperty[] {
+  const url = new URL(`/workout/${workout.id}`, siteUrl).toString();
+  const properties: IcsProperty[] = [
+    { name: 'UID', value: `${workout.id}@workoutsync` },
+    { name: 'DTSTAMP', value: formatIcsUtcDateTime(now.getTime()) },
+    { name: 'CREATED', value: formatIcsUtcDateTime(Date.parse(workout.created_at)) },
+    { name: 'LAST-MODIFIED', value: formatIcsUtcDateTime(Date.parse(workout.updated_at)) },
+    { name: 'SEQUENCE', value: String(workout.sequence) },
+    dateTimeProperty('DTSTART', occurrence.startMs, workout.timezone),
+    dateTimeProperty('DTEND', addMinutes(occurrence.startMs, occurrence.duration_minutes), workout.timezone),
+    textProperty('SUMMARY', workout.title),
+    textProperty('DESCRIPTION', describeEvent(workout, occurrence.notes, url)),
+    { name: 'URL', params: { VALUE: 'URI' }, value: url },
+    { name: 'STATUS', value: status },
+    textProperty('CATEGORIES', workout.activity_type.charAt(0).toUpperCase() + workout.activity_type.slice(1)),
+  ];
+
+  // The pin belongs to the series' meeting point; a renamed occurrence may have moved
+  const coords = workout.meeting_point_coords && occurrence.meeting_point_name === workout.meeting_point_name
+    ? getLatLngFromGeoPoint(workout.meeting_point_coords)
+    : null;
+
+  if (occurrence.meeting_point_name) {
+    properties.push(textProperty('LOCATION', occurrence.meeting_point_name));
+  } else if (coords) {
+    properties.push(textProperty('LOCATION', `${coords.lat.toFixed(6)}, ${coords.lng.toFixed(6)}`));
+  }
+
+  if (coords) {
+    properties.push({ name: 'GEO', value: `${coords.lat.toFixed(6)};${coords.lng.toFixed(6)}` });
+  }
+
+  return properties;
+}
+
+/**
+ * Builds the events of a workout: one event (with an RRULE for recurring
+ * workouts) plus an override per cancelled or changed occurrence
+ */
+export function buildWorkoutEvents(entry: CalendarEntry, siteUrl: string, now: Date = new Date()): IcsComponent[] {
+  const { workout, exceptions, attendance } = entry;
+
+  const main: IcsComponent = {
+    name: 'VEVENT',
+    properties: eventProperties(
+      workout,
+      { ...workout, startMs: Date.parse(workout.start_time) },
+      eventStatus(workout, false, attendance),
+      siteUrl,
+      now
+    ),
+  };
+
+  if (!workout.recurrence_rule) {
+    return [main];
+  }
+
+  main.properties.push({ name: 'RRULE', value: workout.recurrence_rule });
+
+  const overrides = exceptions
+    .filter(exception => isWorkoutOccurrence(workout, exception.occurrence_start))
+    .map(exception => {
+      const occurrenceStartMs = Date.parse(exception.occurrence_start);
+      const occurrence = toWorkoutOccurrence(workout, occurrenceStartMs, exception);
+
+      return {
+        name: 'VEVENT',
+        properties: [
+          ...eventProperties(
+            workout,
+            { ...occurrence, startMs: Date.parse(occurrence.start_time) },
+            eventStatus(workout, occurrence.cancelled, attendance),
+            siteUrl,
+            now
+          ),
+          dateTimeProperty('RECURRENCE-ID', occurrenceStartMs, workout.timezone),
+        ],
+      };
+    });
+
+  return [main, ...overrides];
+}
+
+/**
+ * Builds a VCALENDAR of workouts, with a VTIMEZONE for every zone used.
+ * Zones are described from the earliest workout until the end of next year
+ * (or the last one-off workout, if later).
+ */
+export function buildWorkoutCalendar(entries: CalendarEntry[], options: BuildCalendarOptions): string {
+  const now = options.now ?? new Date();
+  const events = entries.flatMap(entry => buildWorkoutEvents(entry, options.siteUrl, now));
+
+  const zoneRanges = new Map<string, { fromMs: number; toMs: number }>();
+  for (const { workout, exceptions } of entries) {
+    if (!workout.timezone) continue;
+
+    const starts = [workout.start_time, ...exceptions.map(exception => exception.start_time ?? exception.occurrence_start)]
+      .map(start => Date.parse(start));
+    const range = zoneRanges.get(workout.timezone) ?? { fromMs: Infinity, toMs: -Infinity };
+    zoneRanges.set(workout.timezone, {
+      fromMs: Math.min(range.fromMs, ...starts),
+      toMs: Math.max(range.toMs, ...starts),
+    });
+  }
+
+  const timeZones = [...zoneRanges].map(([timeZone, range]) => {
+    const fromYear = new Date(range.fromMs - MS_PER_DAY).getUTCFullYear();
+    const toYear = Math.max(new Date(range.toMs + MS_PER_DAY).getUTCFullYear(), now.getUTCFullYear() + 1);
+    return buildVTimeZone(timeZone, Date.UTC(fromYear, 0, 1), Date.UTC(toYear + 1, 0, 1));
+  });
+
+  const properties: IcsProperty[] = [
+    { name: 'VERSION', value: '2.0' },
+    { name: 'PRODID', value: CALENDAR_PRODID },
+    { name: 'CALSCALE', value: 'GREGORIAN' },
+    { name: 'METHOD', value: 'PUBLISH' },
+  ];
+
+  if (options.name) {
+    properties.push(
+      textProperty('NAME', options.name),
+      textProperty('X-WR-CALNAME', options.name),
+      { name: 'REFRESH-INTERVAL', params: { VALUE: 'DURATION' }, value: CALENDAR_REFRESH_INTERVAL },
+      { name: 'X-PUBLISHED-TTL', value: CALENDAR_REFRESH_INTERVAL }
+    );
+  }
+
+  return serializeIcs({ name: 'VCALENDAR', properties, components: [...timeZones, ...events] });
+}
+
+/**
+ * Hashes a feed token for storage and lookup
+ */
+export function hashCalendarFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Checks the shape of a feed token before looking it up
+ */
+export function isCalendarFeedToken(value: string): boolean {
+  return FEED_TOKEN_PATTERN.test(value);
+}
+
+/**
+ * Builds the URL calendar apps subscribe to
+ */
+export function buildCalendarFeedUrl(requestOrigin: string, token: string): string {
+  return new URL(`${CALENDAR_FEED_PATH}/${token}.ics`, getCalendarSiteUrl(requestOrigin)).toString();
+}
+
+/**
+ * Returns a user's feed details, or null when they have no feed
+ */
+export async function getCalendarFeed(supabase: SupabaseClient, userId: string): Promise<CalendarFeedInfo | null> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('created_at, last_used_at')
+    .eq('user_id', userId)
+    .maybeSingle<CalendarFeedInfo>();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Creates a new feed token for a user; any earlier feed URL stops working
+ */
+export async function issueCalendarFeedToken(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ token: string; feed: CalendarFeedInfo }> {
+  const token = randomBytes(32).toString('base64url');
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .upsert(
+      {
+        user_id: userId,
+        token_hash: hashCalendarFeedToken(token),
+        last_used_at: null,
+        created_at: now.toISOString(),
+      },
+      { onConflict: 'user_id' }
+    )
+    .select('created_at, last_used_at')
+    .single<CalendarFeedInfo>();
+
+  if (error) {
+    throw error;
+  }
+
+  return { token, feed: data };
+}
+
+/**
+ * Turns off a user's feed. Returns false when there was none.
+ */
+export async function revokeCalendarFeedToken(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Finds the user a feed token belongs to (null when unknown) and records
+ * the fetch
+ */
+export async function redeemCalendarFeedToken(
+  supabase: SupabaseClient,
+  token: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_used_at: now.toISOString() })
+    .eq('token_hash', hashCalendarFeedToken(token))
+    .select('user_id')
+    .maybeSingle<{ user_id: string }>();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.user_id ?? null;
+}
+
+/**
+ * Loads everything in a user's feed: workouts they host or have RSVP'd
+ * to (not declined), with the exceptions of recurring ones. Workouts and
+ * series that ended more than CALENDAR_FEED_LOOKBACK_DAYS ago are left out.
+ */
+export async function loadCalendarFeedEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<CalendarEntry[]> {
+  const since = new Date(now.getTime() - CALENDAR_FEED_LOOKBACK_DAYS * MS_PER_DAY);
+  const scheduleFilter = workoutsStartingSinceFilter(since);
+
+  const [hostedResult, rsvpResult] = await Promise.all([
+    supabase
+      .from('workouts')
+      .select(CALENDAR_WORKOUT_SELECT)
+      .eq('host_id', userId)
+      .or(scheduleFilter),
+    supabase
+      .from('workout_participants')
+      .select(`status, workout:workouts!inner(${CALENDAR_WORKOUT_SELECT})`)
+      .eq('user_id', userId)
+      .neq('status', ParticipantStatus.DECLINED)
+      .or(scheduleFilter, { referencedTable: 'workouts' }),
+  ]);
+
+  if (hostedResult.error) {
+    throw hostedResult.error;
+  }
+  if (rsvpResult.error) {
+    throw rsvpResult.error;
+  }
+
+  const entries = new Map<string, CalendarEntry>();
+  for (const workout of (hostedResult.data ?? []) as unknown as CalendarWorkout[]) {
+    entries.set(workout.id, { workout, exceptions: [], attendance: 'host' });
+  }
+  for (const row of (rsvpResult.data ?? []) as unknown as { status: ParticipantStatus; workout: CalendarWorkout }[]) {
+    if (!entries.has(row.workout.id)) {
+      entries.set(row.workout.id, { workout: row.workout, exceptions: [], attendance: row.status });
+    }
+  }
+
+  const recurringIds = [...entries.values()]
+    .filter(entry => entry.workout.recurrence_rule)
+    .map(entry => entry.workout.id);
+
+  if (recurringIds.length > 0) {
+    const { data: exceptions, error: exceptionsError } = await supabase
+      .from('workout_occurrence_exceptions')
+      .select('*')
+      .in('workout_id', recurringIds);
+
+    if (exceptionsError) {
+      throw exceptionsError;
+    }
+
+    for (const exception of (exceptions ?? []) as WorkoutOccurrenceException[]) {
+      entries.get(exception.workout_id)?.exceptions.push(exception);
+    }
+  }
+
+  return [...entries.values()].sort((a, b) => Date.parse(a.workout.start_time) - Date.parse(b.workout.start_time));
+}
@@ -0,0 +1,32 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Daily cleanup job: deletes rows that stopped mattering once they expired.
+// The cleanup functions are only available to the service role. Server only.
+
+// Rows deleted by one run of the cleanup job
+export interface CleanupSummary {
+  password_reset_tokens: number; // Reset links that expired over a day ago
+  rate_limits: number; // Attempts and lockout streaks over a day old
+}
+
+/**
+ * Deletes expired password reset tokens and stale rate limit rows
+ */
+export async function runCleanup(supabase: SupabaseClient): Promise<CleanupSummary> {
+  const [resetTokens, rateLimits] = await Promise.all([
+    supabase.rpc('delete_expired_password_reset_tokens'),
+    supabase.rpc('delete_expired_rate_limits'),
+  ]);
+
+  if (resetTokens.error) {
+    throw resetTokens.error;
+  }
+  if (rateLimits.error) {
+    throw rateLimits.error;
+  }
+
+  return {
+    password_reset_tokens: (resetTokens.data as number | null) ?? 0,
+    rate_limits: (rateLimits.data as number | null) ?? 0,
+  };
+}
@@ -0,0 +1,254 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  VALIDATION_LIMITS,
+  type Reaction,
+  type ReactionSummary,
+  type WorkoutCommentThread,
+  type WorkoutCommentWithUser,
+} from '@/types/database';
+
+// Emoji users can react with, in display order (keep in sync with the
+// reactions_emoji_valid constraint)
+export const REACTION_EMOJIS = ['👍', '🔥', '💪', '🎉', '❤️', '😂'] as const;
+
+// Columns returned for comments (author joined for display)
+export const COMMENT_SELECT = '*, user:users!workout_comments_user_id_fkey(id, name)';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Error produced while parsing a comment or reaction payload
+export interface CommentPayloadError {
+  error: string;
+  code: string;
+}
+
+export interface CommentPayload {
+  body: string;
+  parent_id: string | null;
+}
+
+export type CommentPayloadResult =
+  | { data: CommentPayload; error?: undefined }
+  | { data?: undefined; error: CommentPayloadError };
+
+export interface ReactionPayload {
+  emoji: string;
+  comment_id: string | null; // Only for workout reactions
+}
+
+export type ReactionPayloadResult =
+  | { data: ReactionPayload; error?: undefined }
+  | { data?: undefined; error: CommentPayloadError };
+
+// A workout's comments plus the reactions on the workout itself
+export interface WorkoutDiscussion {
+  comments: WorkoutCommentThread[];
+  reactions: ReactionSummary[];
+}
+
+// What a reaction is attached to
+export type ReactionTarget =
+  | { workout_id: string; comment_id: string | null }
+  | { activity_id: string };
+
+export const isReactionEmoji = (value: unknown): value is string => {
+  return typeof value === 'string' && (REACTION_EMOJIS as readonly string[]).includes(value);
+};
+
+/**
+ * Validates a new comment and returns the trimmed body and parent
+ */
+export function parseCommentPayload(body: Record<string, unknown>): CommentPayloadResult {
+  const text = typeof body.body === 'string' ? body.body.trim() : '';
+
+  if (!text) {
+    return { error: { error: 'Comment cannot be empty', code: 'INVALID_COMMENT' } };
+  }
+
+  if (text.length > VALIDATION_LIMITS.COMMENT_MAX_LENGTH) {
+    return {
+      error: {
+        error: `Comments must be ${VALIDATION_LIMITS.COMMENT_MAX_LENGTH} characters or less`,
+        code: 'INVALID_COMMENT'
+      }
+    };
+  }
+
+  if (body.parent_id != null && (typeof body.parent_id !== 'string' || !UUID_PATTERN.test(body.parent_id))) {
+    return { error: { error: 'Parent comment ID must be a valid UUID', code: 'INVALID_PARENT_ID' } };
+  }
+
+  return { data: { body: text, parent_id: (body.parent_id as string | null | undefined) ?? null } };
+}
+
+/**
+ * Validates a reaction's emoji and optional comment target
+ */
+export function parseReactionPayload(body: Record<string, unknown>): ReactionPayloadResult {
+  if (!isReactionEmoji(body.emoji)) {
+    return {
+      error: { error: `Reaction must be one of ${REACTION_EMOJIS.join(' ')}`, code: 'INVALID_REACTION' }
+    };
+  }
+
+  if (body.comment_id != null && (typeof body.comment_id !== 'string' || !UUID_PATTERN.test(body.comment_id))) {
+    return { error: { error: 'Comment ID must be a valid UUID', code: 'INVALID_COMMENT_ID' } };
+  }
+
+  return { data: { emoji: body.emoji, comment_id: (body.comment_id as string | null | undefined) ?? null } };
+}
+
+/**
+ * Counts reactions per emoji (in REACTION_EMOJIS order, unused emoji omitted)
+ */
+export function summarizeReactions(
+  reactions: Pick<Reaction, 'emoji' | 'user_id'>[],
+  userId: string
+): ReactionSummary[] {
+  return REACTION_EMOJIS.flatMap(emoji => {
+    const matching = reactions.filter(reaction => reaction.emoji === emoji);
+    return matching.length === 0
+      ? []
+      : [{ emoji, count: matching.length, reacted: matching.some(reaction => reaction.user_id === userId) }];
+  });
+}
+
+/**
+ * Groups a workout's comments into top-level threads (oldest first) with
+ * their replies and each comment's reactions
+ */
+export function buildCommentThreads(
+  comments: WorkoutCommentWithUser[],
+  reactions: Pick<Reaction, 'emoji' | 'user_id' | 'comment_id'>[],
+  userId: string
+): WorkoutCommentThread[] {
+  const byComment = new Map<string, Pick<Reaction, 'emoji' | 'user_id'>[]>();
+  for (const reaction of reactions) {
+    if (reaction.comment_id) {
+      byComment.set(reaction.comment_id, [...(byComment.get(reaction.comment_id) || []), reaction]);
+    }
+  }
+
+  const withReactions = (comment: WorkoutCommentWithUser) => ({
+    ...comment,
+    reactions: summarizeReactions(byComment.get(comment.id) || [], userId),
+  });
+
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const threads = new Map<string, WorkoutCommentThread>();
+
+  for (const comment of sorted) {
+    if (!comment.parent_id) {
+      threads.set(comment.id, { ...withReactions(comment), replies: [] });
+    }
+  }
+
+  for (const comment of sorted) {
+    if (comment.parent_id) {
+      threads.get(comment.parent_id)?.replies.push(withReactions(comment));
+    }
+  }
+
+  return [...threads.values()];
+}
+
+/**
+ * Loads a workout's comment threads and reactions as seen by the user
+ */
+export async function loadWorkoutDiscussion(
+  supabase: SupabaseClient,
+  workoutId: string,
+  userId: string
+): Promise<WorkoutDiscussion> {
+  const [comments, reactions] = await Promise.all([
+    supabase
+      .from('workout_comments')
+      .select(COMMENT_SELECT)
+      .eq('workout_id', workoutId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('reactions')
+      .select('emoji, user_id, comment_id')
+      .eq('workout_id', workoutId),
+  ]);
+
+  if (comments.error) {
+    throw comments.error;
+  }
+
+  if (reactions.error) {
+    throw reactions.error;
+  }
+
+  const reactionRows = (reactions.data || []) as Pick<Reaction, 'emoji' | 'user_id' | 'comment_id'>[];
+
+  return {
+    comments: buildCommentThreads((comments.data || []) as WorkoutCommentWithUser[], reactionRows, userId),
+    reactions: summarizeReactions(reactionRows.filter(reaction => !reaction.comment_id), userId),
+  };
+}
+
+/**
+ * Loads the reaction summary for one workout, comment or activity
+ */
+export async function loadReactions(
+  supabase: SupabaseClient,
+  target: ReactionTarget,
+  userId: string
+): Promise<ReactionSummary[]> {
+  let query = supabase.from('reactions').select('emoji, user_id');
+
+  if ('activity_id' in target) {
+    query = query.eq('activity_id', target.activity_id);
+  } else {
+    query = query.eq('workout_id', target.workout_id);
+    query = target.comment_id ? query.eq('comment_id', target.comment_id) : query.is('comment_id', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return summarizeReactions(data || [], userId);
+}
+
+/**
+ * Adds the user's reaction; adding one that already exists is not an error
+ */
+export async function addReaction(
+  supabase: SupabaseClient,
+  userId: string,
+  target: ReactionTarget,
+  emoji: string
+): Promise<PostgrestError | null> {
+  const { error } = await supabase
+    .from('reactions')
+    .insert({ user_id: userId, emoji, ...target });
+
+  // Unique violation: already reacted with this emoji
+  return error?.code === '23505' ? null : error;
+}
+
+/**
+ * Removes the user's reaction, if any
+ */
+export async function removeReaction(
+  supabase: SupabaseClient,
+  userId: string,
+  target: ReactionTarget,
+  emoji: string
+): Promise<PostgrestError | null> {
+  let query = supabase.from('reactions').delete().eq('user_id', userId).eq('emoji', emoji);
+
+  if ('activity_id' in target) {
+    query = query.eq('activity_id', target.activity_id);
+  } else {
+    query = query.eq('workout_id', target.workout_id);
+    query = target.comment_id ? query.eq('comment_id', target.comment_id) : query.is('comment_id', null);
+  }
+
+  const { error } = await query;
+  return error;
+}
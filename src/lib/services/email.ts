@@ -0,0 +1,60 @@
+import { appendFile } from 'fs/promises';
+
+// Outgoing email delivery. Server only.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Development stand-in: prints messages to the server console and, when
+ * EMAIL_OUTBOX_FILE is set, appends them to that file as JSON lines.
+ */
+export class ConsoleEmailProvider implements EmailProvider {
+  readonly name = 'console';
+
+  constructor(private readonly outboxFile: string | undefined = process.env.EMAIL_OUTBOX_FILE) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email:${this.name}] to ${message.to}: ${message.subject}\n${message.text}`);
+
+    if (this.outboxFile) {
+      const line = JSON.stringify({ ...message, sent_at: new Date().toISOString() });
+      await appendFile(this.outboxFile, `${line}\n`, 'utf8');
+    }
+  }
+}
+
+type EmailProviderFactory = () => EmailProvider;
+
+const providers: Record<string, EmailProviderFactory> = {
+  console: () => new ConsoleEmailProvider(),
+};
+
+/**
+ * Makes a mail service integration selectable through EMAIL_PROVIDER
+ */
+export function registerEmailProvider(name: string, factory: EmailProviderFactory): void {
+  providers[name] = factory;
+}
+
+/**
+ * Returns the provider named by EMAIL_PROVIDER (defaults to the console stand-in)
+ */
+export function getEmailProvider(): EmailProvider {
+  const name = process.env.EMAIL_PROVIDER || 'console';
+  const factory = providers[name];
+
+  if (!factory) {
+    throw new Error(`Unknown email provider "${name}"`);
+  }
+
+  return factory();
+}
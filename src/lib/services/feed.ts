@@ -0,0 +1,185 @@
+import {
+  FeedItemType,
+  type ActivitySummary,
+  type FeedItem,
+  type FeedWorkout,
+  type ParticipantStatus,
+  type User,
+} from '@/types/database';
+import { ACTIVITY_SUMMARY_SELECT } from '@/lib/services/activities';
+
+const FEED_WORKOUT_COLUMNS = 'id, title, activity_type, status, start_time, meeting_point_name, recurrence_rule, timezone';
+
+// Columns for each feed source (actor and workout joined for display)
+export const FEED_WORKOUT_SELECT =
+  `${FEED_WORKOUT_COLUMNS}, created_at, host:users!workouts_host_id_fkey(id, name)`;
+
+export const FEED_RSVP_SELECT = [
+  'id, status, responded_at',
+  'user:users!workout_participants_user_id_fkey(id, name)',
+  `workout:workouts(${FEED_WORKOUT_COLUMNS})`,
+].join(', ');
+
+export const FEED_ACTIVITY_SELECT = [
+  ACTIVITY_SUMMARY_SELECT,
+  'user:users!activities_user_id_fkey(id, name)',
+  `workout:workouts(${FEED_WORKOUT_COLUMNS})`,
+].join(', ');
+
+type FeedActor = Pick<User, 'id' | 'name'>;
+
+export interface FeedWorkoutRow extends FeedWorkout {
+  created_at: string;
+  host: FeedActor | null;
+}
+
+export interface FeedRsvpRow {
+  id: string;
+  status: ParticipantStatus;
+  responded_at: string;
+  user: FeedActor | null;
+  workout: FeedWorkout | null;
+}
+
+export interface FeedActivityRow extends ActivitySummary {
+  user: FeedActor | null;
+  workout: FeedWorkout | null;
+}
+
+// Position of the last item on a page; the next page starts after it
+export interface FeedCursor {
+  occurred_at: string; // ISO timestamp string, millisecond precision
+  id: string; // Feed item id
+}
+
+export interface FeedPage {
+  items: FeedItem[];
+  next_cursor: string | null; // null on the last page
+}
+
+/**
+ * Encodes a cursor for the API's `cursor` query parameter
+ */
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify([cursor.occurred_at, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decodes a cursor, or returns null if it is malformed
+ */
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) {
+      return null;
+    }
+
+    const [occurredAt, id] = decoded;
+    if (typeof occurredAt !== 'string' || typeof id !== 'string' || isNaN(Date.parse(occurredAt))) {
+      return null;
+    }
+
+    return { occurred_at: occurredAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exclusive upper bound for source queries: just past the cursor's
+ * millisecond, so rows that tie with it are fetched and filtered by id
+ */
+export function feedQueryBound(cursor: FeedCursor): string {
+  return new Date(Date.parse(cursor.occurred_at) + 1).toISOString();
+}
+
+// Newest first, ties broken by id so the order is total
+function compareFeedItems(a: Pick<FeedItem, 'occurred_at' | 'id'>, b: Pick<FeedItem, 'occurred_at' | 'id'>): number {
+  const diff = Date.parse(b.occurred_at) - Date.parse(a.occurred_at);
+  if (diff !== 0) {
+    return diff;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Feed item for a workout a friend scheduled
+ */
+export function workoutFeedItem(row: FeedWorkoutRow): FeedItem | null {
+  if (!row.host) {
+    return null; // Host profile not visible
+  }
+
+  const { created_at, host, ...workout } = row;
+  return {
+    type: FeedItemType.WORKOUT,
+    id: `${FeedItemType.WORKOUT}:${row.id}`,
+    occurred_at: created_at,
+    actor: host,
+    workout,
+  };
+}
+
+/**
+ * Feed item for a friend's RSVP
+ */
+export function rsvpFeedItem(row: FeedRsvpRow): FeedItem | null {
+  if (!row.user || !row.workout) {
+    return null;
+  }
+
+  return {
+    type: FeedItemType.RSVP,
+    id: `${FeedItemType.RSVP}:${row.id}`,
+    occurred_at: row.responded_at,
+    actor: row.user,
+    status: row.status,
+    workout: row.workout,
+  };
+}
+
+/**
+ * Feed item for an activity a friend completed
+ */
+export function activityFeedItem(row: FeedActivityRow): FeedItem | null {
+  if (!row.user) {
+    return null;
+  }
+
+  const { user, workout, ...activity } = row;
+  return {
+    type: FeedItemType.ACTIVITY,
+    id: `${FeedItemType.ACTIVITY}:${row.id}`,
+    occurred_at: row.ended_at,
+    actor: user,
+    activity,
+    workout,
+    reactions: [], // Filled in once the page is known
+  };
+}
+
+/**
+ * Merges items from every source into one page after the cursor. Each
+ * source is queried newest first for limit + 1 rows; sourcesFull says
+ * whether any of them filled that, i.e. may have more rows.
+ */
+export function buildFeedPage(
+  items: FeedItem[],
+  cursor: FeedCursor | null,
+  limit: number,
+  sourcesFull: boolean
+): FeedPage {
+  const sorted = items
+    .filter(item => !cursor || compareFeedItems(item, cursor) > 0)
+    .sort(compareFeedItems);
+
+  const page = sorted.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    items: page,
+    next_cursor: (sorted.length > limit || sourcesFull) && last
+      ? encodeFeedCursor({ occurred_at: new Date(Date.parse(last.occurred_at)).toISOString(), id: last.id })
+      : null,
+  };
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityType } from '@/types/database';
+import { decodeFit, parseFit } from '@/lib/services/fit';
+
+// Small FIT files are assembled here byte by byte, so each test shows the
+// exact messages it feeds the decoder.
+
+// Base types used by the fixtures
+const ENUM = 0x00;
+const UINT8 = 0x02;
+const UINT16 = 0x84;
+const SINT32 = 0x85;
+const UINT32 = 0x86;
+
+type FieldSpec = [number: number, size: number, baseType: number];
+
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+// Low five bits are 10, so compressed timestamps have room to count up and roll over
+const START = 1_000_000_010; // FIT seconds
+
+const unixMs = (fitSeconds: number) => (fitSeconds + FIT_EPOCH_OFFSET_SECONDS) * 1000;
+const semicircles = (degrees: number) => Math.round((degrees / 180) * 2 ** 31);
+
+const u8 = (value: number) => [value & 0xff];
+const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+function crc(bytes: number[]): number {
+  const table = [
+    0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+    0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+  ];
+  let value = 0;
+  for (const byte of bytes) {
+    let tmp = table[value & 0xf];
+    value = ((value >> 4) & 0x0fff) ^ tmp ^ table[byte & 0xf];
+    tmp = table[value & 0xf];
+    value = ((value >> 4) & 0x0fff) ^ tmp ^ table[(byte >> 4) & 0xf];
+  }
+  return value;
+}
+
+function definition(localType: number, globalNumber: number, fields: FieldSpec[], developerFieldSizes: number[] = []): number[] {
+  const header = 0x40 | localType | (developerFieldSizes.length > 0 ? 0x20 : 0);
+  const bytes = [header, 0, 0, ...u16(globalNumber), fields.length, ...fields.flat()];
+
+  if (developerFieldSizes.length > 0) {
+    bytes.push(developerFieldSizes.length);
+    developerFieldSizes.forEach((size, index) => bytes.push(index, size, 0));
+  }
+  return bytes;
+}
+
+function data(localType: number, ...fields: number[][]): number[] {
+  return [localType, ...fields.flat()];
+}
+
+function compressed(localType: number, timeOffset: number, ...fields: number[][]): number[] {
+  return [0x80 | (localType << 5) | timeOffset, ...fields.flat()];
+}
+
+// Wraps messages in a 14-byte header and a trailing CRC
+function fitFile(...messages: number[][]): Uint8Array {
+  const body = messages.flat();
+  const header = [14, 0x20, ...u16(2132), ...u32(body.length), ...'.FIT'.split('').map(c => c.charCodeAt(0)), 0, 0];
+  const bytes = [...header, ...body];
+  return Uint8Array.from([...bytes, ...u16(crc(bytes))]);
+}
+
+const FILE_ID: FieldSpec[] = [[0, 1, ENUM]];
+const RECORD: FieldSpec[] = [[253, 4, UINT32], [0, 4, SINT32], [1, 4, SINT32], [2, 2, UINT16], [3, 1, UINT8], [5, 4, UINT32]];
+const LAP: FieldSpec[] = [[253, 4, UINT32], [2, 4, UINT32], [7, 4, UINT32], [8, 4, UINT32], [9, 4, UINT32]];
+const SESSION: FieldSpec[] = [...LAP, [5, 1, ENUM]];
+const EVENT: FieldSpec[] = [[253, 4, UINT32], [0, 1, ENUM], [1, 1, ENUM]];
+
+const record = (localType: number, seconds: number, lat: number, lng: number) =>
+  data(localType, u32(START + seconds), u32(semicircles(lat)), u32(semicircles(lng)), u16((100 + 500) * 5), u8(150), u32(seconds * 300));
+
+// A short run: file_id, two records, one lap and one session
+const ACTIVITY = fitFile(
+  definition(0, 0, FILE_ID),
+  data(0, u8(4)),
+  definition(1, 20, RECORD),
+  record(1, 0, 45, -90),
+  record(1, 10, 45.001, -90.001),
+  definition(2, 19, LAP),
+  data(2, u32(START + 10), u32(START), u32(10_500), u32(10_000), u32(300_000)),
+  definition(3, 18, SESSION),
+  data(3, u32(START + 10), u32(START), u32(10_500), u32(10_000), u32(300_000), u8(1))
+);
+
+describe('decodeFit', () => {
+  it('decodes record, lap and session messages', () => {
+    const { data: fit, error } = decodeFit(ACTIVITY);
+
+    expect(error).toBeUndefined();
+    expect(fit?.file_type).toBe(4);
+    expect(fit?.records).toHaveLength(2);
+    expect(fit?.records[0]).toEqual({
+      timestamp: unixMs(START),
+      lat: expect.closeTo(45, 6),
+      lng: expect.closeTo(-90, 6),
+      altitude: 100,
+      heart_rate: 150,
+      distance: 0,
+    });
+    expect(fit?.records[1].distance).toBe(30);
+
+    const lap = {
+      start_time: unixMs(START),
+      timestamp: unixMs(START + 10),
+      total_elapsed_seconds: 10.5,
+      total_timer_seconds: 10,
+      total_distance_meters: 3000,
+    };
+    expect(fit?.laps).toEqual([lap]);
+    expect(fit?.sessions).toEqual([{ ...lap, sport: 1 }]);
+  });
+
+  it('reads invalid-value markers as null', () => {
+    const { data: fit } = decodeFit(fitFile(
+      definition(0, 20, RECORD),
+      data(0, u32(START), u32(0x7fffffff), u32(0x7fffffff), u16(0xffff), u8(0xff), u32(0xffffffff))
+    ));
+
+    expect(fit?.records).toEqual([
+      { timestamp: unixMs(START), lat: null, lng: null, altitude: null, heart_rate: null, distance: null },
+    ]);
+  });
+
+  it('skips developer fields', () => {
+    const { data: fit, error } = decodeFit(fitFile(
+      definition(0, 20, [[253, 4, UINT32], [3, 1, UINT8]], [2, 4]),
+      data(0, u32(START), u8(120), [0xaa, 0xbb], u32(0xdeadbeef)),
+      data(0, u32(START + 1), u8(121), [0xaa, 0xbb], u32(0xdeadbeef))
+    ));
+
+    expect(error).toBeUndefined();
+    expect(fit?.records.map(r => [r.timestamp, r.heart_rate])).toEqual([
+      [unixMs(START), 120],
+      [unixMs(START + 1), 121],
+    ]);
+  });
+
+  it('expands compressed timestamps, including when the offset rolls over', () => {
+    const position: FieldSpec[] = [[0, 4, SINT32], [1, 4, SINT32]];
+    const at = (lat: number) => [u32(semicircles(lat)), u32(semicircles(0))];
+
+    const { data: fit } = decodeFit(fitFile(
+      definition(0, 20, RECORD),
+      record(0, 0, 1, 0),
+      definition(1, 20, position),
+      compressed(1, 15, ...at(2)), // 10 -> 15: five seconds later
+      compressed(1, 3, ...at(3)) // 15 -> 3: the 32-second window rolled over
+    ));
+
+    expect(fit?.records.map(r => r.timestamp)).toEqual([
+      unixMs(START),
+      unixMs(START + 5),
+      unixMs(START + 25),
+    ]);
+  });
+
+  it('decodes chained files into one activity', () => {
+    const second = fitFile(definition(0, 20, RECORD), record(0, 20, 45.002, -90.002));
+    const { data: fit } = decodeFit(Uint8Array.from([...ACTIVITY, ...second]));
+
+    expect(fit?.records).toHaveLength(3);
+  });
+
+  it('rejects a file whose checksum does not match', () => {
+    const corrupt = Uint8Array.from(ACTIVITY);
+    corrupt[20] ^= 0xff;
+
+    expect(decodeFit(corrupt).error).toBe('FIT file is corrupt (checksum mismatch)');
+  });
+
+  it('rejects truncated files', () => {
+    expect(decodeFit(ACTIVITY.subarray(0, 10)).error).toBe('Truncated FIT header');
+    expect(decodeFit(ACTIVITY.subarray(0, ACTIVITY.length - 5)).error).toBe('Truncated FIT file');
+  });
+
+  it('rejects a message cut off inside the data section', () => {
+    const cutOff = fitFile(definition(0, 20, RECORD), record(0, 0, 45, -90).slice(0, 8));
+
+    expect(decodeFit(cutOff).error).toBe('Truncated FIT message');
+  });
+
+  it('rejects data messages without a definition', () => {
+    expect(decodeFit(fitFile(data(0, u8(4)))).error).toBe('FIT data message has no definition');
+  });
+
+  it('rejects files that are not FIT', () => {
+    const notFit = Uint8Array.from(ACTIVITY);
+    notFit[8] = 'X'.charCodeAt(0);
+
+    expect(decodeFit(notFit).error).toBe('Not a FIT file');
+  });
+});
+
+describe('parseFit', () => {
+  it('converts an activity into a track and route', () => {
+    const { data: parsed, error } = parseFit(ACTIVITY);
+
+    expect(error).toBeUndefined();
+    expect(parsed?.activity_type).toBe(ActivityType.RUN);
+    expect(parsed?.route).toHaveLength(2);
+    expect(parsed?.track).toHaveLength(1);
+    expect(parsed?.track[0][0]).toMatchObject({
+      time: new Date(unixMs(START)).toISOString(),
+      elevation: 100,
+      heart_rate: 150,
+    });
+  });
+
+  it('splits the track where the timer was stopped', () => {
+    const { data: parsed } = parseFit(fitFile(
+      definition(0, 21, EVENT),
+      definition(1, 20, RECORD),
+      record(1, 0, 45, -90),
+      data(0, u32(START + 5), u8(0), u8(4)), // timer stop_all
+      record(1, 10, 45.001, -90.001),
+      data(0, u32(START + 15), u8(0), u8(0)), // timer start
+      record(1, 20, 45.002, -90.002)
+    ));
+
+    expect(parsed?.route).toHaveLength(3);
+    expect(parsed?.track.map(segment => segment.length)).toEqual([1, 1]);
+  });
+
+  it('reports files without GPS data', () => {
+    const { error } = parseFit(fitFile(definition(0, 0, FILE_ID), data(0, u8(4))));
+
+    expect(error).toBe('This FIT file has no GPS data');
+  });
+});
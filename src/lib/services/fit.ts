@@ -0,0 +1,467 @@
+// Decoder for Garmin's FIT (Flexible and Interoperable Data Transfer) binary
+// format. Definition and data messages are decoded for every message type,
+// but only file_id, record, lap, session, event and sport are interpreted.
+// Developer fields and unknown messages are read past and ignored.
+import { ActivityType, type RoutePoint, type TrackPoint, type TrackSegment } from '@/types/database';
+import { sanitizeHeartRate } from '@/lib/services/activities';
+import type { TrackFileParseResult } from '@/lib/services/trackFiles';
+
+// Decoded record message (one GPS/sensor sample)
+export interface FitRecord {
+  timestamp: number; // Unix milliseconds
+  lat: number | null; // Degrees
+  lng: number | null; // Degrees
+  altitude: number | null; // Meters
+  heart_rate: number | null; // Beats per minute
+  distance: number | null; // Meters from the start, as measured by the device
+}
+
+// Decoded lap message
+export interface FitLap {
+  start_time: number | null; // Unix milliseconds
+  timestamp: number | null; // Unix milliseconds (end of the lap)
+  total_elapsed_seconds: number | null;
+  total_timer_seconds: number | null; // Excludes pauses
+  total_distance_meters: number | null;
+}
+
+// Decoded session message (usually one per activity)
+export interface FitSession extends FitLap {
+  sport: number | null; // FIT sport enum
+}
+
+// Timer start/stop, used to split the track at pauses
+export interface FitTimerEvent {
+  timestamp: number; // Unix milliseconds
+  running: boolean;
+}
+
+export interface FitFile {
+  file_type: number | null; // 4 = activity, 6 = course
+  sport: number | null; // From the sport message, when present
+  records: FitRecord[];
+  laps: FitLap[];
+  sessions: FitSession[];
+  timer_events: FitTimerEvent[];
+}
+
+export type FitDecodeResult =
+  | { data: FitFile; error?: undefined }
+  | { data?: undefined; error: string };
+
+interface FitFieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitMessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerDataSize: number; // Bytes of developer fields to skip
+}
+
+type FitValues = Map<number, number | null>;
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_FILE_TYPE_COURSE = 6;
+
+// Global message numbers
+const MESG_FILE_ID = 0;
+const MESG_SPORT = 12;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_RECORD = 20;
+const MESG_EVENT = 21;
+
+// Field numbers shared by every message
+const FIELD_TIMESTAMP = 253;
+
+// Event message values
+const EVENT_TIMER = 0;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+
+const FIT_SPORTS: Record<number, ActivityType> = {
+  1: ActivityType.RUN,
+  2: ActivityType.BIKE,
+  4: ActivityType.GYM, // fitness_equipment
+  5: ActivityType.SWIM,
+  10: ActivityType.GYM, // training
+  11: ActivityType.WALK,
+  17: ActivityType.HIKE,
+};
+
+// Size in bytes of each base type, indexed by base type number (low 5 bits)
+const BASE_TYPE_SIZES = [1, 1, 1, 2, 2, 4, 4, 1, 4, 8, 1, 2, 4, 1, 8, 8, 8];
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 of bytes[start, end)
+ */
+function fitCrc(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+/**
+ * Reads the first value of a numeric field, or null when it holds the
+ * base type's "invalid" marker (strings, bytes and 64-bit values are skipped)
+ */
+function readFieldValue(view: DataView, offset: number, field: FitFieldDefinition, littleEndian: boolean): number | null {
+  const type = field.baseType & 0x1f;
+  const size = BASE_TYPE_SIZES[type];
+
+  if (size === undefined || field.size < size) {
+    return null;
+  }
+
+  switch (type) {
+    case 0: { // enum
+      const value = view.getUint8(offset);
+      return value === 0xff ? null : value;
+    }
+    case 1: { // sint8
+      const value = view.getInt8(offset);
+      return value === 0x7f ? null : value;
+    }
+    case 2: { // uint8
+      const value = view.getUint8(offset);
+      return value === 0xff ? null : value;
+    }
+    case 3: { // sint16
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? null : value;
+    }
+    case 4: { // uint16
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? null : value;
+    }
+    case 5: { // sint32
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 6: { // uint32
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? null : value;
+    }
+    case 8: { // float32
+      const value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 9: { // float64
+      const value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 10: { // uint8z
+      const value = view.getUint8(offset);
+      return value === 0 ? null : value;
+    }
+    case 11: { // uint16z
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0 ? null : value;
+    }
+    case 12: { // uint32z
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0 ? null : value;
+    }
+    default:
+      return null;
+  }
+}
+
+function scaled(value: number | null | undefined, scale: number, offset = 0): number | null {
+  return value === null || value === undefined ? null : value / scale - offset;
+}
+
+function fitTime(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : (value + FIT_EPOCH_OFFSET_SECONDS) * 1000;
+}
+
+function readLap(values: FitValues): FitLap {
+  return {
+    start_time: fitTime(values.get(2)),
+    timestamp: fitTime(values.get(FIELD_TIMESTAMP)),
+    total_elapsed_seconds: scaled(values.get(7), 1000),
+    total_timer_seconds: scaled(values.get(8), 1000),
+    total_distance_meters: scaled(values.get(9), 100),
+  };
+}
+
+// Stores an interpreted data message on the decoded file
+function handleMessage(file: FitFile, globalNumber: number, values: FitValues): void {
+  switch (globalNumber) {
+    case MESG_FILE_ID:
+      file.file_type = values.get(0) ?? null;
+      break;
+
+    case MESG_SPORT:
+      file.sport = values.get(0) ?? null;
+      break;
+
+    case MESG_RECORD: {
+      const timestamp = fitTime(values.get(FIELD_TIMESTAMP));
+      if (timestamp === null) break;
+
+      const lat = values.get(0);
+      const lng = values.get(1);
+      // Enhanced altitude (78) supersedes altitude (2); both are scale 5, offset 500
+      const altitude = values.get(78) ?? values.get(2);
+
+      file.records.push({
+        timestamp,
+        lat: lat == null ? null : lat * SEMICIRCLES_TO_DEGREES,
+        lng: lng == null ? null : lng * SEMICIRCLES_TO_DEGREES,
+        altitude: scaled(altitude, 5, 500),
+        heart_rate: values.get(3) ?? null,
+        distance: scaled(values.get(5), 100),
+      });
+      break;
+    }
+
+    case MESG_LAP:
+      file.laps.push(readLap(values));
+      break;
+
+    case MESG_SESSION:
+      file.sessions.push({ ...readLap(values), sport: values.get(5) ?? null });
+      break;
+
+    case MESG_EVENT: {
+      const timestamp = fitTime(values.get(FIELD_TIMESTAMP));
+      const eventType = values.get(1);
+      if (values.get(0) !== EVENT_TIMER || timestamp === null) break;
+
+      if (eventType === EVENT_TYPE_START) {
+        file.timer_events.push({ timestamp, running: true });
+      } else if (eventType === EVENT_TYPE_STOP || eventType === EVENT_TYPE_STOP_ALL) {
+        file.timer_events.push({ timestamp, running: false });
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Decodes one FIT file starting at offset; returns the offset after its CRC
+ * (a .fit upload may contain several chained files)
+ */
+function decodeChunk(bytes: Uint8Array, view: DataView, start: number, file: FitFile): number {
+  if (bytes.length - start < 12) {
+    throw new Error('Truncated FIT header');
+  }
+
+  const headerSize = bytes[start];
+  const signature = String.fromCharCode(...bytes.subarray(start + 8, start + 12));
+
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== '.FIT') {
+    throw new Error('Not a FIT file');
+  }
+
+  const dataSize = view.getUint32(start + 4, true);
+  const end = start + headerSize + dataSize;
+
+  if (end + 2 > bytes.length) {
+    throw new Error('Truncated FIT file');
+  }
+
+  if (fitCrc(bytes, start, end) !== view.getUint16(end, true)) {
+    throw new Error('FIT file is corrupt (checksum mismatch)');
+  }
+
+  const definitions = new Map<number, FitMessageDefinition>();
+  let lastTimestamp = 0; // FIT seconds, for compressed timestamp headers
+  let position = start + headerSize;
+
+  const need = (length: number) => {
+    if (position + length > end) {
+      throw new Error('Truncated FIT message');
+    }
+  };
+
+  while (position < end) {
+    const header = bytes[position++];
+
+    // Definition message
+    if ((header & 0x80) === 0 && (header & 0x40) !== 0) {
+      need(5);
+      const localType = header & 0x0f;
+      const littleEndian = bytes[position + 1] === 0;
+      const globalNumber = view.getUint16(position + 2, littleEndian);
+      const fieldCount = bytes[position + 4];
+      position += 5;
+
+      need(fieldCount * 3);
+      const fields: FitFieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({ number: bytes[position], size: bytes[position + 1], baseType: bytes[position + 2] });
+        position += 3;
+      }
+
+      let developerDataSize = 0;
+      if (header & 0x20) {
+        need(1);
+        const developerFieldCount = bytes[position++];
+        need(developerFieldCount * 3);
+        for (let i = 0; i < developerFieldCount; i++) {
+          developerDataSize += bytes[position + 1];
+          position += 3;
+        }
+      }
+
+      definitions.set(localType, { globalNumber, littleEndian, fields, developerDataSize });
+      continue;
+    }
+
+    // Data message, with either a normal or a compressed timestamp header
+    let compressedTimestamp: number | null = null;
+    let localType: number;
+
+    if (header & 0x80) {
+      localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      compressedTimestamp = timeOffset >= (lastTimestamp & 0x1f)
+        ? (lastTimestamp & ~0x1f) + timeOffset
+        : (lastTimestamp & ~0x1f) + timeOffset + 0x20;
+      lastTimestamp = compressedTimestamp;
+    } else {
+      localType = header & 0x0f;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error('FIT data message has no definition');
+    }
+
+    const values: FitValues = new Map();
+    for (const field of definition.fields) {
+      need(field.size);
+      values.set(field.number, readFieldValue(view, position, field, definition.littleEndian));
+      position += field.size;
+    }
+
+    need(definition.developerDataSize);
+    position += definition.developerDataSize;
+
+    const timestamp = values.get(FIELD_TIMESTAMP);
+    if (timestamp != null) {
+      lastTimestamp = timestamp;
+    } else if (compressedTimestamp !== null) {
+      values.set(FIELD_TIMESTAMP, compressedTimestamp);
+    }
+
+    handleMessage(file, definition.globalNumber, values);
+  }
+
+  return end + 2;
+}
+
+/**
+ * Decodes a FIT file into its activity messages
+ */
+export function decodeFit(bytes: Uint8Array): FitDecodeResult {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const file: FitFile = {
+    file_type: null,
+    sport: null,
+    records: [],
+    laps: [],
+    sessions: [],
+    timer_events: [],
+  };
+
+  try {
+    let offset = 0;
+    while (offset < bytes.length) {
+      offset = decodeChunk(bytes, view, offset, file);
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid FIT file' };
+  }
+
+  return { data: file };
+}
+
+/**
+ * Parses a FIT activity (or course) into the app's track model. The track
+ * is split into segments wherever the device's timer was stopped.
+ */
+export function parseFit(bytes: Uint8Array): TrackFileParseResult {
+  const decoded = decodeFit(bytes);
+  if (decoded.error !== undefined) {
+    return { error: `Invalid FIT file: ${decoded.error}` };
+  }
+
+  const fit = decoded.data;
+  const events = [...fit.timer_events].sort((a, b) => a.timestamp - b.timestamp);
+  const track: TrackSegment[] = [];
+  const route: RoutePoint[] = [];
+
+  let running = true;
+  let segment: TrackSegment | null = null;
+  let eventIndex = 0;
+
+  for (const record of fit.records) {
+    while (eventIndex < events.length && events[eventIndex].timestamp <= record.timestamp) {
+      running = events[eventIndex].running;
+      if (!running) segment = null;
+      eventIndex++;
+    }
+
+    if (record.lat === null || record.lng === null) {
+      continue;
+    }
+
+    route.push({ lat: record.lat, lng: record.lng, elevation: record.altitude });
+
+    if (!running) {
+      continue;
+    }
+
+    const point: TrackPoint = {
+      lat: record.lat,
+      lng: record.lng,
+      time: new Date(record.timestamp).toISOString(),
+      elevation: record.altitude,
+      heart_rate: sanitizeHeartRate(record.heart_rate),
+    };
+
+    if (!segment) {
+      segment = [];
+      track.push(segment);
+    }
+    segment.push(point);
+  }
+
+  if (route.length === 0) {
+    return { error: 'This FIT file has no GPS data' };
+  }
+
+  const sport = fit.sessions[0]?.sport ?? fit.sport;
+
+  return {
+    data: {
+      name: null,
+      activity_type: sport !== null ? FIT_SPORTS[sport] ?? null : null,
+      // Course records are targets, not a recording
+      track: fit.file_type === FIT_FILE_TYPE_COURSE ? [] : track,
+      route,
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  FriendshipStatus,
+  type Friend,
+  type FriendProfile,
+  type FriendRequest,
+  type Friendship,
+} from '@/types/database';
+
+// Profile columns friends can see
+export const FRIEND_PROFILE_COLUMNS =
+  'id, name, activity_preferences, pace_range_min, pace_range_max, home_location_name';
+
+// Columns returned for friendships (both users joined for display). Only
+// accepted friends' profiles join; see getFriendRequestProfiles for requests
+export const FRIENDSHIP_SELECT = [
+  '*',
+  `requester:users!friendships_requester_id_fkey(${FRIEND_PROFILE_COLUMNS})`,
+  `addressee:users!friendships_addressee_id_fkey(${FRIEND_PROFILE_COLUMNS})`,
+].join(', ');
+
+export interface FriendshipWithUsers extends Friendship {
+  requester: FriendProfile | null;
+  addressee: FriendProfile | null;
+}
+
+export interface FriendsOverview {
+  friends: Friend[];
+  incoming: FriendRequest[];
+  outgoing: FriendRequest[];
+}
+
+/**
+ * Profiles of the people the current user has pending friend requests with,
+ * by id. RLS hides their users rows until a request is accepted.
+ */
+export async function getFriendRequestProfiles(supabase: SupabaseClient): Promise<Map<string, FriendProfile>> {
+  const { data, error } = await supabase.rpc('get_friend_request_profiles');
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(((data || []) as FriendProfile[]).map(profile => [profile.id, profile]));
+}
+
+/**
+ * Splits the current user's friendship rows into friends and pending
+ * requests. requestProfiles fills in the other side of pending requests.
+ */
+export function splitFriendships(
+  rows: FriendshipWithUsers[],
+  userId: string,
+  requestProfiles: Map<string, FriendProfile> = new Map()
+): FriendsOverview {
+  const overview: FriendsOverview = { friends: [], incoming: [], outgoing: [] };
+
+  for (const row of rows) {
+    const isRequester = row.requester_id === userId;
+    const other = (isRequester ? row.addressee : row.requester)
+      ?? requestProfiles.get(isRequester ? row.addressee_id : row.requester_id);
+
+    if (!other) {
+      continue; // Profile not visible (e.g. deleted user)
+    }
+
+    if (row.status === FriendshipStatus.ACCEPTED) {
+      overview.friends.push({
+        ...other,
+        friendship_id: row.id,
+        friends_since: row.accepted_at || row.updated_at,
+      });
+    } else {
+      const request: FriendRequest = { id: row.id, user: other, created_at: row.created_at };
+      (isRequester ? overview.outgoing : overview.incoming).push(request);
+    }
+  }
+
+  overview.friends.sort((a, b) => a.name.localeCompare(b.name));
+
+  return overview;
+}
+
+/**
+ * Finds the friendship row between two users, in either direction
+ */
+export async function findFriendship(
+  supabase: SupabaseClient,
+  userA: string,
+  userB: string
+): Promise<Friendship | null> {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select('*')
+    .or(`and(requester_id.eq.${userA},addressee_id.eq.${userB}),and(requester_id.eq.${userB},addressee_id.eq.${userA})`)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Returns the ids of a user's accepted friends
+ */
+export async function getFriendIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('friendships')
+    .select('requester_id, addressee_id')
+    .eq('status', FriendshipStatus.ACCEPTED)
+    .or(`requester_id.eq.${userId},addressee_id.eq.${userId}`);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(row => (row.requester_id === userId ? row.addressee_id : row.requester_id));
+}
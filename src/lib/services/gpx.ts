@@ -0,0 +1,171 @@
+import type { RoutePoint, TrackPoint, TrackSegment } from '@/types/database';
+import {
+  childText,
+  escapeXml,
+  findChild,
+  findChildren,
+  findDescendants,
+  parseNumber,
+  parseTimestamp,
+  parseXml,
+  type XmlElement,
+} from '@/lib/utils/xml';
+import { activityTypeFromLabel, sanitizeHeartRate } from '@/lib/services/activities';
+import type { TrackFileExport, TrackFileParseResult } from '@/lib/services/trackFiles';
+
+// A named point shared alongside a route, e.g. the meeting point
+export interface GpxWaypoint {
+  lat: number;
+  lng: number;
+  name: string;
+}
+
+const GPX_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<gpx version="1.1" creator="WorkoutSync" xmlns="http://www.topografix.com/GPX/1/1" ' +
+  'xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">';
+
+// Reads a trkpt/rtept; heart rate comes from Garmin's TrackPointExtension
+function readGpxPoint(element: XmlElement): (RoutePoint & Partial<TrackPoint>) | null {
+  const lat = parseNumber(element.attributes.lat);
+  const lng = parseNumber(element.attributes.lon);
+
+  if (lat === null || lng === null || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return null;
+  }
+
+  const extensions = findChild(element, 'extensions');
+  const heartRate = extensions ? findDescendants(extensions, 'hr')[0] : undefined;
+
+  return {
+    lat,
+    lng,
+    elevation: parseNumber(childText(element, 'ele')),
+    time: parseTimestamp(childText(element, 'time')) ?? undefined,
+    heart_rate: heartRate ? sanitizeHeartRate(parseNumber(heartRate.text)) : null,
+  };
+}
+
+/**
+ * Parses a GPX 1.1 (or 1.0) document. Each trkseg becomes a segment;
+ * route points (rte) are only used when the file has no tracks.
+ */
+export function parseGpx(source: string): TrackFileParseResult {
+  const parsed = parseXml(source);
+  if (parsed.error !== undefined) {
+    return { error: `Invalid GPX file: ${parsed.error}` };
+  }
+
+  const root = parsed.root;
+  if (root.localName !== 'gpx') {
+    return { error: 'Not a GPX file' };
+  }
+
+  const tracks = findChildren(root, 'trk');
+  const routes = findChildren(root, 'rte');
+  const metadata = findChild(root, 'metadata');
+
+  const track: TrackSegment[] = [];
+  const route: RoutePoint[] = [];
+
+  for (const trk of tracks) {
+    for (const trkseg of findChildren(trk, 'trkseg')) {
+      const segment: TrackSegment = [];
+
+      for (const trkpt of findChildren(trkseg, 'trkpt')) {
+        const point = readGpxPoint(trkpt);
+        if (!point) continue;
+
+        route.push({ lat: point.lat, lng: point.lng, elevation: point.elevation });
+        if (point.time) {
+          segment.push(point as TrackPoint);
+        }
+      }
+
+      if (segment.length > 0) {
+        track.push(segment);
+      }
+    }
+  }
+
+  if (tracks.length === 0) {
+    for (const rte of routes) {
+      for (const rtept of findChildren(rte, 'rtept')) {
+        const point = readGpxPoint(rtept);
+        if (point) {
+          route.push({ lat: point.lat, lng: point.lng, elevation: point.elevation });
+        }
+      }
+    }
+  }
+
+  const named = tracks[0] ?? routes[0];
+  const name = (metadata && childText(metadata, 'name')) || (named && childText(named, 'name')) || null;
+
+  return {
+    data: {
+      name,
+      activity_type: activityTypeFromLabel(named ? childText(named, 'type') : null),
+      track,
+      route,
+    },
+  };
+}
+
+function gpxPointBody(point: Partial<TrackPoint>): string {
+  let body = '';
+  if (point.elevation != null) body += `<ele>${point.elevation.toFixed(1)}</ele>`;
+  if (point.time) body += `<time>${point.time}</time>`;
+  if (point.heart_rate != null) {
+    body += '<extensions><gpxtpx:TrackPointExtension>' +
+      `<gpxtpx:hr>${Math.round(point.heart_rate)}</gpxtpx:hr>` +
+      '</gpxtpx:TrackPointExtension></extensions>';
+  }
+  return body;
+}
+
+/**
+ * Writes an activity as a GPX 1.1 track, one trkseg per segment
+ */
+export function serializeGpx(file: TrackFileExport): string {
+  const lines = [GPX_HEADER];
+  const startedAt = file.track[0]?.[0]?.time;
+
+  lines.push(`  <metadata><name>${escapeXml(file.name)}</name>${startedAt ? `<time>${startedAt}</time>` : ''}</metadata>`);
+  lines.push('  <trk>');
+  lines.push(`    <name>${escapeXml(file.name)}</name>`);
+  lines.push(`    <type>${escapeXml(file.activity_type)}</type>`);
+
+  for (const segment of file.track) {
+    lines.push('    <trkseg>');
+    for (const point of segment) {
+      lines.push(`      <trkpt lat="${point.lat}" lon="${point.lng}">${gpxPointBody(point)}</trkpt>`);
+    }
+    lines.push('    </trkseg>');
+  }
+
+  lines.push('  </trk>');
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes a planned route as a GPX 1.1 route, with optional waypoints
+ */
+export function serializeGpxRoute(name: string, route: RoutePoint[], waypoints: GpxWaypoint[] = []): string {
+  const lines = [GPX_HEADER];
+
+  lines.push(`  <metadata><name>${escapeXml(name)}</name></metadata>`);
+
+  for (const waypoint of waypoints) {
+    lines.push(`  <wpt lat="${waypoint.lat}" lon="${waypoint.lng}"><name>${escapeXml(waypoint.name)}</name></wpt>`);
+  }
+
+  lines.push('  <rte>');
+  lines.push(`    <name>${escapeXml(name)}</name>`);
+  for (const point of route) {
+    lines.push(`    <rtept lat="${point.lat}" lon="${point.lng}">${gpxPointBody(point)}</rtept>`);
+  }
+  lines.push('  </rte>');
+  lines.push('</gpx>');
+  return lines.join('\n') + '\n';
+}
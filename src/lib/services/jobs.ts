@@ -0,0 +1,99 @@
+import { timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { deliverNotification, type NotificationInput } from '@/lib/services/notifications';
+
+// Scheduled jobs: work that runs on a timer rather than in response to a
+// user, triggered through /api/jobs/<name> by Vercel Cron in production and
+// by `npm run jobs` in development. Jobs use a service-role client and
+// record every notification they send in notification_deliveries, so a job
+// that runs twice or retries after a failure never notifies anyone twice.
+
+// Sends of one notification to one recipient before giving up on it
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Recipients handled by one run of a job
+export interface JobRunSummary {
+  sent: number;
+  skipped: number; // Already sent, being sent by another run or out of attempts
+  failed: number; // Retried on the next run while attempts remain
+}
+
+// What happened to one recipient's copy of a notification
+export type DeliveryOutcome = 'sent' | 'skipped' | 'busy' | 'failed';
+
+/**
+ * Checks the `Authorization: Bearer <CRON_SECRET>` header that Vercel Cron
+ * and the local runner send. Jobs are disabled while CRON_SECRET is unset.
+ */
+export function isAuthorizedJobRequest(authorization: string | null): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || !authorization) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authorization);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Sends a notification to one recipient unless it has already been sent
+ * under the same key. Failures are recorded and left for the next run.
+ */
+export async function deliverOnce(
+  supabase: SupabaseClient,
+  dedupeKey: string,
+  userId: string,
+  input: NotificationInput,
+  now: Date = new Date()
+): Promise<DeliveryOutcome> {
+  const { data: claim, error: claimError } = await supabase.rpc('claim_notification_delivery', {
+    p_dedupe_key: dedupeKey,
+    p_user_id: userId,
+    p_category: input.category,
+    p_max_attempts: MAX_DELIVERY_ATTEMPTS,
+  });
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  if (claim !== 'claimed') {
+    return claim === 'busy' ? 'busy' : 'skipped';
+  }
+
+  let outcome: DeliveryOutcome = 'sent';
+  let lastError: string | null = null;
+
+  try {
+    await deliverNotification(supabase, [userId], input, now);
+  } catch (err) {
+    console.error(`Job delivery error (${dedupeKey}):`, err);
+    outcome = 'failed';
+    lastError = err instanceof Error ? err.message : String(err);
+  }
+
+  const { error: updateError } = await supabase
+    .from('notification_deliveries')
+    .update({ status: outcome, last_error: lastError })
+    .eq('dedupe_key', dedupeKey)
+    .eq('user_id', userId);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return outcome;
+}
+
+/**
+ * Adds up what happened to each recipient
+ */
+export function summarizeDeliveries(outcomes: DeliveryOutcome[]): JobRunSummary {
+  return {
+    sent: outcomes.filter(outcome => outcome === 'sent').length,
+    skipped: outcomes.filter(outcome => outcome === 'skipped' || outcome === 'busy').length,
+    failed: outcomes.filter(outcome => outcome === 'failed').length,
+  };
+}
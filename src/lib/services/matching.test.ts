@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { ActivityType, type PartnerCandidate } from '@/types/database';
+import {
+  coarsenDistance,
+  formatDistance,
+  getPaceOverlap,
+  getSharedActivities,
+  matchesSearchFilters,
+  rankPartners,
+  scorePartnerMatch,
+} from '@/lib/services/matching';
+
+const ME = {
+  activity_preferences: [ActivityType.RUN, ActivityType.BIKE],
+  pace_range_min: 8,
+  pace_range_max: 10,
+};
+
+const candidate = (overrides: Partial<PartnerCandidate> = {}): PartnerCandidate => ({
+  id: 'candidate',
+  name: 'Candidate',
+  activity_preferences: [ActivityType.RUN, ActivityType.BIKE],
+  pace_range_min: 8,
+  pace_range_max: 10,
+  home_location_name: null,
+  distance_meters: 0,
+  ...overrides,
+});
+
+describe('getSharedActivities', () => {
+  it("keeps the current user's order", () => {
+    expect(getSharedActivities(
+      [ActivityType.SWIM, ActivityType.RUN, ActivityType.BIKE],
+      [ActivityType.BIKE, ActivityType.RUN, ActivityType.YOGA]
+    )).toEqual([ActivityType.RUN, ActivityType.BIKE]);
+  });
+});
+
+describe('getPaceOverlap', () => {
+  it('measures the overlap, or the gap as a negative number', () => {
+    expect(getPaceOverlap(ME, { pace_range_min: 9, pace_range_max: 12 })).toBe(1);
+    expect(getPaceOverlap(ME, { pace_range_min: 11, pace_range_max: 12 })).toBe(-1);
+  });
+
+  it('treats a single end as a single pace and accepts reversed ranges', () => {
+    expect(getPaceOverlap(ME, { pace_range_min: 9, pace_range_max: null })).toBe(0);
+    expect(getPaceOverlap(ME, { pace_range_min: 12, pace_range_max: 9 })).toBe(1);
+  });
+
+  it('is null when either range is unknown', () => {
+    expect(getPaceOverlap(ME, { pace_range_min: null, pace_range_max: null })).toBeNull();
+  });
+});
+
+describe('scorePartnerMatch', () => {
+  it('scores an identical profile next door at 100', () => {
+    const match = scorePartnerMatch(ME, candidate(), 10000);
+
+    expect(match).toMatchObject({
+      score: 100,
+      shared_activities: [ActivityType.RUN, ActivityType.BIKE],
+      pace_overlap: 2,
+    });
+  });
+
+  it('gives each factor its weight', () => {
+    // No shared activities: loses the 50 activity points
+    expect(scorePartnerMatch(ME, candidate({ activity_preferences: [ActivityType.SWIM] })).score).toBe(50);
+    // Pace two minutes off: loses the 30 pace points
+    expect(scorePartnerMatch(ME, candidate({ pace_range_min: 12, pace_range_max: 13 })).score).toBe(70);
+    // At the edge of the radius: loses the 20 distance points
+    expect(scorePartnerMatch(ME, candidate({ distance_meters: 10000 }), 10000).score).toBe(80);
+  });
+
+  it('scores unknown factors halfway', () => {
+    const match = scorePartnerMatch(ME, candidate({ activity_preferences: [], pace_range_min: null, pace_range_max: null }));
+
+    expect(match.score).toBe(60);
+    expect(match.pace_overlap).toBeNull();
+  });
+});
+
+describe('rankPartners', () => {
+  it('orders by score, then by distance', () => {
+    const ranked = rankPartners(ME, [
+      candidate({ id: 'far', distance_meters: 5000 }),
+      candidate({ id: 'mismatch', activity_preferences: [ActivityType.SWIM] }),
+      candidate({ id: 'near', distance_meters: 1000 }),
+      candidate({ id: 'tie', distance_meters: 1100 }),
+    ], 10000);
+
+    expect(ranked.map(match => match.id)).toEqual(['near', 'tie', 'far', 'mismatch']);
+  });
+});
+
+describe('matchesSearchFilters', () => {
+  it('requires a shared activity when activities are given', () => {
+    expect(matchesSearchFilters(candidate(), { activity_preferences: [ActivityType.BIKE] })).toBe(true);
+    expect(matchesSearchFilters(candidate(), { activity_preferences: [ActivityType.SWIM] })).toBe(false);
+  });
+
+  it('requires an overlapping, known pace when a pace is given', () => {
+    expect(matchesSearchFilters(candidate(), { pace_range_min: 9 })).toBe(true);
+    expect(matchesSearchFilters(candidate(), { pace_range_min: 11, pace_range_max: 12 })).toBe(false);
+    expect(matchesSearchFilters(candidate({ pace_range_min: null, pace_range_max: null }), { pace_range_max: 9 })).toBe(false);
+  });
+
+  it('lets everyone through without filters', () => {
+    expect(matchesSearchFilters(candidate({ activity_preferences: [] }), {})).toBe(true);
+  });
+});
+
+describe('coarsenDistance', () => {
+  it('rounds to the nearest half kilometer, never to zero', () => {
+    expect(coarsenDistance(0)).toBe(500);
+    expect(coarsenDistance(1249)).toBe(1000);
+    expect(coarsenDistance(1250)).toBe(1500);
+    expect(coarsenDistance(12345)).toBe(12500);
+  });
+});
+
+describe('formatDistance', () => {
+  it('shows tenths of a mile up close and whole miles further out', () => {
+    expect(formatDistance(100)).toBe('< 0.1 mi');
+    expect(formatDistance(500)).toBe('0.3 mi');
+    expect(formatDistance(20000)).toBe('12 mi');
+  });
+});
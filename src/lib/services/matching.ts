@@ -0,0 +1,197 @@
+import {
+  type ActivityType,
+  type PartnerCandidate,
+  type PartnerMatch,
+  type User,
+  type UserSearchFilters,
+} from '@/types/database';
+
+// Default and maximum search radius for partner matching
+export const DEFAULT_PARTNER_RADIUS_METERS = 10000; // 10 km
+export const MAX_PARTNER_RADIUS_METERS = 100000; // 100 km
+
+// How much each factor contributes to the 0-100 score
+export const MATCH_WEIGHTS = {
+  activities: 50,
+  pace: 30,
+  distance: 20,
+} as const;
+
+// Distances to other users are rounded to this before they're scored or
+// returned, so search results can't be used to pin down where someone lives
+export const DISTANCE_PRECISION_METERS = 500;
+
+// Factor value used when one side has not filled in that part of their profile
+const UNKNOWN_FACTOR = 0.5;
+
+// Pace gap (minutes per mile) at which non-overlapping ranges stop scoring
+const PACE_GAP_TOLERANCE = 2;
+
+type PaceProfile = Pick<User, 'pace_range_min' | 'pace_range_max'>;
+type MatchProfile = Pick<User, 'activity_preferences'> & PaceProfile;
+
+/**
+ * Normalizes a pace range where either end may be missing
+ */
+function toPaceRange(min: number | null, max: number | null): [number, number] | null {
+  if (min === null && max === null) {
+    return null;
+  }
+
+  const low = min ?? max!;
+  const high = max ?? min!;
+
+  return low <= high ? [low, high] : [high, low];
+}
+
+/**
+ * Activities both users enjoy, in the order of the current user's preferences
+ */
+export function getSharedActivities(mine: ActivityType[], theirs: ActivityType[]): ActivityType[] {
+  const theirSet = new Set(theirs);
+  return mine.filter(activity => theirSet.has(activity));
+}
+
+/**
+ * Minutes per mile shared by two pace ranges (negative = gap between them),
+ * or null if either range is unknown
+ */
+export function getPaceOverlap(a: PaceProfile, b: PaceProfile): number | null {
+  const rangeA = toPaceRange(a.pace_range_min, a.pace_range_max);
+  const rangeB = toPaceRange(b.pace_range_min, b.pace_range_max);
+
+  if (!rangeA || !rangeB) {
+    return null;
+  }
+
+  return Math.min(rangeA[1], rangeB[1]) - Math.max(rangeA[0], rangeB[0]);
+}
+
+/**
+ * Scores pace compatibility from 0 to 1
+ */
+function scorePace(a: PaceProfile, b: PaceProfile, overlap: number | null): number {
+  if (overlap === null) {
+    return UNKNOWN_FACTOR;
+  }
+
+  if (overlap < 0) {
+    // Close-but-not-overlapping ranges still score a little
+    return Math.max(0, 1 - Math.abs(overlap) / PACE_GAP_TOLERANCE) * UNKNOWN_FACTOR;
+  }
+
+  const rangeA = toPaceRange(a.pace_range_min, a.pace_range_max)!;
+  const rangeB = toPaceRange(b.pace_range_min, b.pace_range_max)!;
+  const narrowest = Math.min(rangeA[1] - rangeA[0], rangeB[1] - rangeB[0]);
+
+  // A single pace that falls inside the other range is a full match
+  return narrowest === 0 ? 1 : Math.min(1, overlap / narrowest);
+}
+
+/**
+ * Scores activity compatibility from 0 to 1
+ */
+function scoreActivities(mine: ActivityType[], theirs: ActivityType[], shared: ActivityType[]): number {
+  if (mine.length === 0 || theirs.length === 0) {
+    return UNKNOWN_FACTOR;
+  }
+
+  return shared.length / Math.min(mine.length, theirs.length);
+}
+
+/**
+ * Rounds a distance to DISTANCE_PRECISION_METERS (never down to zero)
+ */
+export function coarsenDistance(distanceMeters: number): number {
+  return Math.max(1, Math.round(distanceMeters / DISTANCE_PRECISION_METERS)) * DISTANCE_PRECISION_METERS;
+}
+
+/**
+ * Scores closeness from 0 to 1 (1 = same place, 0 = edge of the search radius)
+ */
+function scoreDistance(distanceMeters: number, radiusMeters: number): number {
+  if (radiusMeters <= 0) {
+    return 0;
+  }
+
+  return Math.max(0, 1 - distanceMeters / radiusMeters);
+}
+
+/**
+ * Scores how well a nearby user matches the current user as a workout partner
+ */
+export function scorePartnerMatch(
+  me: MatchProfile,
+  candidate: PartnerCandidate,
+  radiusMeters: number = DEFAULT_PARTNER_RADIUS_METERS
+): PartnerMatch {
+  const mine = me.activity_preferences || [];
+  const theirs = candidate.activity_preferences || [];
+  const sharedActivities = getSharedActivities(mine, theirs);
+  const paceOverlap = getPaceOverlap(me, candidate);
+
+  const score =
+    scoreActivities(mine, theirs, sharedActivities) * MATCH_WEIGHTS.activities +
+    scorePace(me, candidate, paceOverlap) * MATCH_WEIGHTS.pace +
+    scoreDistance(candidate.distance_meters, radiusMeters) * MATCH_WEIGHTS.distance;
+
+  return {
+    ...candidate,
+    score: Math.round(score),
+    shared_activities: sharedActivities,
+    pace_overlap: paceOverlap,
+  };
+}
+
+/**
+ * Scores candidates and orders them best match first (closest first on ties)
+ */
+export function rankPartners(
+  me: MatchProfile,
+  candidates: PartnerCandidate[],
+  radiusMeters: number = DEFAULT_PARTNER_RADIUS_METERS
+): PartnerMatch[] {
+  return candidates
+    .map(candidate => scorePartnerMatch(me, candidate, radiusMeters))
+    .sort((a, b) => b.score - a.score || a.distance_meters - b.distance_meters);
+}
+
+/**
+ * Whether a candidate passes the activity and pace filters of a search
+ */
+export function matchesSearchFilters(candidate: PartnerCandidate, filters: UserSearchFilters): boolean {
+  if (filters.activity_preferences && filters.activity_preferences.length > 0) {
+    const shared = getSharedActivities(filters.activity_preferences, candidate.activity_preferences || []);
+    if (shared.length === 0) {
+      return false;
+    }
+  }
+
+  if (filters.pace_range_min !== undefined || filters.pace_range_max !== undefined) {
+    const overlap = getPaceOverlap(
+      { pace_range_min: filters.pace_range_min ?? null, pace_range_max: filters.pace_range_max ?? null },
+      candidate
+    );
+    if (overlap === null || overlap < 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Meters in a mile (paces are in minutes per mile, so distances are shown in miles)
+export const METERS_PER_MILE = 1609.344;
+
+/**
+ * Formats a distance for display (e.g. "0.4 mi", "12 mi")
+ */
+export function formatDistance(distanceMeters: number): string {
+  const miles = distanceMeters / METERS_PER_MILE;
+
+  if (miles < 0.1) {
+    return '< 0.1 mi';
+  }
+
+  return miles < 10 ? `${miles.toFixed(1)} mi` : `${Math.round(miles)} mi`;
+}
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  NotificationCategory,
+  NotificationChannel,
+  type NotificationChannelSettings,
+  type NotificationPreferences,
+  type QuietHours,
+} from '@/types/database';
+import { isValidTimeZone, toZonedDateTime } from '@/lib/utils/timezone';
+
+// Channels used when a user hasn't chosen otherwise. Text messages cost
+// money and are easy to find intrusive, so they are opt-in.
+export const DEFAULT_CHANNEL_SETTINGS: NotificationChannelSettings = {
+  [NotificationChannel.PUSH]: true,
+  [NotificationChannel.IN_APP]: true,
+  [NotificationChannel.SMS]: false,
+};
+
+// Channels held back during quiet hours; in-app notifications still arrive
+// silently so nothing is lost
+export const QUIET_HOURS_CHANNELS: NotificationChannel[] = [NotificationChannel.PUSH, NotificationChannel.SMS];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Row from the notification_preferences table
+interface NotificationPreferencesRow {
+  user_id: string;
+  categories: Partial<Record<string, Partial<NotificationChannelSettings>>>;
+  quiet_hours_start: number | null;
+  quiet_hours_end: number | null;
+  quiet_hours_timezone: string | null;
+}
+
+export interface NotificationPreferencesPayloadError {
+  error: string;
+  code: string;
+}
+
+export type NotificationPreferencesPayloadResult =
+  | { data: NotificationPreferences; error?: undefined }
+  | { data?: undefined; error: NotificationPreferencesPayloadError };
+
+const isMinuteOfDay = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < MINUTES_PER_DAY;
+
+/**
+ * Fills in defaults for categories and channels a stored row doesn't mention
+ */
+export function resolveNotificationPreferences(row: NotificationPreferencesRow | null): NotificationPreferences {
+  const categories = {} as NotificationPreferences['categories'];
+
+  for (const category of Object.values(NotificationCategory)) {
+    categories[category] = { ...DEFAULT_CHANNEL_SETTINGS, ...row?.categories[category] };
+  }
+
+  const quietHours = row && row.quiet_hours_start !== null && row.quiet_hours_end !== null && row.quiet_hours_timezone
+    ? { start_minute: row.quiet_hours_start, end_minute: row.quiet_hours_end, timezone: row.quiet_hours_timezone }
+    : null;
+
+  return { categories, quiet_hours: quietHours };
+}
+
+/**
+ * Validates a full set of preferences sent by the settings screen
+ */
+export function parseNotificationPreferencesPayload(body: Record<string, unknown>): NotificationPreferencesPayloadResult {
+  const { categories, quiet_hours: quietHours } = body;
+
+  if (!categories || typeof categories !== 'object' || Array.isArray(categories)) {
+    return {
+      error: {
+        error: 'categories must map each notification category to its channels',
+        code: 'INVALID_CATEGORIES',
+      },
+    };
+  }
+
+  const parsed = {} as NotificationPreferences['categories'];
+
+  for (const category of Object.values(NotificationCategory)) {
+    const settings = (categories as Record<string, unknown>)[category] as Record<string, unknown> | undefined;
+
+    if (!settings || Object.values(NotificationChannel).some(channel => typeof settings[channel] !== 'boolean')) {
+      return {
+        error: {
+          error: `categories.${category} must set ${Object.values(NotificationChannel).join(', ')} to true or false`,
+          code: 'INVALID_CATEGORIES',
+        },
+      };
+    }
+
+    parsed[category] = {
+      [NotificationChannel.PUSH]: settings[NotificationChannel.PUSH] as boolean,
+      [NotificationChannel.IN_APP]: settings[NotificationChannel.IN_APP] as boolean,
+      [NotificationChannel.SMS]: settings[NotificationChannel.SMS] as boolean,
+    };
+  }
+
+  if (quietHours === null || quietHours === undefined) {
+    return { data: { categories: parsed, quiet_hours: null } };
+  }
+
+  const window = quietHours as Partial<QuietHours>;
+
+  if (
+    !isMinuteOfDay(window.start_minute) ||
+    !isMinuteOfDay(window.end_minute) ||
+    window.start_minute === window.end_minute
+  ) {
+    return {
+      error: {
+        error: 'Quiet hours need different start and end times (minutes after midnight)',
+        code: 'INVALID_QUIET_HOURS',
+      },
+    };
+  }
+
+  if (!isValidTimeZone(window.timezone)) {
+    return {
+      error: {
+        error: 'quiet_hours.timezone must be an IANA time zone such as America/New_York',
+        code: 'INVALID_TIMEZONE',
+      },
+    };
+  }
+
+  return {
+    data: {
+      categories: parsed,
+      quiet_hours: { start_minute: window.start_minute, end_minute: window.end_minute, timezone: window.timezone },
+    },
+  };
+}
+
+/**
+ * Whether a moment falls inside daily quiet hours. A window whose end is
+ * before its start runs overnight, e.g. 22:00 - 07:00.
+ */
+export function isInQuietHours(quietHours: QuietHours | null, now: Date = new Date()): boolean {
+  if (!quietHours) {
+    return false;
+  }
+
+  const local = toZonedDateTime(now.getTime(), quietHours.timezone);
+  const minute = local.hour * 60 + local.minute;
+  const { start_minute: start, end_minute: end } = quietHours;
+
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+/**
+ * Channels a notification in this category should go out on right now
+ */
+export function notificationChannelsFor(
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  now: Date = new Date()
+): NotificationChannel[] {
+  const quiet = isInQuietHours(preferences.quiet_hours, now);
+
+  return Object.values(NotificationChannel).filter(channel =>
+    preferences.categories[category][channel] && !(quiet && QUIET_HOURS_CHANNELS.includes(channel))
+  );
+}
+
+/**
+ * Loads the preferences of several users, with defaults for anyone who
+ * hasn't saved any
+ */
+export async function loadNotificationPreferences(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('user_id, categories, quiet_hours_start, quiet_hours_end, quiet_hours_timezone')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = new Map(((data || []) as NotificationPreferencesRow[]).map(row => [row.user_id, row]));
+
+  return new Map(userIds.map(userId => [userId, resolveNotificationPreferences(rows.get(userId) ?? null)]));
+}
+
+/**
+ * Saves a user's preferences, replacing what they had
+ */
+export async function saveNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<void> {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      user_id: userId,
+      categories: preferences.categories,
+      quiet_hours_start: preferences.quiet_hours?.start_minute ?? null,
+      quiet_hours_end: preferences.quiet_hours?.end_minute ?? null,
+      quiet_hours_timezone: preferences.quiet_hours?.timezone ?? null,
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,267 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationChannel, type Notification, type NotificationCategory } from '@/types/database';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isPushConfigured, sendPushToUsers } from '@/lib/services/push';
+import { getSmsProvider } from '@/lib/services/sms';
+import { loadNotificationPreferences, notificationChannelsFor } from '@/lib/services/notificationPreferences';
+
+// Notification dispatch: each notification is stored for the recipient's
+// notification center, pushed to their devices with the unread count for
+// the app badge and/or sent by text, as their preferences allow. Server only.
+
+// Longer bodies (e.g. quoted comments) are cut short with an ellipsis
+export const NOTIFICATION_BODY_MAX_LENGTH = 280;
+
+// What to tell the recipients
+export interface NotificationInput {
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  url?: string | null; // In-app path opened when the notification is tapped
+  actor_id?: string | null; // The user whose action caused it; never notified about it themselves
+}
+
+// Position of the last notification on a page; the next page starts after it
+export interface NotificationCursor {
+  created_at: string; // ISO timestamp string
+  id: string;
+}
+
+// Recipients reached on each channel
+export interface NotificationDeliverySummary {
+  in_app: number;
+  push: number; // Devices, not users
+  sms: number;
+}
+
+export interface NotificationPage {
+  notifications: Notification[];
+  unread_count: number;
+  next_cursor: string | null; // null on the last page
+}
+
+/**
+ * Encodes a cursor for the API's `cursor` query parameter
+ */
+export function encodeNotificationCursor(cursor: NotificationCursor): string {
+  return Buffer.from(JSON.stringify([cursor.created_at, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decodes a cursor, or returns null if it is malformed
+ */
+export function decodeNotificationCursor(value: string): NotificationCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) {
+      return null;
+    }
+
+    const [createdAt, id] = decoded;
+    if (typeof createdAt !== 'string' || typeof id !== 'string' || isNaN(Date.parse(createdAt))) {
+      return null;
+    }
+
+    return { created_at: createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Loads a page of a user's notifications, newest first
+ */
+export async function listNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  cursor: NotificationCursor | null,
+  limit: number
+): Promise<NotificationPage> {
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`
+    );
+  }
+
+  const [{ data, error }, unreadCount] = await Promise.all([query, getUnreadCount(supabase, userId)]);
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data || []) as Notification[];
+  const notifications = rows.slice(0, limit);
+  const last = notifications[notifications.length - 1];
+
+  return {
+    notifications,
+    unread_count: unreadCount,
+    next_cursor: rows.length > limit && last
+      ? encodeNotificationCursor({ created_at: last.created_at, id: last.id })
+      : null,
+  };
+}
+
+/**
+ * Counts a user's unread notifications
+ */
+export async function getUnreadCount(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Name to show for the user who caused a notification
+ */
+export async function getActorName(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data } = await supabase
+    .from('users')
+    .select('name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  return data?.name || 'Someone';
+}
+
+/**
+ * Text message version of a notification, linking back to the app when the
+ * site URL is configured
+ */
+export function formatNotificationSms(input: Pick<NotificationInput, 'title' | 'body' | 'url'>): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  const link = siteUrl && input.url ? ` ${new URL(input.url, siteUrl).href}` : '';
+  return `WorkoutSync: ${input.title} - ${input.body}${link}`;
+}
+
+/**
+ * Delivers a notification to each recipient over the channels their
+ * preferences allow for its category right now: stored for the
+ * notification center, pushed to their devices and/or sent by text.
+ * Needs a service-role client, since recipients are other users.
+ */
+export async function deliverNotification(
+  supabase: SupabaseClient,
+  userIds: string[],
+  input: NotificationInput,
+  now: Date = new Date()
+): Promise<NotificationDeliverySummary> {
+  const summary: NotificationDeliverySummary = { in_app: 0, push: 0, sms: 0 };
+  const recipients = [...new Set(userIds)].filter(id => id !== input.actor_id);
+
+  if (recipients.length === 0) {
+    return summary;
+  }
+
+  const preferences = await loadNotificationPreferences(supabase, recipients);
+  const recipientsOn = (channel: NotificationChannel) => recipients.filter(userId =>
+    notificationChannelsFor(preferences.get(userId)!, input.category, now).includes(channel)
+  );
+
+  const body = input.body.length > NOTIFICATION_BODY_MAX_LENGTH
+    ? `${input.body.slice(0, NOTIFICATION_BODY_MAX_LENGTH - 1).trimEnd()}…`
+    : input.body;
+
+  // In-app first, so pushes can point at the stored notification
+  const inAppRecipients = recipientsOn(NotificationChannel.IN_APP);
+  const created = new Map<string, Notification>();
+
+  if (inAppRecipients.length > 0) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .insert(inAppRecipients.map(userId => ({
+        user_id: userId,
+        category: input.category,
+        title: input.title,
+        body,
+        url: input.url ?? null,
+        actor_id: input.actor_id ?? null,
+      })))
+      .select('*');
+
+    if (error) {
+      throw error;
+    }
+
+    for (const notification of (data || []) as Notification[]) {
+      created.set(notification.user_id, notification);
+    }
+    summary.in_app = created.size;
+  }
+
+  const pushRecipients = isPushConfigured() ? recipientsOn(NotificationChannel.PUSH) : [];
+
+  // One push per recipient, since each carries their own unread count
+  await Promise.all(pushRecipients.map(async userId => {
+    const notification = created.get(userId);
+    const result = await sendPushToUsers(supabase, [userId], {
+      title: input.title,
+      body,
+      data: {
+        url: input.url ?? '/notifications',
+        ...(notification && {
+          notification_id: notification.id,
+          unread_count: await getUnreadCount(supabase, userId),
+        }),
+      },
+    });
+    summary.push += result.sent;
+  }));
+
+  const smsRecipients = recipientsOn(NotificationChannel.SMS);
+
+  if (smsRecipients.length > 0) {
+    const { data: users, error: usersError } = await supabase
+      .from('users')
+      .select('phone_number')
+      .in('id', smsRecipients);
+
+    if (usersError) {
+      throw usersError;
+    }
+
+    const provider = getSmsProvider();
+    const message = formatNotificationSms({ ...input, body });
+    const results = await Promise.allSettled(
+      (users || []).map(user => provider.send({ to: user.phone_number, body: message }))
+    );
+
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error('Notification SMS error:', result.reason);
+      } else {
+        summary.sms++;
+      }
+    });
+  }
+
+  return summary;
+}
+
+/**
+ * Notifies users about something that just happened, logging rather than
+ * throwing on failure so the action that caused it still succeeds
+ */
+export async function notifyUsers(userIds: string[], input: NotificationInput): Promise<void> {
+  try {
+    await deliverNotification(createAdminClient(), userIds, input);
+  } catch (err) {
+    console.error('Notification delivery error:', err);
+  }
+}
@@ -0,0 +1,62 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// One-time SMS login codes. Supabase Auth issues and checks the codes (phone
+// OTP), so signing in with one creates an ordinary Supabase session; it hands
+// each code to our Send SMS hook, which texts it through the SMS provider.
+// Server only.
+
+// Must match the SMS OTP length and expiry in the Supabase Auth settings
+export const OTP_LENGTH = 6;
+export const OTP_TTL_SECONDS = 5 * 60; // 5 minutes
+
+// How far a hook request's timestamp may be from our clock
+const HOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// Body Supabase Auth posts to the Send SMS hook (fields we use)
+export interface SendSmsHookPayload {
+  user: {
+    id: string;
+    phone: string; // E.164 without the leading +
+  };
+  sms: {
+    otp: string;
+  };
+}
+
+/**
+ * Checks a Send SMS hook request's Standard Webhooks signature against
+ * SEND_SMS_HOOK_SECRET. The hook is disabled while the secret is unset.
+ */
+export function isAuthorizedSmsHookRequest(payload: string, headers: Headers, now: Date = new Date()): boolean {
+  const secret = process.env.SEND_SMS_HOOK_SECRET;
+  const id = headers.get('webhook-id');
+  const timestamp = headers.get('webhook-timestamp');
+  const signatures = headers.get('webhook-signature');
+
+  if (!secret || !id || !timestamp || !signatures) {
+    return false;
+  }
+
+  // Refuse replays of old requests
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > HOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  // Supabase shows the secret as "v1,whsec_<base64 key>"
+  const key = Buffer.from(secret.replace(/^v1,/, '').replace(/^whsec_/, ''), 'base64');
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest();
+
+  // The header lists one or more "v1,<base64 signature>" entries
+  return signatures.split(' ').some(entry => {
+    const [version, signature] = entry.split(',');
+    const actual = Buffer.from(signature ?? '', 'base64');
+    return version === 'v1' && actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+}
+
+/**
+ * Formats the SMS body for a login code
+ */
+export function formatOtpMessage(code: string): string {
+  return `${code} is your WorkoutSync login code. It expires in ${Math.round(OTP_TTL_SECONDS / 60)} minutes. Don't share it with anyone.`;
+}
@@ -0,0 +1,213 @@
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getEmailProvider } from '@/lib/services/email';
+import { getSmsProvider } from '@/lib/services/sms';
+
+// Password reset links. Server only - pass a service-role client, since
+// the password_reset_tokens table has no RLS policies.
+
+export const PASSWORD_RESET_TTL_SECONDS = 30 * 60; // 30 minutes
+export const PASSWORD_RESET_COOLDOWN_SECONDS = 60;
+export const PASSWORD_RESET_PATH = '/reset-password';
+
+export type PasswordResetChannel = 'sms' | 'email';
+
+export type PasswordResetErrorCode = 'RESET_TOO_SOON' | 'RESET_TOKEN_INVALID' | 'RESET_TOKEN_EXPIRED';
+
+export interface PasswordResetError {
+  code: PasswordResetErrorCode;
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+export interface PasswordResetRecipient {
+  id: string;
+  phone_number: string;
+  email: string | null;
+}
+
+export type PasswordResetIssueResult =
+  | { token: string; expiresAt: string; error?: undefined }
+  | { error: PasswordResetError };
+
+export type PasswordResetRedeemResult =
+  | { userId: string; error?: undefined }
+  | { error: PasswordResetError };
+
+interface ResetTokenRow {
+  id: string;
+  user_id: string;
+  expires_at: string;
+  used_at: string | null;
+}
+
+/**
+ * Hashes a reset token for storage and lookup
+ */
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Picks the delivery channel: email when asked for and on file, SMS otherwise
+ */
+export function choosePasswordResetChannel(
+  recipient: PasswordResetRecipient,
+  preferred?: PasswordResetChannel
+): PasswordResetChannel {
+  return preferred === 'email' && recipient.email ? 'email' : 'sms';
+}
+
+/**
+ * Builds the link the user follows to choose a new password. NEXT_PUBLIC_SITE_URL
+ * takes precedence over the request origin so a spoofed Host header can't
+ * redirect reset links elsewhere.
+ */
+export function buildPasswordResetLink(requestOrigin: string, token: string): string {
+  const base = process.env.NEXT_PUBLIC_SITE_URL || requestOrigin;
+  const url = new URL(PASSWORD_RESET_PATH, base);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+/**
+ * Creates a new reset token for a user, enforcing the resend cooldown.
+ * Earlier unused tokens for the user stop working.
+ */
+export async function issuePasswordResetToken(
+  supabase: SupabaseClient,
+  userId: string,
+  channel: PasswordResetChannel,
+  now: Date = new Date()
+): Promise<PasswordResetIssueResult> {
+  const { data: latest, error: latestError } = await supabase
+    .from('password_reset_tokens')
+    .select('created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle<{ created_at: string }>();
+
+  if (latestError) {
+    throw latestError;
+  }
+
+  if (latest) {
+    const sinceLast = (now.getTime() - new Date(latest.created_at).getTime()) / 1000;
+
+    if (sinceLast < PASSWORD_RESET_COOLDOWN_SECONDS) {
+      const retryAfterSeconds = Math.ceil(PASSWORD_RESET_COOLDOWN_SECONDS - sinceLast);
+      return {
+        error: {
+          code: 'RESET_TOO_SOON',
+          message: `Please wait ${retryAfterSeconds} seconds before requesting another reset link`,
+          retryAfterSeconds,
+        },
+      };
+    }
+  }
+
+  // Only the newest link is valid
+  const { error: invalidateError } = await supabase
+    .from('password_reset_tokens')
+    .update({ used_at: now.toISOString() })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (invalidateError) {
+    throw invalidateError;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(now.getTime() + PASSWORD_RESET_TTL_SECONDS * 1000).toISOString();
+
+  const { error: insertError } = await supabase
+    .from('password_reset_tokens')
+    .insert({
+      user_id: userId,
+      token_hash: hashResetToken(token),
+      channel,
+      expires_at: expiresAt,
+    });
+
+  if (insertError) {
+    throw insertError;
+  }
+
+  return { token, expiresAt };
+}
+
+/**
+ * Sends the reset link over the chosen channel
+ */
+export async function sendPasswordResetLink(
+  recipient: PasswordResetRecipient,
+  channel: PasswordResetChannel,
+  link: string
+): Promise<void> {
+  const minutes = Math.round(PASSWORD_RESET_TTL_SECONDS / 60);
+
+  if (channel === 'email' && recipient.email) {
+    await getEmailProvider().send({
+      to: recipient.email,
+      subject: 'Reset your WorkoutSync password',
+      text: [
+        'Someone asked to reset the password for your WorkoutSync account.',
+        `Choose a new password here (the link expires in ${minutes} minutes):`,
+        link,
+        "If this wasn't you, you can ignore this email.",
+      ].join('\n\n'),
+    });
+    return;
+  }
+
+  await getSmsProvider().send({
+    to: recipient.phone_number,
+    body: `Reset your WorkoutSync password: ${link} (expires in ${minutes} minutes)`,
+  });
+}
+
+/**
+ * Marks a reset token as used and returns its user. Each token works once.
+ */
+export async function redeemPasswordResetToken(
+  supabase: SupabaseClient,
+  token: string,
+  now: Date = new Date()
+): Promise<PasswordResetRedeemResult> {
+  const { data: row, error: fetchError } = await supabase
+    .from('password_reset_tokens')
+    .select('id, user_id, expires_at, used_at')
+    .eq('token_hash', hashResetToken(token))
+    .maybeSingle<ResetTokenRow>();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  if (!row || row.used_at) {
+    return { error: { code: 'RESET_TOKEN_INVALID', message: 'This reset link is invalid or has already been used' } };
+  }
+
+  if (new Date(row.expires_at) <= now) {
+    return { error: { code: 'RESET_TOKEN_EXPIRED', message: 'This reset link has expired. Please request a new one' } };
+  }
+
+  const { data: used, error: useError } = await supabase
+    .from('password_reset_tokens')
+    .update({ used_at: now.toISOString() })
+    .eq('id', row.id)
+    .is('used_at', null)
+    .select('id');
+
+  if (useError) {
+    throw useError;
+  }
+
+  // Redeemed concurrently by another request
+  if (!used || used.length === 0) {
+    return { error: { code: 'RESET_TOKEN_INVALID', message: 'This reset link is invalid or has already been used' } };
+  }
+
+  return { userId: row.user_id };
+}
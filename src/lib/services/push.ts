@@ -0,0 +1,314 @@
+import { createECDH, createPrivateKey, hkdfSync, randomBytes, sign, createCipheriv } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StoredPushSubscription } from '@/types/database';
+import type { NotificationPayload } from '@/lib/notifications';
+
+// Server-side Web Push delivery: VAPID (RFC 8292) request signing and
+// aes128gcm payload encryption (RFC 8291 / RFC 8188). Server only.
+
+export type PushTarget = Pick<StoredPushSubscription, 'endpoint' | 'p256dh' | 'auth'>;
+
+export interface PushSendOptions {
+  ttl?: number; // Seconds the push service should hold the message for an offline device
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string; // Newer messages with the same topic replace undelivered ones
+}
+
+export interface PushSendResult {
+  endpoint: string;
+  statusCode: number;
+  ok: boolean;
+  gone: boolean; // 404/410 - the subscription no longer exists and should be pruned
+}
+
+export interface PushDeliverySummary {
+  sent: number;
+  failed: number;
+  pruned: number;
+}
+
+interface VapidConfig {
+  publicKey: string; // base64url, uncompressed P-256 point
+  privateKey: string; // base64url, 32-byte scalar
+  subject: string; // mailto: or https: contact for the push service
+}
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24; // 24 hours
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60; // Push services reject tokens valid for more than 24h
+const RECORD_SIZE = 4096;
+const KEY_LENGTH = 65; // Uncompressed P-256 public key
+const AUTH_SECRET_LENGTH = 16;
+const SALT_LENGTH = 16;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = SALT_LENGTH + 4 + 1 + KEY_LENGTH;
+
+// Push services accept at most 4096 bytes of encrypted body
+export const MAX_PUSH_PAYLOAD_BYTES = RECORD_SIZE - HEADER_LENGTH - TAG_LENGTH - 1;
+
+// Push services browsers subscribe through. Endpoints elsewhere are refused,
+// since the server POSTs to whatever endpoint is stored. A leading dot
+// matches any subdomain.
+export const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge, Opera, Samsung Internet
+  'updates.push.services.mozilla.com', // Firefox
+  'web.push.apple.com', // Safari
+  '.notify.windows.com', // Legacy Edge
+];
+
+/**
+ * Reads the VAPID key pair and contact from the environment
+ */
+export function getVapidConfig(): VapidConfig {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+
+  if (!publicKey || !privateKey || !subject) {
+    throw new Error('Web Push is not configured (NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT)');
+  }
+
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * Whether the VAPID environment variables are present
+ */
+export function isPushConfigured(): boolean {
+  return Boolean(
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY && process.env.VAPID_SUBJECT
+  );
+}
+
+/**
+ * Whether an endpoint is an https URL on a known push service
+ */
+export function isKnownPushEndpoint(endpoint: unknown): boolean {
+  if (typeof endpoint !== 'string') {
+    return false;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) {
+    return false;
+  }
+
+  return PUSH_SERVICE_HOSTS.some(host =>
+    host.startsWith('.') ? url.hostname.endsWith(host) : url.hostname === host
+  );
+}
+
+/**
+ * Validates the keys a browser reports for its subscription
+ */
+export function isValidPushKeys(p256dh: unknown, auth: unknown): boolean {
+  if (typeof p256dh !== 'string' || typeof auth !== 'string') {
+    return false;
+  }
+
+  const publicKey = Buffer.from(p256dh, 'base64url');
+  const authSecret = Buffer.from(auth, 'base64url');
+
+  return publicKey.length === KEY_LENGTH && publicKey[0] === 0x04 && authSecret.length === AUTH_SECRET_LENGTH;
+}
+
+/**
+ * Builds the VAPID Authorization header for a push service endpoint
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidConfig,
+  now: Date = new Date()
+): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+
+  if (publicKey.length !== KEY_LENGTH || publicKey[0] !== 0x04) {
+    throw new Error('VAPID public key must be an uncompressed P-256 point');
+  }
+
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  })).toString('base64url');
+
+  const unsigned = `${header}.${claims}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Encrypts a payload for a subscription using the aes128gcm content encoding
+ */
+export function encryptPushPayload(plaintext: Buffer, target: Pick<PushTarget, 'p256dh' | 'auth'>): Buffer {
+  if (plaintext.length > MAX_PUSH_PAYLOAD_BYTES) {
+    throw new Error(`Push payload exceeds ${MAX_PUSH_PAYLOAD_BYTES} bytes`);
+  }
+
+  const uaPublic = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+
+  // Ephemeral application server key pair, one per message
+  const ecdh = createECDH('prime256v1');
+  ecdh.generateKeys();
+  const asPublic = ecdh.getPublicKey();
+  const ecdhSecret = ecdh.computeSecret(uaPublic);
+
+  // RFC 8291 section 3.4: combine the ECDH secret with the auth secret
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), uaPublic, asPublic]);
+  const ikm = Buffer.from(hkdfSync('sha256', ecdhSecret, authSecret, keyInfo, 32));
+
+  // RFC 8188 section 2.2/2.3: derive the content encryption key and nonce
+  const salt = randomBytes(SALT_LENGTH);
+  const cek = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  // Single record: plaintext followed by the last-record delimiter
+  const cipher = createCipheriv('aes-128-gcm', cek, nonce);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([0x02])])), cipher.final()]);
+
+  const header = Buffer.alloc(HEADER_LENGTH);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, SALT_LENGTH);
+  header.writeUInt8(KEY_LENGTH, SALT_LENGTH + 4);
+  asPublic.copy(header, SALT_LENGTH + 5);
+
+  return Buffer.concat([header, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * Sends one encrypted notification to a push subscription
+ */
+export async function sendWebPush(
+  target: PushTarget,
+  payload: NotificationPayload,
+  options: PushSendOptions = {}
+): Promise<PushSendResult> {
+  // Subscriptions saved before endpoints were checked may point anywhere
+  if (!isKnownPushEndpoint(target.endpoint)) {
+    throw new Error('Push subscription endpoint is not on a known push service');
+  }
+
+  const vapid = getVapidConfig();
+  const body = encryptPushPayload(Buffer.from(JSON.stringify(payload)), target);
+
+  const headers: Record<string, string> = {
+    'Authorization': createVapidAuthorization(target.endpoint, vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    'TTL': String(options.ttl ?? DEFAULT_TTL_SECONDS),
+  };
+
+  if (options.urgency) {
+    headers['Urgency'] = options.urgency;
+  }
+
+  if (options.topic) {
+    headers['Topic'] = options.topic;
+  }
+
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers,
+    body: new Uint8Array(body),
+  });
+
+  if (!response.ok) {
+    console.error('Push service rejected notification:', response.status, await response.text().catch(() => ''));
+  }
+
+  return {
+    endpoint: target.endpoint,
+    statusCode: response.status,
+    ok: response.ok,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
+
+/**
+ * Sends a notification to every subscription of the given users, pruning
+ * subscriptions the push service reports as gone. Pass a service-role
+ * client when notifying users other than the signed-in user.
+ */
+export async function sendPushToUsers(
+  supabase: SupabaseClient,
+  userIds: string[],
+  payload: NotificationPayload,
+  options: PushSendOptions = {}
+): Promise<PushDeliverySummary> {
+  const summary: PushDeliverySummary = { sent: 0, failed: 0, pruned: 0 };
+
+  if (userIds.length === 0) {
+    return summary;
+  }
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .in('user_id', userIds);
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (subscriptions || []) as Pick<StoredPushSubscription, 'id' | 'endpoint' | 'p256dh' | 'auth'>[];
+  const results = await Promise.allSettled(rows.map(row => sendWebPush(row, payload, options)));
+
+  const delivered: string[] = [];
+  const expired: string[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error('Push delivery error:', result.reason);
+      summary.failed++;
+    } else if (result.value.ok) {
+      delivered.push(rows[index].id);
+      summary.sent++;
+    } else {
+      if (result.value.gone) {
+        expired.push(rows[index].id);
+      }
+      summary.failed++;
+    }
+  });
+
+  if (expired.length > 0) {
+    const { error: pruneError } = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .in('id', expired);
+
+    if (pruneError) {
+      console.error('Push subscription prune error:', pruneError);
+    } else {
+      summary.pruned = expired.length;
+    }
+  }
+
+  if (delivered.length > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_success_at: new Date().toISOString() })
+      .in('id', delivered);
+  }
+
+  return summary;
+}
@@ -0,0 +1,327 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+// Sliding window rate limits for sign-in, registration and login codes,
+// counted per IP address and per phone number, and lockouts that grow with
+// each further failure once a phone number has failed too often. Server only.
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Counts an attempt unless `limit` were already made in the window.
+  // Returns 0 when counted, otherwise the seconds until one is allowed.
+  consume(key: string, limit: number, windowSeconds: number, now: Date): Promise<number>;
+  // Adds a failure to the key's streak and returns the failures so far; a
+  // streak starts over after resetSeconds without failures
+  recordFailure(key: string, resetSeconds: number, now: Date): Promise<number>;
+  lock(key: string, until: Date): Promise<void>;
+  lockedUntil(key: string): Promise<Date | null>;
+  // Ends the failure streak and any lockout
+  reset(key: string): Promise<void>;
+}
+
+export interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface LockoutPolicy {
+  failures: number; // Failures before the first lockout
+  baseSeconds: number; // First lockout; each further failure doubles it
+  maxSeconds: number;
+  resetSeconds: number; // Quiet period that ends a failure streak
+}
+
+export interface RateLimitPolicy {
+  name: string; // Key prefix
+  ip: RateLimit;
+  phone: RateLimit;
+  lockout?: LockoutPolicy; // Failures lock the phone number out
+}
+
+// Who is making an attempt
+export interface RateLimitSubject {
+  ip: string | null; // Unknown behind some proxies; only the phone limit applies then
+  phoneNumber: string; // E.164
+}
+
+export interface RateLimited {
+  retryAfterSeconds: number;
+  locked: boolean; // Locked out after failures, rather than too many attempts
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+const SIGN_IN_LOCKOUT: LockoutPolicy = {
+  failures: 5,
+  baseSeconds: MINUTE,
+  maxSeconds: HOUR,
+  resetSeconds: 24 * HOUR,
+};
+
+export const RATE_LIMITS = {
+  login: {
+    name: 'login',
+    ip: { limit: 20, windowSeconds: 15 * MINUTE },
+    phone: { limit: 10, windowSeconds: 15 * MINUTE },
+    lockout: SIGN_IN_LOCKOUT,
+  },
+  register: {
+    name: 'register',
+    ip: { limit: 5, windowSeconds: HOUR },
+    phone: { limit: 3, windowSeconds: HOUR },
+  },
+  otpRequest: {
+    name: 'otp-request',
+    ip: { limit: 10, windowSeconds: HOUR },
+    phone: { limit: 10, windowSeconds: HOUR },
+  },
+  otpVerify: {
+    name: 'otp-verify',
+    ip: { limit: 20, windowSeconds: 15 * MINUTE },
+    phone: { limit: 10, windowSeconds: 15 * MINUTE },
+    lockout: SIGN_IN_LOCKOUT,
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+/**
+ * Keeps counts in this process. For development and tests; each server
+ * instance counts separately and counts are lost on restart.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+
+  private hits = new Map<string, number[]>(); // Attempt times, oldest first
+  private streaks = new Map<string, { failures: number; lastFailureAt: number; lockedUntil: number | null }>();
+
+  async consume(key: string, limit: number, windowSeconds: number, now: Date): Promise<number> {
+    const windowStart = now.getTime() - windowSeconds * 1000;
+    const recent = (this.hits.get(key) ?? []).filter(time => time > windowStart);
+
+    if (recent.length >= limit) {
+      this.hits.set(key, recent);
+      return Math.max(1, Math.ceil((recent[0] - windowStart) / 1000));
+    }
+
+    this.hits.set(key, [...recent, now.getTime()]);
+    return 0;
+  }
+
+  async recordFailure(key: string, resetSeconds: number, now: Date): Promise<number> {
+    const streak = this.streaks.get(key);
+    const continues = streak && streak.lastFailureAt >= now.getTime() - resetSeconds * 1000;
+    const failures = continues ? streak.failures + 1 : 1;
+
+    this.streaks.set(key, { failures, lastFailureAt: now.getTime(), lockedUntil: streak?.lockedUntil ?? null });
+    return failures;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const streak = this.streaks.get(key) ?? { failures: 0, lastFailureAt: until.getTime(), lockedUntil: null };
+    this.streaks.set(key, { ...streak, lockedUntil: until.getTime() });
+  }
+
+  async lockedUntil(key: string): Promise<Date | null> {
+    const lockedUntil = this.streaks.get(key)?.lockedUntil;
+    return lockedUntil ? new Date(lockedUntil) : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.streaks.delete(key);
+  }
+}
+
+/**
+ * Keeps counts in the rate_limit_hits and rate_limit_lockouts tables, shared
+ * by every server instance. Needs a service-role client, since the tables
+ * have no RLS policies.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async consume(key: string, limit: number, windowSeconds: number, now: Date): Promise<number> {
+    const { data, error } = await this.supabase.rpc('consume_rate_limit', {
+      p_key: key,
+      p_limit: limit,
+      p_window_seconds: windowSeconds,
+      p_now: now.toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as number;
+  }
+
+  async recordFailure(key: string, resetSeconds: number, now: Date): Promise<number> {
+    const { data, error } = await this.supabase.rpc('record_rate_limit_failure', {
+      p_key: key,
+      p_reset_seconds: resetSeconds,
+      p_now: now.toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as number;
+  }
+
+  async lock(key: string, until: Date): Promise<void> {
+    const { error } = await this.supabase
+      .from('rate_limit_lockouts')
+      .upsert({ key, locked_until: until.toISOString() }, { onConflict: 'key' });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async lockedUntil(key: string): Promise<Date | null> {
+    const { data, error } = await this.supabase
+      .from('rate_limit_lockouts')
+      .select('locked_until')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.locked_until ? new Date(data.locked_until) : null;
+  }
+
+  async reset(key: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('rate_limit_lockouts')
+      .delete()
+      .eq('key', key);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+type RateLimitStoreFactory = () => RateLimitStore;
+
+// One in-memory store per process, so counts survive between requests
+const memoryStore = new MemoryRateLimitStore();
+
+const stores: Record<string, RateLimitStoreFactory> = {
+  memory: () => memoryStore,
+  postgres: () => new PostgresRateLimitStore(createAdminClient()),
+};
+
+/**
+ * Makes another store selectable through RATE_LIMIT_STORE
+ */
+export function registerRateLimitStore(name: string, factory: RateLimitStoreFactory): void {
+  stores[name] = factory;
+}
+
+/**
+ * Returns the store named by RATE_LIMIT_STORE (defaults to postgres in
+ * production and memory otherwise)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const name = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+  const factory = stores[name];
+
+  if (!factory) {
+    throw new Error(`Unknown rate limit store "${name}"`);
+  }
+
+  return factory();
+}
+
+const rateLimitKey = (policy: RateLimitPolicy, kind: 'ip' | 'phone', value: string) => `${policy.name}:${kind}:${value}`;
+
+const secondsUntil = (time: Date, now: Date) => Math.max(1, Math.ceil((time.getTime() - now.getTime()) / 1000));
+
+/**
+ * How long a phone number is locked out after this many failures in a row
+ */
+export function lockoutSeconds(failures: number, policy: LockoutPolicy): number {
+  if (failures < policy.failures) {
+    return 0;
+  }
+
+  return Math.min(policy.baseSeconds * 2 ** (failures - policy.failures), policy.maxSeconds);
+}
+
+/**
+ * Counts an attempt against the IP address and the phone number. Returns
+ * null when the attempt may go ahead.
+ */
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  subject: RateLimitSubject,
+  store: RateLimitStore = getRateLimitStore(),
+  now: Date = new Date()
+): Promise<RateLimited | null> {
+  const phoneKey = rateLimitKey(policy, 'phone', subject.phoneNumber);
+
+  if (policy.lockout) {
+    const lockedUntil = await store.lockedUntil(phoneKey);
+    if (lockedUntil && lockedUntil > now) {
+      return { retryAfterSeconds: secondsUntil(lockedUntil, now), locked: true };
+    }
+  }
+
+  const limits: [string, RateLimit][] = [[phoneKey, policy.phone]];
+  if (subject.ip) {
+    limits.unshift([rateLimitKey(policy, 'ip', subject.ip), policy.ip]);
+  }
+
+  for (const [key, { limit, windowSeconds }] of limits) {
+    const retryAfterSeconds = await store.consume(key, limit, windowSeconds, now);
+    if (retryAfterSeconds > 0) {
+      return { retryAfterSeconds, locked: false };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Records a failed attempt (wrong password or code) for a phone number.
+ * Returns the lockout when this failure started one.
+ */
+export async function recordRateLimitFailure(
+  policy: RateLimitPolicy,
+  phoneNumber: string,
+  store: RateLimitStore = getRateLimitStore(),
+  now: Date = new Date()
+): Promise<RateLimited | null> {
+  if (!policy.lockout) {
+    return null;
+  }
+
+  const key = rateLimitKey(policy, 'phone', phoneNumber);
+  const failures = await store.recordFailure(key, policy.lockout.resetSeconds, now);
+  const seconds = lockoutSeconds(failures, policy.lockout);
+
+  if (seconds === 0) {
+    return null;
+  }
+
+  await store.lock(key, new Date(now.getTime() + seconds * 1000));
+  return { retryAfterSeconds: seconds, locked: true };
+}
+
+/**
+ * Ends a phone number's failure streak after a successful sign-in
+ */
+export async function resetRateLimitFailures(
+  policy: RateLimitPolicy,
+  phoneNumber: string,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<void> {
+  if (policy.lockout) {
+    await store.reset(rateLimitKey(policy, 'phone', phoneNumber));
+  }
+}
@@ -0,0 +1,365 @@
+import type { GeolocationError } from '@/lib/services/location';
+import { ActivityType, type TrackPoint, type TrackSegment } from '@/types/database';
+import {
+  computeSplits,
+  paceSecondsPerUnit,
+  pointDistanceMeters,
+  pointIntervalMs,
+  summarizeTrack,
+  type ActivitySplit,
+  type DistanceUnit,
+} from '@/lib/services/activities';
+
+// Lifecycle of a recording
+export type RecorderStatus = 'idle' | 'recording' | 'paused' | 'auto-paused' | 'stopped';
+
+// Live state passed to the UI on every change
+export interface RecordingSnapshot {
+  status: RecorderStatus;
+  track: TrackSegment[];
+  distance_meters: number;
+  moving_seconds: number;
+  elapsed_seconds: number;
+  current_pace_seconds: number | null; // Seconds per unit over the last few seconds
+  average_pace_seconds: number | null; // Seconds per unit over moving time
+  splits: ActivitySplit[];
+  accuracy_meters: number | null; // Accuracy of the latest fix
+  wake_lock_active: boolean;
+  error: GeolocationError | null;
+}
+
+// Tuning for jitter filtering and auto-pause
+export interface RecorderOptions {
+  unit: DistanceUnit;
+  activityType: ActivityType;
+  autoPause: boolean;
+}
+
+// Fixes less accurate than this are ignored
+const MAX_ACCURACY_METERS = 30;
+// Movement smaller than this (or half the fix accuracy) is treated as jitter
+const MIN_MOVEMENT_METERS = 4;
+// No qualifying movement for this long triggers auto-pause
+const AUTO_PAUSE_AFTER_MS = 10000;
+// Window used for the current pace
+const CURRENT_PACE_WINDOW_MS = 30000;
+const TICK_INTERVAL_MS = 1000;
+
+// Fastest plausible speed per activity; faster jumps are GPS glitches
+const MAX_SPEED_MPS: Partial<Record<ActivityType, number>> = {
+  [ActivityType.BIKE]: 30,
+  [ActivityType.RUN]: 12,
+  [ActivityType.WALK]: 4,
+  [ActivityType.HIKE]: 4,
+};
+const DEFAULT_MAX_SPEED_MPS = 12;
+// After this many rejected jumps in a row, the last kept point was the glitch
+const MAX_REJECTED_JUMPS = 5;
+
+/**
+ * Records a GPS track with watchPosition. Pauses (manual or automatic)
+ * close the current segment so paused time and drift are not counted.
+ */
+export class ActivityRecorder {
+  private options: RecorderOptions;
+  private onUpdate: (snapshot: RecordingSnapshot) => void;
+
+  private status: RecorderStatus = 'idle';
+  private track: TrackSegment[] = [];
+  private segmentOpen = false;
+  private startedAt: number | null = null;
+  private stoppedAt: number | null = null;
+  private lastMovedAt = 0;
+  private lastFixAt = 0;
+  private rejectedJumps = 0;
+  private accuracy: number | null = null;
+  private error: GeolocationError | null = null;
+
+  private watchId: number | null = null;
+  private tickId: ReturnType<typeof setInterval> | null = null;
+  private wakeLock: WakeLockSentinel | null = null;
+
+  constructor(options: RecorderOptions, onUpdate: (snapshot: RecordingSnapshot) => void) {
+    this.options = options;
+    this.onUpdate = onUpdate;
+  }
+
+  /**
+   * Checks whether this browser can record a track
+   */
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'geolocation' in navigator;
+  }
+
+  /**
+   * Starts watching the position and keeps the screen awake
+   */
+  start(): void {
+    if (this.status !== 'idle' || !ActivityRecorder.isSupported()) {
+      return;
+    }
+
+    this.status = 'recording';
+    this.startedAt = Date.now();
+    this.lastMovedAt = this.startedAt;
+
+    this.watchId = navigator.geolocation.watchPosition(
+      (position) => this.handlePosition(position),
+      (error) => this.handleError(error),
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 20000 }
+    );
+    this.tickId = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    void this.acquireWakeLock();
+    this.emit();
+  }
+
+  /**
+   * Pauses manually; movement until resume() is not recorded
+   */
+  pause(): void {
+    if (this.status !== 'recording' && this.status !== 'auto-paused') {
+      return;
+    }
+
+    this.status = 'paused';
+    this.segmentOpen = false;
+    this.emit();
+  }
+
+  resume(): void {
+    if (this.status !== 'paused') {
+      return;
+    }
+
+    this.status = 'recording';
+    this.lastMovedAt = Date.now();
+    this.emit();
+  }
+
+  /**
+   * Stops recording and releases the GPS and wake lock
+   */
+  stop(): RecordingSnapshot {
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+    if (this.tickId !== null) {
+      clearInterval(this.tickId);
+      this.tickId = null;
+    }
+
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    void this.releaseWakeLock();
+
+    if (this.status !== 'stopped') {
+      this.status = 'stopped';
+      this.stoppedAt = Date.now();
+      // Single-point segments carry no distance or time
+      this.track = this.track.filter(segment => segment.length > 1);
+    }
+
+    const snapshot = this.snapshot();
+    this.onUpdate(snapshot);
+    return snapshot;
+  }
+
+  setUnit(unit: DistanceUnit): void {
+    this.options = { ...this.options, unit };
+    this.emit();
+  }
+
+  setAutoPause(autoPause: boolean): void {
+    this.options = { ...this.options, autoPause };
+    if (!autoPause && this.status === 'auto-paused') {
+      this.status = 'recording';
+      this.lastMovedAt = Date.now();
+    }
+    this.emit();
+  }
+
+  private handlePosition(position: GeolocationPosition): void {
+    this.error = null;
+    this.accuracy = position.coords.accuracy;
+
+    if (this.status !== 'recording' && this.status !== 'auto-paused') {
+      this.emit();
+      return;
+    }
+
+    if (position.coords.accuracy > MAX_ACCURACY_METERS) {
+      this.emit();
+      return;
+    }
+
+    const fixAt = position.timestamp;
+    const point: TrackPoint = {
+      lat: position.coords.latitude,
+      lng: position.coords.longitude,
+      time: new Date(fixAt).toISOString(),
+      elevation: position.coords.altitude,
+      heart_rate: null,
+    };
+
+    const previousFixAt = this.lastFixAt;
+    this.lastFixAt = fixAt;
+
+    const current = this.track[this.track.length - 1];
+    const last = current?.[current.length - 1];
+
+    // First fix, or first fix after a manual pause
+    if (!last || (!this.segmentOpen && this.status === 'recording')) {
+      this.track.push([point]);
+      this.segmentOpen = true;
+      this.lastMovedAt = fixAt;
+      this.emit();
+      return;
+    }
+
+    const distance = pointDistanceMeters(last, point);
+    const seconds = pointIntervalMs(last, point) / 1000;
+
+    if (seconds <= 0) {
+      return;
+    }
+
+    const maxSpeed = MAX_SPEED_MPS[this.options.activityType] ?? DEFAULT_MAX_SPEED_MPS;
+    if (distance / seconds > maxSpeed) {
+      this.rejectedJumps += 1;
+      if (this.rejectedJumps >= MAX_REJECTED_JUMPS) {
+        this.rejectedJumps = 0;
+        this.status = 'recording';
+        this.track.push([point]);
+        this.segmentOpen = true;
+        this.lastMovedAt = fixAt;
+      }
+      this.emit();
+      return;
+    }
+    this.rejectedJumps = 0;
+
+    // Too close to the last point to be real movement
+    if (distance < Math.max(MIN_MOVEMENT_METERS, position.coords.accuracy / 2)) {
+      this.checkAutoPause(fixAt);
+      this.emit();
+      return;
+    }
+
+    if (this.status === 'auto-paused') {
+      // Moving again: start a new segment from where we stopped, as of the
+      // last stationary fix, so only the time since then counts
+      this.status = 'recording';
+      const resumedAt = Math.max(previousFixAt, new Date(last.time).getTime());
+      this.track.push([{ ...last, time: new Date(resumedAt).toISOString() }, point]);
+      this.segmentOpen = true;
+    } else {
+      current.push(point);
+    }
+
+    this.lastMovedAt = fixAt;
+    this.emit();
+  }
+
+  private handleError(error: GeolocationPositionError): void {
+    const types: Record<number, GeolocationError['type']> = {
+      [error.PERMISSION_DENIED]: 'PERMISSION_DENIED',
+      [error.POSITION_UNAVAILABLE]: 'POSITION_UNAVAILABLE',
+      [error.TIMEOUT]: 'TIMEOUT',
+    };
+
+    this.error = {
+      code: error.code,
+      message: error.message,
+      type: types[error.code] ?? 'UNKNOWN',
+    };
+    this.emit();
+  }
+
+  private tick(): void {
+    this.checkAutoPause(Date.now());
+    this.emit();
+  }
+
+  private checkAutoPause(now: number): void {
+    if (this.options.autoPause && this.status === 'recording' && now - this.lastMovedAt >= AUTO_PAUSE_AFTER_MS) {
+      this.status = 'auto-paused';
+      this.segmentOpen = false;
+    }
+  }
+
+  // The browser drops wake locks whenever the page is hidden
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible' && this.status !== 'stopped') {
+      void this.acquireWakeLock();
+    }
+  };
+
+  private async acquireWakeLock(): Promise<void> {
+    if (!('wakeLock' in navigator) || (this.wakeLock && !this.wakeLock.released)) {
+      return;
+    }
+
+    try {
+      this.wakeLock = await navigator.wakeLock.request('screen');
+      this.wakeLock.addEventListener('release', () => this.emit());
+      this.emit();
+    } catch (error) {
+      // Denied (e.g. battery saver); recording still works
+      console.warn('Wake lock unavailable:', error);
+    }
+  }
+
+  private async releaseWakeLock(): Promise<void> {
+    const wakeLock = this.wakeLock;
+    this.wakeLock = null;
+
+    try {
+      await wakeLock?.release();
+    } catch (error) {
+      console.warn('Wake lock release error:', error);
+    }
+  }
+
+  private currentPace(): number | null {
+    const current = this.track[this.track.length - 1];
+    if (this.status !== 'recording' || !this.segmentOpen || !current || current.length < 2) {
+      return null;
+    }
+
+    const last = current[current.length - 1];
+    let distance = 0;
+    let ms = 0;
+
+    for (let i = current.length - 1; i > 0 && ms < CURRENT_PACE_WINDOW_MS; i--) {
+      distance += pointDistanceMeters(current[i - 1], current[i]);
+      ms = pointIntervalMs(current[i - 1], last);
+    }
+
+    return paceSecondsPerUnit(distance, ms / 1000, this.options.unit);
+  }
+
+  private snapshot(): RecordingSnapshot {
+    const stats = summarizeTrack(this.track);
+    const now = this.stoppedAt ?? Date.now();
+
+    return {
+      status: this.status,
+      track: this.track.map(segment => [...segment]),
+      distance_meters: stats.distance_meters,
+      moving_seconds: stats.moving_seconds,
+      elapsed_seconds: this.startedAt ? Math.round((now - this.startedAt) / 1000) : 0,
+      current_pace_seconds: this.currentPace(),
+      average_pace_seconds: paceSecondsPerUnit(stats.distance_meters, stats.moving_seconds, this.options.unit),
+      splits: computeSplits(this.track, this.options.unit),
+      accuracy_meters: this.accuracy,
+      wake_lock_active: !!this.wakeLock && !this.wakeLock.released,
+      error: this.error,
+    };
+  }
+
+  private emit(): void {
+    this.onUpdate(this.snapshot());
+  }
+}
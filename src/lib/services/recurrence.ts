@@ -0,0 +1,547 @@
+import {
+  VALIDATION_LIMITS,
+  type Workout,
+  type WorkoutOccurrence,
+  type WorkoutOccurrenceException,
+} from '@/types/database';
+import {
+  dayNumberWeekday,
+  fromDayNumber,
+  fromZonedDateTime,
+  toDayNumber,
+  toZonedDateTime,
+} from '@/lib/utils/timezone';
+import {
+  validateWorkoutDuration,
+  validateWorkoutNotes,
+  validateWorkoutStartTime,
+} from '@/lib/utils/validation';
+
+// Supported subset of RFC 5545 recurrence rules
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+// Weekday codes, indexed like Date#getDay (0 = Sunday)
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sunday',
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+};
+
+// BYDAY entry: every Tuesday (ordinal null) or e.g. the 2nd / last (-1) Tuesday of the month
+export interface RecurrenceDay {
+  weekday: Weekday;
+  ordinal: number | null; // Monthly rules only
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  by_day: RecurrenceDay[]; // Empty = the start date's weekday (weekly) or day of month (monthly)
+  count: number | null; // Total occurrences including the first
+  until: string | null; // ISO timestamp of the last possible start (inclusive)
+}
+
+// Error produced while parsing a rule or exception payload
+export interface RecurrencePayloadError {
+  error: string;
+  code: string;
+}
+
+export type RecurrenceRuleResult =
+  | { data: RecurrenceRule; error?: undefined }
+  | { data?: undefined; error: RecurrencePayloadError };
+
+// Fields a host can set on one occurrence of a recurring workout
+export type OccurrenceExceptionPayload = Pick<
+  WorkoutOccurrenceException,
+  'occurrence_start' | 'cancelled' | 'start_time' | 'duration_minutes' | 'meeting_point_name' | 'notes'
+>;
+
+export type OccurrenceExceptionPayloadResult =
+  | { data: OccurrenceExceptionPayload; error?: undefined }
+  | { data?: undefined; error: RecurrencePayloadError };
+
+// Workout fields needed to expand its schedule
+export type SchedulableWorkout = Pick<
+  Workout,
+  'id' | 'start_time' | 'duration_minutes' | 'meeting_point_name' | 'notes' | 'recurrence_rule' | 'timezone'
+>;
+
+// Guards against runaway loops for rules whose occurrences are rare or none
+const MAX_PERIODS = 20000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const BYDAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+/**
+ * Parses an RRULE value ("FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10", optionally
+ * prefixed with "RRULE:"). Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL,
+ * BYDAY, COUNT and UNTIL; a date-only or floating UNTIL is read in timeZone.
+ */
+export function parseRecurrenceRule(value: string, timeZone: string): RecurrenceRuleResult {
+  const fail = (error: string): RecurrenceRuleResult => ({ error: { error, code: 'INVALID_RECURRENCE' } });
+  const fields = new Map<string, string>();
+
+  for (const part of value.trim().replace(/^RRULE:/i, '').toUpperCase().split(';')) {
+    if (part === '') continue;
+
+    const [key, fieldValue, ...rest] = part.split('=');
+    if (!fieldValue || rest.length > 0) {
+      return fail(`Invalid recurrence rule part "${part}"`);
+    }
+    if (fields.has(key)) {
+      return fail(`${key} appears more than once in the recurrence rule`);
+    }
+    fields.set(key, fieldValue);
+  }
+
+  for (const key of fields.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      return fail(`Recurrence rules do not support ${key}`);
+    }
+  }
+
+  const freq = fields.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+    return fail('Workouts can repeat daily, weekly or monthly');
+  }
+
+  let interval = 1;
+  if (fields.has('INTERVAL')) {
+    interval = Number(fields.get('INTERVAL'));
+    if (!Number.isInteger(interval) || interval < 1 || interval > VALIDATION_LIMITS.RECURRENCE_INTERVAL_MAX) {
+      return fail(`Repeat interval must be between 1 and ${VALIDATION_LIMITS.RECURRENCE_INTERVAL_MAX}`);
+    }
+  }
+
+  const byDay: RecurrenceDay[] = [];
+  for (const entry of fields.get('BYDAY')?.split(',') || []) {
+    const match = BYDAY_PATTERN.exec(entry);
+    if (!match) {
+      return fail(`Invalid weekday "${entry}" in recurrence rule`);
+    }
+
+    const ordinal = match[1] ? Number(match[1]) : null;
+    if (ordinal !== null && (freq !== 'MONTHLY' || ordinal === 0 || Math.abs(ordinal) > 5)) {
+      return fail('Numbered weekdays like 2TU are only supported for monthly workouts');
+    }
+
+    const weekday = match[2] as Weekday;
+    if (!byDay.some(day => day.weekday === weekday && day.ordinal === ordinal)) {
+      byDay.push({ weekday, ordinal });
+    }
+  }
+
+  if (fields.has('COUNT') && fields.has('UNTIL')) {
+    return fail('A recurrence rule can end after a number of times or on a date, not both');
+  }
+
+  let count: number | null = null;
+  if (fields.has('COUNT')) {
+    count = Number(fields.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1 || count > VALIDATION_LIMITS.RECURRENCE_COUNT_MAX) {
+      return fail(`A workout can repeat between 1 and ${VALIDATION_LIMITS.RECURRENCE_COUNT_MAX} times`);
+    }
+  }
+
+  let until: string | null = null;
+  if (fields.has('UNTIL')) {
+    const untilMs = parseUntil(fields.get('UNTIL')!, timeZone);
+    if (untilMs === null) {
+      return fail('Recurrence end date must look like 20261231 or 20261231T235959Z');
+    }
+    until = new Date(untilMs).toISOString();
+  }
+
+  return { data: { freq, interval, by_day: byDay, count, until } };
+}
+
+/**
+ * Reads an UNTIL value; date-only values include the whole day
+ */
+function parseUntil(value: string, timeZone: string): number | null {
+  const match = UNTIL_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const zoned = {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: hour ? Number(hour) : 23,
+    minute: minute ? Number(minute) : 59,
+    second: second ? Number(second) : 59,
+  };
+
+  // Reject dates like 20260231 that Date.UTC would roll over
+  const check = new Date(Date.UTC(zoned.year, zoned.month - 1, zoned.day));
+  if (check.getUTCMonth() !== zoned.month - 1 || check.getUTCDate() !== zoned.day || zoned.hour > 23 || zoned.minute > 59 || zoned.second > 59) {
+    return null;
+  }
+
+  if (utc) {
+    return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  }
+
+  return fromZonedDateTime(zoned, timeZone);
+}
+
+/**
+ * Formats a rule as an RRULE value (without the "RRULE:" prefix). UNTIL is
+ * always written in UTC as RFC 5545 requires for zoned start times.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+
+  if (rule.by_day.length > 0) {
+    parts.push(`BYDAY=${rule.by_day.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`);
+  }
+
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    parts.push(`UNTIL=${new Date(rule.until).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Parses a workout's stored recurrence rule (null for one-off workouts)
+ */
+export function getRecurrenceRule(workout: Pick<Workout, 'recurrence_rule' | 'timezone'>): RecurrenceRule | null {
+  if (!workout.recurrence_rule || !workout.timezone) {
+    return null;
+  }
+
+  return parseRecurrenceRule(workout.recurrence_rule, workout.timezone).data || null;
+}
+
+function ordinalLabel(ordinal: number): string {
+  if (ordinal === -1) return 'last';
+  if (ordinal < 0) return `${ordinalLabel(-ordinal)} to last`;
+  return ['1st', '2nd', '3rd', '4th', '5th'][ordinal - 1];
+}
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words.join('');
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+/**
+ * Describes a rule for display: "Every week on Tuesday and Thursday at
+ * 6:00 AM, 10 times" (the time of day is included when startTime is given)
+ */
+export function describeRecurrence(rule: RecurrenceRule, timeZone: string, startTime?: string): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.by_day.length > 0) {
+    const days = rule.by_day.map(day => (
+      day.ordinal === null ? WEEKDAY_NAMES[day.weekday] : `the ${ordinalLabel(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}`
+    ));
+    text += ` on ${joinWords(days)}`;
+  }
+
+  if (startTime) {
+    text += ` at ${new Date(startTime).toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' })}`;
+  }
+
+  if (rule.count !== null) {
+    text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  } else if (rule.until) {
+    const untilDate = new Date(rule.until).toLocaleDateString('en-US', {
+      timeZone,
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    text += `, until ${untilDate}`;
+  }
+
+  return text;
+}
+
+/**
+ * Days (see toDayNumber) that are candidates in the nth period of a rule,
+ * in ascending order
+ */
+function periodDays(rule: RecurrenceRule, startDay: number, period: number): number[] {
+  const start = fromDayNumber(startDay);
+  const weekdays = rule.by_day.map(day => WEEKDAYS.indexOf(day.weekday));
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + period * rule.interval;
+      return weekdays.length === 0 || weekdays.includes(dayNumberWeekday(day)) ? [day] : [];
+    }
+
+    case 'WEEKLY': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = startDay - ((dayNumberWeekday(startDay) + 6) % 7) + period * rule.interval * 7;
+      const days = (weekdays.length > 0 ? weekdays : [dayNumberWeekday(startDay)])
+        .map(weekday => weekStart + ((weekday + 6) % 7));
+      return [...new Set(days)].sort((a, b) => a - b);
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + (start.month - 1) + period * rule.interval;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const firstDay = toDayNumber(year, month, 1);
+      const daysInMonth = toDayNumber(year, month + 1, 1) - firstDay;
+
+      // Without BYDAY, months too short for the start date's day are skipped
+      if (rule.by_day.length === 0) {
+        return start.day <= daysInMonth ? [firstDay + start.day - 1] : [];
+      }
+
+      const days = new Set<number>();
+      for (const { weekday, ordinal } of rule.by_day) {
+        const index = WEEKDAYS.indexOf(weekday);
+        const matches: number[] = [];
+        for (let day = firstDay + ((index - dayNumberWeekday(firstDay) + 7) % 7); day < firstDay + daysInMonth; day += 7) {
+          matches.push(day);
+        }
+
+        if (ordinal === null) {
+          matches.forEach(day => days.add(day));
+        } else {
+          const day = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+          if (day !== undefined) days.add(day);
+        }
+      }
+      return [...days].sort((a, b) => a - b);
+    }
+  }
+}
+
+/**
+ * Expands a rule into occurrence start times (UTC milliseconds) within
+ * [from, to). Occurrences keep the first start's wall-clock time in
+ * timeZone, so a 6am run stays at 6am across DST changes. As in RFC 5545
+ * the first start always counts as an occurrence.
+ */
+export function recurrenceStarts(
+  startTime: string,
+  rule: RecurrenceRule,
+  timeZone: string,
+  from: number,
+  to: number
+): number[] {
+  const startMs = Date.parse(startTime);
+  const local = toZonedDateTime(startMs, timeZone);
+  const startDay = toDayNumber(local.year, local.month, local.day);
+  const untilMs = rule.until ? Date.parse(rule.until) : Infinity;
+  // Local days can be a day off from UTC days either way, so leave a margin
+  const fromDay = Math.floor(from / MS_PER_DAY) - 2;
+
+  const starts: number[] = [];
+  let emitted = 0;
+
+  const emit = (ms: number) => {
+    emitted++;
+    if (ms >= from && ms < to) {
+      starts.push(ms);
+    }
+  };
+
+  emit(startMs);
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const days = periodDays(rule, startDay, period);
+
+    // Without COUNT, periods that end before the window need no conversion
+    if (rule.count === null && days.length > 0 && days[days.length - 1] < fromDay) {
+      continue;
+    }
+
+    for (const day of days) {
+      const ms = fromZonedDateTime({ ...fromDayNumber(day), hour: local.hour, minute: local.minute, second: local.second }, timeZone);
+
+      if (ms <= startMs) continue;
+      if (ms > untilMs || ms >= to || (rule.count !== null && emitted >= rule.count)) {
+        return starts;
+      }
+      emit(ms);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Finds when a rule's last occurrence starts (UTC milliseconds), or null
+ * when the rule repeats indefinitely
+ */
+export function recurrenceEnd(startTime: string, rule: RecurrenceRule, timeZone: string): number | null {
+  if (rule.count === null && rule.until === null) {
+    return null;
+  }
+
+  const starts = recurrenceStarts(startTime, rule, timeZone, Date.parse(startTime), Infinity);
+  return starts[starts.length - 1];
+}
+
+/**
+ * Builds an occurrence of a workout, applying its exception if there is one
+ */
+export function toWorkoutOccurrence(
+  workout: SchedulableWorkout,
+  occurrenceStartMs: number,
+  exception?: Pick<WorkoutOccurrenceException, 'cancelled' | 'start_time' | 'duration_minutes' | 'meeting_point_name' | 'notes'>
+): WorkoutOccurrence {
+  const occurrenceStart = new Date(occurrenceStartMs).toISOString();
+
+  return {
+    workout_id: workout.id,
+    occurrence_start: occurrenceStart,
+    start_time: exception?.start_time ? new Date(exception.start_time).toISOString() : occurrenceStart,
+    duration_minutes: exception?.duration_minutes ?? workout.duration_minutes,
+    meeting_point_name: exception?.meeting_point_name ?? workout.meeting_point_name,
+    notes: exception?.notes ?? workout.notes,
+    cancelled: exception?.cancelled ?? false,
+    modified: !!exception,
+  };
+}
+
+/**
+ * Checks whether a start time is one of a workout's scheduled occurrences
+ */
+export function isWorkoutOccurrence(workout: SchedulableWorkout, occurrenceStart: string): boolean {
+  const ms = Date.parse(occurrenceStart);
+  const rule = getRecurrenceRule(workout);
+
+  if (!rule) {
+    return ms === Date.parse(workout.start_time);
+  }
+
+  return recurrenceStarts(workout.start_time, rule, workout.timezone!, ms, ms + 1).length === 1;
+}
+
+/**
+ * Lists a workout's occurrences whose (possibly moved) start falls within
+ * [from, to), including cancelled ones, ordered by start time
+ */
+export function expandWorkoutOccurrences(
+  workout: SchedulableWorkout,
+  exceptions: WorkoutOccurrenceException[],
+  from: Date,
+  to: Date
+): WorkoutOccurrence[] {
+  const fromMs = from.getTime();
+  const toMs = to.getTime();
+  const inWindow = (ms: number) => ms >= fromMs && ms < toMs;
+  const exceptionsByStart = new Map(exceptions.map(exception => [Date.parse(exception.occurrence_start), exception]));
+
+  const rule = getRecurrenceRule(workout);
+  const starts = rule
+    ? recurrenceStarts(workout.start_time, rule, workout.timezone!, fromMs, toMs)
+    : [Date.parse(workout.start_time)].filter(inWindow);
+
+  const occurrences = starts.map(ms => toWorkoutOccurrence(workout, ms, exceptionsByStart.get(ms)));
+
+  // Occurrences moved into the window from outside it
+  for (const [originalMs, exception] of exceptionsByStart) {
+    if (
+      exception.start_time &&
+      !inWindow(originalMs) &&
+      inWindow(Date.parse(exception.start_time)) &&
+      isWorkoutOccurrence(workout, exception.occurrence_start)
+    ) {
+      occurrences.push(toWorkoutOccurrence(workout, originalMs, exception));
+    }
+  }
+
+  return occurrences
+    .filter(occurrence => inWindow(Date.parse(occurrence.start_time)))
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+/**
+ * Finds the next occurrence that hasn't been cancelled, looking up to a
+ * year ahead (null when the series has ended)
+ */
+export function nextWorkoutOccurrence(
+  workout: SchedulableWorkout,
+  exceptions: WorkoutOccurrenceException[],
+  now: Date = new Date()
+): WorkoutOccurrence | null {
+  const to = new Date(now.getTime() + VALIDATION_LIMITS.OCCURRENCE_WINDOW_MAX_DAYS * MS_PER_DAY);
+  return expandWorkoutOccurrences(workout, exceptions, now, to).find(occurrence => !occurrence.cancelled) || null;
+}
+
+/**
+ * Validates a request to cancel or change one occurrence. Fields that are
+ * left out keep the series' values.
+ */
+export function parseOccurrenceExceptionPayload(body: Record<string, unknown>): OccurrenceExceptionPayloadResult {
+  const fail = (error: string, code: string): OccurrenceExceptionPayloadResult => ({ error: { error, code } });
+
+  if (typeof body.occurrence_start !== 'string' || isNaN(Date.parse(body.occurrence_start))) {
+    return fail('occurrence_start must be the scheduled start of an occurrence', 'INVALID_OCCURRENCE');
+  }
+
+  const data: OccurrenceExceptionPayload = {
+    occurrence_start: new Date(body.occurrence_start).toISOString(),
+    cancelled: false,
+    start_time: null,
+    duration_minutes: null,
+    meeting_point_name: null,
+    notes: null,
+  };
+
+  if (body.cancelled !== undefined) {
+    if (typeof body.cancelled !== 'boolean') {
+      return fail('cancelled must be true or false', 'INVALID_CANCELLED');
+    }
+    data.cancelled = body.cancelled;
+  }
+
+  if (body.start_time !== undefined && body.start_time !== null) {
+    const result = validateWorkoutStartTime(body.start_time as string);
+    if (!result.valid) return fail(result.message!, 'INVALID_START_TIME');
+    data.start_time = new Date(body.start_time as string).toISOString();
+  }
+
+  if (body.duration_minutes !== undefined && body.duration_minutes !== null) {
+    const result = validateWorkoutDuration(body.duration_minutes as number);
+    if (!result.valid) return fail(result.message!, 'INVALID_DURATION');
+    data.duration_minutes = body.duration_minutes as number;
+  }
+
+  if (body.meeting_point_name !== undefined && body.meeting_point_name !== null) {
+    if (typeof body.meeting_point_name !== 'string') {
+      return fail('Meeting point name must be a string or null', 'INVALID_LOCATION_NAME');
+    }
+    data.meeting_point_name = body.meeting_point_name.trim() || null;
+  }
+
+  if (body.notes !== undefined && body.notes !== null) {
+    const result = validateWorkoutNotes(body.notes as string);
+    if (!result.valid) return fail(result.message!, 'INVALID_NOTES');
+    data.notes = (body.notes as string).trim() || null;
+  }
+
+  if (!data.cancelled && !data.start_time && data.duration_minutes === null && !data.meeting_point_name && !data.notes) {
+    return fail('Cancel the occurrence or change at least one of its details', 'NO_UPDATES');
+  }
+
+  return { data };
+}
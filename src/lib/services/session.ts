@@ -0,0 +1,54 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Signing users out of their other devices. Server only.
+
+// Who to sign in as: the account's phone number or email and its password
+export interface SessionCredentials {
+  phone?: string | null;
+  email?: string | null;
+  password: string;
+}
+
+/**
+ * Anon client that keeps its session in memory, for signing in without
+ * touching the request's session cookies
+ */
+export function createIsolatedClient(): SupabaseClient {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  );
+}
+
+/**
+ * Signs in with a password on an isolated client; returns the error, if any
+ */
+export async function signInIsolated(client: SupabaseClient, credentials: SessionCredentials) {
+  const { error } = credentials.phone
+    ? await client.auth.signInWithPassword({ phone: credentials.phone, password: credentials.password })
+    : await client.auth.signInWithPassword({ email: credentials.email ?? '', password: credentials.password });
+
+  return error;
+}
+
+/**
+ * Signs a user out everywhere by ending every Supabase Auth session they
+ * have. Supabase only does that on behalf of one of the user's sessions, so
+ * this signs in once more (with the password just set) and signs that
+ * session out globally. Ended sessions are refused by getUser() straight
+ * away and can no longer be refreshed.
+ */
+export async function revokeAllSessions(credentials: SessionCredentials): Promise<void> {
+  const client = createIsolatedClient();
+
+  const signInError = await signInIsolated(client, credentials);
+  if (signInError) {
+    throw signInError;
+  }
+
+  const { error } = await client.auth.signOut({ scope: 'global' });
+  if (error) {
+    throw error;
+  }
+}
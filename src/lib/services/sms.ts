@@ -0,0 +1,59 @@
+import { appendFile } from 'fs/promises';
+
+// Outgoing SMS delivery. Server only.
+
+export interface SmsMessage {
+  to: string; // E.164 phone number
+  body: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Development stand-in: prints messages to the server console and, when
+ * SMS_OUTBOX_FILE is set, appends them to that file as JSON lines.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = 'console';
+
+  constructor(private readonly outboxFile: string | undefined = process.env.SMS_OUTBOX_FILE) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[sms:${this.name}] to ${message.to}: ${message.body}`);
+
+    if (this.outboxFile) {
+      const line = JSON.stringify({ ...message, sent_at: new Date().toISOString() });
+      await appendFile(this.outboxFile, `${line}\n`, 'utf8');
+    }
+  }
+}
+
+type SmsProviderFactory = () => SmsProvider;
+
+const providers: Record<string, SmsProviderFactory> = {
+  console: () => new ConsoleSmsProvider(),
+};
+
+/**
+ * Makes a carrier integration selectable through SMS_PROVIDER
+ */
+export function registerSmsProvider(name: string, factory: SmsProviderFactory): void {
+  providers[name] = factory;
+}
+
+/**
+ * Returns the provider named by SMS_PROVIDER (defaults to the console stand-in)
+ */
+export function getSmsProvider(): SmsProvider {
+  const name = process.env.SMS_PROVIDER || 'console';
+  const factory = providers[name];
+
+  if (!factory) {
+    throw new Error(`Unknown SMS provider "${name}"`);
+  }
+
+  return factory();
+}
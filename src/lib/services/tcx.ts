@@ -0,0 +1,162 @@
+import { ActivityType, type RoutePoint, type TrackPoint, type TrackSegment } from '@/types/database';
+import {
+  childText,
+  escapeXml,
+  findChild,
+  findChildren,
+  findDescendants,
+  parseNumber,
+  parseTimestamp,
+  parseXml,
+  type XmlElement,
+} from '@/lib/utils/xml';
+import {
+  activityTypeFromLabel,
+  pointDistanceMeters,
+  sanitizeHeartRate,
+  summarizeTrack,
+} from '@/lib/services/activities';
+import type { TrackFileExport, TrackFileParseResult } from '@/lib/services/trackFiles';
+
+// TCX only knows three sports
+const TCX_SPORTS: Partial<Record<ActivityType, string>> = {
+  [ActivityType.RUN]: 'Running',
+  [ActivityType.BIKE]: 'Biking',
+};
+
+// Reads a Trackpoint; points without a Position (e.g. heart rate only) are skipped
+function readTcxPoint(element: XmlElement): (RoutePoint & Partial<TrackPoint>) | null {
+  const position = findChild(element, 'Position');
+  if (!position) {
+    return null;
+  }
+
+  const lat = parseNumber(childText(position, 'LatitudeDegrees'));
+  const lng = parseNumber(childText(position, 'LongitudeDegrees'));
+
+  if (lat === null || lng === null || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return null;
+  }
+
+  const heartRate = findChild(element, 'HeartRateBpm');
+
+  return {
+    lat,
+    lng,
+    elevation: parseNumber(childText(element, 'AltitudeMeters')),
+    time: parseTimestamp(childText(element, 'Time')) ?? undefined,
+    heart_rate: heartRate ? sanitizeHeartRate(parseNumber(childText(heartRate, 'Value'))) : null,
+  };
+}
+
+/**
+ * Parses a TCX (TrainingCenterDatabase v2) document. Each Track inside an
+ * activity lap becomes a segment; courses are read as routes.
+ */
+export function parseTcx(source: string): TrackFileParseResult {
+  const parsed = parseXml(source);
+  if (parsed.error !== undefined) {
+    return { error: `Invalid TCX file: ${parsed.error}` };
+  }
+
+  const root = parsed.root;
+  if (root.localName !== 'TrainingCenterDatabase') {
+    return { error: 'Not a TCX file' };
+  }
+
+  const activities = findDescendants(root, 'Activity');
+  const courses = findDescendants(root, 'Course');
+
+  const track: TrackSegment[] = [];
+  const route: RoutePoint[] = [];
+
+  const readTracks = (parent: XmlElement) => {
+    for (const trackElement of findDescendants(parent, 'Track')) {
+      const segment: TrackSegment = [];
+
+      for (const trackpoint of findChildren(trackElement, 'Trackpoint')) {
+        const point = readTcxPoint(trackpoint);
+        if (!point) continue;
+
+        route.push({ lat: point.lat, lng: point.lng, elevation: point.elevation });
+        if (point.time) {
+          segment.push(point as TrackPoint);
+        }
+      }
+
+      if (segment.length > 0) {
+        track.push(segment);
+      }
+    }
+  };
+
+  activities.forEach(readTracks);
+
+  // Courses are planned routes; their times (if any) are targets, not a recording
+  if (activities.length === 0) {
+    const trackCount = track.length;
+    courses.forEach(readTracks);
+    track.splice(trackCount);
+  }
+
+  const activity = activities[0];
+  const course = courses[0];
+
+  return {
+    data: {
+      name: (activity && childText(activity, 'Notes')) || (course && childText(course, 'Name')) || null,
+      activity_type: activityTypeFromLabel(activity?.attributes.Sport),
+      track,
+      route,
+    },
+  };
+}
+
+/**
+ * Writes an activity as a single-lap TCX activity, one Track per segment
+ */
+export function serializeTcx(file: TrackFileExport): string {
+  const stats = summarizeTrack(file.track);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">',
+    '  <Activities>',
+    `    <Activity Sport="${TCX_SPORTS[file.activity_type] ?? 'Other'}">`,
+    `      <Id>${stats.started_at}</Id>`,
+    `      <Lap StartTime="${stats.started_at}">`,
+    `        <TotalTimeSeconds>${stats.moving_seconds}</TotalTimeSeconds>`,
+    `        <DistanceMeters>${stats.distance_meters.toFixed(1)}</DistanceMeters>`,
+    '        <Calories>0</Calories>',
+    '        <Intensity>Active</Intensity>',
+    '        <TriggerMethod>Manual</TriggerMethod>',
+  ];
+
+  let distance = 0;
+
+  for (const segment of file.track) {
+    lines.push('        <Track>');
+
+    segment.forEach((point, index) => {
+      if (index > 0) {
+        distance += pointDistanceMeters(segment[index - 1], point);
+      }
+
+      let body = `<Time>${point.time}</Time>` +
+        `<Position><LatitudeDegrees>${point.lat}</LatitudeDegrees><LongitudeDegrees>${point.lng}</LongitudeDegrees></Position>`;
+      if (point.elevation != null) body += `<AltitudeMeters>${point.elevation.toFixed(1)}</AltitudeMeters>`;
+      body += `<DistanceMeters>${distance.toFixed(1)}</DistanceMeters>`;
+      if (point.heart_rate != null) body += `<HeartRateBpm><Value>${Math.round(point.heart_rate)}</Value></HeartRateBpm>`;
+
+      lines.push(`          <Trackpoint>${body}</Trackpoint>`);
+    });
+
+    lines.push('        </Track>');
+  }
+
+  lines.push('      </Lap>');
+  lines.push(`      <Notes>${escapeXml(file.name)}</Notes>`);
+  lines.push('    </Activity>');
+  lines.push('  </Activities>');
+  lines.push('</TrainingCenterDatabase>');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,112 @@
+import type { ActivityType, RoutePoint, TrackSegment } from '@/types/database';
+import { parseGpx, serializeGpx } from '@/lib/services/gpx';
+import { parseTcx, serializeTcx } from '@/lib/services/tcx';
+import { parseFit } from '@/lib/services/fit';
+
+// GPS file formats the app can read
+export type TrackFileFormat = 'gpx' | 'tcx' | 'fit';
+
+// Formats the app can also write (FIT is import-only)
+export type TrackFileExportFormat = Exclude<TrackFileFormat, 'fit'>;
+
+export const TRACK_FILE_FORMATS: TrackFileFormat[] = ['gpx', 'tcx', 'fit'];
+
+export const TRACK_FILE_EXPORT_FORMATS: TrackFileExportFormat[] = ['gpx', 'tcx'];
+
+export const TRACK_FILE_CONTENT_TYPES: Record<TrackFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+  fit: 'application/vnd.ant.fit',
+};
+
+// Contents of an imported file in the app's track model
+export interface ParsedTrackFile {
+  name: string | null;
+  activity_type: ActivityType | null; // Guessed from the file's sport/type label
+  track: TrackSegment[]; // Timestamped points only
+  route: RoutePoint[]; // Every point in order, timestamped or not
+}
+
+export type TrackFileParseResult =
+  | { data: ParsedTrackFile; error?: undefined }
+  | { data?: undefined; error: string };
+
+// An activity to write out
+export interface TrackFileExport {
+  name: string;
+  activity_type: ActivityType;
+  track: TrackSegment[];
+}
+
+export const isTrackFileFormat = (value: string): value is TrackFileFormat => {
+  return TRACK_FILE_FORMATS.includes(value as TrackFileFormat);
+};
+
+export const isTrackFileExportFormat = (value: string): value is TrackFileExportFormat => {
+  return TRACK_FILE_EXPORT_FORMATS.includes(value as TrackFileExportFormat);
+};
+
+/**
+ * Works out a file's format from its extension, falling back to its FIT
+ * signature or XML root element
+ */
+export function detectTrackFileFormat(fileName: string, bytes: Uint8Array): TrackFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (isTrackFileFormat(extension)) {
+    return extension;
+  }
+
+  // FIT headers carry ".FIT" at bytes 8-11
+  if (String.fromCharCode(...bytes.subarray(8, 12)) === '.FIT') {
+    return 'fit';
+  }
+
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024));
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/<TrainingCenterDatabase[\s>]/.test(head)) return 'tcx';
+  return null;
+}
+
+/**
+ * Parses a GPS file into the app's track model
+ */
+export function parseTrackFile(format: TrackFileFormat, bytes: Uint8Array): TrackFileParseResult {
+  if (format === 'fit') {
+    return parseFit(bytes);
+  }
+
+  const text = new TextDecoder().decode(bytes);
+  return format === 'gpx' ? parseGpx(text) : parseTcx(text);
+}
+
+/**
+ * Writes an activity in the given format
+ */
+export function serializeTrackFile(format: TrackFileExportFormat, file: TrackFileExport): string {
+  return format === 'gpx' ? serializeGpx(file) : serializeTcx(file);
+}
+
+/**
+ * Thins a route to at most maxPoints, keeping the first and last points
+ */
+export function simplifyRoute(route: RoutePoint[], maxPoints: number): RoutePoint[] {
+  if (route.length <= maxPoints) {
+    return route;
+  }
+
+  const step = (route.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => route[Math.round(i * step)]);
+}
+
+/**
+ * Download file name for a title, e.g. "Saturday Long Run.gpx" -> "saturday-long-run.gpx"
+ */
+export function trackFileName(title: string, format: TrackFileFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return `${slug || 'activity'}.${format}`;
+}
@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  NotificationCategory,
+  ParticipantStatus,
+  WorkoutStatus,
+  type Workout,
+  type WorkoutOccurrenceException,
+} from '@/types/database';
+import { expandWorkoutOccurrences } from '@/lib/services/recurrence';
+import { formatWorkoutTime } from '@/lib/services/workouts';
+import { getActorName, type NotificationInput } from '@/lib/services/notifications';
+import { deliverOnce, summarizeDeliveries, type DeliveryOutcome, type JobRunSummary } from '@/lib/services/jobs';
+
+// Scheduled workout alerts: reminders shortly before each workout (or
+// occurrence of a series) to everyone going or maybe going, and alerts when
+// a host cancels, restores or moves one. Changes are captured by database
+// triggers into workout_change_events and sent from there. Server only.
+
+// How long before the start reminders go out, unless WORKOUT_REMINDER_MINUTES says otherwise
+export const DEFAULT_REMINDER_LEAD_MINUTES = 60;
+
+// Change events handled per run; the rest wait for the next one
+const CHANGE_EVENTS_PER_RUN = 100;
+
+const REMINDER_STATUSES = [ParticipantStatus.GOING, ParticipantStatus.MAYBE];
+
+type ReminderWorkout = Pick<
+  Workout,
+  'id' | 'title' | 'start_time' | 'duration_minutes' | 'meeting_point_name' | 'notes' | 'recurrence_rule' | 'timezone'
+>;
+
+// Row from the workout_change_events table
+interface WorkoutChangeEvent {
+  id: string;
+  workout_id: string;
+  host_id: string;
+  kind: 'cancelled' | 'changed' | 'restored';
+  recurring: boolean;
+  workout_deleted: boolean;
+  occurrence_start: string | null;
+  title: string;
+  start_time: string;
+  previous_start_time: string | null;
+  meeting_point_name: string | null;
+  previous_meeting_point_name: string | null;
+  timezone: string | null;
+  recipient_ids: string[];
+}
+
+/**
+ * Minutes before the start that reminders are sent
+ */
+export function getReminderLeadMinutes(): number {
+  const minutes = Number(process.env.WORKOUT_REMINDER_MINUTES);
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_REMINDER_LEAD_MINUTES;
+}
+
+// Times go out in the workout's own time zone; one-off workouts may not have one
+const formatAlertTime = (startTime: string, timeZone: string | null) =>
+  formatWorkoutTime(startTime, timeZone || 'UTC');
+
+/**
+ * Reminds participants who are going or maybe going about every workout
+ * occurrence that starts within the reminder lead time
+ */
+export async function runWorkoutReminders(supabase: SupabaseClient, now: Date = new Date()): Promise<JobRunSummary> {
+  const windowEnd = new Date(now.getTime() + getReminderLeadMinutes() * 60 * 1000);
+  const columns = 'id, title, start_time, duration_minutes, meeting_point_name, notes, recurrence_rule, timezone';
+
+  const [oneOffResult, recurringResult] = await Promise.all([
+    supabase
+      .from('workouts')
+      .select(columns)
+      .eq('status', WorkoutStatus.SCHEDULED)
+      .is('recurrence_rule', null)
+      .gte('start_time', now.toISOString())
+      .lt('start_time', windowEnd.toISOString()),
+    supabase
+      .from('workouts')
+      .select(columns)
+      .eq('status', WorkoutStatus.SCHEDULED)
+      .not('recurrence_rule', 'is', null)
+      .lt('start_time', windowEnd.toISOString()),
+  ]);
+
+  if (oneOffResult.error) {
+    throw oneOffResult.error;
+  }
+  if (recurringResult.error) {
+    throw recurringResult.error;
+  }
+
+  const workouts = [...(oneOffResult.data || []), ...(recurringResult.data || [])] as ReminderWorkout[];
+
+  if (workouts.length === 0) {
+    return summarizeDeliveries([]);
+  }
+
+  const workoutIds = workouts.map(workout => workout.id);
+
+  const [exceptionsResult, participantsResult] = await Promise.all([
+    supabase
+      .from('workout_occurrence_exceptions')
+      .select('*')
+      .in('workout_id', workoutIds),
+    supabase
+      .from('workout_participants')
+      .select('workout_id, user_id')
+      .in('workout_id', workoutIds)
+      .in('status', REMINDER_STATUSES),
+  ]);
+
+  if (exceptionsResult.error) {
+    throw exceptionsResult.error;
+  }
+  if (participantsResult.error) {
+    throw participantsResult.error;
+  }
+
+  const exceptions = (exceptionsResult.data || []) as WorkoutOccurrenceException[];
+  const participants = participantsResult.data || [];
+  const outcomes: DeliveryOutcome[] = [];
+
+  for (const workout of workouts) {
+    const recipients = participants
+      .filter(participant => participant.workout_id === workout.id)
+      .map(participant => participant.user_id as string);
+
+    if (recipients.length === 0) {
+      continue;
+    }
+
+    const occurrences = expandWorkoutOccurrences(
+      workout,
+      exceptions.filter(exception => exception.workout_id === workout.id),
+      now,
+      windowEnd
+    ).filter(occurrence => !occurrence.cancelled);
+
+    for (const occurrence of occurrences) {
+      const input: NotificationInput = {
+        category: NotificationCategory.REMINDER,
+        title: `Starting soon: ${workout.title}`,
+        body: occurrence.meeting_point_name
+          ? `${formatAlertTime(occurrence.start_time, workout.timezone)} at ${occurrence.meeting_point_name}`
+          : formatAlertTime(occurrence.start_time, workout.timezone),
+        url: `/workout/${workout.id}`,
+      };
+
+      // Keyed by the actual start, so an occurrence that moves gets a fresh reminder
+      const dedupeKey = `reminder:${workout.id}:${occurrence.start_time}`;
+
+      for (const userId of recipients) {
+        outcomes.push(await deliverOnce(supabase, dedupeKey, userId, input, now));
+      }
+    }
+  }
+
+  return summarizeDeliveries(outcomes);
+}
+
+/**
+ * Describes a change event for its recipients
+ */
+function describeWorkoutChange(event: WorkoutChangeEvent, hostName: string): NotificationInput {
+  const when = formatAlertTime(event.start_time, event.timezone);
+  const base = {
+    category: NotificationCategory.CANCELLATION,
+    url: event.workout_deleted ? null : `/workout/${event.workout_id}`,
+    actor_id: event.host_id,
+  };
+
+  // A whole series has no single time worth naming
+  const wholeSeries = event.recurring && !event.occurrence_start;
+
+  if (event.kind === 'cancelled') {
+    return {
+      ...base,
+      title: `Cancelled: ${event.title}`,
+      body: wholeSeries
+        ? `${hostName} cancelled all upcoming sessions of ${event.title}`
+        : `${hostName} cancelled ${event.title} on ${when}`,
+    };
+  }
+
+  if (event.kind === 'restored') {
+    return {
+      ...base,
+      title: `Back on: ${event.title}`,
+      body: wholeSeries
+        ? `${hostName} brought back ${event.title}`
+        : `${hostName} brought back ${event.title} on ${when}`,
+    };
+  }
+
+  const changes: string[] = [];
+
+  if (event.previous_start_time) {
+    changes.push(wholeSeries
+      ? 'changed the schedule'
+      : `moved it from ${formatAlertTime(event.previous_start_time, event.timezone)} to ${when}`);
+  }
+  if (event.previous_meeting_point_name !== null || !event.previous_start_time) {
+    changes.push(event.meeting_point_name
+      ? `changed the meeting point to ${event.meeting_point_name}`
+      : 'changed the meeting point');
+  }
+
+  return {
+    ...base,
+    title: `Changed: ${event.title}`,
+    body: `${hostName} ${changes.join(' and ')}`,
+  };
+}
+
+/**
+ * Tells participants about cancellations and time or meeting point changes.
+ * An event is marked processed once nobody is left to retry.
+ */
+export async function runWorkoutChangeAlerts(supabase: SupabaseClient, now: Date = new Date()): Promise<JobRunSummary> {
+  const { data, error } = await supabase
+    .from('workout_change_events')
+    .select('*')
+    .is('processed_at', null)
+    .order('created_at', { ascending: true })
+    .limit(CHANGE_EVENTS_PER_RUN);
+
+  if (error) {
+    throw error;
+  }
+
+  const outcomes: DeliveryOutcome[] = [];
+
+  for (const event of (data || []) as WorkoutChangeEvent[]) {
+    const input = describeWorkoutChange(event, await getActorName(supabase, event.host_id));
+    const dedupeKey = `workout-change:${event.id}`;
+    const eventOutcomes: DeliveryOutcome[] = [];
+
+    for (const userId of event.recipient_ids.filter(id => id !== event.host_id)) {
+      eventOutcomes.push(await deliverOnce(supabase, dedupeKey, userId, input, now));
+    }
+    outcomes.push(...eventOutcomes);
+
+    if (eventOutcomes.every(outcome => outcome === 'sent' || outcome === 'skipped')) {
+      const { error: updateError } = await supabase
+        .from('workout_change_events')
+        .update({ processed_at: now.toISOString() })
+        .eq('id', event.id);
+
+      if (updateError) {
+        throw updateError;
+      }
+    }
+  }
+
+  return summarizeDeliveries(outcomes);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isWorkoutOpen, parseWorkoutPayload, resolveWorkoutSchedule } from '@/lib/services/workouts';
+
+// Tuesday 2026-03-03 06:00 in New York
+const START = '2026-03-03T11:00:00.000Z';
+
+const RECURRING = { start_time: START, recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU', timezone: 'America/New_York' };
+const ONE_OFF = { start_time: START, recurrence_rule: null, timezone: null };
+
+const changes = (body: Record<string, unknown>) => parseWorkoutPayload(body, { partial: true }).data!;
+
+describe('resolveWorkoutSchedule', () => {
+  it("reads a new rule in the stored row's time zone", () => {
+    const result = resolveWorkoutSchedule(changes({ recurrence_rule: 'rrule:freq=weekly;interval=2' }), RECURRING);
+
+    expect(result).toEqual({ data: { recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2', recurrence_ends_at: null } });
+  });
+
+  it('requires a time zone when neither the changes nor the row have one', () => {
+    const result = resolveWorkoutSchedule(changes({ recurrence_rule: 'FREQ=DAILY' }), ONE_OFF);
+
+    expect(result.error?.code).toBe('INVALID_TIMEZONE');
+  });
+
+  it('refuses to clear the time zone of a repeating workout', () => {
+    const result = resolveWorkoutSchedule(changes({ timezone: null }), RECURRING);
+
+    expect(result.error?.code).toBe('INVALID_TIMEZONE');
+  });
+
+  it('allows clearing the time zone together with the rule', () => {
+    const result = resolveWorkoutSchedule(changes({ timezone: null, recurrence_rule: null }), RECURRING);
+
+    expect(result).toEqual({ data: { timezone: null, recurrence_rule: null, recurrence_ends_at: null } });
+  });
+
+  it('rejects invalid rules', () => {
+    const result = resolveWorkoutSchedule(changes({ recurrence_rule: 'FREQ=YEARLY' }), RECURRING);
+
+    expect(result.error?.code).toBe('INVALID_RECURRENCE');
+  });
+
+  it('records when a counted series starts its last occurrence', () => {
+    const result = resolveWorkoutSchedule(changes({ recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3' }), RECURRING);
+
+    // Daylight saving time starts on March 8, so the wall-clock time holds at 6am
+    expect(result.data?.recurrence_ends_at).toBe('2026-03-17T10:00:00.000Z');
+  });
+
+  it('moves the end of the series with its start time', () => {
+    const counted = { ...RECURRING, recurrence_rule: 'FREQ=DAILY;COUNT=2' };
+    const result = resolveWorkoutSchedule(changes({ start_time: '2030-06-03T10:00:00.000Z' }), counted);
+
+    expect(result.data?.recurrence_ends_at).toBe('2030-06-04T10:00:00.000Z');
+  });
+
+  it('leaves changes that do not touch the schedule alone', () => {
+    expect(resolveWorkoutSchedule(changes({ title: 'Tempo run' }), RECURRING)).toEqual({ data: { title: 'Tempo run' } });
+  });
+});
+
+describe('isWorkoutOpen', () => {
+  const now = new Date('2026-04-01T00:00:00.000Z');
+
+  it('closes one-off workouts once they start', () => {
+    expect(isWorkoutOpen({ ...ONE_OFF, recurrence_ends_at: null }, now)).toBe(false);
+    expect(isWorkoutOpen({ ...ONE_OFF, start_time: '2026-04-02T00:00:00.000Z', recurrence_ends_at: null }, now)).toBe(true);
+  });
+
+  it('keeps recurring workouts open until their last occurrence starts', () => {
+    expect(isWorkoutOpen({ ...RECURRING, recurrence_ends_at: null }, now)).toBe(true);
+    expect(isWorkoutOpen({ ...RECURRING, recurrence_ends_at: '2026-04-07T10:00:00.000Z' }, now)).toBe(true);
+    expect(isWorkoutOpen({ ...RECURRING, recurrence_ends_at: '2026-03-17T10:00:00.000Z' }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  geoPointToEWKT,
+  ParticipantStatus,
+  type ActivityType,
+  type GeoPoint,
+  type Workout,
+  type WorkoutInsert,
+  type WorkoutParticipantWithUser,
+  type WorkoutRsvpSummary,
+  type WorkoutUpdate,
+} from '@/types/database';
+import {
+  validateActivityType,
+  validatePaceRange,
+  validateWorkoutCapacity,
+  validateWorkoutDuration,
+  validateWorkoutNotes,
+  validateWorkoutStartTime,
+  validateWorkoutTitle,
+} from '@/lib/utils/validation';
+import { isValidTimeZone } from '@/lib/utils/timezone';
+import {
+  describeRecurrence,
+  formatRecurrenceRule,
+  getRecurrenceRule,
+  parseRecurrenceRule,
+  recurrenceEnd,
+} from '@/lib/services/recurrence';
+
+// Columns returned by the workouts API (host joined for display)
+export const WORKOUT_SELECT = '*, host:users!workouts_host_id_fkey(id, name)';
+
+// Columns returned for workout participants (user joined for display)
+export const PARTICIPANT_SELECT = '*, user:users!workout_participants_user_id_fkey(id, name)';
+
+// HTTP status for application error codes raised by the RSVP database functions
+export const RSVP_ERROR_STATUS: Record<string, number> = {
+  NOT_AUTHENTICATED: 401,
+  INVALID_STATUS: 400,
+  WORKOUT_NOT_FOUND: 404,
+  RSVP_NOT_FOUND: 404,
+  HOST_CANNOT_RSVP: 409,
+  WORKOUT_CANCELLED: 409,
+  WORKOUT_STARTED: 409,
+};
+
+// Error produced while parsing a workout payload
+export interface WorkoutPayloadError {
+  error: string;
+  code: string;
+}
+
+export type WorkoutPayloadResult =
+  | { data: WorkoutUpdate; error?: undefined }
+  | { data?: undefined; error: WorkoutPayloadError };
+
+// Fields a workout payload must contain when creating a workout
+const REQUIRED_FIELDS = ['title', 'activity_type', 'start_time', 'duration_minutes'] as const;
+
+/**
+ * Checks that a value is a GeoJSON point with valid coordinates
+ */
+export function isGeoPoint(value: unknown): value is GeoPoint {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const point = value as Record<string, unknown>;
+  if (point.type !== 'Point' || !Array.isArray(point.coordinates) || point.coordinates.length !== 2) {
+    return false;
+  }
+
+  const [lng, lat] = point.coordinates;
+  return (
+    typeof lng === 'number' &&
+    typeof lat === 'number' &&
+    lng >= -180 &&
+    lng <= 180 &&
+    lat >= -90 &&
+    lat <= 90
+  );
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) workout
+ * payload and returns the normalized fields. An update's repeat settings
+ * depend on the stored row, so pass it through resolveWorkoutSchedule too.
+ */
+export function parseWorkoutPayload(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): WorkoutPayloadResult {
+  const fail = (error: string, code: string): WorkoutPayloadResult => ({ error: { error, code } });
+  const data: WorkoutUpdate = {};
+
+  if (!partial) {
+    const missing = REQUIRED_FIELDS.filter(field => body[field] === undefined);
+    if (missing.length > 0) {
+      return fail(`Missing required fields: ${missing.join(', ')}`, 'MISSING_FIELDS');
+    }
+  }
+
+  if (body.title !== undefined) {
+    const result = validateWorkoutTitle(body.title as string);
+    if (!result.valid) return fail(result.message!, 'INVALID_TITLE');
+    data.title = (body.title as string).trim();
+  }
+
+  if (body.activity_type !== undefined) {
+    const result = validateActivityType(body.activity_type as string);
+    if (!result.valid) return fail(result.message!, 'INVALID_ACTIVITY');
+    data.activity_type = body.activity_type as ActivityType;
+  }
+
+  if (body.start_time !== undefined) {
+    const result = validateWorkoutStartTime(body.start_time as string);
+    if (!result.valid) return fail(result.message!, 'INVALID_START_TIME');
+    data.start_time = new Date(body.start_time as string).toISOString();
+  }
+
+  if (body.duration_minutes !== undefined) {
+    const result = validateWorkoutDuration(body.duration_minutes as number);
+    if (!result.valid) return fail(result.message!, 'INVALID_DURATION');
+    data.duration_minutes = body.duration_minutes as number;
+  }
+
+  if (body.meeting_point_coords !== undefined) {
+    if (body.meeting_point_coords !== null && !isGeoPoint(body.meeting_point_coords)) {
+      return fail('Meeting point must be a valid GeoJSON point', 'INVALID_COORDINATES');
+    }
+    data.meeting_point_coords = body.meeting_point_coords as GeoPoint | null;
+  }
+
+  if (body.meeting_point_name !== undefined) {
+    if (body.meeting_point_name !== null && typeof body.meeting_point_name !== 'string') {
+      return fail('Meeting point name must be a string or null', 'INVALID_LOCATION_NAME');
+    }
+    data.meeting_point_name = (body.meeting_point_name as string | null)?.trim() || null;
+  }
+
+  if (body.pace_range_min !== undefined || body.pace_range_max !== undefined) {
+    const min = body.pace_range_min ?? undefined;
+    const max = body.pace_range_max ?? undefined;
+    const result = validatePaceRange(min as number | undefined, max as number | undefined);
+    if (!result.valid) return fail(result.message!, 'INVALID_PACE');
+    if (body.pace_range_min !== undefined) data.pace_range_min = body.pace_range_min as number | null;
+    if (body.pace_range_max !== undefined) data.pace_range_max = body.pace_range_max as number | null;
+  }
+
+  if (body.capacity !== undefined) {
+    const result = validateWorkoutCapacity(body.capacity as number | null);
+    if (!result.valid) return fail(result.message!, 'INVALID_CAPACITY');
+    data.capacity = body.capacity as number | null;
+  }
+
+  if (body.notes !== undefined) {
+    const result = validateWorkoutNotes(body.notes as string | null);
+    if (!result.valid) return fail(result.message!, 'INVALID_NOTES');
+    data.notes = (body.notes as string | null)?.trim() || null;
+  }
+
+  if (body.timezone !== undefined) {
+    if (body.timezone !== null && !isValidTimeZone(body.timezone)) {
+      return fail('Time zone must be an IANA time zone such as America/New_York', 'INVALID_TIMEZONE');
+    }
+    data.timezone = body.timezone as string | null;
+  }
+
+  if (body.recurrence_rule !== undefined) {
+    if (body.recurrence_rule === null || body.recurrence_rule === '') {
+      data.recurrence_rule = null;
+    } else {
+      if (typeof body.recurrence_rule !== 'string') {
+        return fail('Recurrence rule must be an RRULE string or null', 'INVALID_RECURRENCE');
+      }
+      data.recurrence_rule = body.recurrence_rule;
+    }
+  }
+
+  if (partial) {
+    return Object.keys(data).length === 0
+      ? fail('Please provide at least one field to update', 'NO_UPDATES')
+      : { data };
+  }
+
+  return resolveWorkoutSchedule(data, null);
+}
+
+/**
+ * Checks a workout's schedule as it'll be stored (the changes on top of the
+ * existing row, if any), normalizes a new recurrence rule and works out when
+ * the series ends. The rule's wall-clock times are read in the workout's
+ * time zone, so a repeating workout needs one.
+ */
+export function resolveWorkoutSchedule(
+  data: WorkoutUpdate,
+  existing: Pick<Workout, 'start_time' | 'recurrence_rule' | 'timezone'> | null
+): WorkoutPayloadResult {
+  if (data.start_time === undefined && data.recurrence_rule === undefined && data.timezone === undefined) {
+    return { data };
+  }
+
+  const startTime = data.start_time ?? existing?.start_time;
+  const rule = data.recurrence_rule !== undefined ? data.recurrence_rule : existing?.recurrence_rule ?? null;
+  const timezone = data.timezone !== undefined ? data.timezone : existing?.timezone ?? null;
+
+  if (!rule || !startTime) {
+    return { data: { ...data, recurrence_ends_at: null } };
+  }
+
+  if (!timezone) {
+    return { error: { error: 'A time zone is required for repeating workouts', code: 'INVALID_TIMEZONE' } };
+  }
+
+  // A date-only UNTIL is read in the time zone, so the rule is rechecked too
+  const result = parseRecurrenceRule(rule, timezone);
+  if (result.error) return { error: result.error };
+
+  const endsAt = recurrenceEnd(startTime, result.data, timezone);
+
+  return {
+    data: {
+      ...data,
+      ...(data.recurrence_rule !== undefined && { recurrence_rule: formatRecurrenceRule(result.data) }),
+      recurrence_ends_at: endsAt === null ? null : new Date(endsAt).toISOString(),
+    },
+  };
+}
+
+/**
+ * Converts parsed workout fields into a row for the workouts table
+ * (geography columns are written as EWKT)
+ */
+export function toWorkoutRow(data: WorkoutInsert | WorkoutUpdate): Record<string, unknown> {
+  const { meeting_point_coords, ...rest } = data;
+
+  if (meeting_point_coords === undefined) {
+    return rest;
+  }
+
+  return {
+    ...rest,
+    meeting_point_coords: meeting_point_coords ? geoPointToEWKT(meeting_point_coords) : null,
+  };
+}
+
+/**
+ * Checks whether a workout has already started
+ */
+export function hasWorkoutStarted(workout: Pick<Workout, 'start_time'>, now: Date = new Date()): boolean {
+  return new Date(workout.start_time).getTime() <= now.getTime();
+}
+
+/**
+ * Checks whether a workout still takes RSVPs and edits: one-off workouts
+ * until they start, recurring workouts until their last occurrence starts
+ */
+export function isWorkoutOpen(
+  workout: Pick<Workout, 'start_time' | 'recurrence_rule' | 'recurrence_ends_at'>,
+  now: Date = new Date()
+): boolean {
+  if (!workout.recurrence_rule) {
+    return !hasWorkoutStarted(workout, now);
+  }
+
+  return workout.recurrence_ends_at === null || Date.parse(workout.recurrence_ends_at) > now.getTime();
+}
+
+/**
+ * PostgREST filter (for .or()) matching workouts with an occurrence that
+ * starts at or after `since`: one-off workouts that start then or later,
+ * and recurring workouts whose series hasn't ended by then
+ */
+export function workoutsStartingSinceFilter(since: Date): string {
+  const iso = since.toISOString();
+  return `start_time.gte.${iso},recurrence_ends_at.gte.${iso},and(recurrence_rule.not.is.null,recurrence_ends_at.is.null)`;
+}
+
+/**
+ * Formats a workout start time for display, in the viewer's time zone or,
+ * when one is given (e.g. for notifications sent by the server), in that
+ * zone with its abbreviation
+ */
+export function formatWorkoutTime(startTime: string, timeZone?: string): string {
+  return new Date(startTime).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(timeZone && { timeZone, timeZoneName: 'short' }),
+  });
+}
+
+/**
+ * Formats when a workout happens: its start time, or for recurring workouts
+ * the schedule and time of day in the workout's time zone
+ */
+export function formatWorkoutSchedule(workout: Pick<Workout, 'start_time' | 'recurrence_rule' | 'timezone'>): string {
+  const rule = getRecurrenceRule(workout);
+
+  if (!rule) {
+    return formatWorkoutTime(workout.start_time);
+  }
+
+  return describeRecurrence(rule, workout.timezone!, workout.start_time);
+}
+
+/**
+ * Formats how long ago something happened: "just now", "5m ago", "3h ago",
+ * "2d ago", then the date
+ */
+export function formatTimeAgo(timestamp: string, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.floor((now.getTime() - Date.parse(timestamp)) / 1000));
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 7 * 86400) return `${Math.floor(seconds / 86400)}d ago`;
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Formats a workout duration in minutes for display
+ */
+export function formatWorkoutDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remaining = minutes % 60;
+
+  if (hours === 0) return `${remaining} min`;
+  if (remaining === 0) return `${hours} hr`;
+  return `${hours} hr ${remaining} min`;
+}
+
+/**
+ * Builds the RSVP summary for a workout from its participant rows
+ */
+export function summarizeRsvps(
+  workout: Pick<Workout, 'host_id' | 'capacity'>,
+  participants: WorkoutParticipantWithUser[],
+  userId: string
+): WorkoutRsvpSummary {
+  const byStatus = (status: ParticipantStatus) => participants.filter(p => p.status === status);
+
+  const going = byStatus(ParticipantStatus.GOING);
+  const waitlist = byStatus(ParticipantStatus.WAITLISTED)
+    .sort((a, b) => a.responded_at.localeCompare(b.responded_at));
+  const mine = participants.find(p => p.user_id === userId) || null;
+
+  // The host always attends and counts toward capacity
+  const goingCount = going.length + 1;
+  const waitlistIndex = mine ? waitlist.findIndex(p => p.id === mine.id) : -1;
+
+  return {
+    going_count: goingCount,
+    maybe_count: byStatus(ParticipantStatus.MAYBE).length,
+    waitlist_count: waitlist.length,
+    spots_left: workout.capacity === null ? null : Math.max(workout.capacity - goingCount, 0),
+    my_status: workout.host_id === userId ? null : mine?.status || null,
+    my_waitlist_position: waitlistIndex >= 0 ? waitlistIndex + 1 : null,
+    participants,
+  };
+}
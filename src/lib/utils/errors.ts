@@ -8,6 +8,7 @@ export enum ErrorType {
   PERMISSION = 'PERMISSION',
   DATA = 'DATA',
   PHONE = 'PHONE',
+  RATE_LIMITED = 'RATE_LIMITED',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -59,6 +60,11 @@ const ERROR_MESSAGES = {
     actionable: 'Make sure your phone number includes the country code and is in the correct format.',
     retryable: false
   },
+  [ErrorType.RATE_LIMITED]: {
+    userMessage: 'Too many attempts. Please wait a moment and try again.',
+    actionable: 'Wait a few minutes before trying again.',
+    retryable: false
+  },
   [ErrorType.UNKNOWN]: {
     userMessage: 'Something went wrong. Please try again.',
     actionable: 'If the problem persists, please contact support.',
@@ -111,8 +117,20 @@ export function detectErrorType(error: unknown, context?: string): ErrorType {
     ? String((error as { message: unknown }).message).toLowerCase() 
     : '';
 
-  // Network errors
   const errorObj = error as Record<string, unknown>;
+
+  // Rate limit errors (checked first, since retrying straight away only
+  // extends the wait)
+  if (
+    errorString.includes('too many') ||
+    errorMessage.includes('too many') ||
+    errorObj.status === 429 ||
+    errorObj.code === 'RATE_LIMITED'
+  ) {
+    return ErrorType.RATE_LIMITED;
+  }
+
+  // Network errors
   if (
     errorString.includes('network') ||
     errorString.includes('fetch') ||
@@ -205,6 +223,11 @@ export function createErrorInfo(
     actionable = phoneError.actionable;
   }
 
+  // Handle rate limit errors that say how long to wait
+  if (type === ErrorType.RATE_LIMITED) {
+    actionable = getRateLimitActionable(error) ?? actionable;
+  }
+
   // Handle specific validation errors
   if (type === ErrorType.VALIDATION) {
     const validationError = getValidationSpecificError(error);
@@ -299,6 +322,21 @@ function getPhoneSpecificError(error: unknown): { message: string; actionable: s
   };
 }
 
+// How long to wait, from ApiError's retryAfterSeconds (the Retry-After header)
+function getRateLimitActionable(error: unknown): string | null {
+  const retryAfterSeconds = (error as Record<string, unknown>).retryAfterSeconds;
+  if (typeof retryAfterSeconds !== 'number' || retryAfterSeconds <= 0) {
+    return null;
+  }
+
+  if (retryAfterSeconds < 60) {
+    return `Try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`;
+  }
+
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return `Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+}
+
 // Get validation-specific error details
 function getValidationSpecificError(error: unknown): { message: string; actionable: string } | null {
   const errorObj = error as Record<string, unknown>;
@@ -342,7 +380,7 @@ export async function retryOperation<T>(
     } catch (error) {
       lastError = error;
       
-      // Don't retry on authentication or validation errors
+      // Don't retry on authentication, validation or rate limit errors
       const errorType = detectErrorType(error);
       if (!ERROR_MESSAGES[errorType].retryable) {
         throw error;
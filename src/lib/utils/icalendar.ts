@@ -0,0 +1,216 @@
+// Minimal iCalendar (RFC 5545) writer: text escaping, line folding, date-time
+// values and VTIMEZONE components built from the platform's Intl time zone
+// data, so no tz database has to ship with the app.
+import { getTimeZoneOffset, toZonedDateTime } from '@/lib/utils/timezone';
+
+// A property line: name, parameters (e.g. TZID) and an already-encoded value
+export interface IcsProperty {
+  name: string;
+  params?: Record<string, string>;
+  value: string;
+}
+
+// A component (VEVENT, VTIMEZONE, ...) with its properties and children
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components?: IcsComponent[];
+}
+
+// A date-time value with the parameters it needs (TZID for zoned times)
+export interface IcsDateTime {
+  params?: Record<string, string>;
+  value: string;
+}
+
+const MAX_LINE_OCTETS = 75;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+// Offsets are sampled weekly; time zones never change twice within a week
+const TRANSITION_SCAN_STEP_MS = 7 * MS_PER_DAY;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Escapes a TEXT value (commas, semicolons, backslashes and newlines)
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// Parameter values with separators must be quoted, and can't contain quotes
+function formatParamValue(value: string): string {
+  const cleaned = value.replace(/"/g, '');
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets, never splitting a
+ * multi-byte character. Continuation lines start with a space.
+ */
+export function foldIcsLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = utf8Length(char);
+    if (currentOctets + octets > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      currentOctets = 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * UTC date-time value, e.g. 20260317T140000Z
+ */
+export function formatIcsUtcDateTime(utcMs: number): string {
+  const date = new Date(utcMs);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+// Local (floating) date-time value for a wall-clock time given as UTC fields
+function formatIcsLocalDateTime(wallMs: number): string {
+  return formatIcsUtcDateTime(wallMs).slice(0, -1);
+}
+
+/**
+ * Date-time value for an instant: local time with a TZID when a time zone is
+ * given (pair it with a VTIMEZONE), UTC otherwise
+ */
+export function formatIcsDateTime(utcMs: number, timeZone?: string | null): IcsDateTime {
+  if (!timeZone) {
+    return { value: formatIcsUtcDateTime(utcMs) };
+  }
+
+  const zoned = toZonedDateTime(utcMs, timeZone);
+  const wallMs = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return { params: { TZID: timeZone }, value: formatIcsLocalDateTime(wallMs) };
+}
+
+/**
+ * UTC offset value, e.g. -0500
+ */
+export function formatIcsUtcOffset(offsetMs: number): string {
+  const totalMinutes = Math.round(Math.abs(offsetMs) / MS_PER_MINUTE);
+  return `${offsetMs < 0 ? '-' : '+'}${pad(Math.floor(totalMinutes / 60))}${pad(totalMinutes % 60)}`;
+}
+
+function getTimeZoneAbbreviation(utcMs: number, timeZone: string): string | null {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(new Date(utcMs));
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? null;
+}
+
+// Finds the first minute with the later offset, given lo has the earlier one
+function findTransition(loMs: number, hiMs: number, timeZone: string): number {
+  const offsetAtLo = getTimeZoneOffset(loMs, timeZone);
+
+  while (hiMs - loMs > MS_PER_MINUTE) {
+    const mid = loMs + Math.floor((hiMs - loMs) / 2);
+    if (getTimeZoneOffset(mid, timeZone) === offsetAtLo) {
+      loMs = mid;
+    } else {
+      hiMs = mid;
+    }
+  }
+
+  return Math.floor(hiMs / MS_PER_MINUTE) * MS_PER_MINUTE;
+}
+
+/**
+ * Builds a VTIMEZONE describing a zone between two instants, with one
+ * observance per offset change (plus the offset in effect at the start).
+ * The larger offsets in the range are labelled DAYLIGHT.
+ */
+export function buildVTimeZone(timeZone: string, fromMs: number, toMs: number): IcsComponent {
+  const observances: { startMs: number; offsetFrom: number; offsetTo: number }[] = [];
+  const initialOffset = getTimeZoneOffset(fromMs, timeZone);
+  observances.push({ startMs: fromMs, offsetFrom: initialOffset, offsetTo: initialOffset });
+
+  let previousMs = fromMs;
+  let previousOffset = initialOffset;
+
+  for (let ms = fromMs + TRANSITION_SCAN_STEP_MS; previousMs < toMs; ms += TRANSITION_SCAN_STEP_MS) {
+    const sampleMs = Math.min(ms, toMs);
+    const offset = getTimeZoneOffset(sampleMs, timeZone);
+
+    if (offset !== previousOffset) {
+      observances.push({
+        startMs: findTransition(previousMs, sampleMs, timeZone),
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+      });
+      previousOffset = offset;
+    }
+    previousMs = sampleMs;
+  }
+
+  const standardOffset = Math.min(...observances.map(observance => observance.offsetTo));
+
+  return {
+    name: 'VTIMEZONE',
+    properties: [{ name: 'TZID', value: timeZone }],
+    components: observances.map(observance => {
+      const abbreviation = getTimeZoneAbbreviation(observance.startMs, timeZone);
+
+      return {
+        name: observance.offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD',
+        properties: [
+          // Observance onsets are written in the local time before the change
+          { name: 'DTSTART', value: formatIcsLocalDateTime(observance.startMs + observance.offsetFrom) },
+          { name: 'TZOFFSETFROM', value: formatIcsUtcOffset(observance.offsetFrom) },
+          { name: 'TZOFFSETTO', value: formatIcsUtcOffset(observance.offsetTo) },
+          ...(abbreviation ? [{ name: 'TZNAME', value: escapeIcsText(abbreviation) }] : []),
+        ],
+      };
+    }),
+  };
+}
+
+function serializeProperty(property: IcsProperty): string {
+  const params = Object.entries(property.params ?? {})
+    .map(([name, value]) => `;${name}=${formatParamValue(value)}`)
+    .join('');
+  return `${property.name}${params}:${property.value}`;
+}
+
+function serializeComponent(component: IcsComponent, lines: string[]): void {
+  lines.push(`BEGIN:${component.name}`);
+  for (const property of component.properties) {
+    lines.push(...foldIcsLine(serializeProperty(property)));
+  }
+  for (const child of component.components ?? []) {
+    serializeComponent(child, lines);
+  }
+  lines.push(`END:${component.name}`);
+}
+
+/**
+ * Serializes a component tree (normally a VCALENDAR) with CRLF line endings
+ */
+export function serializeIcs(component: IcsComponent): string {
+  const lines: string[] = [];
+  serializeComponent(component, lines);
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -1,154 +1,281 @@
-// Format phone for display (E.164 to user-friendly)
-export function formatPhoneForDisplay(phone: string): string {
-  if (!phone || typeof phone !== 'string') {
-    return '';
+// Phone number parsing, validation and formatting shared by pages and API
+// routes. Numbers are stored in E.164 format (+442071838750).
+
+import type { ValidationResult } from '@/lib/utils/validation';
+import { PHONE_COUNTRIES, type PhoneCountryMetadata } from '@/lib/utils/phoneMetadata';
+
+export { PHONE_COUNTRIES, type PhoneCountryMetadata };
+
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+const E164_MIN_DIGITS = 8;
+const E164_MAX_DIGITS = 15;
+const PLACEHOLDER_DIGITS = '9195551234567';
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  country: PhoneCountryMetadata | null; // null when the calling code isn't in our table
+  nationalNumber: string; // National significant number (no trunk prefix)
+}
+
+interface PhoneAnalysis {
+  parsed?: ParsedPhoneNumber;
+  error?: string;
+}
+
+// Look up a country by ISO code
+export function getPhoneCountry(iso: string): PhoneCountryMetadata | undefined {
+  return PHONE_COUNTRIES.find(country => country.iso === iso);
+}
+
+function getCountryOrDefault(iso: string): PhoneCountryMetadata {
+  return getPhoneCountry(iso) ?? getPhoneCountry(DEFAULT_PHONE_COUNTRY)!;
+}
+
+// Calling codes are prefix-free, so the first match is the only match
+function matchCallingCode(digits: string): PhoneCountryMetadata | undefined {
+  for (let length = 1; length <= 3; length++) {
+    const country = PHONE_COUNTRIES.find(c => c.callingCode === digits.slice(0, length));
+    if (country) {
+      return country;
+    }
   }
+  return undefined;
+}
 
-  const cleaned = phone.replace(/\D/g, '');
-  
-  // Handle US numbers (+1 followed by 10 digits)
-  if (cleaned.length === 11 && cleaned.startsWith('1')) {
-    const areaCode = cleaned.slice(1, 4);
-    const exchange = cleaned.slice(4, 7);
-    const number = cleaned.slice(7);
-    return `(${areaCode}) ${exchange}-${number}`;
-  }
-  
-  // Handle 10-digit US numbers
-  if (cleaned.length === 10) {
-    const areaCode = cleaned.slice(0, 3);
-    const exchange = cleaned.slice(3, 6);
-    const number = cleaned.slice(6);
-    return `(${areaCode}) ${exchange}-${number}`;
-  }
-  
-  // For international numbers, return as-is with + prefix
-  if (phone.startsWith('+')) {
-    return phone;
+// Drop a trunk prefix typed in front of a national number ("07700 900123")
+function stripTrunkPrefix(digits: string, country: PhoneCountryMetadata): string {
+  const trunk = country.trunkPrefix;
+
+  if (trunk && digits.startsWith(trunk) && country.nationalLengths.includes(digits.length - trunk.length)) {
+    return digits.slice(trunk.length);
   }
-  
-  // Fallback: return original
-  return phone;
+
+  return digits;
 }
 
-// Format phone as user types
-export function formatPhoneAsUserTypes(input: string): string {
-  if (!input || typeof input !== 'string') {
-    return '';
+function describeLengths(lengths: number[]): string {
+  const min = Math.min(...lengths);
+  const max = Math.max(...lengths);
+
+  if (min === max) {
+    return `${min}`;
   }
 
-  // Remove all non-numeric characters except +
-  let cleaned = input.replace(/[^\d+]/g, '');
-  
-  // If user is typing a +, allow it
-  if (cleaned.startsWith('+')) {
-    // Remove the + for processing
-    cleaned = cleaned.slice(1);
-    
-    // If it's a US number (starts with 1), format it
-    if (cleaned.startsWith('1') && cleaned.length <= 11) {
-      const digits = cleaned.slice(1); // Remove the 1
-      return formatUSPhone(digits);
-    }
-    
-    // For other international numbers, return as-is
-    return `+${cleaned}`;
+  if (lengths.length === max - min + 1) {
+    return `${min}-${max}`;
   }
-  
-  // For regular input without +, format as US number
-  return formatUSPhone(cleaned);
+
+  return `${lengths.slice(0, -1).join(', ')} or ${max}`;
 }
 
-// Helper function to format US phone numbers
-function formatUSPhone(digits: string): string {
-  if (digits.length === 0) return '';
-  
-  if (digits.length <= 3) {
-    return `(${digits}`;
+function analyzePhoneNumber(input: string, defaultCountry: string): PhoneAnalysis {
+  if (!input || typeof input !== 'string' || input.trim() === '') {
+    return { error: 'Phone number is required' };
   }
-  
-  if (digits.length <= 6) {
-    return `(${digits.slice(0, 3)}) ${digits.slice(3)}`;
+
+  const trimmed = input.trim();
+
+  if (/[^\d\s()+.-]/.test(trimmed) || trimmed.lastIndexOf('+') > 0) {
+    return { error: 'Phone number can only contain digits, spaces and a leading +' };
   }
-  
-  if (digits.length <= 10) {
-    return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`;
+
+  let digits = trimmed.replace(/\D/g, '');
+  let international = trimmed.startsWith('+');
+
+  // 00 is the international prefix across most of Europe and Asia
+  if (!international && digits.startsWith('00')) {
+    international = true;
+    digits = digits.slice(2);
   }
-  
-  // If more than 10 digits, truncate
-  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6, 10)}`;
-}
 
-// Check if phone has enough digits
-export function isValidPhoneLength(input: string): boolean {
-  if (!input || typeof input !== 'string') {
-    return false;
+  let country: PhoneCountryMetadata;
+  let nationalDigits: string;
+
+  if (international) {
+    const matched = matchCallingCode(digits);
+
+    if (!matched) {
+      // Not in our table - accept anything that is plausibly E.164
+      if (digits.startsWith('0') || digits.length < E164_MIN_DIGITS || digits.length > E164_MAX_DIGITS) {
+        return { error: 'Please include a valid country code (e.g., +1 for US, +44 for UK)' };
+      }
+      return { parsed: { e164: `+${digits}`, country: null, nationalNumber: digits } };
+    }
+
+    country = matched;
+    nationalDigits = digits.slice(country.callingCode.length);
+  } else {
+    country = getCountryOrDefault(defaultCountry);
+    nationalDigits = digits;
   }
 
-  const digits = input.replace(/\D/g, '');
-  
-  // For US numbers, need 10 digits
-  return digits.length === 10;
+  // Also handles "+44 (0)7700 900123"
+  const nationalNumber = stripTrunkPrefix(nationalDigits, country);
+
+  if (!country.nationalLengths.includes(nationalNumber.length)) {
+    return {
+      error: `Phone numbers in ${country.name} have ${describeLengths(country.nationalLengths)} digits after the country code`,
+    };
+  }
+
+  return {
+    parsed: {
+      e164: `+${country.callingCode}${nationalNumber}`,
+      country,
+      nationalNumber,
+    },
+  };
 }
 
-// Parse phone to E.164 format
-export function parsePhoneToE164(input: string): string {
-  if (!input || typeof input !== 'string') {
-    return '';
+/**
+ * Parses a phone number typed in international (+44..., 0044...) or
+ * national form. National numbers are read as belonging to defaultCountry.
+ */
+export function parsePhoneNumber(input: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): ParsedPhoneNumber | null {
+  return analyzePhoneNumber(input, defaultCountry).parsed ?? null;
+}
+
+/**
+ * Converts user input to E.164, or null if it isn't a valid number
+ */
+export function toE164(input: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): string | null {
+  return parsePhoneNumber(input, defaultCountry)?.e164 ?? null;
+}
+
+// Check that a value is already a valid, normalized E.164 number
+export function isValidPhoneNumber(phone: string): boolean {
+  return typeof phone === 'string' && toE164(phone) === phone;
+}
+
+// Phone number validation for forms
+export function validatePhoneNumber(input: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): ValidationResult {
+  const { error } = analyzePhoneNumber(input, defaultCountry);
+  return error ? { valid: false, message: error } : { valid: true };
+}
+
+// Group digits in threes when a country has no pattern for this length
+function groupDigits(length: number): string {
+  const groups: number[] = [];
+  for (let remaining = length; remaining > 0; remaining -= 3) {
+    groups.push(Math.min(3, remaining));
+  }
+  if (groups.length > 1 && groups[groups.length - 1] === 1) {
+    groups.pop();
+    groups[groups.length - 1] += 1;
   }
+  return groups.map(size => 'X'.repeat(size)).join(' ');
+}
 
-  // Remove all non-numeric characters except +
-  const cleaned = input.replace(/[^\d+]/g, '');
-  
-  // If it already starts with +, return as-is
-  if (cleaned.startsWith('+')) {
-    return cleaned;
+function getFormatPattern(country: PhoneCountryMetadata, length: number): string {
+  const exact = country.formats?.[length];
+  if (exact) {
+    return exact;
   }
-  
-  // Extract just the digits
-  const digits = cleaned.replace(/\D/g, '');
-  
-  // If 10 digits, assume US number
-  if (digits.length === 10) {
-    return `+1${digits}`;
+
+  // While typing, shape partial input like the longest number
+  const longest = Math.max(...country.nationalLengths);
+  const longestFormat = country.formats?.[longest];
+  if (longestFormat && length < longest) {
+    return longestFormat;
   }
-  
-  // If 11 digits and starts with 1, assume US number
-  if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
+
+  return groupDigits(Math.max(length, 1));
+}
+
+// Fill X placeholders with digits; separators only appear before a digit
+function applyPattern(digits: string, pattern: string): string {
+  let formatted = '';
+  let pendingSeparators = '';
+  let index = 0;
+
+  for (const char of pattern) {
+    if (index >= digits.length) {
+      break;
+    }
+    if (char === 'X') {
+      formatted += pendingSeparators + digits[index++];
+      pendingSeparators = '';
+    } else {
+      pendingSeparators += char;
+    }
   }
-  
-  // For other cases, return as-is (might be incomplete)
-  return input;
+
+  return formatted + digits.slice(index);
 }
 
-// Get phone number placeholder
-export function getPhonePlaceholder(): string {
-  return '(919) 555-1234';
+function formatNationalNumber(nationalNumber: string, country: PhoneCountryMetadata): string {
+  return applyPattern(nationalNumber, getFormatPattern(country, nationalNumber.length));
 }
 
-// Check if phone number is complete
-export function isPhoneComplete(input: string): boolean {
-  const e164 = parsePhoneToE164(input);
-  const digits = e164.replace(/\D/g, '');
-  
-  // For US numbers, need 11 digits (1 + 10)
-  return digits.length === 11 && digits.startsWith('1');
+/**
+ * Formats a stored number for display: national format when it belongs to
+ * the viewer's country, international format otherwise
+ */
+export function formatPhoneForDisplay(phone: string, viewerCountry: string = DEFAULT_PHONE_COUNTRY): string {
+  if (!phone || typeof phone !== 'string') {
+    return '';
+  }
+
+  const parsed = parsePhoneNumber(phone, viewerCountry);
+
+  if (!parsed) {
+    return phone;
+  }
+
+  if (!parsed.country) {
+    return parsed.e164;
+  }
+
+  const national = formatNationalNumber(parsed.nationalNumber, parsed.country);
+
+  if (parsed.country.callingCode === getCountryOrDefault(viewerCountry).callingCode) {
+    // National format keeps a trunk 0 ("07700 900123") but not NANP's 1
+    return parsed.country.trunkPrefix === '0' ? `0${national}` : national;
+  }
+
+  return `+${parsed.country.callingCode} ${national}`;
 }
 
-// Extract country code from E.164 number
-export function extractCountryCode(phone: string): string {
-  if (!phone || !phone.startsWith('+')) {
+// Format phone as user types
+export function formatPhoneAsUserTypes(input: string, country: string = DEFAULT_PHONE_COUNTRY): string {
+  if (!input || typeof input !== 'string') {
     return '';
   }
-  
-  const digits = phone.slice(1);
-  
-  // US/Canada
-  if (digits.startsWith('1') && digits.length === 11) {
-    return '+1';
+
+  const digits = input.replace(/\D/g, '');
+
+  // International input: +<calling code> <national number>
+  if (input.trim().startsWith('+')) {
+    const matched = matchCallingCode(digits);
+
+    if (!matched || digits.length === matched.callingCode.length) {
+      return `+${digits.slice(0, E164_MAX_DIGITS)}`;
+    }
+
+    const national = digits.slice(matched.callingCode.length, matched.callingCode.length + Math.max(...matched.nationalLengths));
+    return `+${matched.callingCode} ${formatNationalNumber(national, matched)}`;
+  }
+
+  const metadata = getCountryOrDefault(country);
+  const maxLength = Math.max(...metadata.nationalLengths);
+  const trunk = metadata.trunkPrefix;
+
+  // Keep a typed trunk prefix, e.g. "07700 900123" or "1 (919) 555-1234"
+  if (trunk && digits.startsWith(trunk) && digits.length > trunk.length) {
+    const national = digits.slice(trunk.length, trunk.length + maxLength);
+    return `${trunk}${trunk === '0' ? '' : ' '}${formatNationalNumber(national, metadata)}`;
   }
-  
-  // For now, just return +1 as default
-  return '+1';
+
+  return formatNationalNumber(digits.slice(0, maxLength), metadata);
+}
+
+// Get phone number placeholder
+export function getPhonePlaceholder(country: string = DEFAULT_PHONE_COUNTRY): string {
+  const metadata = getCountryOrDefault(country);
+  const formattedLengths = Object.keys(metadata.formats ?? {}).map(Number);
+  const length = formattedLengths.length > 0
+    ? Math.max(...formattedLengths)
+    : Math.min(Math.max(...metadata.nationalLengths), 10);
+  return formatNationalNumber(PLACEHOLDER_DIGITS.slice(0, length), metadata);
 }
@@ -0,0 +1,69 @@
+// Per-country phone numbering metadata used by src/lib/utils/phone.ts.
+// Lengths count the national significant number (no calling code or trunk
+// prefix). Format patterns use X for a digit and are keyed by that length.
+
+export interface PhoneCountryMetadata {
+  iso: string; // ISO 3166-1 alpha-2, e.g. 'GB'
+  name: string;
+  flag: string;
+  callingCode: string; // Without the +, e.g. '44'
+  nationalLengths: number[];
+  trunkPrefix?: string; // Dialled before national numbers at home, e.g. '0'
+  formats?: Record<number, string>;
+}
+
+// Countries sharing a calling code are listed primary first (US before CA)
+export const PHONE_COUNTRIES: PhoneCountryMetadata[] = [
+  { iso: 'US', name: 'United States', flag: '🇺🇸', callingCode: '1', nationalLengths: [10], trunkPrefix: '1', formats: { 10: '(XXX) XXX-XXXX' } },
+  { iso: 'CA', name: 'Canada', flag: '🇨🇦', callingCode: '1', nationalLengths: [10], trunkPrefix: '1', formats: { 10: '(XXX) XXX-XXXX' } },
+  { iso: 'MX', name: 'Mexico', flag: '🇲🇽', callingCode: '52', nationalLengths: [10], formats: { 10: 'XX XXXX XXXX' } },
+  { iso: 'BR', name: 'Brazil', flag: '🇧🇷', callingCode: '55', nationalLengths: [10, 11], trunkPrefix: '0', formats: { 10: '(XX) XXXX-XXXX', 11: '(XX) XXXXX-XXXX' } },
+  { iso: 'AR', name: 'Argentina', flag: '🇦🇷', callingCode: '54', nationalLengths: [10, 11], trunkPrefix: '0', formats: { 10: 'XX XXXX-XXXX', 11: 'X XX XXXX-XXXX' } },
+  { iso: 'CL', name: 'Chile', flag: '🇨🇱', callingCode: '56', nationalLengths: [9], formats: { 9: 'X XXXX XXXX' } },
+  { iso: 'CO', name: 'Colombia', flag: '🇨🇴', callingCode: '57', nationalLengths: [10], formats: { 10: 'XXX XXX XXXX' } },
+  { iso: 'PE', name: 'Peru', flag: '🇵🇪', callingCode: '51', nationalLengths: [8, 9], trunkPrefix: '0', formats: { 9: 'XXX XXX XXX' } },
+  { iso: 'GB', name: 'United Kingdom', flag: '🇬🇧', callingCode: '44', nationalLengths: [9, 10], trunkPrefix: '0', formats: { 10: 'XXXX XXXXXX' } },
+  { iso: 'IE', name: 'Ireland', flag: '🇮🇪', callingCode: '353', nationalLengths: [7, 8, 9], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+  { iso: 'FR', name: 'France', flag: '🇫🇷', callingCode: '33', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'X XX XX XX XX' } },
+  { iso: 'DE', name: 'Germany', flag: '🇩🇪', callingCode: '49', nationalLengths: [6, 7, 8, 9, 10, 11, 12, 13], trunkPrefix: '0', formats: { 10: 'XXX XXXXXXX', 11: 'XXXX XXXXXXX' } },
+  { iso: 'NL', name: 'Netherlands', flag: '🇳🇱', callingCode: '31', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'X XXXXXXXX' } },
+  { iso: 'BE', name: 'Belgium', flag: '🇧🇪', callingCode: '32', nationalLengths: [8, 9], trunkPrefix: '0', formats: { 9: 'XXX XX XX XX' } },
+  { iso: 'CH', name: 'Switzerland', flag: '🇨🇭', callingCode: '41', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'XX XXX XX XX' } },
+  { iso: 'AT', name: 'Austria', flag: '🇦🇹', callingCode: '43', nationalLengths: [7, 8, 9, 10, 11, 12, 13], trunkPrefix: '0' },
+  { iso: 'ES', name: 'Spain', flag: '🇪🇸', callingCode: '34', nationalLengths: [9], formats: { 9: 'XXX XX XX XX' } },
+  { iso: 'PT', name: 'Portugal', flag: '🇵🇹', callingCode: '351', nationalLengths: [9], formats: { 9: 'XXX XXX XXX' } },
+  // Italian landlines keep their leading 0 internationally, so no trunk prefix
+  { iso: 'IT', name: 'Italy', flag: '🇮🇹', callingCode: '39', nationalLengths: [6, 7, 8, 9, 10, 11], formats: { 10: 'XXX XXX XXXX' } },
+  { iso: 'GR', name: 'Greece', flag: '🇬🇷', callingCode: '30', nationalLengths: [10], formats: { 10: 'XXX XXX XXXX' } },
+  { iso: 'SE', name: 'Sweden', flag: '🇸🇪', callingCode: '46', nationalLengths: [7, 8, 9], trunkPrefix: '0', formats: { 9: 'XX XXX XX XX' } },
+  { iso: 'NO', name: 'Norway', flag: '🇳🇴', callingCode: '47', nationalLengths: [8], formats: { 8: 'XXX XX XXX' } },
+  { iso: 'DK', name: 'Denmark', flag: '🇩🇰', callingCode: '45', nationalLengths: [8], formats: { 8: 'XX XX XX XX' } },
+  { iso: 'FI', name: 'Finland', flag: '🇫🇮', callingCode: '358', nationalLengths: [6, 7, 8, 9, 10], trunkPrefix: '0' },
+  { iso: 'PL', name: 'Poland', flag: '🇵🇱', callingCode: '48', nationalLengths: [9], formats: { 9: 'XXX XXX XXX' } },
+  { iso: 'CZ', name: 'Czechia', flag: '🇨🇿', callingCode: '420', nationalLengths: [9], formats: { 9: 'XXX XXX XXX' } },
+  { iso: 'UA', name: 'Ukraine', flag: '🇺🇦', callingCode: '380', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+  { iso: 'RU', name: 'Russia', flag: '🇷🇺', callingCode: '7', nationalLengths: [10], trunkPrefix: '8', formats: { 10: 'XXX XXX-XX-XX' } },
+  { iso: 'TR', name: 'Turkey', flag: '🇹🇷', callingCode: '90', nationalLengths: [10], trunkPrefix: '0', formats: { 10: 'XXX XXX XX XX' } },
+  { iso: 'IL', name: 'Israel', flag: '🇮🇱', callingCode: '972', nationalLengths: [8, 9], trunkPrefix: '0', formats: { 9: 'XX-XXX-XXXX' } },
+  { iso: 'AE', name: 'United Arab Emirates', flag: '🇦🇪', callingCode: '971', nationalLengths: [8, 9], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+  { iso: 'SA', name: 'Saudi Arabia', flag: '🇸🇦', callingCode: '966', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+  { iso: 'EG', name: 'Egypt', flag: '🇪🇬', callingCode: '20', nationalLengths: [8, 9, 10], trunkPrefix: '0', formats: { 10: 'XXX XXX XXXX' } },
+  { iso: 'NG', name: 'Nigeria', flag: '🇳🇬', callingCode: '234', nationalLengths: [8, 10], trunkPrefix: '0', formats: { 10: 'XXX XXX XXXX' } },
+  { iso: 'KE', name: 'Kenya', flag: '🇰🇪', callingCode: '254', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'XXX XXXXXX' } },
+  { iso: 'ZA', name: 'South Africa', flag: '🇿🇦', callingCode: '27', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+  { iso: 'IN', name: 'India', flag: '🇮🇳', callingCode: '91', nationalLengths: [10], trunkPrefix: '0', formats: { 10: 'XXXXX XXXXX' } },
+  { iso: 'PK', name: 'Pakistan', flag: '🇵🇰', callingCode: '92', nationalLengths: [9, 10], trunkPrefix: '0', formats: { 10: 'XXX XXXXXXX' } },
+  { iso: 'CN', name: 'China', flag: '🇨🇳', callingCode: '86', nationalLengths: [10, 11], trunkPrefix: '0', formats: { 11: 'XXX XXXX XXXX' } },
+  { iso: 'HK', name: 'Hong Kong', flag: '🇭🇰', callingCode: '852', nationalLengths: [8], formats: { 8: 'XXXX XXXX' } },
+  { iso: 'TW', name: 'Taiwan', flag: '🇹🇼', callingCode: '886', nationalLengths: [8, 9], trunkPrefix: '0', formats: { 9: 'XXX XXX XXX' } },
+  { iso: 'JP', name: 'Japan', flag: '🇯🇵', callingCode: '81', nationalLengths: [9, 10], trunkPrefix: '0', formats: { 9: 'X-XXXX-XXXX', 10: 'XX-XXXX-XXXX' } },
+  { iso: 'KR', name: 'South Korea', flag: '🇰🇷', callingCode: '82', nationalLengths: [8, 9, 10], trunkPrefix: '0', formats: { 10: 'XX-XXXX-XXXX' } },
+  { iso: 'SG', name: 'Singapore', flag: '🇸🇬', callingCode: '65', nationalLengths: [8], formats: { 8: 'XXXX XXXX' } },
+  { iso: 'MY', name: 'Malaysia', flag: '🇲🇾', callingCode: '60', nationalLengths: [8, 9, 10], trunkPrefix: '0', formats: { 9: 'XX-XXX XXXX', 10: 'XX-XXXX XXXX' } },
+  { iso: 'TH', name: 'Thailand', flag: '🇹🇭', callingCode: '66', nationalLengths: [8, 9], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+  { iso: 'VN', name: 'Vietnam', flag: '🇻🇳', callingCode: '84', nationalLengths: [9, 10], trunkPrefix: '0', formats: { 9: 'XX XXX XX XX' } },
+  { iso: 'PH', name: 'Philippines', flag: '🇵🇭', callingCode: '63', nationalLengths: [8, 9, 10], trunkPrefix: '0', formats: { 10: 'XXX XXX XXXX' } },
+  { iso: 'ID', name: 'Indonesia', flag: '🇮🇩', callingCode: '62', nationalLengths: [9, 10, 11, 12], trunkPrefix: '0' },
+  { iso: 'AU', name: 'Australia', flag: '🇦🇺', callingCode: '61', nationalLengths: [9], trunkPrefix: '0', formats: { 9: 'XXX XXX XXX' } },
+  { iso: 'NZ', name: 'New Zealand', flag: '🇳🇿', callingCode: '64', nationalLengths: [8, 9, 10], trunkPrefix: '0', formats: { 9: 'XX XXX XXXX' } },
+];
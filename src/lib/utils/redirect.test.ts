@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_AUTHENTICATED_PATH, getSafeRedirectPath } from '@/lib/utils/redirect';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-origin paths with their query and fragment', () => {
+    expect(getSafeRedirectPath('/workout/123?tab=rsvp#chat')).toBe('/workout/123?tab=rsvp#chat');
+  });
+
+  it('falls back for missing or relative values', () => {
+    expect(getSafeRedirectPath(null)).toBe(DEFAULT_AUTHENTICATED_PATH);
+    expect(getSafeRedirectPath('')).toBe(DEFAULT_AUTHENTICATED_PATH);
+    expect(getSafeRedirectPath('feed')).toBe(DEFAULT_AUTHENTICATED_PATH);
+    expect(getSafeRedirectPath('https://evil.com/')).toBe(DEFAULT_AUTHENTICATED_PATH);
+  });
+
+  it.each([
+    '//evil.com',
+    '/\\evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+    '/\r\n/evil.com',
+    '/feed\\..\\..\\evil.com',
+  ])('rejects %j, which the URL parser would send off-site', value => {
+    expect(getSafeRedirectPath(value)).toBe(DEFAULT_AUTHENTICATED_PATH);
+  });
+
+  it('rejects a tab decoded from the query string', () => {
+    const next = new URLSearchParams('next=/%09/evil.com').get('next');
+
+    expect(getSafeRedirectPath(next, '/login')).toBe('/login');
+  });
+});
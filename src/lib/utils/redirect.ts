@@ -0,0 +1,49 @@
+// Default destination after signing in
+export const DEFAULT_AUTHENTICATED_PATH = '/feed';
+
+// Query parameter holding the page to return to after signing in
+export const RETURN_URL_PARAM = 'next';
+
+// Stand-in origin for resolving return URLs; any other origin means the
+// value pointed off-site
+const REDIRECT_BASE = 'https://return.invalid';
+
+// Control characters and backslashes, which URL parsing strips or reads as
+// slashes ("/\t/evil.com" and "/\evil.com" both lead to evil.com)
+const UNSAFE_REDIRECT_CHARS = /[\u0000-\u001f\u007f\\]/;
+
+// Only allow same-origin relative paths as return URLs (no open redirects)
+export function getSafeRedirectPath(value: string | null | undefined, fallback = DEFAULT_AUTHENTICATED_PATH): string {
+  if (!value || typeof value !== 'string') {
+    return fallback;
+  }
+
+  // Must be an absolute path, not protocol-relative ("//host")
+  if (!value.startsWith('/') || value.startsWith('//') || UNSAFE_REDIRECT_CHARS.test(value)) {
+    return fallback;
+  }
+
+  // Let the URL parser have the final say on where the value leads
+  let url: URL;
+  try {
+    url = new URL(value, REDIRECT_BASE);
+  } catch {
+    return fallback;
+  }
+
+  if (url.origin !== REDIRECT_BASE) {
+    return fallback;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+// Read the return URL from the current page's query string (client only)
+export function getReturnPathFromLocation(fallback = DEFAULT_AUTHENTICATED_PATH): string {
+  if (typeof window === 'undefined') {
+    return fallback;
+  }
+
+  const params = new URLSearchParams(window.location.search);
+  return getSafeRedirectPath(params.get(RETURN_URL_PARAM), fallback);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { s } from '@/lib/utils/schema';
+import { profileUpdateSchema } from '@/lib/utils/validation';
+import { parseAvailabilityPayload } from '@/lib/services/availability';
+
+const pointSchema = s.object({
+  name: s.string('Name is required').trim().nonempty('Name is required'),
+  coords: s.tuple([s.number(), s.number()], 'Coords must be [x, y]'),
+  tags: s.array(s.string('Tags must be text')).max(2, 'At most 2 tags'),
+});
+
+const WINDOW = { day: 1, start_minute: 360, end_minute: 480 };
+
+describe('object schemas', () => {
+  it('returns typed data, trimming strings and dropping unknown keys', () => {
+    expect(pointSchema.parse({ name: '  Track ', coords: [1, 2], tags: [], extra: true })).toEqual({
+      data: { name: 'Track', coords: [1, 2], tags: [] },
+    });
+  });
+
+  it('reports errors by field path, first problem per field', () => {
+    expect(pointSchema.parse({ name: ' ', coords: [1], tags: ['a', 3] })).toEqual({
+      errors: { name: 'Name is required', coords: 'Coords must be [x, y]', 'tags.1': 'Tags must be text' },
+    });
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(pointSchema.parse([]).errors).toEqual({ '': 'Must be an object' });
+  });
+
+  it('makes every field optional with partial()', () => {
+    expect(pointSchema.partial().parse({ name: 'Track' })).toEqual({ data: { name: 'Track' } });
+    expect(pointSchema.partial().parse({ tags: ['a', 'b', 'c'] }).errors).toEqual({ tags: 'At most 2 tags' });
+  });
+});
+
+describe('optional and nullable', () => {
+  const schema = s.object({
+    nickname: s.string().optional(),
+    bio: s.string().nullable(),
+    email: s.string().orNull(),
+  });
+
+  it('accepts missing optional fields and explicit nulls', () => {
+    expect(schema.parse({ bio: null })).toEqual({ data: { bio: null, email: null } });
+  });
+
+  it('still requires nullable fields to be sent', () => {
+    expect(schema.parse({}).errors).toEqual({ bio: 'Must be text' });
+  });
+
+  it('reads blank strings as null only with orNull()', () => {
+    expect(schema.parse({ bio: '', email: '  ' })).toEqual({ data: { bio: '', email: null } });
+  });
+});
+
+describe('refine', () => {
+  const rangeSchema = s.object({
+    min: s.number().refine(value => (value % 5 === 0 ? null : 'Use steps of 5')),
+    max: s.number(),
+  }).refine(({ min, max }) => (min > max ? 'Max must be at least min' : null), 'max');
+
+  it('reports field refinements at the field', () => {
+    expect(rangeSchema.parse({ min: 3, max: 10 }).errors).toEqual({ min: 'Use steps of 5' });
+  });
+
+  it('reports object refinements against the named field', () => {
+    expect(rangeSchema.parse({ min: 10, max: 5 }).errors).toEqual({ max: 'Max must be at least min' });
+  });
+
+  it('skips object refinements until the fields are valid', () => {
+    expect(rangeSchema.parse({ min: 10, max: 'x' }).errors).toEqual({ max: 'Must be a number' });
+  });
+
+  it('keeps refinements through nullable() and reports nested paths', () => {
+    const schema = s.object({ ranges: s.array(rangeSchema.nullable()) });
+
+    expect(schema.parse({ ranges: [null, { min: 10, max: 5 }] }).errors).toEqual({
+      'ranges.1.max': 'Max must be at least min',
+    });
+  });
+});
+
+describe('profileUpdateSchema availability_timezone', () => {
+  it('rejects unknown time zones', () => {
+    expect(profileUpdateSchema.parse({ availability: [WINDOW], availability_timezone: 'Mars/Base' }).errors).toEqual({
+      availability_timezone: 'availability_timezone must be an IANA time zone such as America/New_York',
+    });
+  });
+
+  it('only accepts a time zone together with availability', () => {
+    expect(Object.keys(profileUpdateSchema.parse({ availability_timezone: 'Europe/Paris' }).errors!)).toEqual(['availability_timezone']);
+    expect(Object.keys(profileUpdateSchema.parse({ availability_timezone: null }).errors!)).toEqual(['availability_timezone']);
+    expect(profileUpdateSchema.parse({ availability: [WINDOW], availability_timezone: 'Europe/Paris' }).data).toEqual({
+      availability: [WINDOW],
+      availability_timezone: 'Europe/Paris',
+    });
+  });
+
+  it('needs a time zone for windows, which the availability parser enforces', () => {
+    const body = { availability: [WINDOW], availability_timezone: null };
+
+    expect(profileUpdateSchema.parse(body).data).toBeDefined();
+    expect(parseAvailabilityPayload(body).error?.code).toBe('INVALID_TIMEZONE');
+  });
+});
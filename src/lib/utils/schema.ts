@@ -0,0 +1,559 @@
+// Declarative validation shared by forms and API routes. A schema checks an
+// unknown value, returns it typed (strings trimmed, unknown object keys
+// dropped) or a map of error messages by field, and its TypeScript type comes
+// from Infer<typeof schema>.
+//
+//   const signInSchema = s.object({
+//     phone_number: s.string('Phone number is required'),
+//     password: s.string('Password is required').min(1, 'Password is required'),
+//   });
+//   type SignIn = Infer<typeof signInSchema>;
+//   const result = signInSchema.parse(body); // { data } or { errors: { password: '...' } }
+//
+// toJSONSchema() describes a schema for API docs; refinements are code and
+// are left out.
+
+// Error messages keyed by field path ("email", "availability.2.day"); the
+// value itself is reported under ''
+export type FieldErrors = Record<string, string>;
+
+export type SchemaResult<T> =
+  | { data: T; errors?: undefined }
+  | { data?: undefined; errors: FieldErrors };
+
+// Returns an error message, or null when the value is fine
+export type Refinement<T> = (value: T) => string | null;
+
+// JSON Schema (draft 2020-12, the dialect of OpenAPI 3.1)
+export type JSONSchema = Record<string, unknown>;
+
+// Marks a failed check while validating
+const INVALID = Symbol('invalid');
+type Checked<T> = T | typeof INVALID;
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+// Only the first problem found for a field is reported
+function addError(errors: FieldErrors, path: string, message: string): void {
+  if (!(path in errors)) {
+    errors[path] = message;
+  }
+}
+
+export abstract class Schema<T> {
+  declare readonly output: T; // Type only, for Infer
+
+  private refinements: { check: Refinement<unknown>; field?: string }[] = [];
+  private description?: string;
+
+  // Type and built-in constraint checks
+  protected abstract check(value: unknown, path: string, errors: FieldErrors): Checked<T>;
+
+  // JSON Schema keywords for the type and built-in constraints
+  protected abstract jsonSchema(): JSONSchema;
+
+  /**
+   * Validates a value
+   */
+  parse(value: unknown): SchemaResult<T> {
+    const errors: FieldErrors = {};
+    const data = this.validate(value, '', errors);
+
+    return data === INVALID ? { errors } : { data };
+  }
+
+  /**
+   * The first error message for a value, for checking a single form field
+   */
+  errorFor(value: unknown): string | undefined {
+    const result = this.parse(value);
+    return result.errors ? Object.values(result.errors)[0] : undefined;
+  }
+
+  /**
+   * Adds a custom check, run once the built-in checks pass. Errors from an
+   * object schema can be reported against one of its fields.
+   */
+  refine(check: Refinement<T>, field?: string): this {
+    const copy = this.clone();
+    copy.refinements = [...this.refinements, { check: check as Refinement<unknown>, field }];
+    return copy;
+  }
+
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema<T, undefined>(this, 'undefined');
+  }
+
+  nullable(): Schema<T | null> {
+    return new OptionalSchema<T, null>(this, 'null');
+  }
+
+  /**
+   * Adds a description, shown in the JSON Schema
+   */
+  describe(description: string): this {
+    const copy = this.clone();
+    copy.description = description;
+    return copy;
+  }
+
+  toJSONSchema(): JSONSchema {
+    const schema = this.jsonSchema();
+    return this.description ? { description: this.description, ...schema } : schema;
+  }
+
+  /** @internal Whether a missing value is accepted, making an object field optional */
+  acceptsMissing(): boolean {
+    return false;
+  }
+
+  /** @internal Validates a value nested at path */
+  validate(value: unknown, path: string, errors: FieldErrors): Checked<T> {
+    const checked = this.check(value, path, errors);
+    if (checked === INVALID) {
+      return INVALID;
+    }
+
+    for (const { check, field } of this.refinements) {
+      const message = check(checked);
+      if (message) {
+        addError(errors, field ? joinPath(path, field) : path, message);
+        return INVALID;
+      }
+    }
+
+    return checked;
+  }
+
+  // Constraint methods return copies so shared schemas are never changed
+  protected clone(): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+  }
+}
+
+export type Infer<S extends Schema<unknown>> = S['output'];
+
+class OptionalSchema<T, TEmpty extends undefined | null> extends Schema<T | TEmpty> {
+  constructor(readonly inner: Schema<T>, readonly empty: 'undefined' | 'null', readonly blank = false) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<T | TEmpty> {
+    // Blank strings and missing values count as null for orNull()
+    const isBlank = this.blank && (value === undefined || (typeof value === 'string' && value.trim() === ''));
+
+    if (this.empty === 'undefined' && value === undefined) {
+      return undefined as TEmpty;
+    }
+
+    if (this.empty === 'null' && (value === null || isBlank)) {
+      return null as TEmpty;
+    }
+
+    return this.inner.validate(value, path, errors);
+  }
+
+  protected jsonSchema(): JSONSchema {
+    const inner = this.inner.toJSONSchema();
+    return this.empty === 'null' ? { anyOf: [inner, { type: 'null' }] } : inner;
+  }
+
+  acceptsMissing(): boolean {
+    return this.empty === 'undefined' || this.blank || this.inner.acceptsMissing();
+  }
+}
+
+interface LengthRule {
+  length: number;
+  message: string;
+}
+
+export class StringSchema extends Schema<string> {
+  private trims = false;
+  private emptyMessage?: string;
+  private minLength?: LengthRule;
+  private maxLength?: LengthRule;
+  private pattern?: { regex: RegExp; message: string };
+
+  constructor(readonly typeMessage = 'Must be text') {
+    super();
+  }
+
+  /**
+   * Trims whitespace before the other checks
+   */
+  trim(): StringSchema {
+    const copy = this.clone();
+    copy.trims = true;
+    return copy;
+  }
+
+  /**
+   * Rejects empty strings (after trimming) with the given message
+   */
+  nonempty(message = 'Required'): StringSchema {
+    const copy = this.clone();
+    copy.emptyMessage = message;
+    return copy;
+  }
+
+  min(length: number, message = `Must be at least ${length} characters`): StringSchema {
+    const copy = this.clone();
+    copy.minLength = { length, message };
+    return copy;
+  }
+
+  max(length: number, message = `Must be at most ${length} characters`): StringSchema {
+    const copy = this.clone();
+    copy.maxLength = { length, message };
+    return copy;
+  }
+
+  matches(regex: RegExp, message: string): StringSchema {
+    const copy = this.clone();
+    copy.pattern = { regex, message };
+    return copy;
+  }
+
+  /**
+   * Treats missing, null and blank strings as null
+   */
+  orNull(): Schema<string | null> {
+    return new OptionalSchema<string, null>(this, 'null', true);
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<string> {
+    if (typeof value !== 'string') {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    const text = this.trims ? value.trim() : value;
+
+    if (this.emptyMessage && text.length === 0) {
+      addError(errors, path, this.emptyMessage);
+      return INVALID;
+    }
+
+    if (this.minLength && text.length < this.minLength.length) {
+      addError(errors, path, this.minLength.message);
+      return INVALID;
+    }
+
+    if (this.maxLength && text.length > this.maxLength.length) {
+      addError(errors, path, this.maxLength.message);
+      return INVALID;
+    }
+
+    if (this.pattern && !this.pattern.regex.test(text)) {
+      addError(errors, path, this.pattern.message);
+      return INVALID;
+    }
+
+    return text;
+  }
+
+  protected jsonSchema(): JSONSchema {
+    const schema: JSONSchema = { type: 'string' };
+    const minLength = Math.max(this.emptyMessage ? 1 : 0, this.minLength?.length ?? 0);
+
+    if (minLength > 0) {
+      schema.minLength = minLength;
+    }
+    if (this.maxLength) {
+      schema.maxLength = this.maxLength.length;
+    }
+    if (this.pattern) {
+      schema.pattern = this.pattern.regex.source;
+    }
+
+    return schema;
+  }
+}
+
+export class NumberSchema extends Schema<number> {
+  private integer?: string;
+  private minimum?: { value: number; message: string };
+  private maximum?: { value: number; message: string };
+
+  constructor(readonly typeMessage = 'Must be a number') {
+    super();
+  }
+
+  int(message = 'Must be a whole number'): NumberSchema {
+    const copy = this.clone();
+    copy.integer = message;
+    return copy;
+  }
+
+  min(value: number, message = `Must be at least ${value}`): NumberSchema {
+    const copy = this.clone();
+    copy.minimum = { value, message };
+    return copy;
+  }
+
+  max(value: number, message = `Must be at most ${value}`): NumberSchema {
+    const copy = this.clone();
+    copy.maximum = { value, message };
+    return copy;
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<number> {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    if (this.integer && !Number.isInteger(value)) {
+      addError(errors, path, this.integer);
+      return INVALID;
+    }
+
+    if (this.minimum && value < this.minimum.value) {
+      addError(errors, path, this.minimum.message);
+      return INVALID;
+    }
+
+    if (this.maximum && value > this.maximum.value) {
+      addError(errors, path, this.maximum.message);
+      return INVALID;
+    }
+
+    return value;
+  }
+
+  protected jsonSchema(): JSONSchema {
+    const schema: JSONSchema = { type: this.integer ? 'integer' : 'number' };
+
+    if (this.minimum) {
+      schema.minimum = this.minimum.value;
+    }
+    if (this.maximum) {
+      schema.maximum = this.maximum.value;
+    }
+
+    return schema;
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  constructor(readonly typeMessage = 'Must be true or false') {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<boolean> {
+    if (typeof value !== 'boolean') {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    return value;
+  }
+
+  protected jsonSchema(): JSONSchema {
+    return { type: 'boolean' };
+  }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+  constructor(readonly values: readonly T[], readonly message = `Must be one of: ${values.join(', ')}`) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<T> {
+    if (!this.values.includes(value as T)) {
+      addError(errors, path, this.message);
+      return INVALID;
+    }
+
+    return value as T;
+  }
+
+  protected jsonSchema(): JSONSchema {
+    return { type: 'string', enum: [...this.values] };
+  }
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  private maxItems?: { count: number; message: string };
+
+  constructor(readonly items: Schema<T>, readonly typeMessage = 'Must be a list') {
+    super();
+  }
+
+  max(count: number, message = `Must have at most ${count} items`): ArraySchema<T> {
+    const copy = this.clone();
+    copy.maxItems = { count, message };
+    return copy;
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<T[]> {
+    if (!Array.isArray(value)) {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    if (this.maxItems && value.length > this.maxItems.count) {
+      addError(errors, path, this.maxItems.message);
+      return INVALID;
+    }
+
+    const items = value.map((item, index) => this.items.validate(item, joinPath(path, index), errors));
+
+    return items.includes(INVALID) ? INVALID : (items as T[]);
+  }
+
+  protected jsonSchema(): JSONSchema {
+    const schema: JSONSchema = { type: 'array', items: this.items.toJSONSchema() };
+
+    if (this.maxItems) {
+      schema.maxItems = this.maxItems.count;
+    }
+
+    return schema;
+  }
+}
+
+type TupleOutput<T extends Schema<unknown>[]> = { [K in keyof T]: T[K] extends Schema<infer U> ? U : never };
+
+// Fixed-length list with a schema per position, e.g. [longitude, latitude]
+export class TupleSchema<T extends Schema<unknown>[]> extends Schema<TupleOutput<T>> {
+  constructor(readonly items: T, readonly typeMessage = `Must be a list of ${items.length} items`) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<TupleOutput<T>> {
+    if (!Array.isArray(value) || value.length !== this.items.length) {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    const items = this.items.map((schema, index) => schema.validate(value[index], joinPath(path, index), errors));
+
+    return items.includes(INVALID) ? INVALID : (items as TupleOutput<T>);
+  }
+
+  protected jsonSchema(): JSONSchema {
+    return {
+      type: 'array',
+      prefixItems: this.items.map(schema => schema.toJSONSchema()),
+      minItems: this.items.length,
+      maxItems: this.items.length,
+    };
+  }
+}
+
+// Object with any keys and values of one schema
+export class RecordSchema<T> extends Schema<Record<string, T>> {
+  constructor(readonly values: Schema<T>, readonly typeMessage = 'Must be an object') {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<Record<string, T>> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    const output: Record<string, T> = {};
+    let valid = true;
+
+    for (const [key, item] of Object.entries(value)) {
+      const checked = this.values.validate(item, joinPath(path, key), errors);
+
+      if (checked === INVALID) {
+        valid = false;
+      } else {
+        output[key] = checked;
+      }
+    }
+
+    return valid ? output : INVALID;
+  }
+
+  protected jsonSchema(): JSONSchema {
+    return { type: 'object', additionalProperties: this.values.toJSONSchema() };
+  }
+}
+
+export type Shape = Record<string, Schema<unknown>>;
+
+// Fields whose schema accepts undefined become optional properties
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+export type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+export class ObjectSchema<S extends Shape> extends Schema<ObjectOutput<S>> {
+  constructor(readonly shape: S, readonly typeMessage = 'Must be an object') {
+    super();
+  }
+
+  /**
+   * The same fields with every one optional, for updates
+   */
+  partial(): ObjectSchema<{ [K in keyof S]: Schema<Infer<S[K]> | undefined> }> {
+    const shape = Object.fromEntries(
+      Object.entries(this.shape).map(([key, schema]) => [key, schema.optional()])
+    ) as { [K in keyof S]: Schema<Infer<S[K]> | undefined> };
+
+    return new ObjectSchema(shape, this.typeMessage);
+  }
+
+  /**
+   * Adds or replaces fields; refinements are not carried over
+   */
+  extend<E extends Shape>(fields: E): ObjectSchema<Omit<S, keyof E> & E> {
+    return new ObjectSchema({ ...this.shape, ...fields } as Omit<S, keyof E> & E, this.typeMessage);
+  }
+
+  protected check(value: unknown, path: string, errors: FieldErrors): Checked<ObjectOutput<S>> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      addError(errors, path, this.typeMessage);
+      return INVALID;
+    }
+
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    let valid = true;
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const field = schema.validate(input[key], joinPath(path, key), errors);
+
+      if (field === INVALID) {
+        valid = false;
+      } else if (field !== undefined) {
+        output[key] = field;
+      }
+    }
+
+    return valid ? (output as ObjectOutput<S>) : INVALID;
+  }
+
+  protected jsonSchema(): JSONSchema {
+    const entries = Object.entries(this.shape);
+    const required = entries.filter(([, schema]) => !schema.acceptsMissing()).map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.toJSONSchema()])),
+      ...(required.length > 0 && { required }),
+    };
+  }
+}
+
+// Schema builders. Each takes the message used when the value has the wrong
+// type, which for a required field is also the "missing" message.
+export const s = {
+  string: (message?: string) => new StringSchema(message),
+  number: (message?: string) => new NumberSchema(message),
+  boolean: (message?: string) => new BooleanSchema(message),
+  enum: <T extends string>(values: readonly T[], message?: string) => new EnumSchema(values, message),
+  array: <T>(items: Schema<T>, message?: string) => new ArraySchema(items, message),
+  tuple: <T extends Schema<unknown>[]>(items: [...T], message?: string) => new TupleSchema(items, message),
+  record: <T>(values: Schema<T>, message?: string) => new RecordSchema(values, message),
+  object: <S extends Shape>(shape: S, message?: string) => new ObjectSchema(shape, message),
+};
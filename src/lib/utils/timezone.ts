@@ -0,0 +1,149 @@
+// Wall-clock time conversion for IANA time zones using the platform's Intl
+// data. Recurring workouts keep their local start time across DST changes,
+// so schedules are expanded in the workout's zone and converted to UTC here.
+
+// Calendar date and time of day in some time zone
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Checks that a value is an IANA time zone name this runtime knows about
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return false;
+  }
+
+  try {
+    getFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the time zone of the current device, falling back to UTC
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Converts an ISO timestamp to a datetime-local input value in device time
+ */
+export function toDateTimeLocalValue(iso: string | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Returns the wall-clock date and time at an instant in a time zone
+ */
+export function toZonedDateTime(utcMs: number, timeZone: string): ZonedDateTime {
+  const values: Record<string, number> = {};
+
+  for (const part of getFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+/**
+ * Returns the zone's UTC offset in milliseconds at an instant (east positive)
+ */
+export function getTimeZoneOffset(utcMs: number, timeZone: string): number {
+  const zoned = toZonedDateTime(utcMs, timeZone);
+  const wallMs = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+
+  // Intl has second precision, so compare against the instant truncated the same way
+  return wallMs - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in a time zone to a UTC instant (milliseconds).
+ * Follows RFC 5545: times skipped by a DST jump use the offset from before
+ * the jump (02:30 becomes 03:30), and repeated times resolve to the first one.
+ */
+export function fromZonedDateTime(zoned: ZonedDateTime, timeZone: string): number {
+  const wallMs = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+
+  // Offsets in effect around this wall time; they differ only near a transition
+  const offsetBefore = getTimeZoneOffset(wallMs - MS_PER_DAY / 2, timeZone);
+  const offsetAfter = getTimeZoneOffset(wallMs + MS_PER_DAY / 2, timeZone);
+
+  const candidates = [wallMs - offsetBefore, wallMs - offsetAfter]
+    .filter(utcMs => getTimeZoneOffset(utcMs, timeZone) === wallMs - utcMs);
+
+  if (candidates.length === 0) {
+    return wallMs - offsetBefore;
+  }
+
+  return Math.min(...candidates);
+}
+
+/**
+ * Days since 1970-01-01 for a calendar date (used for date arithmetic)
+ */
+export function toDayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+/**
+ * Calendar date for a day number from toDayNumber
+ */
+export function fromDayNumber(dayNumber: number): { year: number; month: number; day: number } {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Day of the week for a day number (0 = Sunday)
+ */
+export function dayNumberWeekday(dayNumber: number): number {
+  // 1970-01-01 was a Thursday
+  return (((dayNumber + 4) % 7) + 7) % 7;
+}
@@ -1,191 +1,255 @@
+import { ActivityType, VALIDATION_LIMITS, isActivityType, isValidEmail } from '@/types/database';
+import { DEFAULT_PHONE_COUNTRY, validatePhoneNumber } from '@/lib/utils/phone';
+import { s, type Infer } from '@/lib/utils/schema';
+import { isValidTimeZone } from '@/lib/utils/timezone';
+
 // Validation result type
 export interface ValidationResult {
   valid: boolean;
   message?: string;
 }
 
-// Phone number validation
-export function validatePhoneNumber(phone: string): ValidationResult {
-  if (!phone || typeof phone !== 'string') {
-    return { valid: false, message: 'Phone number is required' };
+// Field schemas for account and profile payloads, shared by the forms and
+// the API routes
+
+// Phone number as typed; national numbers are read for the given country
+export const phoneNumberSchema = (country: string = DEFAULT_PHONE_COUNTRY) =>
+  s.string('Phone number is required')
+    .trim()
+    .nonempty('Phone number is required')
+    .refine(value => {
+      const validation = validatePhoneNumber(value, country);
+      return validation.valid ? null : validation.message || 'Please enter a valid phone number';
+    });
+
+export const passwordSchema = s.string('Password is required')
+  .nonempty('Password is required')
+  .min(VALIDATION_LIMITS.PASSWORD_MIN_LENGTH, `Password must be at least ${VALIDATION_LIMITS.PASSWORD_MIN_LENGTH} characters long`)
+  .max(VALIDATION_LIMITS.PASSWORD_MAX_LENGTH, `Password must be less than ${VALIDATION_LIMITS.PASSWORD_MAX_LENGTH} characters`)
+  .refine(value => /[a-zA-Z]/.test(value) ? null : 'Password must contain at least one letter')
+  .refine(value => /\d/.test(value) ? null : 'Password must contain at least one number');
+
+export const nameSchema = s.string('Name is required')
+  .trim()
+  .nonempty('Name is required')
+  .min(VALIDATION_LIMITS.NAME_MIN_LENGTH, `Name must be at least ${VALIDATION_LIMITS.NAME_MIN_LENGTH} character(s) long`)
+  .max(VALIDATION_LIMITS.NAME_MAX_LENGTH, `Name must be less than ${VALIDATION_LIMITS.NAME_MAX_LENGTH} characters`);
+
+// Optional; blank means no email
+export const emailSchema = s.string('Email must be text')
+  .trim()
+  .max(VALIDATION_LIMITS.EMAIL_MAX_LENGTH, 'Email address is too long')
+  .refine(value => isValidEmail(value) ? null : 'Please enter a valid email address')
+  .orNull();
+
+const PACE_RANGE_MESSAGE = `Pace must be between ${VALIDATION_LIMITS.PACE_MIN} and ${VALIDATION_LIMITS.PACE_MAX} minutes per mile`;
+
+// Minutes per mile
+const paceSchema = s.number('Pace must be a number')
+  .int('Pace must be a whole number of minutes')
+  .min(VALIDATION_LIMITS.PACE_MIN, PACE_RANGE_MESSAGE)
+  .max(VALIDATION_LIMITS.PACE_MAX, PACE_RANGE_MESSAGE);
+
+const ACTIVITY_TYPES = Object.values(ActivityType);
+
+const TIMEZONE_MESSAGE = 'availability_timezone must be an IANA time zone such as America/New_York';
+
+const AVAILABILITY_WINDOW_MESSAGE = 'Each availability window needs a day (0-6) and a start before its end (minutes after midnight)';
+
+// Whole number field of an availability window
+const windowNumberSchema = (min: number, max: number) => s.number(AVAILABILITY_WINDOW_MESSAGE)
+  .int(AVAILABILITY_WINDOW_MESSAGE)
+  .min(min, AVAILABILITY_WINDOW_MESSAGE)
+  .max(max, AVAILABILITY_WINDOW_MESSAGE);
+
+// Weekly window when a user is usually free, in their availability time zone
+export const availabilityWindowSchema = s.object({
+  day: windowNumberSchema(0, 6).describe('0 = Sunday ... 6 = Saturday'),
+  start_minute: windowNumberSchema(0, 24 * 60 - 1).describe('Minutes after local midnight'),
+  end_minute: windowNumberSchema(1, 24 * 60).describe('Exclusive, up to 1440 (midnight)'),
+}, AVAILABILITY_WINDOW_MESSAGE).refine(window =>
+  window.start_minute < window.end_minute ? null : AVAILABILITY_WINDOW_MESSAGE);
+
+export const registerSchema = s.object({
+  phone_number: phoneNumberSchema(),
+  password: passwordSchema,
+  name: nameSchema,
+  email: emailSchema,
+});
+
+// Only checks that a password was given, so older passwords still work
+export const loginSchema = s.object({
+  phone_number: phoneNumberSchema(),
+  password: s.string('Password is required').nonempty('Password is required'),
+});
+
+// Every field is optional; only the ones sent are changed
+export const profileUpdateSchema = s.object({
+  name: nameSchema,
+  email: emailSchema,
+  activity_preferences: s.array(
+    s.enum(ACTIVITY_TYPES, `Activity preferences can only include: ${ACTIVITY_TYPES.join(', ')}`),
+    'Activity preferences must be a list'
+  ),
+  pace_range_min: paceSchema.nullable(),
+  pace_range_max: paceSchema.nullable(),
+  availability: s.array(availabilityWindowSchema, `Availability must be a list of at most ${VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX} weekly windows`)
+    .max(VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX, `Availability must be a list of at most ${VALIDATION_LIMITS.AVAILABILITY_WINDOWS_MAX} weekly windows`)
+    .describe('Replaces all windows; an empty list stops sharing availability'),
+  availability_timezone: s.string(TIMEZONE_MESSAGE)
+    .refine(value => isValidTimeZone(value) ? null : TIMEZONE_MESSAGE)
+    .describe('IANA time zone of the windows; only sent with them, and required with them')
+    .nullable(),
+}).partial()
+  .refine(({ pace_range_min: min, pace_range_max: max }) =>
+    min != null && max != null && min > max ? 'Minimum pace must be less than maximum pace' : null,
+  'pace_range_max')
+  // The time zone belongs to the windows, so it is replaced along with them
+  .refine(({ availability, availability_timezone: timeZone }) =>
+    timeZone !== undefined && availability === undefined ? 'availability_timezone can only be sent together with availability' : null,
+  'availability_timezone');
+
+export const locationSchema = s.object({
+  latitude: s.number('Latitude must be a number')
+    .min(-90, 'Latitude must be between -90 and 90')
+    .max(90, 'Latitude must be between -90 and 90'),
+  longitude: s.number('Longitude must be a number')
+    .min(-180, 'Longitude must be between -180 and 180')
+    .max(180, 'Longitude must be between -180 and 180'),
+  locationName: s.string('Location name is required')
+    .trim()
+    .nonempty('Location name is required')
+    .max(VALIDATION_LIMITS.LOCATION_NAME_MAX_LENGTH, `Location name must be less than ${VALIDATION_LIMITS.LOCATION_NAME_MAX_LENGTH} characters`),
+});
+
+export type RegisterPayload = Infer<typeof registerSchema>;
+export type LoginPayload = Infer<typeof loginSchema>;
+export type ProfileUpdatePayload = Infer<typeof profileUpdateSchema>;
+export type LocationPayload = Infer<typeof locationSchema>;
+
+// Pace range validation
+export function validatePaceRange(min?: number, max?: number): ValidationResult {
+  // If neither provided, it's valid (optional field)
+  if (min === undefined && max === undefined) {
+    return { valid: true };
   }
 
-  const trimmed = phone.trim();
-  
-  // Must start with +
-  if (!trimmed.startsWith('+')) {
-    return { valid: false, message: 'Phone number must include country code (e.g., +1)' };
+  // If only one provided, check if it's positive
+  if (min !== undefined) {
+    if (typeof min !== 'number' || isNaN(min) || min <= 0) {
+      return { valid: false, message: 'Pace must be a positive number' };
+    }
+    if (min < VALIDATION_LIMITS.PACE_MIN || min > VALIDATION_LIMITS.PACE_MAX) {
+      return { valid: false, message: PACE_RANGE_MESSAGE };
+    }
   }
 
-  // Remove + and check if remaining characters are digits
-  const digits = trimmed.slice(1);
-  if (!/^\d+$/.test(digits)) {
-    return { valid: false, message: 'Phone number can only contain digits after the country code' };
+  if (max !== undefined) {
+    if (typeof max !== 'number' || isNaN(max) || max <= 0) {
+      return { valid: false, message: 'Pace must be a positive number' };
+    }
+    if (max < VALIDATION_LIMITS.PACE_MIN || max > VALIDATION_LIMITS.PACE_MAX) {
+      return { valid: false, message: PACE_RANGE_MESSAGE };
+    }
   }
 
-  // Check length (10-15 digits after country code)
-  if (digits.length < 10 || digits.length > 15) {
-    return { valid: false, message: 'Phone number must be 10-15 digits long' };
+  // If both provided, check that min < max
+  if (min !== undefined && max !== undefined && min >= max) {
+    return { valid: false, message: 'Minimum pace must be less than maximum pace' };
   }
 
   return { valid: true };
 }
 
-// Email validation
-export function validateEmail(email: string): ValidationResult | undefined {
-  if (!email || email.trim() === '') {
-    return undefined; // Email is optional
+// Workout title validation
+export function validateWorkoutTitle(title: string): ValidationResult {
+  if (!title || typeof title !== 'string' || title.trim().length === 0) {
+    return { valid: false, message: 'Title is required' };
   }
 
-  const trimmed = email.trim();
-  
-  // Basic email regex
-  const emailRegex = /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
-  
-  if (!emailRegex.test(trimmed)) {
-    return { valid: false, message: 'Please enter a valid email address' };
-  }
-
-  if (trimmed.length > 254) {
-    return { valid: false, message: 'Email address is too long' };
+  if (title.trim().length > VALIDATION_LIMITS.WORKOUT_TITLE_MAX_LENGTH) {
+    return { valid: false, message: `Title must be less than ${VALIDATION_LIMITS.WORKOUT_TITLE_MAX_LENGTH} characters` };
   }
 
   return { valid: true };
 }
 
-// Password validation
-export function validatePassword(password: string): ValidationResult {
-  if (!password || typeof password !== 'string') {
-    return { valid: false, message: 'Password is required' };
+// Workout activity type validation
+export function validateActivityType(activity: string): ValidationResult {
+  if (!activity || typeof activity !== 'string' || !isActivityType(activity)) {
+    return { valid: false, message: 'Please choose a valid activity type' };
   }
 
-  if (password.length < 8) {
-    return { valid: false, message: 'Password must be at least 8 characters long' };
-  }
+  return { valid: true };
+}
 
-  if (password.length > 128) {
-    return { valid: false, message: 'Password is too long' };
+// Workout start time validation (must be a valid date in the future)
+export function validateWorkoutStartTime(startTime: string, now: Date = new Date()): ValidationResult {
+  if (!startTime || typeof startTime !== 'string') {
+    return { valid: false, message: 'Start time is required' };
   }
 
-  // Check for at least one letter
-  if (!/[a-zA-Z]/.test(password)) {
-    return { valid: false, message: 'Password must contain at least one letter' };
+  const parsed = new Date(startTime);
+  if (isNaN(parsed.getTime())) {
+    return { valid: false, message: 'Start time must be a valid date' };
   }
 
-  // Check for at least one number
-  if (!/\d/.test(password)) {
-    return { valid: false, message: 'Password must contain at least one number' };
+  if (parsed.getTime() <= now.getTime()) {
+    return { valid: false, message: 'Start time must be in the future' };
   }
 
   return { valid: true };
 }
 
-// Name validation
-export function validateName(name: string): ValidationResult {
-  if (!name || typeof name !== 'string') {
-    return { valid: false, message: 'Name is required' };
-  }
-
-  const trimmed = name.trim();
-  
-  if (trimmed.length < 2) {
-    return { valid: false, message: 'Name must be at least 2 characters long' };
+// Workout duration validation (minutes)
+export function validateWorkoutDuration(duration: number): ValidationResult {
+  if (typeof duration !== 'number' || !Number.isInteger(duration)) {
+    return { valid: false, message: 'Duration must be a whole number of minutes' };
   }
 
-  if (trimmed.length > 50) {
-    return { valid: false, message: 'Name must be less than 50 characters' };
-  }
-
-  // Only letters, spaces, hyphens, apostrophes
-  const nameRegex = /^[a-zA-Z\s\-']+$/;
-  if (!nameRegex.test(trimmed)) {
-    return { valid: false, message: 'Name can only contain letters, spaces, hyphens, and apostrophes' };
+  if (duration < VALIDATION_LIMITS.WORKOUT_DURATION_MIN || duration > VALIDATION_LIMITS.WORKOUT_DURATION_MAX) {
+    return {
+      valid: false,
+      message: `Duration must be between ${VALIDATION_LIMITS.WORKOUT_DURATION_MIN} and ${VALIDATION_LIMITS.WORKOUT_DURATION_MAX} minutes`
+    };
   }
 
   return { valid: true };
 }
 
-// Pace range validation
-export function validatePaceRange(min?: number, max?: number): ValidationResult {
-  // If neither provided, it's valid (optional field)
-  if (min === undefined && max === undefined) {
+// Workout capacity validation (null means unlimited)
+export function validateWorkoutCapacity(capacity: number | null): ValidationResult {
+  if (capacity === null) {
     return { valid: true };
   }
 
-  // If only one provided, check if it's positive
-  if (min !== undefined) {
-    if (typeof min !== 'number' || isNaN(min) || min <= 0) {
-      return { valid: false, message: 'Pace must be a positive number' };
-    }
-    if (min < 4 || min > 20) {
-      return { valid: false, message: 'Pace must be between 4 and 20 minutes per mile' };
-    }
+  if (typeof capacity !== 'number' || !Number.isInteger(capacity)) {
+    return { valid: false, message: 'Capacity must be a whole number' };
   }
 
-  if (max !== undefined) {
-    if (typeof max !== 'number' || isNaN(max) || max <= 0) {
-      return { valid: false, message: 'Pace must be a positive number' };
-    }
-    if (max < 4 || max > 20) {
-      return { valid: false, message: 'Pace must be between 4 and 20 minutes per mile' };
-    }
-  }
-
-  // If both provided, check that min < max
-  if (min !== undefined && max !== undefined && min >= max) {
-    return { valid: false, message: 'Minimum pace must be less than maximum pace' };
+  if (capacity < VALIDATION_LIMITS.WORKOUT_CAPACITY_MIN || capacity > VALIDATION_LIMITS.WORKOUT_CAPACITY_MAX) {
+    return {
+      valid: false,
+      message: `Capacity must be between ${VALIDATION_LIMITS.WORKOUT_CAPACITY_MIN} and ${VALIDATION_LIMITS.WORKOUT_CAPACITY_MAX}`
+    };
   }
 
   return { valid: true };
 }
 
-// Activity preferences validation
-export function validateActivityPreferences(prefs: string[]): ValidationResult {
-  if (!Array.isArray(prefs)) {
-    return { valid: false, message: 'Activity preferences must be an array' };
+// Workout notes validation (optional)
+export function validateWorkoutNotes(notes: string | null): ValidationResult {
+  if (notes === null || notes === '') {
+    return { valid: true };
   }
 
-  // Array can be empty
-  if (prefs.length === 0) {
-    return { valid: true };
+  if (typeof notes !== 'string') {
+    return { valid: false, message: 'Notes must be text' };
   }
 
-  const validActivities = ['run', 'bike', 'walk'];
-  
-  for (const pref of prefs) {
-    if (typeof pref !== 'string' || !validActivities.includes(pref)) {
-      return { valid: false, message: 'Activity preferences can only include: run, bike, walk' };
-    }
+  if (notes.length > VALIDATION_LIMITS.WORKOUT_NOTES_MAX_LENGTH) {
+    return { valid: false, message: `Notes must be less than ${VALIDATION_LIMITS.WORKOUT_NOTES_MAX_LENGTH} characters` };
   }
 
   return { valid: true };
 }
-
-// Phone number formatting
-export function formatPhoneNumber(phone: string): string {
-  if (!phone || typeof phone !== 'string') {
-    return '';
-  }
-
-  // Remove all non-numeric characters except +
-  const cleaned = phone.replace(/[^\d+]/g, '');
-  
-  // If it starts with +, keep it
-  if (cleaned.startsWith('+')) {
-    return cleaned;
-  }
-  
-  // If it's just digits, assume US number and add +1
-  const digits = cleaned.replace(/\D/g, '');
-  if (digits.length === 10) {
-    return `+1${digits}`;
-  }
-  
-  // If it's 11 digits and starts with 1, add +
-  if (digits.length === 11 && digits.startsWith('1')) {
-    return `+${digits}`;
-  }
-  
-  // Return as is if we can't determine format
-  return phone;
-}
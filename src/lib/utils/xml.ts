@@ -0,0 +1,244 @@
+// Minimal XML reader and writer for GPS exchange formats (GPX, TCX).
+// Supports elements, attributes, text, CDATA, comments, processing
+// instructions and the predefined/numeric entities. DTDs are skipped.
+
+// Element of a parsed document
+export interface XmlElement {
+  name: string; // Qualified name, e.g. "gpxtpx:hr"
+  localName: string; // Name without its namespace prefix, e.g. "hr"
+  attributes: Record<string, string>; // Keyed by qualified name
+  children: XmlElement[];
+  text: string; // Character data directly inside this element
+}
+
+export type XmlParseResult =
+  | { root: XmlElement; error?: undefined }
+  | { root?: undefined; error: string };
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME_PATTERN = /^[A-Za-z_][\w.:-]*/;
+const ATTRIBUTE_PATTERN = /([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+/**
+ * Replaces entity and character references in text or attribute values
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function createElement(name: string, attributeSource: string): XmlElement {
+  const attributes: Record<string, string> = {};
+  for (const match of attributeSource.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+
+  const colon = name.indexOf(':');
+  return {
+    name,
+    localName: colon === -1 ? name : name.slice(colon + 1),
+    attributes,
+    children: [],
+    text: '',
+  };
+}
+
+// Index of the ">" ending a start tag, skipping quoted attribute values
+function findTagEnd(source: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parses an XML document into an element tree
+ */
+export function parseXml(source: string): XmlParseResult {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const appendText = (text: string) => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += text;
+    } else if (text.trim()) {
+      throw new Error('Text outside the root element');
+    }
+  };
+
+  try {
+    while (position < source.length) {
+      const tagStart = source.indexOf('<', position);
+
+      if (tagStart === -1) {
+        appendText(decodeEntities(source.slice(position)));
+        break;
+      }
+
+      if (tagStart > position) {
+        appendText(decodeEntities(source.slice(position, tagStart)));
+      }
+
+      if (source.startsWith('<!--', tagStart)) {
+        const end = source.indexOf('-->', tagStart + 4);
+        if (end === -1) throw new Error('Unterminated comment');
+        position = end + 3;
+      } else if (source.startsWith('<![CDATA[', tagStart)) {
+        const end = source.indexOf(']]>', tagStart + 9);
+        if (end === -1) throw new Error('Unterminated CDATA section');
+        appendText(source.slice(tagStart + 9, end));
+        position = end + 3;
+      } else if (source.startsWith('<?', tagStart)) {
+        const end = source.indexOf('?>', tagStart + 2);
+        if (end === -1) throw new Error('Unterminated processing instruction');
+        position = end + 2;
+      } else if (source.startsWith('<!', tagStart)) {
+        // DOCTYPE; an internal subset ends with "]>"
+        const bracket = source.indexOf('[', tagStart);
+        const close = source.indexOf('>', tagStart);
+        const end = bracket !== -1 && bracket < close ? source.indexOf(']>', bracket) + 1 : close;
+        if (end <= 0) throw new Error('Unterminated declaration');
+        position = end + 1;
+      } else if (source[tagStart + 1] === '/') {
+        const end = source.indexOf('>', tagStart);
+        if (end === -1) throw new Error('Unterminated closing tag');
+        const name = source.slice(tagStart + 2, end).trim();
+        const current = stack.pop();
+        if (!current || current.name !== name) {
+          throw new Error(`Unexpected closing tag </${name}>`);
+        }
+        position = end + 1;
+      } else {
+        const end = findTagEnd(source, tagStart);
+        if (end === -1) throw new Error('Unterminated tag');
+
+        const selfClosing = source[end - 1] === '/';
+        const body = source.slice(tagStart + 1, selfClosing ? end - 1 : end);
+        const nameMatch = body.match(NAME_PATTERN);
+        if (!nameMatch) throw new Error('Invalid tag name');
+
+        const element = createElement(nameMatch[0], body.slice(nameMatch[0].length));
+        const parent = stack[stack.length - 1];
+
+        if (parent) {
+          parent.children.push(element);
+        } else if (root) {
+          throw new Error('Multiple root elements');
+        } else {
+          root = element;
+        }
+
+        if (!selfClosing) {
+          stack.push(element);
+        }
+        position = end + 1;
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new Error(`Missing closing tag for <${stack[stack.length - 1].name}>`);
+    }
+    if (!root) {
+      throw new Error('Document has no root element');
+    }
+
+    return { root };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid XML' };
+  }
+}
+
+/**
+ * First direct child with the given local name
+ */
+export function findChild(element: XmlElement, localName: string): XmlElement | undefined {
+  return element.children.find(child => child.localName === localName);
+}
+
+/**
+ * All direct children with the given local name
+ */
+export function findChildren(element: XmlElement, localName: string): XmlElement[] {
+  return element.children.filter(child => child.localName === localName);
+}
+
+/**
+ * All descendants with the given local name, in document order
+ */
+export function findDescendants(element: XmlElement, localName: string, matches: XmlElement[] = []): XmlElement[] {
+  for (const child of element.children) {
+    if (child.localName === localName) {
+      matches.push(child);
+    }
+    findDescendants(child, localName, matches);
+  }
+  return matches;
+}
+
+/**
+ * Trimmed text of the first child with the given local name
+ */
+export function childText(element: XmlElement, localName: string): string | null {
+  const child = findChild(element, localName);
+  return child ? child.text.trim() : null;
+}
+
+/**
+ * Reads a number from element or attribute text, or null when absent or malformed
+ */
+export function parseNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') {
+    return null;
+  }
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Reads a timestamp from element or attribute text as an ISO string, or null when invalid
+ */
+export function parseTimestamp(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const time = new Date(value.trim());
+  return Number.isNaN(time.getTime()) ? null : time.toISOString();
+}
+
+/**
+ * Escapes text for use in element content or attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,124 @@
+import { createServerClient } from '@supabase/ssr'
+import { NextResponse, type NextRequest } from 'next/server'
+import {
+  DEFAULT_AUTHENTICATED_PATH,
+  RETURN_URL_PARAM,
+  getSafeRedirectPath,
+} from '@/lib/utils/redirect'
+
+// Routes that require a signed-in user
+const protectedRoutes = ['/feed', '/workout', '/profile', '/friends', '/notifications']
+
+// Routes only for signed-out users
+const authRoutes = ['/login', '/register']
+
+// Where users finish onboarding
+const PROFILE_SETUP_PATH = '/profile-setup'
+
+// Match a route and its sub-paths ("/profile" must not match "/profile-setup")
+function matchesRoute(pathname: string, routes: string[]): boolean {
+  return routes.some(route => pathname === route || pathname.startsWith(`${route}/`))
+}
+
+export async function middleware(request: NextRequest) {
+  let supabaseResponse = NextResponse.next({
+    request,
+  })
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          supabaseResponse = NextResponse.next({
+            request,
+          })
+          cookiesToSet.forEach(({ name, value, options }) =>
+            supabaseResponse.cookies.set(name, value, options)
+          )
+        },
+      },
+    }
+  )
+
+  // Redirect while keeping any refreshed session cookies
+  const redirectTo = (url: URL) => {
+    const response = NextResponse.redirect(url)
+    supabaseResponse.cookies.getAll().forEach(cookie => response.cookies.set(cookie))
+    return response
+  }
+
+  const { pathname, search } = request.nextUrl
+
+  const isProtectedRoute = matchesRoute(pathname, protectedRoutes)
+  const isAuthRoute = matchesRoute(pathname, authRoutes)
+  const isProfileSetup = matchesRoute(pathname, [PROFILE_SETUP_PATH])
+  const isRoot = pathname === '/'
+
+  if (!isProtectedRoute && !isAuthRoute && !isProfileSetup && !isRoot) {
+    return supabaseResponse
+  }
+
+  // Validates the session with Supabase Auth (and refreshes it if needed)
+  const { data: { user } } = await supabase.auth.getUser()
+
+  // Signed out: protected pages go to login, remembering where the user was headed
+  if (!user) {
+    if (isProtectedRoute || isProfileSetup || isRoot) {
+      const loginUrl = new URL('/login', request.url)
+      if (!isRoot) {
+        loginUrl.searchParams.set(RETURN_URL_PARAM, `${pathname}${search}`)
+      }
+      return redirectTo(loginUrl)
+    }
+
+    return supabaseResponse
+  }
+
+  // Signed in: a profile needs at least a display name before using the app
+  const { data: profile } = await supabase
+    .from('users')
+    .select('name')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  const isProfileComplete = Boolean(profile?.name?.trim())
+
+  if (!isProfileComplete && !isProfileSetup) {
+    const setupUrl = new URL(PROFILE_SETUP_PATH, request.url)
+    const returnPath = isAuthRoute
+      ? request.nextUrl.searchParams.get(RETURN_URL_PARAM)
+      : isRoot ? null : `${pathname}${search}`
+    if (returnPath) {
+      setupUrl.searchParams.set(RETURN_URL_PARAM, getSafeRedirectPath(returnPath))
+    }
+    return redirectTo(setupUrl)
+  }
+
+  // Signed-in users skip login/register (and the landing redirect)
+  if (isAuthRoute || isRoot) {
+    const destination = getSafeRedirectPath(request.nextUrl.searchParams.get(RETURN_URL_PARAM))
+    return redirectTo(new URL(isRoot ? DEFAULT_AUTHENTICATED_PATH : destination, request.url))
+  }
+
+  return supabaseResponse
+}
+
+export const config = {
+  matcher: [
+    /*
+     * Match all request paths except for the ones starting with:
+     * - _next/static (static files)
+     * - _next/image (image optimization files)
+     * - favicon.ico (favicon file)
+     * - api routes
+     * Feel free to modify this pattern to include more paths.
+     */
+    '/((?!_next/static|_next/image|favicon.ico|api/|icons/).*)',
+  ],
+}
@@ -29,10 +29,19 @@ export interface User {
   pace_range_max: number | null; // Minutes per mile, optional
   home_location_coords: GeoPoint | null; // PostGIS geography point, optional
   home_location_name: string | null; // Human-readable location, optional
+  availability: AvailabilityWindow[]; // Weekly free times, empty when not shared
+  availability_timezone: string | null; // IANA time zone the availability windows are in
   created_at: string; // ISO timestamp string
   updated_at: string; // ISO timestamp string
 }
 
+// Weekly window when a user is usually free to work out, in their own time zone
+export interface AvailabilityWindow {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start_minute: number; // Minutes after local midnight
+  end_minute: number; // Exclusive, up to 1440 (midnight)
+}
+
 // Type for inserting new users (all required fields + optional fields)
 export interface UserInsert {
   id?: string; // Optional, will be auto-generated if not provided
@@ -44,6 +53,8 @@ export interface UserInsert {
   pace_range_max?: number | null; // Optional
   home_location_coords?: GeoPoint | null; // Optional
   home_location_name?: string | null; // Optional
+  availability?: AvailabilityWindow[]; // Optional, defaults to empty array
+  availability_timezone?: string | null; // Optional
   created_at?: string; // Optional, will be auto-generated
   updated_at?: string; // Optional, will be auto-generated
 }
@@ -59,6 +70,8 @@ export interface UserUpdate {
   pace_range_max?: number | null; // Optional update (can be set to null)
   home_location_coords?: GeoPoint | null; // Optional update (can be set to null)
   home_location_name?: string | null; // Optional update (can be set to null)
+  availability?: AvailabilityWindow[]; // Optional update (empty to clear)
+  availability_timezone?: string | null; // Optional update (can be set to null)
   created_at?: string; // Usually not updated
   updated_at?: string; // Usually not updated (auto-generated by trigger)
 }
@@ -80,6 +93,8 @@ export interface UserProfileUpdate {
   pace_range_max?: number | null;
   home_location_coords?: GeoPoint | null;
   home_location_name?: string | null;
+  availability?: AvailabilityWindow[];
+  availability_timezone?: string | null;
 }
 
 // Type for user search/filtering
@@ -99,6 +114,21 @@ export interface UserSearchResult extends Omit<User, 'home_location_coords'> {
   distance_meters?: number; // Only present when searching by location
 }
 
+// Nearby user returned by find_users_near_location (phone number withheld)
+export type PartnerCandidate = Pick<
+  UserSearchResult,
+  'id' | 'name' | 'activity_preferences' | 'pace_range_min' | 'pace_range_max' | 'home_location_name'
+> & {
+  distance_meters: number;
+};
+
+// Ranked workout partner suggestion
+export interface PartnerMatch extends PartnerCandidate {
+  score: number; // 0-100, higher is a better match
+  shared_activities: ActivityType[]; // Activities both users enjoy
+  pace_overlap: number | null; // Minutes per mile shared by both pace ranges, null if either is unknown
+}
+
 // Type for user authentication context
 export interface UserAuth {
   id: string;
@@ -114,6 +144,372 @@ export interface UserPreferences {
   pace_range_max: number | null;
   home_location_coords: GeoPoint | null;
   home_location_name: string | null;
+  availability: AvailabilityWindow[];
+  availability_timezone: string | null;
+}
+
+// Candidate start time for a group workout, from /api/workouts/suggest-times
+export interface TimeSuggestion {
+  start_time: string; // ISO timestamp string
+  end_time: string; // ISO timestamp string
+  available: Pick<User, 'id' | 'name'>[]; // Invited friends free for the whole slot
+  unavailable: Pick<User, 'id' | 'name'>[]; // Invited friends who are busy then
+}
+
+// Workout status enum
+export enum WorkoutStatus {
+  SCHEDULED = "scheduled",
+  CANCELLED = "cancelled"
+}
+
+// Main Workout type representing a row from the workouts table
+export interface Workout {
+  id: string; // UUID
+  host_id: string; // UUID of the hosting user
+  title: string; // Required
+  activity_type: ActivityType; // Required
+  status: WorkoutStatus; // Defaults to scheduled
+  start_time: string; // ISO timestamp string
+  duration_minutes: number; // Planned duration
+  meeting_point_coords: GeoPoint | null; // PostGIS geography point, optional
+  meeting_point_name: string | null; // Human-readable meeting point, optional
+  pace_range_min: number | null; // Minutes per mile, optional
+  pace_range_max: number | null; // Minutes per mile, optional
+  capacity: number | null; // Max participants including host, null = unlimited
+  notes: string | null; // Optional
+  route: RoutePoint[] | null; // Planned route imported from a GPX/TCX file, optional
+  recurrence_rule: string | null; // RFC 5545 RRULE (e.g. FREQ=WEEKLY;BYDAY=TU,TH), null for one-off workouts
+  timezone: string | null; // IANA time zone the start time was chosen in (required when recurring)
+  recurrence_ends_at: string | null; // ISO timestamp of a recurring workout's last start, null when it repeats indefinitely or is one-off
+  sequence: number; // iCalendar SEQUENCE, bumped by the database on calendar-visible changes
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// Type for inserting new workouts
+export interface WorkoutInsert {
+  id?: string; // Optional, will be auto-generated if not provided
+  host_id: string; // Required
+  title: string; // Required
+  activity_type: ActivityType; // Required
+  status?: WorkoutStatus; // Optional, defaults to scheduled
+  start_time: string; // Required
+  duration_minutes: number; // Required
+  meeting_point_coords?: GeoPoint | null; // Optional
+  meeting_point_name?: string | null; // Optional
+  pace_range_min?: number | null; // Optional
+  pace_range_max?: number | null; // Optional
+  capacity?: number | null; // Optional
+  notes?: string | null; // Optional
+  recurrence_rule?: string | null; // Optional, one-off when omitted
+  timezone?: string | null; // Optional, required with a recurrence rule
+  recurrence_ends_at?: string | null; // Set from the schedule, never by clients
+  created_at?: string; // Optional, will be auto-generated
+  updated_at?: string; // Optional, will be auto-generated
+}
+
+// Type for updating existing workouts (host_id is never reassigned)
+export interface WorkoutUpdate {
+  title?: string; // Optional update
+  activity_type?: ActivityType; // Optional update
+  status?: WorkoutStatus; // Optional update
+  start_time?: string; // Optional update
+  duration_minutes?: number; // Optional update
+  meeting_point_coords?: GeoPoint | null; // Optional update (can be set to null)
+  meeting_point_name?: string | null; // Optional update (can be set to null)
+  pace_range_min?: number | null; // Optional update (can be set to null)
+  pace_range_max?: number | null; // Optional update (can be set to null)
+  capacity?: number | null; // Optional update (can be set to null)
+  notes?: string | null; // Optional update (can be set to null)
+  recurrence_rule?: string | null; // Optional update (null stops repeating)
+  timezone?: string | null; // Optional update (can be set to null)
+  recurrence_ends_at?: string | null; // Recomputed whenever the schedule changes
+  updated_at?: string; // Usually not updated (auto-generated by trigger)
+}
+
+// Type representing a row from the workout_occurrence_exceptions table:
+// one occurrence of a recurring workout that was cancelled or changed
+export interface WorkoutOccurrenceException {
+  id: string; // UUID
+  workout_id: string; // UUID of the recurring workout
+  occurrence_start: string; // ISO timestamp the schedule gives this occurrence
+  cancelled: boolean; // Whether this occurrence is called off
+  start_time: string | null; // Moved start time, null = as scheduled
+  duration_minutes: number | null; // Changed duration, null = series duration
+  meeting_point_name: string | null; // Changed meeting point, null = series meeting point
+  notes: string | null; // Extra notes for this occurrence, null = series notes
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// A single occurrence of a workout, after applying any exception
+export interface WorkoutOccurrence {
+  workout_id: string; // UUID
+  occurrence_start: string; // Start the schedule gives it; identifies the occurrence
+  start_time: string; // Actual start (differs from occurrence_start when moved)
+  duration_minutes: number;
+  meeting_point_name: string | null;
+  notes: string | null;
+  cancelled: boolean;
+  modified: boolean; // True when an exception changed this occurrence
+}
+
+// Type for workout create/edit form payloads sent to /api/workouts
+export type WorkoutFormData = Omit<WorkoutInsert, 'id' | 'host_id' | 'status' | 'created_at' | 'updated_at'>;
+
+// Type for workout with host details for display
+export interface WorkoutWithHost extends Workout {
+  host: Pick<User, 'id' | 'name'> | null;
+}
+
+// Type for workouts in lists, with the next occurrence of recurring ones
+export interface WorkoutListItem extends WorkoutWithHost {
+  next_occurrence: WorkoutOccurrence | null; // null once a one-off workout started or a series ended
+}
+
+// Workout RSVP status enum
+export enum ParticipantStatus {
+  GOING = "going",
+  MAYBE = "maybe",
+  WAITLISTED = "waitlisted",
+  DECLINED = "declined"
+}
+
+// Type representing a row from the workout_participants table
+export interface WorkoutParticipant {
+  id: string; // UUID
+  workout_id: string; // UUID
+  user_id: string; // UUID
+  status: ParticipantStatus;
+  responded_at: string; // ISO timestamp string, orders the waitlist
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// Type for participant with user details for display
+export interface WorkoutParticipantWithUser extends WorkoutParticipant {
+  user: Pick<User, 'id' | 'name'> | null;
+}
+
+// Type for the RSVP summary of a workout
+export interface WorkoutRsvpSummary {
+  going_count: number; // Includes the host
+  maybe_count: number;
+  waitlist_count: number;
+  spots_left: number | null; // null when capacity is unlimited
+  my_status: ParticipantStatus | null; // null when the user has not responded (or is the host)
+  my_waitlist_position: number | null; // 1-based, only when waitlisted
+  participants: WorkoutParticipantWithUser[];
+}
+
+// Friendship status enum
+export enum FriendshipStatus {
+  PENDING = "pending",
+  ACCEPTED = "accepted"
+}
+
+// Type representing a row from the friendships table
+export interface Friendship {
+  id: string; // UUID
+  requester_id: string; // UUID of the user who sent the request
+  addressee_id: string; // UUID of the user who received the request
+  status: FriendshipStatus;
+  accepted_at: string | null; // ISO timestamp string, set once accepted
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// Profile fields visible to friends
+export type FriendProfile = Pick<
+  User,
+  'id' | 'name' | 'activity_preferences' | 'pace_range_min' | 'pace_range_max' | 'home_location_name'
+>;
+
+// Type for a friend with the friendship that connects them
+export interface Friend extends FriendProfile {
+  friendship_id: string;
+  friends_since: string; // ISO timestamp string
+}
+
+// Type for a pending friend request (incoming or outgoing)
+export interface FriendRequest {
+  id: string; // Friendship UUID
+  user: FriendProfile; // The other user
+  created_at: string; // ISO timestamp string
+}
+
+// Type representing a row from the push_subscriptions table
+export interface StoredPushSubscription {
+  id: string; // UUID
+  user_id: string; // UUID of the subscribed user
+  endpoint: string; // Push service URL
+  p256dh: string; // Browser public key, base64url
+  auth: string; // Browser auth secret, base64url
+  user_agent: string | null; // Browser that created the subscription
+  last_success_at: string | null; // ISO timestamp string
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// Single sample of a GPS track
+export interface TrackPoint {
+  lat: number; // Degrees
+  lng: number; // Degrees
+  time: string; // ISO timestamp string
+  elevation?: number | null; // Meters above sea level, optional
+  heart_rate?: number | null; // Beats per minute, optional
+}
+
+// Continuous stretch of a track; each pause starts a new segment
+export type TrackSegment = TrackPoint[];
+
+// Point on a planned route (no timestamps)
+export type RoutePoint = Pick<TrackPoint, 'lat' | 'lng' | 'elevation'>;
+
+// Where an activity's track came from
+export enum ActivitySource {
+  RECORDED = "recorded",
+  GPX = "gpx",
+  TCX = "tcx",
+  FIT = "fit"
+}
+
+// Type representing a row from the activities table
+export interface Activity {
+  id: string; // UUID
+  user_id: string; // UUID of the user who did the activity
+  workout_id: string | null; // UUID of the attached workout, optional
+  activity_type: ActivityType;
+  source: ActivitySource;
+  started_at: string; // ISO timestamp string of the first track point
+  ended_at: string; // ISO timestamp string of the last track point
+  distance_meters: number; // Sum of all segments
+  moving_seconds: number; // Time spent inside segments (pauses excluded)
+  elapsed_seconds: number; // Wall-clock time from start to end
+  track: TrackSegment[];
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// Type for inserting new activities (totals are derived from the track)
+export type ActivityInsert = Omit<Activity, 'id' | 'created_at' | 'updated_at'>;
+
+// Activity without its track, for lists
+export type ActivitySummary = Omit<Activity, 'track'>;
+
+// Kinds of event shown in the friends feed
+export enum FeedItemType {
+  WORKOUT = "workout", // A friend scheduled a workout
+  RSVP = "rsvp", // A friend is going (or maybe going) to a workout
+  ACTIVITY = "activity" // A friend completed an activity
+}
+
+// Workout fields shown on feed items
+export type FeedWorkout = Pick<
+  Workout,
+  'id' | 'title' | 'activity_type' | 'status' | 'start_time' | 'meeting_point_name' | 'recurrence_rule' | 'timezone'
+>;
+
+interface FeedItemBase {
+  id: string; // "<type>:<row UUID>", unique across the feed
+  occurred_at: string; // ISO timestamp string, orders the feed
+  actor: Pick<User, 'id' | 'name'>; // The friend who did it
+}
+
+// Type for a single event in the friends feed
+export type FeedItem =
+  | (FeedItemBase & { type: FeedItemType.WORKOUT; workout: FeedWorkout })
+  | (FeedItemBase & { type: FeedItemType.RSVP; status: ParticipantStatus; workout: FeedWorkout })
+  | (FeedItemBase & {
+      type: FeedItemType.ACTIVITY;
+      activity: ActivitySummary;
+      workout: FeedWorkout | null;
+      reactions: ReactionSummary[];
+    });
+
+// Type representing a row from the workout_comments table
+export interface WorkoutComment {
+  id: string; // UUID
+  workout_id: string; // UUID
+  user_id: string; // UUID of the author
+  parent_id: string | null; // Top-level comment this replies to, null for top-level comments
+  body: string;
+  created_at: string; // ISO timestamp string
+  updated_at: string; // ISO timestamp string
+}
+
+// Type for a comment with its author for display
+export interface WorkoutCommentWithUser extends WorkoutComment {
+  user: Pick<User, 'id' | 'name'> | null;
+}
+
+// Type representing a row from the reactions table (exactly one target)
+export interface Reaction {
+  id: string; // UUID
+  user_id: string; // UUID
+  workout_id: string | null; // Workout reacted to, or the workout of the comment reacted to
+  comment_id: string | null; // Comment reacted to, if any
+  activity_id: string | null; // Activity reacted to, if any
+  emoji: string; // One of REACTION_EMOJIS
+  created_at: string; // ISO timestamp string
+}
+
+// Type for the reaction counts shown under a workout, comment or activity
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean; // Whether the current user added this emoji
+}
+
+// Type for a comment with its reactions and replies for display
+export interface WorkoutCommentThread extends WorkoutCommentWithUser {
+  reactions: ReactionSummary[];
+  replies: (WorkoutCommentWithUser & { reactions: ReactionSummary[] })[];
+}
+
+// Notification categories (keep in sync with the notifications_category_valid constraint)
+export enum NotificationCategory {
+  FRIEND_REQUEST = "friend_request", // Friend requests received and accepted
+  RSVP = "rsvp", // Someone responded to a workout you host
+  REMINDER = "reminder", // A workout you're going to starts soon
+  COMMENT = "comment", // Comments on your workouts and replies to your comments
+  CANCELLATION = "cancellation" // A workout you're going to was cancelled or moved
+}
+
+// Ways a notification can reach someone
+export enum NotificationChannel {
+  PUSH = "push",
+  IN_APP = "in_app", // The notification center and unread badge
+  SMS = "sms"
+}
+
+// Which channels a category is delivered over
+export type NotificationChannelSettings = Record<NotificationChannel, boolean>;
+
+// Daily window in which push and SMS are held back (may span midnight)
+export interface QuietHours {
+  start_minute: number; // Minutes after local midnight, 0-1439
+  end_minute: number; // Minutes after local midnight, 0-1439
+  timezone: string; // IANA time zone name
+}
+
+// A user's notification settings, with defaults filled in
+export interface NotificationPreferences {
+  categories: Record<NotificationCategory, NotificationChannelSettings>;
+  quiet_hours: QuietHours | null; // null when quiet hours are off
+}
+
+// Type representing a row from the notifications table
+export interface Notification {
+  id: string; // UUID
+  user_id: string; // UUID of the recipient
+  category: NotificationCategory;
+  title: string;
+  body: string;
+  url: string | null; // In-app path to open, e.g. "/workout/<id>"
+  actor_id: string | null; // UUID of the user whose action caused it
+  read_at: string | null; // ISO timestamp string, null while unread
+  created_at: string; // ISO timestamp string
 }
 
 // Type guards for runtime type checking
@@ -121,10 +517,16 @@ export const isActivityType = (value: string): value is ActivityType => {
   return Object.values(ActivityType).includes(value as ActivityType);
 };
 
-export const isValidPhoneNumber = (phone: string): boolean => {
-  // E.164 format validation: + followed by 1-15 digits
-  const e164Regex = /^\+[1-9]\d{1,14}$/;
-  return e164Regex.test(phone);
+export const isWorkoutStatus = (value: string): value is WorkoutStatus => {
+  return Object.values(WorkoutStatus).includes(value as WorkoutStatus);
+};
+
+export const isParticipantStatus = (value: string): value is ParticipantStatus => {
+  return Object.values(ParticipantStatus).includes(value as ParticipantStatus);
+};
+
+export const isActivitySource = (value: string): value is ActivitySource => {
+  return Object.values(ActivitySource).includes(value as ActivitySource);
 };
 
 export const isValidEmail = (email: string): boolean => {
@@ -142,10 +544,28 @@ export const VALIDATION_LIMITS = {
   NAME_MIN_LENGTH: 1,
   NAME_MAX_LENGTH: 100,
   PHONE_MAX_LENGTH: 16, // E.164 format limit
-  EMAIL_MAX_LENGTH: 255,
+  EMAIL_MAX_LENGTH: 254, // RFC 5321 limit
+  PASSWORD_MIN_LENGTH: 8,
+  PASSWORD_MAX_LENGTH: 128,
   LOCATION_NAME_MAX_LENGTH: 200,
   PACE_MIN: 3, // 3 minutes per mile (very fast)
   PACE_MAX: 20, // 20 minutes per mile (very slow)
+  WORKOUT_TITLE_MAX_LENGTH: 100,
+  WORKOUT_NOTES_MAX_LENGTH: 1000,
+  WORKOUT_DURATION_MIN: 5, // 5 minutes
+  WORKOUT_DURATION_MAX: 1440, // 24 hours
+  WORKOUT_CAPACITY_MIN: 1, // Host only
+  WORKOUT_CAPACITY_MAX: 100,
+  ACTIVITY_MAX_TRACK_POINTS: 20000, // About 5.5 hours at one fix per second
+  ACTIVITY_FILE_MAX_BYTES: 10 * 1024 * 1024, // 10 MB upload limit for GPX/TCX files
+  WORKOUT_ROUTE_MAX_POINTS: 2000, // Larger routes are thinned on import
+  COMMENT_MAX_LENGTH: 1000,
+  RECURRENCE_INTERVAL_MAX: 99, // "Every 99 weeks"
+  RECURRENCE_COUNT_MAX: 365, // Occurrences in a series with COUNT
+  OCCURRENCE_WINDOW_MAX_DAYS: 366, // Longest range /occurrences expands at once
+  AVAILABILITY_WINDOWS_MAX: 28, // Four windows a day
+  SUGGESTION_FRIENDS_MAX: 20, // Friends invited to one time search
+  SUGGESTION_DAYS_MAX: 28, // How far ahead times are suggested
 } as const;
 
 // Helper function to create GeoPoint from lat/lng
@@ -154,33 +574,12 @@ export const createGeoPoint = (latitude: number, longitude: number): GeoPoint =>
   coordinates: [longitude, latitude] // PostGIS expects [lng, lat]
 });
 
+// Helper function to convert GeoPoint to EWKT for writing geography columns
+export const geoPointToEWKT = (geoPoint: GeoPoint): string =>
+  `SRID=4326;POINT(${geoPoint.coordinates[0]} ${geoPoint.coordinates[1]})`;
+
 // Helper function to extract lat/lng from GeoPoint
 export const getLatLngFromGeoPoint = (geoPoint: GeoPoint): { lat: number; lng: number } => ({
   lat: geoPoint.coordinates[1],
   lng: geoPoint.coordinates[0]
 });
-
-// Helper function to format phone number for display
-export const formatPhoneNumber = (phone: string): string => {
-  // Convert E.164 to readable format
-  // +19195551234 -> (919) 555-1234
-  const cleaned = phone.replace(/\D/g, '');
-  if (cleaned.length === 11 && cleaned.startsWith('1')) {
-    const areaCode = cleaned.slice(1, 4);
-    const exchange = cleaned.slice(4, 7);
-    const number = cleaned.slice(7);
-    return `(${areaCode}) ${exchange}-${number}`;
-  }
-  return phone; // Return original if can't format
-};
-
-// Helper function to parse phone number to E.164
-export const parsePhoneNumber = (phone: string): string => {
-  const cleaned = phone.replace(/\D/g, '');
-  if (cleaned.length === 10) {
-    return `+1${cleaned}`; // Assume US number
-  } else if (cleaned.length === 11 && cleaned.startsWith('1')) {
-    return `+${cleaned}`;
-  }
-  return phone; // Return original if can't parse
-};
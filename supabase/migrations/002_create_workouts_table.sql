@@ -0,0 +1,77 @@
+-- Create workouts table
+CREATE TABLE IF NOT EXISTS public.workouts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    host_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    title text NOT NULL,
+    activity_type text NOT NULL,
+    status text NOT NULL DEFAULT 'scheduled',
+    start_time timestamp with time zone NOT NULL,
+    duration_minutes integer NOT NULL,
+    meeting_point_coords geography(Point, 4326),
+    meeting_point_name text,
+    pace_range_min integer,
+    pace_range_max integer,
+    capacity integer,
+    notes text,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT workouts_title_length CHECK (char_length(title) BETWEEN 1 AND 100),
+    CONSTRAINT workouts_activity_type_valid CHECK (
+        activity_type IN ('run', 'bike', 'walk', 'swim', 'hike', 'gym', 'yoga', 'pilates', 'crossfit', 'other')
+    ),
+    CONSTRAINT workouts_status_valid CHECK (status IN ('scheduled', 'cancelled')),
+    CONSTRAINT workouts_duration_valid CHECK (duration_minutes BETWEEN 5 AND 1440),
+    CONSTRAINT workouts_pace_range_valid CHECK (
+        pace_range_min IS NULL OR
+        pace_range_max IS NULL OR
+        pace_range_min <= pace_range_max
+    ),
+    CONSTRAINT workouts_capacity_valid CHECK (capacity IS NULL OR capacity BETWEEN 1 AND 100),
+    CONSTRAINT workouts_notes_length CHECK (notes IS NULL OR char_length(notes) <= 1000)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_workouts_host_id ON public.workouts(host_id);
+CREATE INDEX IF NOT EXISTS idx_workouts_start_time ON public.workouts(start_time);
+CREATE INDEX IF NOT EXISTS idx_workouts_activity_type ON public.workouts(activity_type);
+CREATE INDEX IF NOT EXISTS idx_workouts_meeting_point_coords ON public.workouts USING GIST(meeting_point_coords);
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_workouts_updated_at
+    BEFORE UPDATE ON public.workouts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.workouts ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Signed-in users can view workouts
+CREATE POLICY "Authenticated users can view workouts" ON public.workouts
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Users can create workouts they host
+CREATE POLICY "Users can create own workouts" ON public.workouts
+    FOR INSERT WITH CHECK (auth.uid() = host_id);
+
+-- Hosts can update their workouts
+CREATE POLICY "Hosts can update own workouts" ON public.workouts
+    FOR UPDATE USING (auth.uid() = host_id);
+
+-- Hosts can delete their workouts
+CREATE POLICY "Hosts can delete own workouts" ON public.workouts
+    FOR DELETE USING (auth.uid() = host_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.workouts IS 'Workout sessions hosted by WorkoutSync users';
+COMMENT ON COLUMN public.workouts.host_id IS 'User who created and manages the workout';
+COMMENT ON COLUMN public.workouts.activity_type IS 'Activity type (matches users.activity_preferences values)';
+COMMENT ON COLUMN public.workouts.status IS 'scheduled or cancelled';
+COMMENT ON COLUMN public.workouts.duration_minutes IS 'Planned duration in minutes';
+COMMENT ON COLUMN public.workouts.meeting_point_coords IS 'Meeting point as PostGIS geography point';
+COMMENT ON COLUMN public.workouts.meeting_point_name IS 'Human-readable meeting point';
+COMMENT ON COLUMN public.workouts.pace_range_min IS 'Minimum pace in minutes per mile';
+COMMENT ON COLUMN public.workouts.pace_range_max IS 'Maximum pace in minutes per mile';
+COMMENT ON COLUMN public.workouts.capacity IS 'Maximum number of participants including the host (NULL = unlimited)';
@@ -0,0 +1,194 @@
+-- Create workout participants table (RSVPs)
+CREATE TABLE IF NOT EXISTS public.workout_participants (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workout_id uuid NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    status text NOT NULL,
+    responded_at timestamp with time zone NOT NULL DEFAULT now(),
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT workout_participants_unique UNIQUE (workout_id, user_id),
+    CONSTRAINT workout_participants_status_valid CHECK (
+        status IN ('going', 'maybe', 'waitlisted', 'declined')
+    )
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_workout_participants_workout_id ON public.workout_participants(workout_id);
+CREATE INDEX IF NOT EXISTS idx_workout_participants_user_id ON public.workout_participants(user_id);
+CREATE INDEX IF NOT EXISTS idx_workout_participants_waitlist
+    ON public.workout_participants(workout_id, responded_at)
+    WHERE status = 'waitlisted';
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_workout_participants_updated_at
+    BEFORE UPDATE ON public.workout_participants
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.workout_participants ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Signed-in users can see who is attending workouts
+CREATE POLICY "Authenticated users can view participants" ON public.workout_participants
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Users can remove their own RSVP
+CREATE POLICY "Users can delete own RSVP" ON public.workout_participants
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Inserts and status changes go through set_workout_rsvp() so capacity
+-- and the waitlist are enforced atomically
+
+-- Promote waitlisted participants while the workout has free spots.
+-- Capacity includes the host, so the host always occupies one spot.
+CREATE OR REPLACE FUNCTION public.promote_workout_waitlist(p_workout_id uuid)
+RETURNS integer AS $$
+DECLARE
+    v_capacity integer;
+    v_going integer;
+    v_next uuid;
+    v_promoted integer := 0;
+BEGIN
+    SELECT w.capacity INTO v_capacity
+    FROM public.workouts w
+    WHERE w.id = p_workout_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    LOOP
+        SELECT count(*) INTO v_going
+        FROM public.workout_participants p
+        WHERE p.workout_id = p_workout_id AND p.status = 'going';
+
+        EXIT WHEN v_capacity IS NOT NULL AND v_going + 1 >= v_capacity;
+
+        SELECT p.id INTO v_next
+        FROM public.workout_participants p
+        WHERE p.workout_id = p_workout_id AND p.status = 'waitlisted'
+        ORDER BY p.responded_at, p.created_at
+        LIMIT 1;
+
+        EXIT WHEN v_next IS NULL;
+
+        UPDATE public.workout_participants
+        SET status = 'going', responded_at = now()
+        WHERE id = v_next;
+
+        v_promoted := v_promoted + 1;
+    END LOOP;
+
+    RETURN v_promoted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Set the current user's RSVP for a workout. Requests for 'going' on a
+-- full workout are stored as 'waitlisted'. Errors carry an application
+-- error code in HINT.
+CREATE OR REPLACE FUNCTION public.set_workout_rsvp(p_workout_id uuid, p_status text)
+RETURNS SETOF public.workout_participants AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_workout public.workouts%ROWTYPE;
+    v_existing public.workout_participants%ROWTYPE;
+    v_going integer;
+    v_status text := p_status;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING HINT = 'NOT_AUTHENTICATED';
+    END IF;
+
+    IF p_status NOT IN ('going', 'maybe', 'declined') THEN
+        RAISE EXCEPTION 'Invalid RSVP status' USING HINT = 'INVALID_STATUS';
+    END IF;
+
+    SELECT * INTO v_workout FROM public.workouts WHERE id = p_workout_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workout not found' USING HINT = 'WORKOUT_NOT_FOUND';
+    END IF;
+
+    IF v_workout.host_id = v_user_id THEN
+        RAISE EXCEPTION 'Hosts are always attending their own workout' USING HINT = 'HOST_CANNOT_RSVP';
+    END IF;
+
+    IF v_workout.status <> 'scheduled' THEN
+        RAISE EXCEPTION 'Workout has been cancelled' USING HINT = 'WORKOUT_CANCELLED';
+    END IF;
+
+    IF v_workout.start_time <= now() THEN
+        RAISE EXCEPTION 'Workout has already started' USING HINT = 'WORKOUT_STARTED';
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id;
+
+    IF p_status = 'going' THEN
+        IF v_existing.status IN ('going', 'waitlisted') THEN
+            RETURN NEXT v_existing;
+            RETURN;
+        END IF;
+
+        SELECT count(*) INTO v_going
+        FROM public.workout_participants
+        WHERE workout_id = p_workout_id AND status = 'going';
+
+        IF v_workout.capacity IS NOT NULL AND v_going + 1 >= v_workout.capacity THEN
+            v_status := 'waitlisted';
+        END IF;
+    END IF;
+
+    INSERT INTO public.workout_participants (workout_id, user_id, status, responded_at)
+    VALUES (p_workout_id, v_user_id, v_status, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET status = EXCLUDED.status, responded_at = EXCLUDED.responded_at;
+
+    -- Free spot opened up: move the waitlist along
+    IF v_existing.status = 'going' AND v_status <> 'going' THEN
+        PERFORM public.promote_workout_waitlist(p_workout_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Remove the current user's RSVP and promote the waitlist if a spot opened
+CREATE OR REPLACE FUNCTION public.leave_workout(p_workout_id uuid)
+RETURNS void AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_previous_status text;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING HINT = 'NOT_AUTHENTICATED';
+    END IF;
+
+    PERFORM 1 FROM public.workouts WHERE id = p_workout_id FOR UPDATE;
+
+    DELETE FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id
+    RETURNING status INTO v_previous_status;
+
+    IF v_previous_status IS NULL THEN
+        RAISE EXCEPTION 'You have not responded to this workout' USING HINT = 'RSVP_NOT_FOUND';
+    END IF;
+
+    IF v_previous_status = 'going' THEN
+        PERFORM public.promote_workout_waitlist(p_workout_id);
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.workout_participants IS 'RSVPs to workouts (the host is implicitly attending)';
+COMMENT ON COLUMN public.workout_participants.status IS 'going, maybe, waitlisted or declined';
+COMMENT ON COLUMN public.workout_participants.responded_at IS 'When the current status was set; orders the waitlist';
@@ -0,0 +1,87 @@
+-- Create friendships table
+-- A row is a friend request from requester to addressee; once accepted it
+-- represents a mutual friendship. Declined and cancelled requests are deleted.
+CREATE TABLE IF NOT EXISTS public.friendships (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    requester_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    addressee_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'pending',
+    accepted_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT friendships_not_self CHECK (requester_id <> addressee_id),
+    CONSTRAINT friendships_status_valid CHECK (status IN ('pending', 'accepted')),
+    CONSTRAINT friendships_accepted_at_valid CHECK (
+        (status = 'accepted') = (accepted_at IS NOT NULL)
+    )
+);
+
+-- Only one friendship row per pair of users, regardless of direction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_friendships_pair ON public.friendships (
+    LEAST(requester_id, addressee_id),
+    GREATEST(requester_id, addressee_id)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_friendships_requester_id ON public.friendships(requester_id);
+CREATE INDEX IF NOT EXISTS idx_friendships_addressee_id ON public.friendships(addressee_id);
+CREATE INDEX IF NOT EXISTS idx_friendships_status ON public.friendships(status);
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_friendships_updated_at
+    BEFORE UPDATE ON public.friendships
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.friendships ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can view friendships they are part of
+CREATE POLICY "Users can view own friendships" ON public.friendships
+    FOR SELECT USING (auth.uid() = requester_id OR auth.uid() = addressee_id);
+
+-- Users can send friend requests as themselves
+CREATE POLICY "Users can send friend requests" ON public.friendships
+    FOR INSERT WITH CHECK (auth.uid() = requester_id AND status = 'pending');
+
+-- Only the addressee can accept a request
+CREATE POLICY "Addressees can accept friend requests" ON public.friendships
+    FOR UPDATE USING (auth.uid() = addressee_id)
+    WITH CHECK (auth.uid() = addressee_id);
+
+-- Either side can decline, cancel or unfriend
+CREATE POLICY "Users can delete own friendships" ON public.friendships
+    FOR DELETE USING (auth.uid() = requester_id OR auth.uid() = addressee_id);
+
+-- Users can view the profiles of friends and of people with pending
+-- requests to or from them
+CREATE POLICY "Users can view connected profiles" ON public.users
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.friendships f
+            WHERE (f.requester_id = auth.uid() AND f.addressee_id = users.id)
+               OR (f.addressee_id = auth.uid() AND f.requester_id = users.id)
+        )
+    );
+
+-- Create function to check whether two users are friends
+CREATE OR REPLACE FUNCTION public.are_friends(user_a uuid, user_b uuid)
+RETURNS boolean AS $$
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.friendships f
+        WHERE f.status = 'accepted'
+        AND LEAST(f.requester_id, f.addressee_id) = LEAST(user_a, user_b)
+        AND GREATEST(f.requester_id, f.addressee_id) = GREATEST(user_a, user_b)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.friendships IS 'Friend requests and accepted friendships between users';
+COMMENT ON COLUMN public.friendships.requester_id IS 'User who sent the friend request';
+COMMENT ON COLUMN public.friendships.addressee_id IS 'User who received the friend request';
+COMMENT ON COLUMN public.friendships.status IS 'pending or accepted';
@@ -0,0 +1,74 @@
+-- Create push subscriptions table
+-- One row per browser push subscription (a user may have several devices)
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    endpoint text NOT NULL,
+    p256dh text NOT NULL,
+    auth text NOT NULL,
+    user_agent text,
+    last_success_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT push_subscriptions_endpoint_unique UNIQUE (endpoint),
+    CONSTRAINT push_subscriptions_endpoint_https CHECK (endpoint LIKE 'https://%')
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_push_subscriptions_updated_at
+    BEFORE UPDATE ON public.push_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can view their own subscriptions
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can remove their own subscriptions
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Inserts go through save_push_subscription() so a device that changes
+-- hands is reassigned to the signed-in user. Delivery (and pruning of
+-- expired subscriptions) runs server-side with the service role key.
+
+-- Save (or reassign) the caller's push subscription for a browser endpoint
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+    p_endpoint text,
+    p_p256dh text,
+    p_auth text,
+    p_user_agent text DEFAULT NULL
+)
+RETURNS SETOF public.push_subscriptions AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING HINT = 'NOT_AUTHENTICATED';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+    VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+    ON CONFLICT (endpoint) DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        p256dh = EXCLUDED.p256dh,
+        auth = EXCLUDED.auth,
+        user_agent = EXCLUDED.user_agent
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.push_subscriptions IS 'Web Push subscriptions for delivering notifications while the app is closed';
+COMMENT ON COLUMN public.push_subscriptions.endpoint IS 'Push service URL for this browser subscription';
+COMMENT ON COLUMN public.push_subscriptions.p256dh IS 'Browser P-256 public key (base64url) used for payload encryption';
+COMMENT ON COLUMN public.push_subscriptions.auth IS 'Browser authentication secret (base64url) used for payload encryption';
+COMMENT ON COLUMN public.push_subscriptions.last_success_at IS 'Last time a push was accepted by the push service';
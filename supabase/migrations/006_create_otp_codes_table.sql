@@ -0,0 +1,49 @@
+-- Create one-time login codes table
+-- Codes are never stored in plain text: code_hash is an HMAC of the phone
+-- number and code keyed with the server's OTP_SECRET.
+CREATE TABLE IF NOT EXISTS public.otp_codes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone_number text NOT NULL,
+    code_hash text NOT NULL,
+    purpose text NOT NULL DEFAULT 'login',
+    attempts integer NOT NULL DEFAULT 0,
+    max_attempts integer NOT NULL DEFAULT 5,
+    expires_at timestamp with time zone NOT NULL,
+    consumed_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT otp_codes_phone_format CHECK (phone_number ~ '^\+[1-9]\d{1,14}$'),
+    CONSTRAINT otp_codes_purpose_valid CHECK (purpose IN ('login')),
+    CONSTRAINT otp_codes_attempts_valid CHECK (attempts >= 0 AND attempts <= max_attempts)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_otp_codes_phone_created
+    ON public.otp_codes(phone_number, purpose, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_otp_codes_expires_at ON public.otp_codes(expires_at);
+
+-- Add Row Level Security (RLS)
+-- No policies: codes are only read and written server-side with the
+-- service role key, never by browsers.
+ALTER TABLE public.otp_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create function to remove codes that can no longer be used
+CREATE OR REPLACE FUNCTION public.delete_expired_otp_codes()
+RETURNS integer AS $$
+DECLARE
+    v_deleted integer;
+BEGIN
+    DELETE FROM public.otp_codes
+    WHERE expires_at < now() - interval '1 day';
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.otp_codes IS 'Hashed one-time SMS login codes';
+COMMENT ON COLUMN public.otp_codes.code_hash IS 'HMAC-SHA256 of phone number and code (hex)';
+COMMENT ON COLUMN public.otp_codes.attempts IS 'Failed verification attempts for this code';
+COMMENT ON COLUMN public.otp_codes.consumed_at IS 'Set once the code has been used successfully';
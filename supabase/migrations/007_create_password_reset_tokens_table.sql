@@ -0,0 +1,47 @@
+-- Create password reset tokens table
+-- Only a SHA-256 hash of each token is stored; the token itself exists
+-- solely in the link sent to the user.
+CREATE TABLE IF NOT EXISTS public.password_reset_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    token_hash text NOT NULL UNIQUE,
+    channel text NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    used_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT password_reset_tokens_channel_valid CHECK (channel IN ('sms', 'email')),
+    CONSTRAINT password_reset_tokens_expiry_valid CHECK (expires_at > created_at)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_created
+    ON public.password_reset_tokens(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires_at
+    ON public.password_reset_tokens(expires_at);
+
+-- Add Row Level Security (RLS)
+-- No policies: tokens are only issued and redeemed server-side with the
+-- service role key.
+ALTER TABLE public.password_reset_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Create function to remove tokens that can no longer be used
+CREATE OR REPLACE FUNCTION public.delete_expired_password_reset_tokens()
+RETURNS integer AS $$
+DECLARE
+    v_deleted integer;
+BEGIN
+    DELETE FROM public.password_reset_tokens
+    WHERE expires_at < now() - interval '1 day';
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.password_reset_tokens IS 'Single-use, time-limited password reset tokens';
+COMMENT ON COLUMN public.password_reset_tokens.token_hash IS 'SHA-256 of the reset token (hex)';
+COMMENT ON COLUMN public.password_reset_tokens.channel IS 'How the reset link was delivered: sms or email';
+COMMENT ON COLUMN public.password_reset_tokens.used_at IS 'Set once the token has been redeemed';
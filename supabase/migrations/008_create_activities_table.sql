@@ -0,0 +1,80 @@
+-- Create activities table
+-- A completed GPS activity, optionally attached to a workout the user
+-- hosted or went to. The track is stored as JSON segments; a new segment
+-- starts after every pause so paused time and distance are not counted.
+CREATE TABLE IF NOT EXISTS public.activities (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    workout_id uuid REFERENCES public.workouts(id) ON DELETE SET NULL,
+    activity_type text NOT NULL,
+    source text NOT NULL DEFAULT 'recorded',
+    started_at timestamp with time zone NOT NULL,
+    ended_at timestamp with time zone NOT NULL,
+    distance_meters double precision NOT NULL DEFAULT 0,
+    moving_seconds integer NOT NULL DEFAULT 0,
+    elapsed_seconds integer NOT NULL DEFAULT 0,
+    track jsonb NOT NULL DEFAULT '[]'::jsonb,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT activities_activity_type_valid CHECK (
+        activity_type IN ('run', 'bike', 'walk', 'swim', 'hike', 'gym', 'yoga', 'pilates', 'crossfit', 'other')
+    ),
+    CONSTRAINT activities_source_valid CHECK (source IN ('recorded')),
+    CONSTRAINT activities_time_order CHECK (ended_at >= started_at),
+    CONSTRAINT activities_distance_positive CHECK (distance_meters >= 0),
+    CONSTRAINT activities_moving_within_elapsed CHECK (
+        moving_seconds >= 0 AND moving_seconds <= elapsed_seconds
+    ),
+    CONSTRAINT activities_track_is_array CHECK (jsonb_typeof(track) = 'array')
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_activities_user_started ON public.activities(user_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_activities_workout_id ON public.activities(workout_id)
+    WHERE workout_id IS NOT NULL;
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_activities_updated_at
+    BEFORE UPDATE ON public.activities
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.activities ENABLE ROW LEVEL SECURITY;
+
+-- Whether a user hosted a workout or RSVP'd "going" to it
+CREATE OR REPLACE FUNCTION public.is_workout_attendee(p_workout_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.workouts w
+        WHERE w.id = p_workout_id AND w.host_id = p_user_id
+    ) OR EXISTS (
+        SELECT 1 FROM public.workout_participants p
+        WHERE p.workout_id = p_workout_id AND p.user_id = p_user_id AND p.status = 'going'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create RLS policies
+-- Users can view their own activities
+CREATE POLICY "Users can view own activities" ON public.activities
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can save activities as themselves, attached only to workouts they attended
+CREATE POLICY "Users can insert own activities" ON public.activities
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND (workout_id IS NULL OR public.is_workout_attendee(workout_id, auth.uid()))
+    );
+
+-- Users can delete their own activities
+CREATE POLICY "Users can delete own activities" ON public.activities
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.activities IS 'Completed GPS activities, recorded in the app';
+COMMENT ON COLUMN public.activities.workout_id IS 'Workout this activity was done for, if any';
+COMMENT ON COLUMN public.activities.source IS 'Where the track came from: recorded';
+COMMENT ON COLUMN public.activities.moving_seconds IS 'Time inside track segments, excluding manual and automatic pauses';
+COMMENT ON COLUMN public.activities.track IS 'Array of segments, each an array of {lat, lng, time, elevation?, heart_rate?} points';
@@ -0,0 +1,19 @@
+-- Add planned routes to workouts and allow activities imported from files
+-- Routes are JSON arrays of {lat, lng, elevation?} points imported from a
+-- GPX or TCX file by the host; activities may now come from GPX/TCX uploads.
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS route jsonb;
+
+ALTER TABLE public.workouts DROP CONSTRAINT IF EXISTS workouts_route_is_array;
+ALTER TABLE public.workouts ADD CONSTRAINT workouts_route_is_array CHECK (
+    route IS NULL OR jsonb_typeof(route) = 'array'
+);
+
+ALTER TABLE public.activities DROP CONSTRAINT IF EXISTS activities_source_valid;
+ALTER TABLE public.activities ADD CONSTRAINT activities_source_valid CHECK (
+    source IN ('recorded', 'gpx', 'tcx')
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.workouts.route IS 'Planned route as an array of {lat, lng, elevation?} points, optional';
+COMMENT ON COLUMN public.activities.source IS 'Where the track came from: recorded, gpx or tcx';
+COMMENT ON TABLE public.activities IS 'Completed GPS activities, recorded in the app or imported from files';
@@ -0,0 +1,8 @@
+-- Allow activities imported from Garmin FIT files
+ALTER TABLE public.activities DROP CONSTRAINT IF EXISTS activities_source_valid;
+ALTER TABLE public.activities ADD CONSTRAINT activities_source_valid CHECK (
+    source IN ('recorded', 'gpx', 'tcx', 'fit')
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.activities.source IS 'Where the track came from: recorded, gpx, tcx or fit';
@@ -0,0 +1,11 @@
+-- Let friends see each other's activities for the feed, and index the
+-- columns the feed orders each source by
+CREATE POLICY "Friends can view activities" ON public.activities
+    FOR SELECT USING (public.are_friends(auth.uid(), user_id));
+
+CREATE INDEX IF NOT EXISTS idx_activities_user_ended_at
+    ON public.activities(user_id, ended_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workouts_host_created_at
+    ON public.workouts(host_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_workout_participants_user_responded_at
+    ON public.workout_participants(user_id, responded_at DESC);
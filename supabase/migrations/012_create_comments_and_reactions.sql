@@ -0,0 +1,158 @@
+-- Create workout comments and reactions
+-- Comments are threaded one level deep: a reply's parent is always a
+-- top-level comment on the same workout. Reactions are emoji attached to a
+-- workout, a comment on it, or a completed activity; comment reactions also
+-- carry the comment's workout_id so one realtime filter covers a workout page.
+CREATE TABLE IF NOT EXISTS public.workout_comments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workout_id uuid NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    parent_id uuid REFERENCES public.workout_comments(id) ON DELETE CASCADE,
+    body text NOT NULL,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT workout_comments_body_length CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+    CONSTRAINT workout_comments_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE TABLE IF NOT EXISTS public.reactions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    workout_id uuid REFERENCES public.workouts(id) ON DELETE CASCADE,
+    comment_id uuid REFERENCES public.workout_comments(id) ON DELETE CASCADE,
+    activity_id uuid REFERENCES public.activities(id) ON DELETE CASCADE,
+    emoji text NOT NULL,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT reactions_one_target CHECK (
+        (workout_id IS NOT NULL AND activity_id IS NULL)
+        OR (workout_id IS NULL AND comment_id IS NULL AND activity_id IS NOT NULL)
+    ),
+    CONSTRAINT reactions_emoji_valid CHECK (emoji IN ('👍', '🔥', '💪', '🎉', '❤️', '😂'))
+);
+
+-- One of each emoji per user per target
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reactions_unique ON public.reactions (
+    user_id,
+    COALESCE(comment_id, workout_id, activity_id),
+    emoji
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_workout_comments_workout_created
+    ON public.workout_comments(workout_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_workout_comments_parent_id ON public.workout_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_reactions_workout_id ON public.reactions(workout_id);
+CREATE INDEX IF NOT EXISTS idx_reactions_comment_id ON public.reactions(comment_id);
+CREATE INDEX IF NOT EXISTS idx_reactions_activity_id ON public.reactions(activity_id);
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_workout_comments_updated_at
+    BEFORE UPDATE ON public.workout_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.workout_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reactions ENABLE ROW LEVEL SECURITY;
+
+-- Whether a user may see and join a workout's discussion: the host, anyone
+-- who RSVP'd, and the host's friends
+CREATE OR REPLACE FUNCTION public.can_view_workout_discussion(p_workout_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.workouts w
+        WHERE w.id = p_workout_id
+        AND (w.host_id = p_user_id OR public.are_friends(w.host_id, p_user_id))
+    ) OR EXISTS (
+        SELECT 1 FROM public.workout_participants p
+        WHERE p.workout_id = p_workout_id AND p.user_id = p_user_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether a user may see reactions on an activity: its owner and their friends
+CREATE OR REPLACE FUNCTION public.can_view_activity(p_activity_id uuid, p_user_id uuid)
+RETURNS boolean AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.activities a
+        WHERE a.id = p_activity_id
+        AND (a.user_id = p_user_id OR public.are_friends(a.user_id, p_user_id))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Create RLS policies
+-- Participants and friends of the host can read a workout's comments
+CREATE POLICY "Participants and friends can view comments" ON public.workout_comments
+    FOR SELECT USING (public.can_view_workout_discussion(workout_id, auth.uid()));
+
+-- They can also comment as themselves; replies must hang off a top-level
+-- comment on the same workout
+CREATE POLICY "Participants and friends can comment" ON public.workout_comments
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_view_workout_discussion(workout_id, auth.uid())
+        AND (
+            parent_id IS NULL
+            OR EXISTS (
+                SELECT 1 FROM public.workout_comments parent
+                WHERE parent.id = workout_comments.parent_id
+                AND parent.workout_id = workout_comments.workout_id
+                AND parent.parent_id IS NULL
+            )
+        )
+    );
+
+-- Authors can delete their comments, and hosts can moderate their workouts
+CREATE POLICY "Authors and hosts can delete comments" ON public.workout_comments
+    FOR DELETE USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM public.workouts w
+            WHERE w.id = workout_comments.workout_id AND w.host_id = auth.uid()
+        )
+    );
+
+-- Reactions are visible to whoever can see what they are attached to
+CREATE POLICY "Users can view reactions on visible targets" ON public.reactions
+    FOR SELECT USING (
+        CASE
+            WHEN activity_id IS NOT NULL THEN public.can_view_activity(activity_id, auth.uid())
+            ELSE public.can_view_workout_discussion(workout_id, auth.uid())
+        END
+    );
+
+-- Users can react as themselves to visible targets; comment reactions must
+-- name the comment's workout
+CREATE POLICY "Users can react to visible targets" ON public.reactions
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND CASE
+            WHEN activity_id IS NOT NULL THEN public.can_view_activity(activity_id, auth.uid())
+            ELSE public.can_view_workout_discussion(workout_id, auth.uid())
+        END
+        AND (
+            comment_id IS NULL
+            OR EXISTS (
+                SELECT 1 FROM public.workout_comments c
+                WHERE c.id = reactions.comment_id AND c.workout_id = reactions.workout_id
+            )
+        )
+    );
+
+-- Users can remove their own reactions
+CREATE POLICY "Users can delete own reactions" ON public.reactions
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Broadcast changes to Supabase Realtime subscribers (RLS still applies)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workout_comments, public.reactions;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.workout_comments IS 'Comments on workouts, threaded one level deep';
+COMMENT ON COLUMN public.workout_comments.parent_id IS 'Top-level comment this is a reply to, if any';
+COMMENT ON TABLE public.reactions IS 'Emoji reactions on workouts, workout comments and activities';
+COMMENT ON COLUMN public.reactions.workout_id IS 'Workout reacted to, or the workout of the comment reacted to';
+COMMENT ON COLUMN public.reactions.comment_id IS 'Comment reacted to, if any';
+COMMENT ON COLUMN public.reactions.activity_id IS 'Activity reacted to, if any';
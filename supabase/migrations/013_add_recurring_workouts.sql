@@ -0,0 +1,154 @@
+-- Add recurring workouts and per-occurrence exceptions
+-- A recurring workout is a single row whose start_time is the first
+-- occurrence and whose recurrence_rule (RFC 5545 RRULE subset) is expanded in
+-- the workout's time zone by the app. Hosts can cancel or change individual
+-- occurrences; those changes live in workout_occurrence_exceptions, keyed by
+-- the start time the schedule gives the occurrence.
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS recurrence_rule text;
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS timezone text;
+
+ALTER TABLE public.workouts DROP CONSTRAINT IF EXISTS workouts_recurrence_timezone;
+ALTER TABLE public.workouts ADD CONSTRAINT workouts_recurrence_timezone CHECK (
+    recurrence_rule IS NULL OR timezone IS NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.workout_occurrence_exceptions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workout_id uuid NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+    occurrence_start timestamp with time zone NOT NULL,
+    cancelled boolean NOT NULL DEFAULT false,
+    start_time timestamp with time zone,
+    duration_minutes integer,
+    meeting_point_name text,
+    notes text,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT workout_occurrence_exceptions_unique UNIQUE (workout_id, occurrence_start),
+    CONSTRAINT workout_occurrence_exceptions_duration_valid CHECK (
+        duration_minutes IS NULL OR duration_minutes BETWEEN 5 AND 1440
+    ),
+    CONSTRAINT workout_occurrence_exceptions_notes_length CHECK (notes IS NULL OR char_length(notes) <= 1000)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_workouts_recurring ON public.workouts(host_id) WHERE recurrence_rule IS NOT NULL;
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_workout_occurrence_exceptions_updated_at
+    BEFORE UPDATE ON public.workout_occurrence_exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.workout_occurrence_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Exceptions are visible to everyone who can see workouts
+CREATE POLICY "Authenticated users can view occurrence exceptions" ON public.workout_occurrence_exceptions
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Hosts manage the exceptions of their workouts
+CREATE POLICY "Hosts can create occurrence exceptions" ON public.workout_occurrence_exceptions
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.workouts w
+            WHERE w.id = workout_occurrence_exceptions.workout_id AND w.host_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Hosts can update occurrence exceptions" ON public.workout_occurrence_exceptions
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.workouts w
+            WHERE w.id = workout_occurrence_exceptions.workout_id AND w.host_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Hosts can delete occurrence exceptions" ON public.workout_occurrence_exceptions
+    FOR DELETE USING (
+        EXISTS (
+            SELECT 1 FROM public.workouts w
+            WHERE w.id = workout_occurrence_exceptions.workout_id AND w.host_id = auth.uid()
+        )
+    );
+
+-- RSVPs to a recurring workout cover the whole series, so they stay open
+-- after the first occurrence has started
+CREATE OR REPLACE FUNCTION public.set_workout_rsvp(p_workout_id uuid, p_status text)
+RETURNS SETOF public.workout_participants AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_workout public.workouts%ROWTYPE;
+    v_existing public.workout_participants%ROWTYPE;
+    v_going integer;
+    v_status text := p_status;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING HINT = 'NOT_AUTHENTICATED';
+    END IF;
+
+    IF p_status NOT IN ('going', 'maybe', 'declined') THEN
+        RAISE EXCEPTION 'Invalid RSVP status' USING HINT = 'INVALID_STATUS';
+    END IF;
+
+    SELECT * INTO v_workout FROM public.workouts WHERE id = p_workout_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workout not found' USING HINT = 'WORKOUT_NOT_FOUND';
+    END IF;
+
+    IF v_workout.host_id = v_user_id THEN
+        RAISE EXCEPTION 'Hosts are always attending their own workout' USING HINT = 'HOST_CANNOT_RSVP';
+    END IF;
+
+    IF v_workout.status <> 'scheduled' THEN
+        RAISE EXCEPTION 'Workout has been cancelled' USING HINT = 'WORKOUT_CANCELLED';
+    END IF;
+
+    IF v_workout.recurrence_rule IS NULL AND v_workout.start_time <= now() THEN
+        RAISE EXCEPTION 'Workout has already started' USING HINT = 'WORKOUT_STARTED';
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id;
+
+    IF p_status = 'going' THEN
+        IF v_existing.status IN ('going', 'waitlisted') THEN
+            RETURN NEXT v_existing;
+            RETURN;
+        END IF;
+
+        SELECT count(*) INTO v_going
+        FROM public.workout_participants
+        WHERE workout_id = p_workout_id AND status = 'going';
+
+        IF v_workout.capacity IS NOT NULL AND v_going + 1 >= v_workout.capacity THEN
+            v_status := 'waitlisted';
+        END IF;
+    END IF;
+
+    INSERT INTO public.workout_participants (workout_id, user_id, status, responded_at)
+    VALUES (p_workout_id, v_user_id, v_status, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET status = EXCLUDED.status, responded_at = EXCLUDED.responded_at;
+
+    -- Free spot opened up: move the waitlist along
+    IF v_existing.status = 'going' AND v_status <> 'going' THEN
+        PERFORM public.promote_workout_waitlist(p_workout_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.workouts.recurrence_rule IS 'RFC 5545 RRULE (FREQ, INTERVAL, BYDAY, COUNT, UNTIL); NULL for one-off workouts';
+COMMENT ON COLUMN public.workouts.timezone IS 'IANA time zone the start time was chosen in; recurring workouts keep its wall-clock time';
+COMMENT ON TABLE public.workout_occurrence_exceptions IS 'Cancelled or changed occurrences of recurring workouts';
+COMMENT ON COLUMN public.workout_occurrence_exceptions.occurrence_start IS 'Start time the schedule gives the occurrence (RECURRENCE-ID)';
+COMMENT ON COLUMN public.workout_occurrence_exceptions.start_time IS 'Moved start time, NULL = as scheduled';
@@ -0,0 +1,69 @@
+-- Add iCalendar feeds
+-- Each user can have one private feed URL. Calendar apps fetch it without a
+-- session, so the token in the URL is the only credential; like password
+-- reset tokens, only a SHA-256 hash of it is stored.
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+    token_hash text NOT NULL UNIQUE,
+    last_used_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Add Row Level Security (RLS)
+-- No policies: tokens are only issued and looked up server-side with the
+-- service role key.
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Calendar apps only replace an event they already have when its SEQUENCE
+-- goes up, so workouts count their revisions. Exceptions share the counter
+-- of their workout: a restored occurrence must also supersede the override
+-- a calendar app saw earlier.
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS sequence integer NOT NULL DEFAULT 0;
+
+-- Bump the sequence when anything shown in a calendar changes
+CREATE OR REPLACE FUNCTION public.bump_workout_sequence()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.status IS DISTINCT FROM OLD.status
+        OR NEW.start_time IS DISTINCT FROM OLD.start_time
+        OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+        OR NEW.meeting_point_coords IS DISTINCT FROM OLD.meeting_point_coords
+        OR NEW.meeting_point_name IS DISTINCT FROM OLD.meeting_point_name
+        OR NEW.notes IS DISTINCT FROM OLD.notes
+        OR NEW.recurrence_rule IS DISTINCT FROM OLD.recurrence_rule
+        OR NEW.timezone IS DISTINCT FROM OLD.timezone
+    THEN
+        NEW.sequence = OLD.sequence + 1;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_workouts_sequence
+    BEFORE UPDATE ON public.workouts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.bump_workout_sequence();
+
+-- Any change to an occurrence revises its series
+CREATE OR REPLACE FUNCTION public.bump_workout_sequence_for_exception()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.workouts
+    SET sequence = sequence + 1
+    WHERE id = COALESCE(NEW.workout_id, OLD.workout_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER bump_workout_sequence_on_exception_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.workout_occurrence_exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.bump_workout_sequence_for_exception();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Private iCalendar feed URLs, one per user';
+COMMENT ON COLUMN public.calendar_feed_tokens.token_hash IS 'SHA-256 of the feed token (hex)';
+COMMENT ON COLUMN public.calendar_feed_tokens.last_used_at IS 'When a calendar app last fetched the feed';
+COMMENT ON COLUMN public.workouts.sequence IS 'iCalendar SEQUENCE: revisions to the workout or its occurrences';
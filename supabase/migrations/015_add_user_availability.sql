@@ -0,0 +1,17 @@
+-- Add weekly availability to user profiles
+-- Windows are stored as a JSON array of {day, start_minute, end_minute}
+-- (day 0 = Sunday, minutes after local midnight) in availability_timezone,
+-- so "weekdays 6-8am" stays 6-8am across DST changes. The app validates and
+-- merges windows before saving.
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS availability jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS availability_timezone text;
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_availability_valid;
+ALTER TABLE public.users ADD CONSTRAINT users_availability_valid CHECK (
+    jsonb_typeof(availability) = 'array'
+    AND (availability = '[]'::jsonb OR availability_timezone IS NOT NULL)
+);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.users.availability IS 'Weekly free times: [{day, start_minute, end_minute}] in availability_timezone';
+COMMENT ON COLUMN public.users.availability_timezone IS 'IANA time zone the availability windows are in';
@@ -0,0 +1,58 @@
+-- Create notifications table
+-- In-app notification center: one row per recipient, written server-side
+-- with the service role key whenever something is also sent over Web Push.
+-- Recipients can read their notifications and mark them read or unread.
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    category text NOT NULL,
+    title text NOT NULL,
+    body text NOT NULL,
+    url text,
+    actor_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+    read_at timestamp with time zone,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT notifications_category_valid CHECK (category IN ('friend_request', 'rsvp', 'comment')),
+    CONSTRAINT notifications_title_length CHECK (char_length(title) BETWEEN 1 AND 200),
+    CONSTRAINT notifications_body_length CHECK (char_length(body) <= 1000),
+    CONSTRAINT notifications_url_relative CHECK (url IS NULL OR url LIKE '/%')
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+    ON public.notifications(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+    ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can view their own notifications
+CREATE POLICY "Users can view own notifications" ON public.notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can mark their own notifications read or unread
+CREATE POLICY "Users can update own notifications" ON public.notifications
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Users can clear their own notifications
+CREATE POLICY "Users can delete own notifications" ON public.notifications
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Only read_at may change; everything else is written by the server
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Broadcast changes to Supabase Realtime subscribers (RLS still applies)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.notifications IS 'In-app notifications, one row per recipient';
+COMMENT ON COLUMN public.notifications.category IS 'What the notification is about: friend_request, rsvp or comment';
+COMMENT ON COLUMN public.notifications.url IS 'In-app path opened when the notification is tapped';
+COMMENT ON COLUMN public.notifications.actor_id IS 'User whose action caused the notification, if any';
+COMMENT ON COLUMN public.notifications.read_at IS 'When the recipient read the notification, null while unread';
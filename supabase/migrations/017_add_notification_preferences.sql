@@ -0,0 +1,60 @@
+-- Add notification preferences
+-- Users choose, per category, whether notifications reach them over push,
+-- in-app or SMS, and may set daily quiet hours in their own time zone.
+-- Preferences live in their own table rather than on users, since friends
+-- can read each other's profile rows.
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    categories jsonb NOT NULL DEFAULT '{}'::jsonb,
+    quiet_hours_start smallint,
+    quiet_hours_end smallint,
+    quiet_hours_timezone text,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT notification_preferences_categories_object CHECK (jsonb_typeof(categories) = 'object'),
+    CONSTRAINT notification_preferences_quiet_hours_complete CHECK (
+        (quiet_hours_start IS NULL AND quiet_hours_end IS NULL AND quiet_hours_timezone IS NULL)
+        OR (
+            quiet_hours_start BETWEEN 0 AND 1439
+            AND quiet_hours_end BETWEEN 0 AND 1439
+            AND quiet_hours_start <> quiet_hours_end
+            AND quiet_hours_timezone IS NOT NULL
+        )
+    )
+);
+
+-- Workout reminders and cancellation alerts join the existing categories
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_category_valid;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_category_valid
+    CHECK (category IN ('friend_request', 'rsvp', 'reminder', 'comment', 'cancellation'));
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+-- Users can view, create and change only their own preferences; the
+-- dispatcher reads everyone's with the service role key
+CREATE POLICY "Users can view own notification preferences" ON public.notification_preferences
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own notification preferences" ON public.notification_preferences
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences" ON public.notification_preferences
+    FOR UPDATE USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE public.notification_preferences IS 'Per-user notification channels by category and quiet hours';
+COMMENT ON COLUMN public.notification_preferences.categories IS 'Map of category to {push, in_app, sms} booleans; missing entries use the app defaults';
+COMMENT ON COLUMN public.notification_preferences.quiet_hours_start IS 'Start of quiet hours in minutes after local midnight';
+COMMENT ON COLUMN public.notification_preferences.quiet_hours_end IS 'End of quiet hours in minutes after local midnight (before the start when spanning midnight)';
+COMMENT ON COLUMN public.notification_preferences.quiet_hours_timezone IS 'IANA time zone quiet hours are observed in';
@@ -0,0 +1,254 @@
+-- Add scheduled workout alerts
+-- Reminders and cancellation/change alerts are sent by jobs that run on a
+-- schedule (/api/jobs/*) with the service role key. Changes to workouts are
+-- captured here by triggers, with the people to tell, so the job can alert
+-- them even after the workout itself has been deleted. Every alert a job
+-- sends is recorded per recipient in notification_deliveries, so a job that
+-- runs twice, or retries after a failure, never notifies anyone twice.
+CREATE TABLE IF NOT EXISTS public.workout_change_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    workout_id uuid NOT NULL, -- No foreign key: deleted workouts keep their events
+    host_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    kind text NOT NULL,
+    recurring boolean NOT NULL DEFAULT false, -- The change applies to a whole series
+    workout_deleted boolean NOT NULL DEFAULT false,
+    occurrence_start timestamp with time zone, -- Set when one occurrence of a series changed
+    title text NOT NULL,
+    start_time timestamp with time zone NOT NULL,
+    previous_start_time timestamp with time zone,
+    meeting_point_name text,
+    previous_meeting_point_name text,
+    timezone text,
+    recipient_ids uuid[] NOT NULL,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    processed_at timestamp with time zone,
+
+    -- Constraints
+    CONSTRAINT workout_change_events_kind_valid CHECK (kind IN ('cancelled', 'changed', 'restored'))
+);
+
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    dedupe_key text NOT NULL,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    category text NOT NULL,
+    status text NOT NULL DEFAULT 'pending',
+    attempts integer NOT NULL DEFAULT 0,
+    last_error text,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+    -- Constraints
+    CONSTRAINT notification_deliveries_unique UNIQUE (dedupe_key, user_id),
+    CONSTRAINT notification_deliveries_status_valid CHECK (status IN ('pending', 'sending', 'sent', 'failed'))
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_workout_change_events_unprocessed
+    ON public.workout_change_events(created_at) WHERE processed_at IS NULL;
+
+-- Create trigger to auto-update updated_at on row changes
+CREATE TRIGGER update_notification_deliveries_updated_at
+    BEFORE UPDATE ON public.notification_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add Row Level Security (RLS)
+-- No policies: both tables are only used with the service role key
+ALTER TABLE public.workout_change_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Everyone who still plans to come (going, maybe or waitlisted)
+CREATE OR REPLACE FUNCTION public.workout_alert_recipients(p_workout_id uuid)
+RETURNS uuid[] AS $$
+    SELECT COALESCE(array_agg(p.user_id), '{}')
+    FROM public.workout_participants p
+    WHERE p.workout_id = p_workout_id AND p.status <> 'declined';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Record cancellations and time or meeting point changes of upcoming
+-- workouts (any change to a recurring series counts)
+CREATE OR REPLACE FUNCTION public.record_workout_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_workout public.workouts;
+    v_kind text;
+    v_recipients uuid[];
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_workout := OLD;
+        v_kind := 'cancelled';
+        IF OLD.status = 'cancelled' THEN
+            RETURN OLD;
+        END IF;
+    ELSIF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+        v_workout := NEW;
+        v_kind := 'cancelled';
+    ELSIF NEW.status = 'scheduled' AND OLD.status = 'cancelled' THEN
+        v_workout := NEW;
+        v_kind := 'restored';
+    ELSIF NEW.status = 'scheduled' AND (
+        NEW.start_time IS DISTINCT FROM OLD.start_time
+        OR NEW.meeting_point_coords IS DISTINCT FROM OLD.meeting_point_coords
+        OR NEW.meeting_point_name IS DISTINCT FROM OLD.meeting_point_name
+    ) THEN
+        v_workout := NEW;
+        v_kind := 'changed';
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    -- Workouts that are over need no alerts
+    IF v_workout.recurrence_rule IS NULL AND GREATEST(OLD.start_time, v_workout.start_time) <= now() THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    v_recipients := public.workout_alert_recipients(v_workout.id);
+
+    IF cardinality(v_recipients) > 0 THEN
+        INSERT INTO public.workout_change_events (
+            workout_id, host_id, kind, recurring, workout_deleted, title, start_time, previous_start_time,
+            meeting_point_name, previous_meeting_point_name, timezone, recipient_ids
+        ) VALUES (
+            v_workout.id, v_workout.host_id, v_kind, v_workout.recurrence_rule IS NOT NULL, TG_OP = 'DELETE',
+            v_workout.title, v_workout.start_time,
+            CASE WHEN OLD.start_time IS DISTINCT FROM v_workout.start_time THEN OLD.start_time END,
+            v_workout.meeting_point_name,
+            CASE WHEN OLD.meeting_point_name IS DISTINCT FROM v_workout.meeting_point_name THEN OLD.meeting_point_name END,
+            v_workout.timezone, v_recipients
+        );
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deletes are captured before participants are removed with the workout
+CREATE TRIGGER record_workout_change_on_update
+    AFTER UPDATE ON public.workouts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_workout_change();
+
+CREATE TRIGGER record_workout_change_on_delete
+    BEFORE DELETE ON public.workouts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_workout_change();
+
+-- Record a single occurrence of a series being cancelled, moved or restored
+CREATE OR REPLACE FUNCTION public.record_occurrence_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_exception public.workout_occurrence_exceptions := COALESCE(NEW, OLD);
+    v_workout public.workouts;
+    v_kind text;
+    v_recipients uuid[];
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_kind := 'restored';
+    ELSIF NEW.cancelled AND (TG_OP = 'INSERT' OR NOT OLD.cancelled) THEN
+        v_kind := 'cancelled';
+    ELSIF TG_OP = 'UPDATE' AND OLD.cancelled AND NOT NEW.cancelled THEN
+        v_kind := 'restored';
+    ELSIF NOT NEW.cancelled AND (
+        TG_OP = 'INSERT'
+        OR NEW.start_time IS DISTINCT FROM OLD.start_time
+        OR NEW.meeting_point_name IS DISTINCT FROM OLD.meeting_point_name
+    ) AND (NEW.start_time IS NOT NULL OR NEW.meeting_point_name IS NOT NULL OR TG_OP = 'UPDATE') THEN
+        v_kind := 'changed';
+    ELSE
+        RETURN NEW;
+    END IF;
+
+    -- Occurrences that are over need no alerts
+    IF GREATEST(v_exception.occurrence_start, COALESCE(v_exception.start_time, v_exception.occurrence_start)) <= now() THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    SELECT * INTO v_workout FROM public.workouts WHERE id = v_exception.workout_id;
+
+    -- The whole series is being deleted or is already cancelled
+    IF NOT FOUND OR v_workout.status = 'cancelled' THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    v_recipients := public.workout_alert_recipients(v_workout.id);
+
+    IF cardinality(v_recipients) > 0 THEN
+        INSERT INTO public.workout_change_events (
+            workout_id, host_id, kind, occurrence_start, title, start_time, previous_start_time,
+            meeting_point_name, previous_meeting_point_name, timezone, recipient_ids
+        ) VALUES (
+            v_workout.id, v_workout.host_id, v_kind, v_exception.occurrence_start, v_workout.title,
+            CASE WHEN TG_OP = 'DELETE' THEN v_exception.occurrence_start
+                ELSE COALESCE(NEW.start_time, NEW.occurrence_start) END,
+            CASE WHEN v_kind <> 'changed' THEN NULL
+                WHEN TG_OP = 'INSERT' THEN CASE WHEN NEW.start_time IS NOT NULL THEN NEW.occurrence_start END
+                WHEN OLD.start_time IS DISTINCT FROM NEW.start_time THEN COALESCE(OLD.start_time, OLD.occurrence_start) END,
+            CASE WHEN TG_OP = 'DELETE' THEN v_workout.meeting_point_name
+                ELSE COALESCE(NEW.meeting_point_name, v_workout.meeting_point_name) END,
+            CASE WHEN v_kind <> 'changed' THEN NULL
+                WHEN TG_OP = 'INSERT' THEN CASE WHEN NEW.meeting_point_name IS NOT NULL THEN v_workout.meeting_point_name END
+                WHEN OLD.meeting_point_name IS DISTINCT FROM NEW.meeting_point_name
+                THEN COALESCE(OLD.meeting_point_name, v_workout.meeting_point_name) END,
+            v_workout.timezone, v_recipients
+        );
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_occurrence_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.workout_occurrence_exceptions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_occurrence_change();
+
+-- Claim one recipient's delivery of an alert before sending it. Returns
+-- 'claimed' when the caller should send it, 'busy' while another run is
+-- sending it (claims older than ten minutes are treated as abandoned) and
+-- 'done' once it has been sent or has run out of attempts.
+CREATE OR REPLACE FUNCTION public.claim_notification_delivery(
+    p_dedupe_key text,
+    p_user_id uuid,
+    p_category text,
+    p_max_attempts integer
+)
+RETURNS text AS $$
+DECLARE
+    v_delivery public.notification_deliveries;
+BEGIN
+    INSERT INTO public.notification_deliveries (dedupe_key, user_id, category)
+    VALUES (p_dedupe_key, p_user_id, p_category)
+    ON CONFLICT (dedupe_key, user_id) DO NOTHING;
+
+    UPDATE public.notification_deliveries
+    SET status = 'sending', attempts = attempts + 1
+    WHERE dedupe_key = p_dedupe_key
+    AND user_id = p_user_id
+    AND attempts < p_max_attempts
+    AND (
+        status IN ('pending', 'failed')
+        OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    );
+
+    IF FOUND THEN
+        RETURN 'claimed';
+    END IF;
+
+    SELECT * INTO v_delivery FROM public.notification_deliveries
+    WHERE dedupe_key = p_dedupe_key AND user_id = p_user_id;
+
+    RETURN CASE WHEN v_delivery.status = 'sending' THEN 'busy' ELSE 'done' END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the service role runs jobs
+REVOKE EXECUTE ON FUNCTION public.claim_notification_delivery(text, uuid, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.workout_alert_recipients(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.workout_change_events IS 'Cancellations and time/meeting point changes waiting to be announced to participants';
+COMMENT ON COLUMN public.workout_change_events.recipient_ids IS 'Participants (not declined) when the change was made';
+COMMENT ON COLUMN public.workout_change_events.processed_at IS 'When every recipient had been alerted or run out of attempts';
+COMMENT ON TABLE public.notification_deliveries IS 'One row per alert per recipient, so scheduled jobs deliver each alert once';
+COMMENT ON COLUMN public.notification_deliveries.dedupe_key IS 'Identifies the alert, e.g. reminder:<workout id>:<occurrence start>';
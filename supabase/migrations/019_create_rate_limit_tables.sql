@@ -0,0 +1,114 @@
+-- Create rate limit tables
+-- Sign-in, registration and login code requests are limited per IP address
+-- and per phone number over a sliding window, and repeated failed sign-ins
+-- lock a phone number out for progressively longer. Keys look like
+-- "login:phone:+19195551234" or "register:ip:203.0.113.7". Only used
+-- server-side with the service role key.
+CREATE TABLE IF NOT EXISTS public.rate_limit_hits (
+    id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    key text NOT NULL,
+    created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_lockouts (
+    key text PRIMARY KEY,
+    failures integer NOT NULL DEFAULT 0,
+    last_failure_at timestamp with time zone NOT NULL DEFAULT now(),
+    locked_until timestamp with time zone,
+
+    -- Constraints
+    CONSTRAINT rate_limit_lockouts_failures_valid CHECK (failures >= 0)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_created
+    ON public.rate_limit_hits(key, created_at);
+
+-- Add Row Level Security (RLS)
+-- No policies: both tables are only used with the service role key
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_lockouts ENABLE ROW LEVEL SECURITY;
+
+-- Count an attempt against a key unless p_limit attempts were already made
+-- in the last p_window_seconds. Returns 0 when the attempt was counted, or
+-- the seconds until the oldest attempt leaves the window.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+    p_key text,
+    p_limit integer,
+    p_window_seconds integer,
+    p_now timestamp with time zone DEFAULT now()
+)
+RETURNS integer AS $$
+DECLARE
+    v_window_start timestamp with time zone := p_now - make_interval(secs => p_window_seconds);
+    v_count integer;
+    v_oldest timestamp with time zone;
+BEGIN
+    -- Concurrent attempts on the same key are counted one at a time
+    PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+    DELETE FROM public.rate_limit_hits
+    WHERE key = p_key AND created_at <= v_window_start;
+
+    SELECT count(*), min(created_at) INTO v_count, v_oldest
+    FROM public.rate_limit_hits
+    WHERE key = p_key;
+
+    IF v_count >= p_limit THEN
+        RETURN GREATEST(1, ceil(extract(epoch FROM v_oldest - v_window_start))::integer);
+    END IF;
+
+    INSERT INTO public.rate_limit_hits (key, created_at) VALUES (p_key, p_now);
+    RETURN 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add a failure to a key's streak and return the failures so far. A streak
+-- starts over after p_reset_seconds without failures.
+CREATE OR REPLACE FUNCTION public.record_rate_limit_failure(
+    p_key text,
+    p_reset_seconds integer,
+    p_now timestamp with time zone DEFAULT now()
+)
+RETURNS integer AS $$
+    INSERT INTO public.rate_limit_lockouts AS l (key, failures, last_failure_at)
+    VALUES (p_key, 1, p_now)
+    ON CONFLICT (key) DO UPDATE
+    SET failures = CASE
+            WHEN l.last_failure_at < p_now - make_interval(secs => p_reset_seconds) THEN 1
+            ELSE l.failures + 1
+        END,
+        last_failure_at = p_now
+    RETURNING failures;
+$$ LANGUAGE sql;
+
+-- Create function to remove attempts and streaks that no longer matter
+CREATE OR REPLACE FUNCTION public.delete_expired_rate_limits()
+RETURNS integer AS $$
+DECLARE
+    v_hits integer;
+    v_lockouts integer;
+BEGIN
+    DELETE FROM public.rate_limit_hits
+    WHERE created_at < now() - interval '1 day';
+    GET DIAGNOSTICS v_hits = ROW_COUNT;
+
+    DELETE FROM public.rate_limit_lockouts
+    WHERE last_failure_at < now() - interval '1 day'
+    AND (locked_until IS NULL OR locked_until < now());
+    GET DIAGNOSTICS v_lockouts = ROW_COUNT;
+
+    RETURN v_hits + v_lockouts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role limits requests
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit(text, integer, integer, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_rate_limit_failure(text, integer, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_expired_rate_limits() FROM PUBLIC, anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.rate_limit_hits IS 'Recent attempts per rate limit key, for sliding window limits';
+COMMENT ON TABLE public.rate_limit_lockouts IS 'Failure streaks and lockouts per rate limit key';
+COMMENT ON COLUMN public.rate_limit_lockouts.failures IS 'Failures since the last success, or since the streak went quiet';
+COMMENT ON COLUMN public.rate_limit_lockouts.locked_until IS 'Attempts are refused until this time';
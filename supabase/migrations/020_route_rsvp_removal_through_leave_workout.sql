@@ -0,0 +1,9 @@
+-- Route RSVP removal through leave_workout()
+-- Deleting a "going" row directly skipped the waitlist promotion that
+-- leave_workout() does, so the freed spot stayed empty. Without a DELETE
+-- policy the function is the only way to leave.
+DROP POLICY IF EXISTS "Users can delete own RSVP" ON public.workout_participants;
+
+-- Only called from set_workout_rsvp(), leave_workout() and (since 025) the
+-- capacity change trigger, which all run as the function owner
+REVOKE EXECUTE ON FUNCTION public.promote_workout_waitlist(uuid) FROM PUBLIC, anon, authenticated;
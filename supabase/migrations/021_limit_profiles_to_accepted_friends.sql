@@ -0,0 +1,37 @@
+-- Limit full profiles to accepted friends
+-- Any friendship row used to unlock the whole users row, phone number and
+-- email included, and anyone can create a pending request to any user id.
+-- Pending requests now only reveal the non-sensitive columns shown on the
+-- friends page, through get_friend_request_profiles().
+DROP POLICY IF EXISTS "Users can view connected profiles" ON public.users;
+
+CREATE POLICY "Users can view friends' profiles" ON public.users
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.friendships f
+            WHERE f.status = 'accepted'
+            AND (
+                (f.requester_id = auth.uid() AND f.addressee_id = users.id)
+                OR (f.addressee_id = auth.uid() AND f.requester_id = users.id)
+            )
+        )
+    );
+
+-- Create function returning the other side of the caller's pending friend
+-- requests, without contact details
+CREATE OR REPLACE FUNCTION public.get_friend_request_profiles()
+RETURNS TABLE (
+    id uuid,
+    name text,
+    activity_preferences jsonb,
+    pace_range_min integer,
+    pace_range_max integer,
+    home_location_name text
+) AS $$
+    SELECT u.id, u.name, u.activity_preferences, u.pace_range_min, u.pace_range_max, u.home_location_name
+    FROM public.friendships f
+    JOIN public.users u
+      ON u.id = CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END
+    WHERE f.status = 'pending'
+    AND (f.requester_id = auth.uid() OR f.addressee_id = auth.uid());
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
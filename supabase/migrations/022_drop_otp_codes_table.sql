@@ -0,0 +1,5 @@
+-- Drop the login codes table
+-- Supabase Auth now issues and checks SMS login codes itself (phone OTP with
+-- a Send SMS hook), so sessions from codes are ordinary Supabase sessions.
+DROP FUNCTION IF EXISTS public.delete_expired_otp_codes();
+DROP TABLE IF EXISTS public.otp_codes;
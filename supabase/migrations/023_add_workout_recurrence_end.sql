@@ -0,0 +1,109 @@
+-- Record when a recurring workout's series ends
+-- recurrence_ends_at is the start of the last occurrence of a series with
+-- COUNT or UNTIL, worked out by the app whenever the schedule changes. It
+-- lets queries and RSVPs treat a series that has run out like a one-off
+-- workout that has started. NULL for one-off workouts and for series that
+-- repeat indefinitely.
+ALTER TABLE public.workouts ADD COLUMN IF NOT EXISTS recurrence_ends_at timestamp with time zone;
+
+-- Backfill existing series with an upper bound; the app writes the exact
+-- value the next time the host edits the schedule. Stored rules are
+-- normalized, so UNTIL is always UTC. A daily or weekly COUNT series ends
+-- within COUNT + 1 periods (a day of margin covers DST); monthly COUNT
+-- series can skip months, so they are left open.
+UPDATE public.workouts
+SET recurrence_ends_at = CASE
+    WHEN recurrence_rule ~ 'UNTIL=\d{8}T\d{6}Z' THEN
+        to_timestamp(substring(recurrence_rule from 'UNTIL=(\d{8}T\d{6})Z'), 'YYYYMMDD"T"HH24MISS')::timestamp AT TIME ZONE 'UTC'
+    WHEN recurrence_rule ~ 'COUNT=\d+' AND recurrence_rule ~ 'FREQ=(DAILY|WEEKLY)' THEN
+        start_time
+            + (substring(recurrence_rule from 'COUNT=(\d+)')::integer + 1)
+            * COALESCE(substring(recurrence_rule from 'INTERVAL=(\d+)')::integer, 1)
+            * CASE WHEN recurrence_rule ~ 'FREQ=DAILY' THEN interval '1 day' ELSE interval '1 week' END
+            + interval '1 day'
+END
+WHERE recurrence_rule IS NOT NULL AND recurrence_ends_at IS NULL;
+
+ALTER TABLE public.workouts DROP CONSTRAINT IF EXISTS workouts_recurrence_ends_at_recurring;
+ALTER TABLE public.workouts ADD CONSTRAINT workouts_recurrence_ends_at_recurring CHECK (
+    recurrence_ends_at IS NULL OR recurrence_rule IS NOT NULL
+);
+
+-- Upcoming-workout queries filter on it
+CREATE INDEX IF NOT EXISTS idx_workouts_recurrence_ends_at
+    ON public.workouts(recurrence_ends_at) WHERE recurrence_rule IS NOT NULL;
+
+-- RSVPs to a recurring workout stay open until its last occurrence starts
+CREATE OR REPLACE FUNCTION public.set_workout_rsvp(p_workout_id uuid, p_status text)
+RETURNS SETOF public.workout_participants AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_workout public.workouts%ROWTYPE;
+    v_existing public.workout_participants%ROWTYPE;
+    v_going integer;
+    v_status text := p_status;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING HINT = 'NOT_AUTHENTICATED';
+    END IF;
+
+    IF p_status NOT IN ('going', 'maybe', 'declined') THEN
+        RAISE EXCEPTION 'Invalid RSVP status' USING HINT = 'INVALID_STATUS';
+    END IF;
+
+    SELECT * INTO v_workout FROM public.workouts WHERE id = p_workout_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Workout not found' USING HINT = 'WORKOUT_NOT_FOUND';
+    END IF;
+
+    IF v_workout.host_id = v_user_id THEN
+        RAISE EXCEPTION 'Hosts are always attending their own workout' USING HINT = 'HOST_CANNOT_RSVP';
+    END IF;
+
+    IF v_workout.status <> 'scheduled' THEN
+        RAISE EXCEPTION 'Workout has been cancelled' USING HINT = 'WORKOUT_CANCELLED';
+    END IF;
+
+    IF (v_workout.recurrence_rule IS NULL AND v_workout.start_time <= now())
+        OR v_workout.recurrence_ends_at <= now() THEN
+        RAISE EXCEPTION 'Workout has already started' USING HINT = 'WORKOUT_STARTED';
+    END IF;
+
+    SELECT * INTO v_existing
+    FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id;
+
+    IF p_status = 'going' THEN
+        IF v_existing.status IN ('going', 'waitlisted') THEN
+            RETURN NEXT v_existing;
+            RETURN;
+        END IF;
+
+        SELECT count(*) INTO v_going
+        FROM public.workout_participants
+        WHERE workout_id = p_workout_id AND status = 'going';
+
+        IF v_workout.capacity IS NOT NULL AND v_going + 1 >= v_workout.capacity THEN
+            v_status := 'waitlisted';
+        END IF;
+    END IF;
+
+    INSERT INTO public.workout_participants (workout_id, user_id, status, responded_at)
+    VALUES (p_workout_id, v_user_id, v_status, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET status = EXCLUDED.status, responded_at = EXCLUDED.responded_at;
+
+    -- Free spot opened up: move the waitlist along
+    IF v_existing.status = 'going' AND v_status <> 'going' THEN
+        PERFORM public.promote_workout_waitlist(p_workout_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM public.workout_participants
+    WHERE workout_id = p_workout_id AND user_id = v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.workouts.recurrence_ends_at IS 'Start of the last occurrence of a series with COUNT or UNTIL; NULL for one-off workouts and open-ended series';
@@ -0,0 +1,31 @@
+-- Limit friend request updates to accepting them
+-- The UPDATE policy from 004 let the addressee rewrite any column of a
+-- pending request, so pointing requester_id at another user and accepting
+-- made them a "friend" who never asked, with full access to their profile
+-- under 021. Now only status can change, and only from pending to accepted;
+-- accepted_at is stamped by the database.
+DROP POLICY IF EXISTS "Addressees can accept friend requests" ON public.friendships;
+
+CREATE POLICY "Addressees can accept friend requests" ON public.friendships
+    FOR UPDATE USING (auth.uid() = addressee_id AND status = 'pending')
+    WITH CHECK (auth.uid() = addressee_id AND status = 'accepted');
+
+REVOKE UPDATE ON public.friendships FROM anon, authenticated;
+GRANT UPDATE (status) ON public.friendships TO authenticated;
+
+-- Create function to stamp accepted_at when a request is accepted
+CREATE OR REPLACE FUNCTION public.stamp_friendship_accepted_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'accepted' AND OLD.status <> 'accepted' THEN
+        NEW.accepted_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_friendships_accepted_at ON public.friendships;
+CREATE TRIGGER stamp_friendships_accepted_at
+    BEFORE UPDATE OF status ON public.friendships
+    FOR EACH ROW
+    EXECUTE FUNCTION public.stamp_friendship_accepted_at();
@@ -0,0 +1,21 @@
+-- Promote the waitlist when a workout's capacity changes
+-- The API used to call promote_workout_waitlist() as the host after raising
+-- the capacity, which 020 revoked from browsers, so nobody got promoted.
+-- The database now does it in the same transaction as the update; if
+-- promotion fails, so does the update.
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_capacity_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.promote_workout_waitlist(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS promote_workouts_waitlist_on_capacity ON public.workouts;
+CREATE TRIGGER promote_workouts_waitlist_on_capacity
+    AFTER UPDATE OF capacity ON public.workouts
+    FOR EACH ROW
+    WHEN (NEW.capacity IS DISTINCT FROM OLD.capacity)
+    EXECUTE FUNCTION public.promote_waitlist_on_capacity_change();
+
+REVOKE EXECUTE ON FUNCTION public.promote_waitlist_on_capacity_change() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,168 @@
+// Custom service worker code, bundled into the generated sw.js by next-pwa
+
+// Mirror the unread notification count on the app icon (Badging API)
+function updateAppBadge(count) {
+  if (typeof count !== 'number' || !('setAppBadge' in self.navigator)) {
+    return Promise.resolve();
+  }
+
+  const update = count > 0 ? self.navigator.setAppBadge(count) : self.navigator.clearAppBadge();
+  return update.catch(() => {});
+}
+
+// Show notifications sent from the server (see src/lib/services/push.ts)
+self.addEventListener('push', (event) => {
+  if (!event.data) {
+    return;
+  }
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: 'WorkoutSync', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    Promise.all([
+      self.registration.showNotification(payload.title || 'WorkoutSync', {
+        body: payload.body,
+        icon: payload.icon || '/icons/icon-192x192.svg',
+        badge: payload.badge || '/icons/icon-72x72.svg',
+        tag: payload.tag,
+        data: payload.data,
+        actions: payload.actions,
+        vibrate: [200, 100, 200],
+      }),
+      updateAppBadge(payload.data && payload.data.unread_count),
+    ])
+  );
+});
+
+// Mark the in-app notification read once its push is tapped
+function markNotificationRead(notificationId) {
+  if (!notificationId) {
+    return Promise.resolve();
+  }
+
+  return fetch(`/api/notifications/${notificationId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ read: true }),
+  })
+    .then((response) => (response.ok ? response.json() : null))
+    .then((result) => result && updateAppBadge(result.unread_count))
+    .catch(() => {});
+}
+
+// Focus an open window (or open one) when a notification is tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  if (event.action === 'close') {
+    return;
+  }
+
+  const data = event.notification.data || {};
+  const targetUrl = new URL(data.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    Promise.all([
+      markNotificationRead(data.notification_id),
+      self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+        for (const client of windows) {
+          if (client.url === targetUrl && 'focus' in client) {
+            return client.focus();
+          }
+        }
+
+        for (const client of windows) {
+          if ('navigate' in client && 'focus' in client) {
+            return client.navigate(targetUrl).then((navigated) => (navigated || client).focus());
+          }
+        }
+
+        return self.clients.openWindow(targetUrl);
+      }),
+    ])
+  );
+});
+
+// Offline outbox replay (see src/lib/outbox.ts - the IndexedDB layout must match)
+const OUTBOX_DB_NAME = 'workoutsync-outbox';
+const OUTBOX_STORE = 'requests';
+const OUTBOX_SYNC_TAG = 'outbox-sync';
+const OUTBOX_CHANNEL = 'workoutsync-outbox';
+const OUTBOX_LOCK = 'workoutsync-outbox-replay';
+
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOutbox() {
+  const request = indexedDB.open(OUTBOX_DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+  };
+  return idbRequest(request);
+}
+
+async function replayOutbox() {
+  const db = await openOutbox();
+  const entries = await idbRequest(db.transaction(OUTBOX_STORE).objectStore(OUTBOX_STORE).getAll());
+  const store = () => db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE);
+
+  try {
+    for (const entry of entries.filter((item) => item.status === 'pending')) {
+      let response;
+      try {
+        response = await fetch(entry.url, {
+          method: entry.method,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(entry.body),
+          credentials: 'same-origin',
+        });
+      } catch (error) {
+        await idbRequest(store().put({ ...entry, attempts: entry.attempts + 1 }));
+        throw error; // Rejecting lets the browser retry the sync later
+      }
+
+      if (response.ok) {
+        await idbRequest(store().delete(entry.id));
+      } else if (response.status >= 400 && response.status < 500) {
+        const data = await response.json().catch(() => ({}));
+        await idbRequest(store().put({
+          ...entry,
+          status: 'failed',
+          attempts: entry.attempts + 1,
+          lastError: data.error || `Request failed with status ${response.status}`,
+        }));
+      } else {
+        await idbRequest(store().put({ ...entry, attempts: entry.attempts + 1 }));
+        throw new Error(`Server error ${response.status}`);
+      }
+    }
+  } finally {
+    // Let open pages refresh their pending/failed counts
+    if ('BroadcastChannel' in self) {
+      const channel = new BroadcastChannel(OUTBOX_CHANNEL);
+      channel.postMessage({ type: 'outbox-updated' });
+      channel.close();
+    }
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) {
+    return;
+  }
+
+  event.waitUntil(
+    self.navigator.locks
+      ? self.navigator.locks.request(OUTBOX_LOCK, replayOutbox)
+      : replayOutbox()
+  );
+});